@@ -1,97 +1,459 @@
-import React, { useState, useEffect } from 'react';
-import { Reminder, User, ReminderType, CommunicationMethod, RecurrenceType } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Reminder, ReminderDraft, User, Category, CommunicationMethod, Occurrence, OccurrenceScope } from './types';
 import TimelineCalendar from './components/TimelineCalendar';
+import SwimlaneTimeline from './components/SwimlaneTimeline';
 import ReminderWidget from './components/ReminderWidget';
 import Assistant from './components/Assistant';
-import UserProfile from './components/UserProfile';
-import { Bell, Search, LayoutGrid, List as ListIcon, Trash2, CheckCircle2, Repeat, Mail, MessageSquare, Phone, AlertCircle, Plus, Contact } from 'lucide-react';
+import UserProfile, { AuthMode, KnownAccount } from './components/UserProfile';
+import SeriesScopeDialog from './components/SeriesScopeDialog';
+import CompletionHistory from './components/CompletionHistory';
+import ExportDialog from './components/ExportDialog';
+import ImportDialog, { ImportDecision } from './components/ImportDialog';
+import BackupDialog from './components/BackupDialog';
+import QuotaDialog from './components/QuotaDialog';
+import SearchBar from './components/SearchBar';
+import CategoryDialog from './components/CategoryDialog';
+import CategoryIcon from './components/CategoryIcon';
+import { describeRRule } from './services/rruleService';
+import {
+  occurrencePatch, overrideOccurrence, skipOccurrence, truncateSeries, splitSeries, updateSeries
+} from './services/seriesService';
+import { getDueOccurrence, toggleOccurrenceCompleted } from './services/completionService';
+import { Repository, RepositorySnapshot, RepositoryChange, GUEST_USER, createMemoryRepository, withTabSync, diffReminders, applyReminderChange } from './services/repository';
+import { openIndexedDbRepository } from './services/indexedDbRepository';
+import { SyncEngine, SyncSnapshot, createSyncEngine, createHttpTransport, localSyncQueueStore } from './services/syncEngine';
+import { Session, register, login, logout, verifySession, loadSession, saveSession } from './services/authService';
+import { createNotificationScheduler, systemClock, NotificationScheduler } from './services/notificationScheduler';
+import {
+  createBrowserNotifier, localSchedulerStore, registerNotificationWorker, onNotificationSnooze, takePendingSnooze,
+  getNotificationPermission, requestNotificationPermission
+} from './services/notificationService';
+import { syncDeliverySchedule } from './services/deliveryService';
+import { deviceTimeZone, differsFromViewer, formatZonedTime } from './services/timeZoneService';
+import { Move, MoveScope, rescheduleOccurrence, recordMove, undoMove } from './services/rescheduleService';
+import { AssistantHandlers } from './services/assistantService';
+import { AiSettings, loadAiSettings, saveAiSettings, setAiSessionToken } from './services/aiService';
+import { SavedFilter, SearchQuery, SearchSyntaxError, parseSearchQuery, matchesSearch, loadSavedFilters, saveSavedFilters } from './services/searchService';
+import { describeAlert, describeOffset } from './services/alertService';
+import { userCategories, findCategory, categoryColor, mergeCategories, reassignCategory } from './services/categoryService';
+import { QuotaError, planFor, measureUsage, checkReminderQuota, replaceOldest, countAiCalls, consumeAiCall } from './services/planService';
+import { Bell, BellRing, Pin, LayoutGrid, List as ListIcon, Trash2, CheckCircle2, Repeat, Mail, MessageSquare, Phone, AlertCircle, Plus, Contact, Download, Upload, Archive, X, Undo2, CalendarDays, ChartGantt } from 'lucide-react';
+
+// How often a signed-in app pulls changes from other devices
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// How long the last calendar move can be undone
+const UNDO_MOVE_MS = 10 * 1000;
 
 // Utility for ID generation
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
 function App() {
   // --- State ---
-  const [user, setUser] = useState<User>({ id: 'temp-user', isTemp: true, name: 'Guest' });
+  const [user, setUser] = useState<User>(GUEST_USER);
+  const [session, setSession] = useState<Session | null>(null);
+  const [knownUsers, setKnownUsers] = useState<User[]>([]); // accounts used on this device
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [showWidget, setShowWidget] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [overviewMode, setOverviewMode] = useState<'calendar' | 'timeline'>('calendar');
   const [searchQuery, setSearchQuery] = useState('');
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState(getNotificationPermission());
+  const schedulerRef = useRef<NotificationScheduler | null>(null);
+  const syncRef = useRef<SyncEngine | null>(null);
+  const [syncSnapshot, setSyncSnapshot] = useState<SyncSnapshot | null>(null);
 
   // Editing / Creating State
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
+  const [editingOccurrenceDate, setEditingOccurrenceDate] = useState<Date | null>(null);
   const [initialWidgetDate, setInitialWidgetDate] = useState<Date | null>(null);
   
-  // Guest replacement logic
-  const [pendingReminderData, setPendingReminderData] = useState<Omit<Reminder, 'id' | 'createdAt' | 'userId'> | null>(null);
-  const [showReplaceDialog, setShowReplaceDialog] = useState(false);
+  // Plan limits; a new reminder the guest plan would replace the oldest with waits in pendingReminderData
+  const [quotaError, setQuotaError] = useState<QuotaError | null>(null);
+  const [pendingReminderData, setPendingReminderData] = useState<ReminderDraft | null>(null);
+  const [aiCallsToday, setAiCallsToday] = useState(0);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings); // per device
+
+  // Recurring series: which occurrences a delete applies to
+  const [pendingSeriesDelete, setPendingSeriesDelete] = useState<{ id: string; occurrenceDate: Date } | null>(null);
+  // ...and whether a calendar drop moves the occurrence or the series
+  const [pendingMove, setPendingMove] = useState<{ id: string; originalDate: Date; from: Date; to: Date } | null>(null);
+
+  // The last calendar move, offered for undo for a short while
+  const [lastMove, setLastMove] = useState<Move | null>(null);
+
+  // iCalendar transfer and backups
+  const [transferDialog, setTransferDialog] = useState<'import' | 'export' | 'backup' | null>(null);
+  const [showCategoryDialog, setShowCategoryDialog] = useState(false);
+
+  // Storage and account problems, shown above the overview
+  const [appNotice, setAppNotice] = useState<string | null>(null);
+
+  const plan = planFor(user);
+  const defaultTimeZone = user.timeZone || deviceTimeZone();
+  const categories = userCategories(user);
+  const usage = measureUsage(reminders, aiCallsToday);
 
   // --- Effects (Persistance) ---
+  const repositoryRef = useRef<Repository | null>(null);
+  // What the repository holds, to work out which reminders a change touched
+  const persistedRef = useRef<{ user: User | null; reminders: Reminder[] }>({ user: null, reminders: [] });
+
+  // Reminders of accounts synced for the first time after a guest moved into them
+  const pendingUploadRef = useRef<Reminder[]>([]);
+
+  // `reminders` plus changes made since this render, so several changes in one
+  // go (e.g. the assistant's tool calls) build on each other
+  const latestRemindersRef = useRef<Reminder[]>(reminders);
+  latestRemindersRef.current = reminders;
+
+  // Changes that didn't come from this tab's UI. They count as persisted, so the
+  // save effect neither writes them again nor queues them for sync.
+  const applyExternalChange = (change: RepositoryChange) => {
+    const persisted = persistedRef.current;
+    persistedRef.current = {
+      user: change.user ?? persisted.user,
+      reminders: applyReminderChange(persisted.reminders, change),
+    };
+    if (change.user) setUser(change.user);
+    setReminders(prev => applyReminderChange(prev, change));
+  };
+
+  // Show another user's reminders. Nothing is deleted: each user's reminders
+  // stay stored under their id. `carried` reminders change owner to `next`.
+  const showUser = async (next: User, carried: Reminder[] = []) => {
+    const repository = repositoryRef.current;
+    const loaded = repository ? await repository.loadReminders(next.id) : [];
+    const moved = carried.map(r => ({ ...r, userId: next.id }));
+    persistedRef.current = { user: next, reminders: loaded };
+    pendingUploadRef.current = moved;
+    setUser(next);
+    setSession(next.isTemp ? null : loadSession(next.id));
+    setReminders([...loaded.filter(r => !moved.some(m => m.id === r.id)), ...moved]);
+    if (!next.isTemp) setKnownUsers(prev => [...prev.filter(u => u.id !== next.id), next]);
+    closeWidget();
+  };
+
+  const switchUser = async (next: User, carried: Reminder[] = []) => {
+    await showUser(next, carried);
+    await repositoryRef.current?.saveUser(next);
+  };
+
+  // Another tab switched user or edited reminders
+  const handleTabChange = (change: RepositoryChange) => {
+    if (change.user && change.user.id !== persistedRef.current.user?.id) {
+      showUser(change.user);
+      return;
+    }
+    const owner = persistedRef.current.user?.id;
+    applyExternalChange({ ...change, put: change.put?.filter(r => r.userId === owner) });
+  };
+
   useEffect(() => {
-    // Load data
-    const savedUser = localStorage.getItem('memento_user');
-    const savedReminders = localStorage.getItem('memento_reminders');
-    
-    if (savedUser) setUser(JSON.parse(savedUser));
-    if (savedReminders) setReminders(JSON.parse(savedReminders));
+    let cancelled = false;
+    let unsubscribe = () => {};
+
+    const open = async () => {
+      let repository: Repository;
+      try {
+        repository = withTabSync(await openIndexedDbRepository());
+      } catch (error) {
+        repository = createMemoryRepository();
+        setAppNotice(`Reminders can't be saved in this browser (${(error as Error).message}).`);
+      }
+      if (cancelled) return repository.close();
+
+      let snapshot: RepositorySnapshot | null = null;
+      try {
+        snapshot = await repository.load();
+      } catch (error) {
+        if (!cancelled) setAppNotice(`Saved reminders could not be read: ${(error as Error).message}`);
+      }
+      if (cancelled) return repository.close();
+
+      if (snapshot) {
+        const current = snapshot.user || GUEST_USER;
+        persistedRef.current = { user: current, reminders: snapshot.reminders };
+        setUser(current);
+        setSession(current.isTemp ? null : loadSession(current.id));
+        setKnownUsers(snapshot.users);
+        setReminders(snapshot.reminders);
+        if (snapshot.rejected.length) {
+          setAppNotice(`${snapshot.rejected.length} stored reminder${snapshot.rejected.length === 1 ? ' was' : 's were'} damaged and were set aside.`);
+        }
+      }
+
+      // Edits made in other tabs are already stored
+      unsubscribe = repository.subscribe(handleTabChange);
+      repositoryRef.current = repository;
+      setIsLoaded(true);
+    };
+    open();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      repositoryRef.current?.close();
+      repositoryRef.current = null;
+    };
   }, []);
 
   useEffect(() => {
-    // Save data
-    localStorage.setItem('memento_user', JSON.stringify(user));
-    localStorage.setItem('memento_reminders', JSON.stringify(reminders));
-  }, [user, reminders]);
+    // Write only what changed since the last save
+    const repository = repositoryRef.current;
+    if (!isLoaded || !repository) return;
+    const persisted = persistedRef.current;
+    const { put, deleted } = diffReminders(persisted.reminders, reminders);
+    const userChanged = persisted.user !== user;
+    persistedRef.current = { user, reminders };
+
+    const categoriesChanged = persisted.user?.id === user.id
+      && JSON.stringify(userCategories(persisted.user)) !== JSON.stringify(userCategories(user));
+    if (put.length || deleted.length) syncRef.current?.record(persisted.reminders, reminders);
+    if (categoriesChanged) syncRef.current?.recordCategories(userCategories(user));
+    if (put.length || deleted.length || categoriesChanged) syncRef.current?.sync();
+
+    const writes: Promise<void>[] = [];
+    if (userChanged) writes.push(repository.saveUser(user));
+    if (put.length) writes.push(repository.putReminders(put));
+    if (deleted.length) writes.push(repository.deleteReminders(deleted));
+    Promise.all(writes).catch(error => setAppNotice(`Changes could not be saved: ${(error as Error).message}`));
+  }, [isLoaded, user, reminders]);
+
+  useEffect(() => {
+    // A stored session may have expired or been signed out elsewhere. Offline,
+    // it is trusted until the server can be asked.
+    if (!session) return;
+    let cancelled = false;
+    verifySession(session)
+      .then(verified => {
+        if (cancelled) return;
+        if (verified) {
+            // The account's plan may have changed on the server
+            if (verified.user.plan !== session.user.plan) {
+                saveSession(verified.user.id, verified);
+                setUser(prev => prev.id === verified.user.id ? { ...prev, plan: verified.user.plan } : prev);
+            }
+            return;
+        }
+        saveSession(session.user.id, null);
+        setAppNotice(`The session of ${session.user.name} has expired. Please sign in again.`);
+        switchUser(GUEST_USER);
+      })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [session]);
+
+  useEffect(() => {
+    // AI requests through the server count against the account's rate limit
+    setAiSessionToken(session?.token || null);
+  }, [session]);
+
+  useEffect(() => {
+    setAiCallsToday(countAiCalls(user.id));
+    setSavedFilters(loadSavedFilters(user.id));
+  }, [user.id]);
+
+  // --- Effects (Sync) ---
+  useEffect(() => {
+    // Signed-in accounts sync with the server; guests stay local
+    if (!isLoaded || !session) return;
+    const accountId = session.user.id;
+
+    const engine = createSyncEngine({
+      transport: createHttpTransport(session.token),
+      store: localSyncQueueStore(session.user.id),
+      clock: systemClock,
+      onRemoteChange: change => {
+        if (persistedRef.current.user?.id !== accountId) return;
+        // The server echoes this device's own edits back; only apply real differences
+        const known = new Map(persistedRef.current.reminders.map(r => [r.id, r]));
+        const put = (change.put || [])
+          .map(r => r.userId === accountId ? r : { ...r, userId: accountId })
+          .filter(r => JSON.stringify(known.get(r.id)) !== JSON.stringify(r));
+        const deleted = (change.deleted || []).filter(id => known.has(id));
+        if (!put.length && !deleted.length) return;
+        applyExternalChange({ put, deleted });
+        repositoryRef.current?.putReminders(put);
+        repositoryRef.current?.deleteReminders(deleted);
+      },
+      onRemoteCategories: categories => {
+        const current = persistedRef.current.user;
+        if (current?.id !== accountId || JSON.stringify(userCategories(current)) === JSON.stringify(categories)) return;
+        const updated = { ...current, categories };
+        applyExternalChange({ user: updated });
+        setKnownUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+        repositoryRef.current?.saveUser(updated);
+      },
+      onStatus: setSyncSnapshot,
+    });
+    // First sync of this account on this device uploads what is already here;
+    // after that, only reminders a guest brought in. Categories set up here
+    // before are offered without replacing the account's.
+    const firstSync = engine.getSnapshot().lastSyncedAt === null;
+    const upload = firstSync ? persistedRef.current.reminders : pendingUploadRef.current;
+    engine.record([], upload);
+    const ownCategories = persistedRef.current.user?.categories;
+    if (firstSync && ownCategories?.length) engine.recordCategories(ownCategories, 0);
+    pendingUploadRef.current = [];
+    syncRef.current = engine;
+    engine.sync();
+
+    const syncNow = () => engine.sync();
+    window.addEventListener('online', syncNow);
+    const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', syncNow);
+      clearInterval(interval);
+      syncRef.current = null;
+      setSyncSnapshot(null);
+    };
+  }, [isLoaded, session]);
+
+  // --- Effects (Notifications) ---
+  useEffect(() => {
+    registerNotificationWorker();
+    const scheduler = createNotificationScheduler({
+      clock: systemClock,
+      notifier: createBrowserNotifier(),
+      store: localSchedulerStore,
+    });
+    schedulerRef.current = scheduler;
+
+    const pending = takePendingSnooze();
+    if (pending) scheduler.snooze(pending.key, pending.option);
+    const unsubscribe = onNotificationSnooze((key, option) => scheduler.snooze(key, option));
+
+    return () => {
+      unsubscribe();
+      scheduler.stop();
+      schedulerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    // The first sync also catches up on what came due while the app was closed,
+    // so it has to wait for the stored reminders
+    if (isLoaded) schedulerRef.current?.sync(reminders);
+  }, [isLoaded, reminders]);
+
+  useEffect(() => {
+    if (!lastMove) return;
+    const timeout = setTimeout(() => setLastMove(null), UNDO_MOVE_MS);
+    return () => clearTimeout(timeout);
+  }, [lastMove]);
+
+  useEffect(() => {
+    if (!lastMove) return;
+    // Ctrl+Z / Cmd+Z undoes it too, unless a text field wants the keystroke
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== 'z' || !(e.ctrlKey || e.metaKey) || e.shiftKey || target.closest('input, textarea, select')) return;
+      e.preventDefault();
+      handleUndoMove();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [lastMove, reminders]);
+
+  useEffect(() => {
+    // Email / SMS / Call are sent by the local server; keep the account's schedule current.
+    // The schedule only covers the next days, so it is refreshed hourly as well.
+    // Guests have no account to send for.
+    const token = session?.token;
+    if (!isLoaded || !token) return;
+    syncDeliverySchedule(reminders, token);
+    const interval = setInterval(() => syncDeliverySchedule(reminders, token), 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [isLoaded, reminders, session]);
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await requestNotificationPermission());
+  };
 
   // --- Core Handlers ---
 
-  const handleSaveReminder = (data: Omit<Reminder, 'id' | 'createdAt' | 'userId'>) => {
+  const handleSaveReminder = (data: ReminderDraft, scope: OccurrenceScope = 'all') => {
     // 1. UPDATE Existing
     if (editingReminder) {
-        setReminders(prev => prev.map(r => r.id === editingReminder.id ? { ...r, ...data } : r));
-        closeWidget();
+        const series = editingReminder;
+        const occurrenceDate = editingOccurrenceDate;
+
+        let saved: boolean;
+        if (!series.rrule || !occurrenceDate) {
+            saved = updateReminders(prev => prev.map(r => r.id === series.id ? { ...r, ...data } : r));
+        } else if (scope === 'this') {
+            saved = updateReminders(prev => prev.map(r => r.id === series.id ? overrideOccurrence(r, occurrenceDate, occurrencePatch(data)) : r));
+        } else if (scope === 'following') {
+            const { head, tail } = splitSeries(series, occurrenceDate, data);
+            saved = updateReminders(prev => [...prev.filter(r => r.id !== series.id), ...(head ? [head] : []), buildReminder(tail)]);
+        } else {
+            saved = updateReminders(prev => prev.map(r => r.id === series.id ? updateSeries(r, occurrenceDate, data) : r));
+        }
+        if (saved) closeWidget();
         return;
     }
 
     // 2. CREATE New
-    // Check Limits
-    if (user.isTemp && reminders.length >= 1) {
-        // Guest Limit Reached -> Ask to replace
-        setPendingReminderData(data);
-        setShowReplaceDialog(true);
-        return; // Wait for confirmation
-    }
-
-    if (!user.isTemp && reminders.length >= 50) {
-        alert("Account limit reached (50 active reminders). Please delete some entries.");
+    const created = createReminder(data);
+    if (created instanceof QuotaError) {
+        // Plans that replace rather than refuse ask first (the guest's one reminder)
+        if (created.quota === 'activeReminders' && plan.whenFull === 'replace') setPendingReminderData(data);
+        setQuotaError(created);
         return;
     }
-
-    // Proceed to create
-    createReminder(data);
     closeWidget();
   };
 
-  const createReminder = (data: Omit<Reminder, 'id' | 'createdAt' | 'userId'>) => {
-    const newReminder: Reminder = {
-      ...data,
-      id: generateId(),
-      userId: user.id,
-      createdAt: Date.now(),
-    };
-    setReminders(prev => [...prev, newReminder]);
+  const createReminder = (data: ReminderDraft): Reminder | QuotaError => {
+    const reminder = buildReminder(data);
+    return tryUpdateReminders(prev => [...prev, reminder]) || reminder;
+  };
+
+  // Apply a change unless it would break a plan limit, which is returned instead
+  const tryUpdateReminders = (update: (prev: Reminder[]) => Reminder[]): QuotaError | null => {
+    const current = latestRemindersRef.current;
+    const next = update(current);
+    const error = checkReminderQuota(plan, current, next);
+    if (error) return error;
+    latestRemindersRef.current = next;
+    setReminders(next);
+    return null;
+  };
+
+  // Apply a change unless it would break a plan limit, which is shown instead
+  const updateReminders = (update: (prev: Reminder[]) => Reminder[]): boolean => {
+    const error = tryUpdateReminders(update);
+    if (error) setQuotaError(error);
+    return !error;
+  };
+
+  const buildReminder = (data: ReminderDraft): Reminder => ({
+    ...data,
+    id: generateId(),
+    userId: user.id,
+    createdAt: Date.now(),
+  });
+
+  // Imported entries either update the reminder they were matched with or are added
+  const applyImport = (current: Reminder[], decisions: ImportDecision[]): Reminder[] => {
+    const updates = new Map(decisions.filter(d => d.replaces).map(d => [d.replaces!, d.draft]));
+    const added = decisions.filter(d => !d.replaces).map(d => buildReminder(d.draft));
+    return [...current.map(r => updates.has(r.id) ? { ...r, ...updates.get(r.id)! } : r), ...added];
   };
 
   const handleConfirmReplace = () => {
-    if (pendingReminderData) {
-        setReminders([]); // Clear old for guest 1-to-1 rule
-        createReminder(pendingReminderData);
-        setShowReplaceDialog(false);
-        setPendingReminderData(null);
-        closeWidget();
-    }
+    if (!pendingReminderData) return;
+    const draft = pendingReminderData;
+    setPendingReminderData(null);
+    setQuotaError(null);
+    if (updateReminders(prev => [...replaceOldest(plan, prev, 1), buildReminder(draft)])) closeWidget();
   };
 
-  const handleCancelReplace = () => {
-    setShowReplaceDialog(false);
+  const handleCloseQuotaDialog = () => {
+    setQuotaError(null);
     setPendingReminderData(null);
   };
 
@@ -103,10 +465,11 @@ function App() {
       setShowWidget(true);
   };
 
-  const openEditWidget = (id: string) => {
+  const openEditWidget = (id: string, occurrenceDate?: Date) => {
       const reminderToEdit = reminders.find(r => r.id === id);
       if (reminderToEdit) {
           setEditingReminder(reminderToEdit);
+          setEditingOccurrenceDate(occurrenceDate || null);
           setInitialWidgetDate(null);
           setShowWidget(true);
       }
@@ -115,38 +478,200 @@ function App() {
   const closeWidget = () => {
       setShowWidget(false);
       setEditingReminder(null);
+      setEditingOccurrenceDate(null);
       setInitialWidgetDate(null);
   };
 
-  const handleDeleteReminder = (id: string) => {
-    setReminders(prev => prev.filter(r => r.id !== id));
+  const handleDeleteReminder = (id: string, occurrenceDate?: Date, scope: OccurrenceScope = 'all') => {
+    if (occurrenceDate && scope !== 'all') {
+        updateReminders(prev => prev.flatMap(r => {
+            if (r.id !== id) return [r];
+            const updated = scope === 'this' ? skipOccurrence(r, occurrenceDate) : truncateSeries(r, occurrenceDate);
+            return updated ? [updated] : [];
+        }));
+    } else {
+        updateReminders(prev => prev.filter(r => r.id !== id));
+    }
     if (editingReminder?.id === id) closeWidget();
   };
 
-  const handleToggleComplete = (id: string) => {
-    setReminders(prev => prev.map(r => r.id === id ? { ...r, completed: !r.completed } : r));
+  const toggleCompleted = (id: string, occurrenceDate?: Date, scope: OccurrenceScope = 'all') => (prev: Reminder[]) =>
+    prev.map(r => {
+        if (r.id !== id) return r;
+        // One instance goes into the completion history; 'all' closes the whole series
+        if (r.rrule && occurrenceDate && scope === 'this') return toggleOccurrenceCompleted(r, occurrenceDate);
+        return { ...r, completed: !r.completed };
+    });
+
+  const handleToggleComplete = (id: string, occurrenceDate?: Date, scope: OccurrenceScope = 'all') => {
+    // Reopening a completed reminder makes it count as active again
+    updateReminders(toggleCompleted(id, occurrenceDate, scope));
   };
 
-  const handleLogin = (name: string) => {
-    setUser({
-        id: generateId(),
-        isTemp: false,
-        name
-    });
-    setReminders(prev => prev.map(r => ({...r, userId: 'migrated'})));
+  // Deleting from a recurring reminder's card asks which occurrences to remove first
+  const requestDelete = (reminder: Reminder, occurrence: Occurrence | null) => {
+    if (reminder.rrule && occurrence) setPendingSeriesDelete({ id: reminder.id, occurrenceDate: occurrence.originalDate });
+    else handleDeleteReminder(reminder.id);
   };
 
-  const handleLogout = () => {
-    setUser({ id: 'temp-user', isTemp: true, name: 'Guest' });
-    setReminders([]); // Clear data on logout
-    closeWidget();
+  const handleDeleteScopeSelected = (scope: OccurrenceScope) => {
+    if (!pendingSeriesDelete) return;
+    handleDeleteReminder(pendingSeriesDelete.id, pendingSeriesDelete.occurrenceDate, scope);
+    setPendingSeriesDelete(null);
+  };
+
+  // Dropping a recurring occurrence elsewhere asks whether the whole series follows
+  const handleMoveOccurrence = (id: string, originalDate: Date, from: Date, to: Date) => {
+    const reminder = reminders.find(r => r.id === id);
+    if (!reminder) return;
+    if (reminder.rrule) setPendingMove({ id, originalDate, from, to });
+    else setQuotaError(applyMove(reminder, originalDate, from, to, 'all'));
+  };
+
+  const applyMove = (reminder: Reminder, originalDate: Date, from: Date, to: Date, scope: MoveScope): QuotaError | null => {
+    const moved = rescheduleOccurrence(reminder, originalDate, from, to, scope);
+    const error = tryUpdateReminders(prev => prev.map(r => r.id === reminder.id ? moved : r));
+    if (!error) setLastMove(recordMove(reminder, moved, to));
+    return error;
+  };
+
+  const handleMoveScopeSelected = (scope: OccurrenceScope) => {
+    if (!pendingMove) return;
+    const reminder = reminders.find(r => r.id === pendingMove.id);
+    if (reminder) setQuotaError(applyMove(reminder, pendingMove.originalDate, pendingMove.from, pendingMove.to, scope === 'this' ? 'this' : 'all'));
+    setPendingMove(null);
+  };
+
+  const handleUndoMove = () => {
+    if (!lastMove) return;
+    setLastMove(null);
+    const current = reminders.find(r => r.id === lastMove.reminderId);
+    const restored = current && undoMove(current, lastMove);
+    if (!restored) {
+        setAppNotice(`"${lastMove.title}" was changed again after the move, so the move was not undone.`);
+        return;
+    }
+    updateReminders(prev => prev.map(r => r.id === restored.id ? restored : r));
+  };
+
+  // Ticking a recurring card completes the instance it shows, which advances it to the next due one
+  const completeFromCard = (reminder: Reminder, occurrence: Occurrence | null) => {
+    if (reminder.rrule && occurrence) handleToggleComplete(reminder.id, occurrence.originalDate, 'this');
+    else handleToggleComplete(reminder.id);
+  };
+
+  const handleAuthenticate = async (mode: AuthMode, username: string, password: string, bringGuestReminders: boolean) => {
+    const next = mode === 'register' ? await register(username, password) : await login(username, password);
+    saveSession(next.user.id, next);
+    if (next.user.id === user.id) {
+        // Signed in again to the account already shown
+        setSession(next);
+        return;
+    }
+    // Settings kept on this device (e.g. the default time zone) carry over
+    const known = knownUsers.find(u => u.id === next.user.id);
+    await switchUser({ ...known, ...next.user }, user.isTemp && bringGuestReminders ? reminders : []);
+  };
+
+  const handleChangeAiSettings = (settings: AiSettings) => {
+    saveAiSettings(settings);
+    setAiSettings(settings);
+  };
+
+  const handleChangeTimeZone = (timeZone: string | undefined) => {
+    const next = { ...user, timeZone };
+    setUser(next);
+    if (!next.isTemp) setKnownUsers(prev => prev.map(u => u.id === next.id ? next : u));
+  };
+
+  const handleChangeCategories = (next: Category[]) => {
+    const updated = { ...user, categories: next };
+    setUser(updated);
+    if (!updated.isTemp) setKnownUsers(prev => prev.map(u => u.id === updated.id ? updated : u));
+  };
+
+  // A deleted category's reminders, and instances filed under it, move to `to`
+  const handleDeleteCategory = (id: string, to: string) => {
+    handleChangeCategories(categories.filter(c => c.id !== id));
+    setReminders(prev => prev.map(r => reassignCategory(r, id, to)));
+  };
+
+  // A backup brings the categories its reminders were filed under
+  const handleRestoreBackup = (restored: Reminder[], backupCategories: Category[]) => {
+    setReminders(restored);
+    const merged = mergeCategories(categories, backupCategories);
+    if (merged.length > categories.length) handleChangeCategories(merged);
+  };
+
+  const handleSwitchUser = (next: User | null) => {
+    switchUser(next || GUEST_USER);
+  };
+
+  // Ends the session and shows the guest; the account's reminders stay on this device
+  const handleLogout = async () => {
+    if (session) {
+        try {
+            await logout(session.token);
+        } catch {
+            // The local token is dropped regardless; the server session runs out on its own
+            setAppNotice("Signed out on this device. The server couldn't be reached to end the session.");
+        }
+    }
+    saveSession(user.id, null);
+    await switchUser(GUEST_USER);
+  };
+
+  // Counts one AI request against the plan; throws QuotaError when none are left today
+  const handleAiRequest = () => {
+    setAiCallsToday(consumeAiCall(plan, user.id));
+  };
+
+  // The assistant's tools go through the same handlers as the app's own controls
+  const assistantHandlers: AssistantHandlers = {
+    getReminders: () => latestRemindersRef.current,
+    createReminder,
+    rescheduleReminder: (id, originalDate, from, to, scope) => {
+        const reminder = latestRemindersRef.current.find(r => r.id === id);
+        return reminder ? applyMove(reminder, originalDate, from, to, scope) : null;
+    },
+    completeReminder: (id, occurrenceDate) => tryUpdateReminders(toggleCompleted(id, occurrenceDate, 'this')),
+    deleteReminder: handleDeleteReminder,
+  };
+
+  const knownAccounts: KnownAccount[] = knownUsers.map(u => ({
+    user: u,
+    signedIn: u.id === user.id ? !!session : !!loadSession(u.id),
+  }));
+
+  const handleChangeSavedFilters = (filters: SavedFilter[]) => {
+    setSavedFilters(filters);
+    saveSavedFilters(user.id, filters);
   };
 
   // --- Filtering ---
-  const filteredReminders = reminders.filter(r => 
-    r.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    r.description.toLowerCase().includes(searchQuery.toLowerCase())
-  ).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // A query that doesn't parse filters nothing; the search box says what is wrong
+  const now = new Date();
+  let searchError: string | null = null;
+  let search: SearchQuery = { terms: [] };
+  try {
+    search = parseSearchQuery(searchQuery, categories);
+  } catch (error) {
+    if (!(error instanceof SearchSyntaxError)) throw error;
+    searchError = error.message;
+  }
+  const filteredReminders = reminders
+    .filter(r => matchesSearch(r, search, now))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const pinnedFilters = savedFilters.filter(f => f.pinned);
+
+  // Upcoming list: recurring series are placed at their next instance not yet done.
+  // Finished series fall back to their stored date.
+  const upcomingEntries = filteredReminders
+    .map(r => {
+      const occurrence = getDueOccurrence(r, now);
+      return { series: r, occurrence, displayDate: occurrence?.date ?? new Date(r.date) };
+    })
+    .sort((a, b) => a.displayDate.getTime() - b.displayDate.getTime());
 
   // --- Helper Icons ---
   const getMethodIcon = (method: CommunicationMethod) => {
@@ -159,26 +684,34 @@ function App() {
   };
 
   // --- Render Helpers ---
-  const ReminderCard = ({ reminder }: { reminder: Reminder }) => (
+  const ReminderCard = ({ series, occurrence, displayDate }: { series: Reminder, occurrence: Occurrence | null, displayDate: Date }) => {
+    // Per-instance overrides (title, completion...) are already merged into the occurrence
+    const reminder = occurrence?.reminder ?? series;
+    const category = findCategory(categories, reminder.category);
+    const contacts = Array.from(new Set(reminder.alerts.map(a => a.contactInfo).filter(Boolean)));
+    return (
     <div 
-        onClick={() => openEditWidget(reminder.id)}
+        onClick={() => openEditWidget(series.id, occurrence?.originalDate)}
         className={`group bg-white rounded-2xl p-5 shadow-soft hover:shadow-xl transition-all duration-300 ease-out transform hover:-translate-y-1 relative overflow-hidden border border-transparent hover:border-gray-100 flex flex-col h-full cursor-pointer
       ${reminder.completed ? 'opacity-60 grayscale scale-[0.98]' : 'hover:scale-[1.02]'}
     `}>
        {/* Animated Border/Line */}
-       <div className={`absolute top-0 left-0 w-1 h-full transition-all duration-300
-         ${reminder.type === ReminderType.Urgent ? 'bg-gray-600' : 
-           reminder.type === ReminderType.Meeting ? 'bg-gray-400' : 'bg-gray-200'}
+       <div
+         style={{ backgroundColor: categoryColor(category).fill }}
+         className={`absolute top-0 left-0 w-1 h-full transition-all duration-300
          ${reminder.completed ? 'opacity-50' : 'group-hover:w-1.5'}
        `}></div>
        
        <div className="flex justify-between items-start mb-2 pl-3">
-          <span className="text-[10px] uppercase font-bold tracking-widest text-gray-400">{reminder.type}</span>
+          <span className="flex items-center gap-1 text-[10px] uppercase font-bold tracking-widest text-gray-400">
+              <CategoryIcon icon={category.icon} size={10} />
+              {category.name}
+          </span>
           <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300" onClick={e => e.stopPropagation()}>
-             <button onClick={() => handleToggleComplete(reminder.id)} className={`transition-colors duration-200 ${reminder.completed ? 'text-green-500' : 'text-gray-400 hover:text-green-500'}`}>
+             <button onClick={() => completeFromCard(series, occurrence)} className={`transition-colors duration-200 ${reminder.completed ? 'text-green-500' : 'text-gray-400 hover:text-green-500'}`}>
                 <CheckCircle2 size={16} className={reminder.completed ? 'fill-green-100' : ''} />
              </button>
-             <button onClick={() => handleDeleteReminder(reminder.id)} className="text-gray-400 hover:text-red-500 transition-colors duration-200">
+             <button onClick={() => requestDelete(series, occurrence)} className="text-gray-400 hover:text-red-500 transition-colors duration-200">
                 <Trash2 size={16} />
              </button>
           </div>
@@ -191,34 +724,54 @@ function App() {
        
        <div className="pl-3 mt-auto">
          <div className="flex items-center text-xs text-gray-400 font-medium mb-2">
-            {new Date(reminder.date).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+            {displayDate.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+            {differsFromViewer(series.timeZone, displayDate) && (
+                <span className="ml-2 text-gray-300">{formatZonedTime(displayDate, series.timeZone!)}</span>
+            )}
          </div>
+
+         {series.rrule && (
+            <div className="mb-2">
+                <CompletionHistory reminder={series} onToggle={date => handleToggleComplete(series.id, date, 'this')} />
+            </div>
+         )}
          
          <div className="flex flex-col gap-2 pt-2 border-t border-gray-50">
-            <div className="flex items-center gap-3">
-                <div className="flex items-center gap-1 text-[10px] text-gray-400 bg-gray-50 px-2 py-1 rounded-full group-hover:bg-gray-100 transition-colors duration-300">
-                    {getMethodIcon(reminder.method)}
-                    <span>{reminder.method}</span>
-                </div>
-                {reminder.recurrence !== RecurrenceType.None && (
-                    <div className="flex items-center gap-1 text-[10px] text-gray-500">
-                        <Repeat size={12} />
-                        <span>{reminder.recurrence}</span>
+            <div className="flex items-center gap-3 flex-wrap">
+                {reminder.alerts.map(alert => (
+                    <div key={alert.id} title={describeAlert(alert)} className="flex items-center gap-1 text-[10px] text-gray-400 bg-gray-50 px-2 py-1 rounded-full group-hover:bg-gray-100 transition-colors duration-300">
+                        {getMethodIcon(alert.method)}
+                        <span>{alert.offsetMinutes ? describeOffset(alert.offsetMinutes) : alert.method}</span>
+                    </div>
+                ))}
+                {reminder.rrule && (
+                    <div className="flex items-center gap-1 text-[10px] text-gray-500 min-w-0">
+                        <Repeat size={12} className="flex-shrink-0" />
+                        <span className="truncate">{describeRRule(reminder.rrule)}</span>
                     </div>
                 )}
             </div>
             
-            {/* Display Contact Info if available */}
-            {reminder.contactInfo && (
+            {!!reminder.tags?.length && (
+                <div className="flex flex-wrap gap-1">
+                    {reminder.tags.map(tag => (
+                        <span key={tag} className="text-[10px] text-gray-400 bg-gray-50 px-2 py-0.5 rounded-full">#{tag}</span>
+                    ))}
+                </div>
+            )}
+
+            {/* Where the alerts go, if anywhere besides the app */}
+            {contacts.length > 0 && (
                 <div className="flex items-center gap-1.5 text-[10px] text-gray-400 pl-1">
                     <Contact size={10} />
-                    <span className="truncate">{reminder.contactInfo}</span>
+                    <span className="truncate">{contacts.join(', ')}</span>
                 </div>
             )}
          </div>
        </div>
     </div>
-  );
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gray-50 text-gray-800 font-sans selection:bg-gray-200 relative">
@@ -234,32 +787,62 @@ function App() {
           </div>
 
           <div className="flex-1 max-w-md mx-4 md:mx-12 hidden md:block">
-            <div className="relative group">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 group-focus-within:text-gray-600 transition-colors" size={18} />
-                <input 
-                    type="text" 
-                    placeholder="Search reminders..." 
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="w-full bg-white border border-gray-200 rounded-full py-2 pl-10 pr-4 text-sm outline-none focus:border-gray-400 focus:ring-4 focus:ring-gray-100 transition-all shadow-sm"
-                />
-            </div>
+            <SearchBar
+                query={searchQuery}
+                onChange={setSearchQuery}
+                error={searchError}
+                savedFilters={savedFilters}
+                onChangeSavedFilters={handleChangeSavedFilters}
+            />
           </div>
 
           <div className="flex items-center gap-4">
+            {notificationPermission === 'default' && (
+                <button
+                    onClick={handleEnableNotifications}
+                    className="hidden sm:flex items-center gap-2 text-xs text-gray-500 bg-white px-3 py-2 rounded-full shadow-sm border border-gray-100 hover:text-gray-800 transition-colors"
+                    title="Get a browser notification when a reminder is due"
+                >
+                    <BellRing size={14} />
+                    Enable alerts
+                </button>
+            )}
             <button 
                 onClick={() => openCreateWidget()}
                 className="md:hidden p-2 text-gray-600 bg-white rounded-full shadow-sm hover:bg-gray-50"
             >
                 <Plus size={20} />
             </button>
-            <UserProfile user={user} onLogin={handleLogin} onLogout={handleLogout} />
+            <UserProfile
+                user={user}
+                accounts={knownAccounts}
+                guestReminderCount={user.isTemp ? reminders.length : 0}
+                plan={plan}
+                usage={usage}
+                defaultTimeZone={defaultTimeZone}
+                onChangeTimeZone={handleChangeTimeZone}
+                onManageCategories={() => setShowCategoryDialog(true)}
+                aiSettings={aiSettings}
+                onChangeAiSettings={handleChangeAiSettings}
+                sync={syncSnapshot}
+                onSyncNow={() => syncRef.current?.sync()}
+                onSwitchUser={handleSwitchUser}
+                onAuthenticate={handleAuthenticate}
+                onLogout={handleLogout}
+            />
           </div>
         </div>
       </nav>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 md:px-6 py-8 space-y-8">
+        {appNotice && (
+            <div className="flex items-center gap-3 text-sm text-amber-700 bg-amber-50 border border-amber-100 rounded-2xl px-4 py-3">
+                <AlertCircle size={18} className="flex-shrink-0" />
+                <span className="flex-1">{appNotice}</span>
+                <button onClick={() => setAppNotice(null)} className="text-amber-500 hover:text-amber-700"><X size={16} /></button>
+            </div>
+        )}
         
         {/* Upper Section: Calendar & Widget */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -268,6 +851,22 @@ function App() {
              <div className="flex justify-between items-end px-2">
                 <h1 className="text-3xl font-light text-gray-800">Overview</h1>
                 <div className="flex gap-4 items-center">
+                    <div className="flex bg-white rounded-lg p-1 shadow-sm border border-gray-100">
+                        <button
+                            onClick={() => setOverviewMode('calendar')}
+                            className={`p-2 rounded-md transition-all duration-200 ${overviewMode === 'calendar' ? 'bg-gray-100 text-gray-800 shadow-inner' : 'text-gray-400 hover:text-gray-600'}`}
+                            title="Calendar"
+                        >
+                            <CalendarDays size={18} />
+                        </button>
+                        <button
+                            onClick={() => setOverviewMode('timeline')}
+                            className={`p-2 rounded-md transition-all duration-200 ${overviewMode === 'timeline' ? 'bg-gray-100 text-gray-800 shadow-inner' : 'text-gray-400 hover:text-gray-600'}`}
+                            title="Timeline by type"
+                        >
+                            <ChartGantt size={18} />
+                        </button>
+                    </div>
                     <button 
                         onClick={() => openCreateWidget()} 
                         className="hidden md:flex items-center gap-2 text-sm bg-gray-800 text-white px-4 py-2 rounded-full hover:bg-gray-700 transition-all hover:scale-105 active:scale-95 shadow-lg shadow-gray-200"
@@ -280,11 +879,17 @@ function App() {
                     </div>
                 </div>
              </div>
-             <TimelineCalendar 
-                reminders={filteredReminders} 
-                onSelectReminder={openEditWidget} 
-                onDateClick={openCreateWidget}
-             />
+             {overviewMode === 'calendar' ? (
+                <TimelineCalendar 
+                    reminders={filteredReminders} 
+                    categories={categories}
+                    onSelectReminder={openEditWidget} 
+                    onDateClick={openCreateWidget}
+                    onMoveOccurrence={handleMoveOccurrence}
+                />
+             ) : (
+                <SwimlaneTimeline reminders={filteredReminders} categories={categories} onSelectReminder={openEditWidget} />
+             )}
           </div>
 
           {/* Widget / Quick Add (Takes 1 column) */}
@@ -293,7 +898,14 @@ function App() {
                 onAdd={handleSaveReminder} 
                 onClose={closeWidget} 
                 initialReminder={editingReminder}
+                occurrenceDate={editingOccurrenceDate}
                 initialDate={initialWidgetDate}
+                defaultTimeZone={defaultTimeZone}
+                allowedMethods={plan.limits.deliveryChannels}
+                onAiRequest={handleAiRequest}
+                categories={categories}
+                onManageCategories={() => setShowCategoryDialog(true)}
+                sessionToken={session?.token || null}
              />
           </div>
         </div>
@@ -302,6 +914,30 @@ function App() {
         <div className="space-y-6">
             <div className="flex justify-between items-center px-2">
                 <h2 className="text-xl font-light text-gray-700">Upcoming</h2>
+                <div className="flex items-center gap-3">
+                <div className="flex bg-white rounded-lg p-1 shadow-sm border border-gray-100">
+                    <button
+                        onClick={() => setTransferDialog('import')}
+                        className="p-2 rounded-md text-gray-400 hover:text-gray-600 transition-all duration-200"
+                        title="Import .ics"
+                    >
+                        <Upload size={18} />
+                    </button>
+                    <button
+                        onClick={() => setTransferDialog('export')}
+                        className="p-2 rounded-md text-gray-400 hover:text-gray-600 transition-all duration-200"
+                        title="Export .ics"
+                    >
+                        <Download size={18} />
+                    </button>
+                    <button
+                        onClick={() => setTransferDialog('backup')}
+                        className="p-2 rounded-md text-gray-400 hover:text-gray-600 transition-all duration-200"
+                        title="Backup & restore"
+                    >
+                        <Archive size={18} />
+                    </button>
+                </div>
                 <div className="flex bg-white rounded-lg p-1 shadow-sm border border-gray-100">
                     <button 
                         onClick={() => setViewMode('grid')}
@@ -316,9 +952,37 @@ function App() {
                         <ListIcon size={18} />
                     </button>
                 </div>
+                </div>
             </div>
 
-            {filteredReminders.length === 0 ? (
+            {pinnedFilters.length > 0 && (
+                <div className="flex flex-wrap gap-2 px-2">
+                    {pinnedFilters.map(filter => {
+                        const isActive = filter.query === searchQuery.trim();
+                        return (
+                            <button
+                                key={filter.id}
+                                onClick={() => setSearchQuery(isActive ? '' : filter.query)}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs border transition-all duration-200
+                                    ${isActive ? 'bg-gray-800 text-white border-gray-800 shadow-sm' : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400 hover:text-gray-700'}`}
+                                title={filter.query}
+                            >
+                                <Pin size={10} />
+                                {filter.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {filteredReminders.length === 0 && reminders.length > 0 ? (
+                <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-200">
+                    <div className="text-gray-300 mb-4">No reminders match this search</div>
+                    <button onClick={() => setSearchQuery('')} className="text-sm text-gray-500 hover:text-gray-800 underline">
+                        Clear search
+                    </button>
+                </div>
+            ) : filteredReminders.length === 0 ? (
                 <div className="text-center py-20 bg-white rounded-3xl border border-dashed border-gray-200 animate-pulse">
                     <div className="text-gray-300 mb-4">No reminders set</div>
                     <button onClick={() => openCreateWidget()} className="text-sm text-gray-500 hover:text-gray-800 underline">
@@ -332,9 +996,9 @@ function App() {
                         : 'flex flex-col gap-4'
                     }
                 `}>
-                    {filteredReminders.map(r => (
-                        <div key={r.id} className={`${viewMode === 'list' ? 'max-w-3xl mx-auto w-full' : ''} animate-slide-up`}>
-                             <ReminderCard reminder={r} />
+                    {upcomingEntries.map(({ series, occurrence, displayDate }) => (
+                        <div key={series.id} className={`${viewMode === 'list' ? 'max-w-3xl mx-auto w-full' : ''} animate-slide-up`}>
+                             <ReminderCard series={series} occurrence={occurrence} displayDate={displayDate} />
                         </div>
                     ))}
                 </div>
@@ -342,7 +1006,7 @@ function App() {
         </div>
       </main>
 
-      <Assistant />
+      <Assistant userId={user.id} onAiRequest={handleAiRequest} handlers={assistantHandlers} timeZone={defaultTimeZone} categories={categories} />
       
       {/* Mobile Widget Overlay */}
       {showWidget && (
@@ -352,42 +1016,95 @@ function App() {
                     onAdd={handleSaveReminder} 
                     onClose={closeWidget} 
                     initialReminder={editingReminder}
+                    occurrenceDate={editingOccurrenceDate}
                     initialDate={initialWidgetDate}
+                    defaultTimeZone={defaultTimeZone}
+                    allowedMethods={plan.limits.deliveryChannels}
+                    onAiRequest={handleAiRequest}
+                    categories={categories}
+                    onManageCategories={() => setShowCategoryDialog(true)}
+                    sessionToken={session?.token || null}
                 />
             </div>
         </div>
       )}
 
-      {/* Guest Replace Confirmation Dialog */}
-      {showReplaceDialog && (
-          <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
-              <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-sm w-full animate-scale-in">
-                  <div className="flex items-center gap-3 text-amber-500 mb-4">
-                      <AlertCircle size={24} />
-                      <h3 className="text-lg font-semibold text-gray-800">Limit Reached</h3>
-                  </div>
-                  <p className="text-gray-600 mb-6 text-sm leading-relaxed">
-                      Guest accounts can only have <strong>1 active reminder</strong>. 
-                      Would you like to replace your existing reminder with this new one?
-                  </p>
-                  <div className="flex gap-3">
-                      <button 
-                        onClick={handleCancelReplace}
-                        className="flex-1 py-3 rounded-xl text-gray-600 hover:bg-gray-100 font-medium transition-colors"
-                      >
-                          Cancel
-                      </button>
-                      <button 
-                        onClick={handleConfirmReplace}
-                        className="flex-1 py-3 rounded-xl bg-gray-800 text-white hover:bg-gray-900 font-medium transition-colors shadow-lg"
-                      >
-                          Replace
-                      </button>
-                  </div>
-              </div>
+      {/* Plan Limit Dialog (offers to replace when the plan allows it) */}
+      {quotaError && (
+          <QuotaDialog
+            error={quotaError}
+            isGuest={user.isTemp}
+            replaceCount={Math.max(1, usage.activeReminders + 1 - plan.limits.activeReminders)}
+            onReplace={pendingReminderData ? handleConfirmReplace : undefined}
+            onClose={handleCloseQuotaDialog}
+          />
+      )}
+
+      {/* iCalendar Import / Export, Backups */}
+      {transferDialog === 'export' && (
+          <ExportDialog reminders={reminders} filteredReminders={filteredReminders} categories={categories} onClose={() => setTransferDialog(null)} />
+      )}
+      {transferDialog === 'import' && (
+          <ImportDialog
+            reminders={reminders}
+            defaultTimeZone={defaultTimeZone}
+            categories={categories}
+            checkQuota={decisions => checkReminderQuota(plan, reminders, applyImport(reminders, decisions))}
+            onImport={decisions => setReminders(prev => applyImport(prev, decisions))}
+            onClose={() => setTransferDialog(null)}
+          />
+      )}
+
+      {transferDialog === 'backup' && (
+          <BackupDialog
+            user={user}
+            categories={categories}
+            reminders={reminders}
+            checkQuota={restored => checkReminderQuota(plan, reminders, restored)}
+            onRestore={handleRestoreBackup}
+            onClose={() => setTransferDialog(null)}
+          />
+      )}
+
+      {showCategoryDialog && (
+          <CategoryDialog
+            categories={categories}
+            reminders={reminders}
+            onChange={handleChangeCategories}
+            onDelete={handleDeleteCategory}
+            onClose={() => setShowCategoryDialog(false)}
+          />
+      )}
+
+      {pendingMove && (
+          <SeriesScopeDialog
+            title="Move Reminder"
+            scopes={['this', 'all']}
+            onSelect={handleMoveScopeSelected}
+            onCancel={() => setPendingMove(null)}
+          />
+      )}
+
+      {/* Undo the last calendar move */}
+      {lastMove && (
+          <div className="fixed bottom-6 left-6 z-50 flex items-center gap-4 bg-gray-800 text-white text-sm rounded-2xl shadow-2xl px-5 py-3 animate-fade-in">
+              <span>Moved "{lastMove.title}" to {lastMove.to.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}, {lastMove.to.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+              <button onClick={handleUndoMove} className="flex items-center gap-1.5 font-medium text-gray-300 hover:text-white">
+                  <Undo2 size={16} /> Undo
+              </button>
           </div>
       )}
 
+      {/* Recurring Series Scope Dialog */}
+      {pendingSeriesDelete && (
+          <SeriesScopeDialog
+            title="Delete Reminder"
+            scopes={['this', 'following', 'all']}
+            onSelect={handleDeleteScopeSelected}
+            onCancel={() => setPendingSeriesDelete(null)}
+          />
+      )}
+
     </div>
   );
 }
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ReminderAlert, CommunicationMethod } from '../types';
+import { ALERT_OFFSETS, newAlert, needsContact, describeOffset } from '../services/alertService';
+import { Bell, Mail, MessageSquare, Phone, Contact, Plus, X } from 'lucide-react';
+
+interface AlertEditorProps {
+  value: ReminderAlert[];
+  onChange: (alerts: ReminderAlert[]) => void;
+  allowedMethods: CommunicationMethod[]; // delivery channels of the user's plan
+  keptMethods: CommunicationMethod[]; // used by the reminder already, so still allowed
+  inputClass: string;
+}
+
+const METHOD_ICONS: Record<CommunicationMethod, React.ReactNode> = {
+  [CommunicationMethod.Notification]: <Bell size={16} />,
+  [CommunicationMethod.Email]: <Mail size={16} />,
+  [CommunicationMethod.SMS]: <MessageSquare size={16} />,
+  [CommunicationMethod.Call]: <Phone size={16} />,
+};
+
+const AlertEditor: React.FC<AlertEditorProps> = ({ value, onChange, allowedMethods, keptMethods, inputClass }) => {
+  const update = (id: string, patch: Partial<ReminderAlert>) =>
+    onChange(value.map(a => a.id === id ? { ...a, ...patch } : a));
+
+  // A new alert starts a step earlier than the earliest so far
+  const handleAdd = () => {
+    const earliest = Math.max(-1, ...value.map(a => a.offsetMinutes));
+    const offset = ALERT_OFFSETS.find(o => o > earliest) ?? earliest;
+    const last = value[value.length - 1];
+    onChange([...value, newAlert(last?.method, offset, last?.contactInfo)]);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider flex items-center justify-between">
+        <span>Alerts</span>
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="flex items-center gap-1 text-gray-400 hover:text-gray-600 transition-colors normal-case tracking-normal font-normal"
+        >
+          <Plus size={12} />
+          <span className="text-[10px]">Add alert</span>
+        </button>
+      </label>
+
+      {value.length === 0 && (
+        <p className="text-[11px] text-gray-400 px-1">No alerts. The reminder only shows up in your lists.</p>
+      )}
+
+      {value.map(alert => (
+        <div key={alert.id} className="flex flex-col gap-2 animate-fade-in-down">
+          <div className="flex gap-2">
+            <select
+              value={alert.offsetMinutes}
+              onChange={(e) => update(alert.id, { offsetMinutes: Number(e.target.value) })}
+              className={`${inputClass} flex-1 appearance-none cursor-pointer text-sm`}
+            >
+              {/* Lead times from imports or quick add keep their own entry */}
+              {(ALERT_OFFSETS.includes(alert.offsetMinutes) ? ALERT_OFFSETS : [...ALERT_OFFSETS, alert.offsetMinutes].sort((a, b) => a - b)).map(o => (
+                <option key={o} value={o}>{describeOffset(o)}</option>
+              ))}
+            </select>
+            <div className="relative flex-1">
+              <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none">
+                {METHOD_ICONS[alert.method]}
+              </div>
+              <select
+                value={alert.method}
+                onChange={(e) => update(alert.id, { method: e.target.value as CommunicationMethod })}
+                className={`${inputClass} pl-10 appearance-none cursor-pointer text-sm`}
+              >
+                {Object.values(CommunicationMethod).map(m => (
+                  <option key={m} value={m} disabled={!allowedMethods.includes(m) && !keptMethods.includes(m)}>
+                    {m}{allowedMethods.includes(m) ? '' : ' (not in your plan)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(a => a.id !== alert.id))}
+              className="p-2 rounded-xl text-gray-300 hover:text-red-500 transition-colors"
+              title="Remove alert"
+            >
+              <X size={16} />
+            </button>
+          </div>
+
+          {needsContact(alert.method) && (
+            <div className="relative">
+              <Contact size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type={alert.method === CommunicationMethod.Email ? "email" : "tel"}
+                value={alert.contactInfo || ''}
+                onChange={(e) => update(alert.id, { contactInfo: e.target.value })}
+                placeholder={alert.method === CommunicationMethod.Email ? "Enter email address..." : "Enter phone number..."}
+                className={`${inputClass} pl-10`}
+                required
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertEditor;
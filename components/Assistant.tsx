@@ -1,16 +1,53 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, Send, X, Bot, Sparkles } from 'lucide-react';
-import { generateAssistantResponse } from '../services/geminiService';
-import { ChatMessage } from '../types';
+import { Send, X, Bot, Sparkles, Wrench, AlertTriangle, Square, SquarePen } from 'lucide-react';
+import { createAssistantModel, loadAiSettings, AI_PROVIDER_LABELS } from '../services/aiService';
+import { AiError } from '../services/aiProvider';
+import { QuotaError } from '../services/planService';
+import {
+  AssistantHandlers, AssistantRun, Conversation, PendingConfirmation, respondToUser, resolveConfirmation,
+  abandonPending, describeToolCall, localConversationStore
+} from '../services/assistantService';
+import { ChatMessage, AssistantToolResult, Category } from '../types';
 
-const Assistant: React.FC = () => {
+interface AssistantProps {
+  userId: string; // conversations are kept per user
+  // Counts a request against the plan; throws (e.g. QuotaError) to refuse it
+  onAiRequest: () => void;
+  handlers: AssistantHandlers; // the same ones the app's own controls use
+  timeZone: string; // the user's default zone, for dates the model reads and writes
+  categories: Category[];
+}
+
+const newConversation = (): Conversation => ({
+  messages: [{ id: 'init', role: 'model', text: 'Hello. I can help you organize your schedule or explain how the calendar works.', timestamp: Date.now() }],
+});
+
+// One line of activity per tool result
+const describeResult = ({ name, result }: AssistantToolResult): string => {
+  if (result.error) return `${name.replace(/_/g, ' ')}: ${result.error}`;
+  switch (name) {
+    case 'list_reminders': return `Looked at ${result.total} reminder${result.total === 1 ? '' : 's'}`;
+    case 'search_reminders': return `Searched, ${result.total} found`;
+    case 'create_reminder': return `Created "${(result.created as { title: string }).title}"`;
+    case 'reschedule_reminder': return `Moved "${result.rescheduled}" to ${String(result.to).replace('T', ' ')}`;
+    case 'complete_reminder': return `Marked "${result.toggled}" ${result.completed ? 'done' : 'not done'}`;
+    case 'delete_reminder': return `Deleted "${result.deleted}"`;
+    default: return name;
+  }
+};
+
+const Assistant: React.FC<AssistantProps> = ({ userId, onAiRequest, handlers, timeZone, categories }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: 'init', role: 'model', text: 'Hello. I can help you organize your schedule or explain how the calendar works.', timestamp: Date.now() }
-  ]);
+  const [conversation, setConversation] = useState<Conversation>(newConversation);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null); // a refused request (e.g. over the plan's daily limit) or a failed one
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null); // the run in progress
+
+  const store = localConversationStore(userId);
+  const { messages } = conversation;
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -18,36 +55,86 @@ const Assistant: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, isOpen]);
+  }, [messages, isOpen, pending]);
 
-  const handleSend = async () => {
-    if (!input.trim()) return;
+  // Each user has their own conversation; a run for the previous one stops
+  useEffect(() => {
+    setConversation(store.load() || newConversation());
+    setPending(null);
+    setNotice(null);
+    setLoading(false);
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+    };
+  }, [userId]);
 
-    const userMsg: ChatMessage = {
-      id: Date.now().toString(),
-      role: 'user',
-      text: input,
-      timestamp: Date.now()
+  // Let the model work through the tools, streaming its answer in, then keep where it got to
+  const run = async (step: (onUpdate: (next: Conversation) => void, signal: AbortSignal) => Promise<AssistantRun>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let latest = conversation;
+    const onUpdate = (next: Conversation) => {
+      latest = next;
+      if (abortRef.current === controller) setConversation(next);
     };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
     setLoading(true);
+    let result: AssistantRun;
+    try {
+      result = await step(onUpdate, controller.signal);
+    } catch (error) {
+      // Errors are shown beside the chat rather than sent to the model as something it said
+      console.error("Assistant Error:", error);
+      if (!controller.signal.aborted) {
+        setNotice(error instanceof AiError || error instanceof QuotaError ? error.message : 'I apologize, but I cannot process your request at the moment.');
+      }
+      result = { conversation: latest };
+    }
+    if (abortRef.current !== controller) return; // the user switched away meanwhile
+    abortRef.current = null;
 
-    const historyText = messages.map(m => `${m.role}: ${m.text}`).join('\n');
-    const responseText = await generateAssistantResponse(historyText, userMsg.text);
+    setConversation(result.conversation);
+    setPending(result.pending || null);
+    store.save(result.pending ? abandonPending(result.conversation, result.pending) : result.conversation);
+    setLoading(false);
+  };
 
-    const botMsg: ChatMessage = {
-      id: (Date.now() + 1).toString(),
-      role: 'model',
-      text: responseText,
-      timestamp: Date.now()
-    };
+  const context = () => ({ now: new Date(), timeZone, categories });
 
-    setMessages(prev => [...prev, botMsg]);
-    setLoading(false);
+  // Every model call, not just every message, counts against the plan
+  const model = () => createAssistantModel(onAiRequest);
+
+  const handleSend = async () => {
+    if (!input.trim() || loading || pending) return;
+    setNotice(null);
+
+    const text = input;
+    setInput('');
+    await run((onUpdate, signal) => respondToUser(model(), conversation, text, handlers, context(), { onUpdate, signal }));
   };
 
+  const handleConfirm = (confirmed: boolean) => {
+    if (!pending) return;
+    setPending(null);
+    setNotice(null);
+    run((onUpdate, signal) => resolveConfirmation(model(), conversation, pending, confirmed, handlers, context(), { onUpdate, signal }));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleNewConversation = () => {
+    const fresh = newConversation();
+    setConversation(fresh);
+    setPending(null);
+    store.save(fresh);
+  };
+
+  const last = messages[messages.length - 1];
+  const isStreaming = loading && last?.role === 'model' && !!last.text;
+
   return (
     <>
       {/* Floating Action Button */}
@@ -70,15 +157,35 @@ const Assistant: React.FC = () => {
           <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center">
              <Bot size={16} className="text-gray-600" />
           </div>
-          <div>
+          <div className="flex-1">
             <h3 className="font-medium text-gray-800 text-sm">Memento Assistant</h3>
-            <p className="text-[10px] text-gray-400">Powered by Gemini</p>
+            <p className="text-[10px] text-gray-400">Powered by {AI_PROVIDER_LABELS[loadAiSettings().provider]}</p>
           </div>
+          <button
+            onClick={handleNewConversation}
+            disabled={loading}
+            className="p-2 text-gray-400 hover:text-gray-700 hover:bg-white rounded-full transition-colors disabled:opacity-50"
+            title="New conversation"
+          >
+            <SquarePen size={16} />
+          </button>
         </div>
 
         {/* Messages */}
         <div className="h-80 overflow-y-auto p-4 space-y-4 bg-white scroll-smooth">
-          {messages.map((msg) => (
+          {messages.map((msg) => msg.role === 'tool' ? (
+            <div key={msg.id} className="flex flex-col gap-1">
+              {msg.toolResults?.map(result => (
+                <div
+                  key={result.callId}
+                  className={`flex items-center gap-2 text-[11px] ${result.result.error ? 'text-amber-600' : 'text-gray-400'}`}
+                >
+                  {result.result.error ? <AlertTriangle size={12} /> : <Wrench size={12} />}
+                  {describeResult(result)}
+                </div>
+              ))}
+            </div>
+          ) : msg.text && (
             <div
               key={msg.id}
               className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -94,7 +201,29 @@ const Assistant: React.FC = () => {
               </div>
             </div>
           ))}
-          {loading && (
+          {pending && (
+            <div className="border border-gray-200 rounded-2xl p-4 flex flex-col gap-3 animate-fade-in">
+              <div className="flex items-start gap-2 text-sm text-gray-700">
+                <AlertTriangle size={16} className="text-amber-500 mt-0.5 shrink-0" />
+                <span>{describeToolCall(pending.call, handlers)}?</span>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => handleConfirm(false)}
+                  className="px-3 py-1.5 text-xs text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleConfirm(true)}
+                  className="px-3 py-1.5 text-xs bg-gray-800 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                >
+                  Confirm
+                </button>
+              </div>
+            </div>
+          )}
+          {loading && !isStreaming && (
              <div className="flex justify-start">
                 <div className="bg-gray-50 rounded-2xl rounded-bl-sm px-4 py-3 flex gap-1">
                    <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}/>
@@ -106,6 +235,10 @@ const Assistant: React.FC = () => {
           <div ref={messagesEndRef} />
         </div>
 
+        {notice && (
+          <div className="px-4 py-2 text-xs text-amber-700 bg-amber-50 border-t border-amber-100">{notice}</div>
+        )}
+
         {/* Input */}
         <div className="p-3 bg-gray-50 border-t border-gray-100 flex gap-2">
           <input
@@ -113,16 +246,26 @@ const Assistant: React.FC = () => {
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask for help..."
+            placeholder="Ask, or say &quot;move the dentist to Friday&quot;..."
             className="flex-1 bg-white border-none rounded-xl px-4 py-2 text-sm focus:ring-2 focus:ring-gray-200 outline-none text-gray-600"
           />
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || loading}
-            className="p-2 bg-gray-800 text-white rounded-xl hover:bg-gray-700 disabled:opacity-50 transition-colors"
-          >
-            <Send size={18} />
-          </button>
+          {loading ? (
+            <button
+              onClick={handleStop}
+              className="p-2 bg-gray-800 text-white rounded-xl hover:bg-gray-700 transition-colors"
+              title="Stop"
+            >
+              <Square size={18} />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!input.trim() || !!pending}
+              className="p-2 bg-gray-800 text-white rounded-xl hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            >
+              <Send size={18} />
+            </button>
+          )}
         </div>
       </div>
     </>
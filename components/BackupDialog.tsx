@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Reminder, User, Category } from '../types';
+import { createBackup, parseBackup, restoreReminders, ParsedBackup, RestoreMode } from '../services/backupService';
+import { downloadTextFile, readTextFile, dateStamp } from '../services/fileService';
+import { QuotaError } from '../services/planService';
+import { Archive, X, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface BackupDialogProps {
+  user: User;
+  categories: Category[];
+  reminders: Reminder[];
+  checkQuota: (restored: Reminder[]) => QuotaError | null; // plan limits on the result
+  onRestore: (reminders: Reminder[], categories: Category[]) => void; // the backup's categories, to add to the user's
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Merge with current',
+  replace: 'Replace current',
+};
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ user, categories, reminders, checkQuota, onRestore, onClose }) => {
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  const handleDownload = () => {
+    downloadTextFile(`memento-backup-${dateStamp()}.json`, createBackup(user, categories, reminders), 'application/json');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setBackup(null);
+    setError(null);
+    try {
+      setBackup(parseBackup(await readTextFile(file)));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const result = backup ? restoreReminders(reminders, backup.reminders, mode, user.id) : [];
+  const quotaError = backup ? checkQuota(result) : null;
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-sm transition-colors ${active ? 'bg-gray-800 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-md w-full max-h-[85vh] flex flex-col animate-scale-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3 text-gray-500">
+            <Archive size={24} />
+            <h3 className="text-lg font-semibold text-gray-800">Backup & Restore</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+
+        <button
+          onClick={handleDownload}
+          className="w-full py-3 rounded-xl bg-gray-50 text-gray-700 hover:bg-gray-800 hover:text-white font-medium transition-colors mb-6"
+        >
+          Download backup ({reminders.length} reminder{reminders.length === 1 ? '' : 's'})
+        </button>
+
+        <label className="block w-full border border-dashed border-gray-300 rounded-xl py-4 text-center text-sm text-gray-500 hover:border-gray-500 hover:text-gray-700 cursor-pointer transition-colors mb-4">
+          {fileName || 'Choose a backup file to restore'}
+          <input type="file" accept=".json,application/json" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        </label>
+
+        <div className="flex-1 overflow-y-auto space-y-3 min-h-0">
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2">
+              <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {backup && (
+            <>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <CheckCircle2 size={16} className="text-green-500" />
+                <span>
+                  {backup.reminders.length} reminder{backup.reminders.length === 1 ? '' : 's'} ready to restore
+                  {backup.exportedAt && ` (saved ${new Date(backup.exportedAt).toLocaleDateString()})`}
+                </span>
+              </div>
+
+              {backup.rejected.length > 0 && (
+                <div className="text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2">
+                  <div className="font-medium mb-1">{backup.rejected.length} corrupt entr{backup.rejected.length === 1 ? 'y' : 'ies'} will be skipped</div>
+                  {backup.rejected.map(r => (
+                    <div key={r.index} className="truncate">
+                      #{r.index + 1}{r.title ? ` "${r.title}"` : ''}: {r.reason}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                {(Object.keys(MODE_LABELS) as RestoreMode[]).map(m => (
+                  <button key={m} onClick={() => setMode(m)} className={optionClass(mode === m)}>{MODE_LABELS[m]}</button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">
+                {mode === 'merge'
+                  ? 'Reminders from the backup are added; where both have the same reminder, the backup copy wins.'
+                  : 'All current reminders are removed and replaced by the backup.'}
+              </p>
+            </>
+          )}
+        </div>
+
+        {quotaError && (
+          <p className="text-xs text-amber-600 mt-3">
+            {quotaError.message} Restoring would go over that.
+          </p>
+        )}
+
+        <button
+          onClick={() => { onRestore(result, backup!.categories); onClose(); }}
+          disabled={!backup || backup.reminders.length === 0 || !!quotaError}
+          className="w-full mt-4 py-3 rounded-xl bg-gray-800 text-white hover:bg-gray-900 font-medium transition-colors shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Restore
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
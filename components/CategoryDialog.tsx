@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Reminder, Category, CategoryColor } from '../types';
+import {
+  CATEGORY_COLORS, CATEGORY_ICONS, categoryColor, createCategory, defaultCategoryId, findCategory
+} from '../services/categoryService';
+import { Tags, X, Plus, Trash2, Check } from 'lucide-react';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoryDialogProps {
+  categories: Category[];
+  reminders: Reminder[]; // to say how many a deletion moves
+  onChange: (categories: Category[]) => void;
+  // `id` is gone; its reminders move to `to`
+  onDelete: (id: string, to: string) => void;
+  onClose: () => void;
+}
+
+const CategoryDialog: React.FC<CategoryDialogProps> = ({ categories, reminders, onChange, onDelete, onClose }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null); // waiting for confirmation
+
+  const nameTaken = (value: string, exceptId?: string) =>
+    categories.some(c => c.id !== exceptId && c.name.toLowerCase() === value.trim().toLowerCase());
+
+  const update = (id: string, patch: Partial<Category>) =>
+    onChange(categories.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || nameTaken(name)) return;
+    const category = createCategory(name, categories);
+    onChange([...categories, category]);
+    setEditingId(category.id);
+    setName('');
+  };
+
+  const usedBy = (id: string) =>
+    reminders.filter(r => r.category === id || r.overrides?.some(o => o.category === id)).length;
+
+  // Where a deleted category's reminders go
+  const successor = (id: string) => defaultCategoryId(categories.filter(c => c.id !== id));
+
+  // Deleting a category in use asks first
+  const handleDelete = (category: Category) => {
+    if (usedBy(category.id) && deletingId !== category.id) {
+      setDeletingId(category.id);
+      return;
+    }
+    setDeletingId(null);
+    onDelete(category.id, successor(category.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-sm w-full max-h-[85vh] flex flex-col animate-scale-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3 text-gray-500">
+            <Tags size={24} />
+            <h3 className="text-lg font-semibold text-gray-800">Categories</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto custom-scrollbar -mx-1 px-1 space-y-1">
+          {categories.map(category => {
+            const color = categoryColor(category);
+            const isEditing = editingId === category.id;
+            return (
+              <li key={category.id} className={`rounded-xl ${isEditing ? 'bg-gray-50 p-2' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setEditingId(isEditing ? null : category.id)}
+                    style={{ backgroundColor: color.fill, color: color.ink }}
+                    className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0"
+                    title="Color and icon"
+                  >
+                    <CategoryIcon icon={category.icon} size={14} />
+                  </button>
+                  <input
+                    type="text"
+                    defaultValue={category.name}
+                    onBlur={(e) => {
+                      const value = e.target.value.trim();
+                      if (value && !nameTaken(value, category.id)) update(category.id, { name: value });
+                      else e.target.value = category.name;
+                    }}
+                    className="flex-1 min-w-0 text-sm bg-transparent px-2 py-1.5 rounded-lg border border-transparent outline-none hover:border-gray-200 focus:border-gray-400 focus:bg-white"
+                  />
+                  <span className="text-[10px] text-gray-400 flex-shrink-0">{usedBy(category.id) || ''}</span>
+                  <button
+                    onClick={() => handleDelete(category)}
+                    disabled={categories.length === 1}
+                    className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors disabled:opacity-30 disabled:hover:text-gray-300"
+                    title={categories.length === 1 ? 'At least one category is needed' : 'Delete'}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {deletingId === category.id && (
+                  <div className="flex items-center gap-2 mt-1 px-1 text-[11px] text-amber-700">
+                    <span className="flex-1">
+                      {usedBy(category.id)} reminder{usedBy(category.id) === 1 ? '' : 's'} will move to {findCategory(categories, successor(category.id)).name}.
+                    </span>
+                    <button onClick={() => handleDelete(category)} className="font-medium hover:text-red-600">Delete</button>
+                    <button onClick={() => setDeletingId(null)} className="text-gray-400 hover:text-gray-600">Cancel</button>
+                  </div>
+                )}
+
+                {isEditing && (
+                  <div className="mt-2 space-y-2 px-1">
+                    <div className="flex flex-wrap gap-1.5">
+                      {(Object.keys(CATEGORY_COLORS) as CategoryColor[]).map(c => (
+                        <button
+                          key={c}
+                          onClick={() => update(category.id, { color: c })}
+                          style={{ backgroundColor: CATEGORY_COLORS[c].fill, color: CATEGORY_COLORS[c].ink }}
+                          className={`w-6 h-6 rounded-full flex items-center justify-center ${category.color === c ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                          title={CATEGORY_COLORS[c].label}
+                        >
+                          {category.color === c && <Check size={12} />}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {CATEGORY_ICONS.map(icon => (
+                        <button
+                          key={icon}
+                          onClick={() => update(category.id, { icon })}
+                          className={`p-1.5 rounded-lg transition-colors ${category.icon === icon ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                        >
+                          <CategoryIcon icon={icon} size={14} />
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <form onSubmit={handleAdd} className="mt-4 pt-4 border-t border-gray-100 flex gap-2">
+          <input
+            type="text"
+            placeholder="New category"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-0 text-sm bg-gray-50 px-3 py-2 rounded-xl border border-gray-200 outline-none focus:border-gray-400"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || nameTaken(name)}
+            className="px-3 bg-gray-800 text-white rounded-xl hover:bg-gray-900 disabled:opacity-40 transition-colors"
+            title={nameTaken(name) ? 'A category has this name already' : 'Add'}
+          >
+            <Plus size={18} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryDialog;
@@ -0,0 +1,33 @@
+import React from 'react';
+import {
+  Tag, CircleAlert, Users, Heart, Lightbulb, Briefcase, House, ShoppingCart, Book, Star, Plane, Dumbbell, LucideIcon
+} from 'lucide-react';
+import { CategoryIcon as CategoryIconName } from '../types';
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  tag: Tag,
+  alert: CircleAlert,
+  users: Users,
+  heart: Heart,
+  lightbulb: Lightbulb,
+  briefcase: Briefcase,
+  home: House,
+  cart: ShoppingCart,
+  book: Book,
+  star: Star,
+  plane: Plane,
+  dumbbell: Dumbbell,
+};
+
+interface CategoryIconProps {
+  icon: CategoryIconName;
+  size?: number;
+  className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, size = 12, className }) => {
+  const Icon = ICONS[icon] || Tag;
+  return <Icon size={size} className={className} />;
+};
+
+export default CategoryIcon;
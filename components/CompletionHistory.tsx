@@ -0,0 +1,44 @@
+import React from 'react';
+import { Reminder } from '../types';
+import { getCompletionStats } from '../services/completionService';
+import { Flame } from 'lucide-react';
+
+interface CompletionHistoryProps {
+  reminder: Reminder;
+  onToggle: (occurrenceDate: Date) => void;
+}
+
+// Habit strip for recurring reminders: the last 7 instances, each one clickable to tick/untick
+const CompletionHistory: React.FC<CompletionHistoryProps> = ({ reminder, onToggle }) => {
+  const stats = getCompletionStats(reminder);
+  if (stats.total === 0) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-2" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-1">
+        {stats.recent.map(({ occurrence, done }) => {
+          const completion = reminder.completions?.find(c => new Date(c.occurrenceDate).getTime() === occurrence.originalDate.getTime());
+          const label = occurrence.date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+          return (
+            <button
+              key={occurrence.originalDate.getTime()}
+              onClick={() => onToggle(occurrence.originalDate)}
+              title={completion ? `${label} · done ${new Date(completion.completedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : `${label} · not done`}
+              className={`w-2.5 h-2.5 rounded-full transition-all duration-200 hover:scale-125 ${done ? 'bg-green-400' : 'bg-gray-200 hover:bg-gray-300'}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-1.5 text-[10px] text-gray-400">
+        <span>Done {stats.done} of last {stats.total} {stats.unit}</span>
+        {stats.streak > 1 && (
+          <span className="flex items-center gap-0.5 text-amber-500" title={`${stats.streak} in a row`}>
+            <Flame size={10} />{stats.streak}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompletionHistory;
@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import { DeliveryLogEntry } from '../types';
+import { fetchDeliveryLog } from '../services/deliveryService';
+import { CheckCircle2, RotateCw, XCircle, Send } from 'lucide-react';
+
+interface DeliveryLogProps {
+  reminderId: string;
+  token: string; // session of the account the reminder belongs to
+}
+
+const STATUS_ICONS: Record<DeliveryLogEntry['status'], React.ReactNode> = {
+  sent: <CheckCircle2 size={12} className="text-green-500" />,
+  retrying: <RotateCw size={12} className="text-amber-500" />,
+  failed: <XCircle size={12} className="text-red-400" />,
+};
+
+// Latest delivery attempts of one reminder, as recorded by the local server
+const DeliveryLog: React.FC<DeliveryLogProps> = ({ reminderId, token }) => {
+  const [entries, setEntries] = useState<DeliveryLogEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(false);
+    fetchDeliveryLog(reminderId, token)
+      .then(log => { if (!cancelled) setEntries(log.slice(-5).reverse()); })
+      .catch(() => { if (!cancelled) setError(true); });
+    return () => { cancelled = true; };
+  }, [reminderId, token]);
+
+  return (
+    <div className="p-4 bg-gray-50/50 rounded-2xl border border-gray-100">
+      <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <Send size={12} /> Delivery Log
+      </label>
+      {error && <div className="text-xs text-gray-400">Delivery server not reachable.</div>}
+      {!error && entries?.length === 0 && <div className="text-xs text-gray-400">Nothing sent yet.</div>}
+      {!error && entries && entries.length > 0 && (
+        <ul className="space-y-1.5">
+          {entries.map(entry => (
+            <li key={`${entry.key}-${entry.attempt}-${entry.at}`} className="flex items-start gap-2 text-[11px] text-gray-500">
+              <span className="mt-0.5">{STATUS_ICONS[entry.status]}</span>
+              <div className="min-w-0">
+                <div>
+                  {new Date(entry.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  {' · '}{entry.method} to {entry.to}
+                  {entry.attempt > 1 && ` · attempt ${entry.attempt}`}
+                </div>
+                {entry.detail && entry.status !== 'sent' && <div className="text-gray-400 truncate" title={entry.detail}>{entry.detail}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryLog;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Reminder, Category } from '../types';
+import { exportIcs, IcsExportMode } from '../services/icsService';
+import { downloadTextFile, dateStamp } from '../services/fileService';
+import { Download, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  reminders: Reminder[];
+  filteredReminders: Reminder[]; // the current search results
+  categories: Category[]; // for the names written to CATEGORIES
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<IcsExportMode, string> = {
+  event: 'Events (VEVENT)',
+  todo: 'Tasks (VTODO)',
+  auto: 'Meeting & Health categories as events, the rest as tasks',
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ reminders, filteredReminders, categories, onClose }) => {
+  const [selection, setSelection] = useState<'all' | 'filtered'>('all');
+  const [mode, setMode] = useState<IcsExportMode>('event');
+
+  const selected = selection === 'all' ? reminders : filteredReminders;
+
+  const handleExport = () => {
+    downloadTextFile(`memento-${dateStamp()}.ics`, exportIcs(selected, mode, new Date(), categories), 'text/calendar;charset=utf-8');
+    onClose();
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 rounded-lg text-sm transition-colors ${active ? 'bg-gray-800 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-sm w-full animate-scale-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3 text-gray-500">
+            <Download size={24} />
+            <h3 className="text-lg font-semibold text-gray-800">Export to Calendar</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1 ml-1">Reminders</label>
+            <div className="flex gap-2">
+              <button onClick={() => setSelection('all')} className={optionClass(selection === 'all')}>
+                All ({reminders.length})
+              </button>
+              <button onClick={() => setSelection('filtered')} className={optionClass(selection === 'filtered')}>
+                Search results ({filteredReminders.length})
+              </button>
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1 ml-1">Export as</label>
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as IcsExportMode)}
+              className="w-full bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-sm outline-none focus:border-gray-400"
+            >
+              {(Object.keys(MODE_LABELS) as IcsExportMode[]).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={selected.length === 0}
+          className="w-full py-3 rounded-xl bg-gray-800 text-white hover:bg-gray-900 font-medium transition-colors shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Download .ics
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
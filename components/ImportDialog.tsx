@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Reminder, ReminderDraft, Category } from '../types';
+import { parseIcs, findExistingReminder, IcsImportResult } from '../services/icsService';
+import { readTextFile } from '../services/fileService';
+import { QuotaError } from '../services/planService';
+import { describeRRule } from '../services/rruleService';
+import { findCategory } from '../services/categoryService';
+import { Upload, X, AlertCircle, Repeat } from 'lucide-react';
+
+export type ImportStrategy = 'skip' | 'update' | 'duplicate';
+
+export interface ImportDecision {
+  draft: ReminderDraft;
+  replaces?: string; // id of the existing reminder to update
+}
+
+interface ImportDialogProps {
+  reminders: Reminder[];
+  defaultTimeZone: string; // zone for events given in UTC
+  categories: Category[]; // CATEGORIES are matched against these; the rest become tags
+  checkQuota: (decisions: ImportDecision[]) => QuotaError | null; // plan limits on the result
+  onImport: (decisions: ImportDecision[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGY_LABELS: Record<ImportStrategy, string> = {
+  skip: 'Skip existing',
+  update: 'Update existing',
+  duplicate: 'Import as new',
+};
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ reminders, defaultTimeZone, categories, checkQuota, onImport, onClose }) => {
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<IcsImportResult | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [strategy, setStrategy] = useState<ImportStrategy>('skip');
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const parsed = parseIcs(await readTextFile(file), defaultTimeZone, categories);
+      setResult(parsed);
+      setSelected(new Set(parsed.items.map(i => i.uid)));
+    } catch (error) {
+      setResult({ items: [], unmapped: [], errors: [(error as Error).message] });
+    }
+  };
+
+  const entries = (result?.items || []).map(item => ({ item, existing: findExistingReminder(item, reminders) }));
+
+  const decisions: ImportDecision[] = entries
+    .filter(({ item }) => selected.has(item.uid))
+    .flatMap(({ item, existing }): ImportDecision[] => {
+      if (!existing || strategy === 'duplicate') return [{ draft: item.draft }];
+      return strategy === 'update' ? [{ draft: item.draft, replaces: existing.id }] : [];
+    });
+  const quotaError = decisions.length ? checkQuota(decisions) : null;
+
+  const toggle = (uid: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(uid)) next.delete(uid); else next.add(uid);
+    return next;
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-lg w-full max-h-[85vh] flex flex-col animate-scale-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-3 text-gray-500">
+            <Upload size={24} />
+            <h3 className="text-lg font-semibold text-gray-800">Import from Calendar</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+        </div>
+
+        <label className="block w-full border border-dashed border-gray-300 rounded-xl py-4 text-center text-sm text-gray-500 hover:border-gray-500 hover:text-gray-700 cursor-pointer transition-colors mb-4">
+          {fileName || 'Choose an .ics file'}
+          <input type="file" accept=".ics,text/calendar" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+        </label>
+
+        {result && (
+          <div className="flex-1 overflow-y-auto space-y-4 min-h-0">
+            {result.errors.map((error, i) => (
+              <div key={i} className="flex items-start gap-2 text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2">
+                <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            ))}
+
+            {entries.length > 0 && (
+              <>
+                <div className="flex gap-2">
+                  {(Object.keys(STRATEGY_LABELS) as ImportStrategy[]).map(s => (
+                    <button
+                      key={s}
+                      onClick={() => setStrategy(s)}
+                      className={`flex-1 py-1.5 rounded-lg text-xs transition-colors ${strategy === s ? 'bg-gray-800 text-white' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'}`}
+                    >
+                      {STRATEGY_LABELS[s]}
+                    </button>
+                  ))}
+                </div>
+
+                <ul className="divide-y divide-gray-50">
+                  {entries.map(({ item, existing }) => (
+                    <li key={item.uid} className="flex items-start gap-3 py-2">
+                      <input type="checkbox" checked={selected.has(item.uid)} onChange={() => toggle(item.uid)} className="mt-1" />
+                      <div className="min-w-0 flex-1">
+                        <div className="text-sm text-gray-800 truncate">{item.draft.title}</div>
+                        <div className="flex items-center gap-2 text-[10px] text-gray-400">
+                          <span>{new Date(item.draft.date).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                          <span className="uppercase tracking-widest">{findCategory(categories, item.draft.category).name}</span>
+                          {item.draft.rrule && (
+                            <span className="flex items-center gap-1 truncate"><Repeat size={10} />{describeRRule(item.draft.rrule)}</span>
+                          )}
+                        </div>
+                      </div>
+                      {existing && <span className="text-[10px] text-amber-600 bg-amber-50 px-2 py-0.5 rounded-full flex-shrink-0">Exists</span>}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {result.unmapped.length > 0 && (
+              <div className="text-xs text-gray-500 bg-gray-50 rounded-lg px-3 py-2">
+                <div className="font-medium text-gray-600 mb-1">Not imported</div>
+                {result.unmapped.map(u => (
+                  <div key={u.property}>{u.property}{u.count > 1 ? ` (${u.count})` : ''}</div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {quotaError && (
+          <p className="text-xs text-amber-600 mt-3">
+            {quotaError.message} Deselect some entries to continue.
+          </p>
+        )}
+
+        <button
+          onClick={() => { onImport(decisions); onClose(); }}
+          disabled={decisions.length === 0 || !!quotaError}
+          className="w-full mt-4 py-3 rounded-xl bg-gray-800 text-white hover:bg-gray-900 font-medium transition-colors shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Import {decisions.length || ''} reminder{decisions.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ReminderDraft, Category } from '../types';
+import { parseQuickAdd, draftFromFields, QuickAddField } from '../services/quickAddService';
+import { parseReminderText } from '../services/aiService';
+import { AiError } from '../services/aiProvider';
+import { describeRRule } from '../services/rruleService';
+import { toWallInputs } from '../services/timeZoneService';
+import { Zap, Wand2, Loader2, CornerDownLeft } from 'lucide-react';
+
+interface QuickAddInputProps {
+  timeZone?: string; // zone of the entry being created; undefined: floating
+  categories: Category[];
+  onApply: (draft: ReminderDraft) => void; // fills the form, which then acts as the editable preview
+  onAiRequest: () => void; // counts against the plan; throws to refuse
+}
+
+const FIELD_LABELS: Record<QuickAddField, string> = {
+  date: 'Date',
+  time: 'Time',
+  rrule: 'Repeats',
+  until: 'Ends',
+  method: 'Via',
+  contactInfo: 'Contact',
+  offset: 'Alert',
+  category: 'Category',
+  tags: 'Tags',
+};
+
+const QuickAddInput: React.FC<QuickAddInputProps> = ({ timeZone, categories, onApply, onAiRequest }) => {
+  const [text, setText] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [aiError, setAiError] = useState<string | null>(null);
+
+  const result = text.trim() ? parseQuickAdd(text, new Date(), timeZone, categories) : null;
+
+  const apply = (draft: ReminderDraft) => {
+    onApply(draft);
+    setText('');
+    setAiError(null);
+  };
+
+  // The local parser found no date: let the model have a go at the whole line
+  const handleAskAi = async () => {
+    if (!result) return;
+    try {
+      onAiRequest();
+    } catch (error) {
+      setAiError((error as Error).message);
+      return;
+    }
+    setAiError(null);
+    setIsAsking(true);
+    let fields;
+    try {
+      fields = await parseReminderText(text, toWallInputs(new Date(), timeZone).date, timeZone || 'local time', categories);
+    } catch (error) {
+      console.error("Quick Add Error:", error);
+      setAiError(error instanceof AiError ? error.message : 'The assistant could not be reached.');
+      return;
+    } finally {
+      setIsAsking(false);
+    }
+    if (!fields.date && !fields.title) {
+      setAiError('The assistant could not read a reminder from this either.');
+      return;
+    }
+    apply(draftFromFields(fields, result.draft, timeZone, categories));
+  };
+
+  const when = result && new Date(result.draft.date).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="relative">
+        <Zap size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-300" />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              // The surrounding form would submit otherwise
+              e.preventDefault();
+              if (result) apply(result.draft);
+            }
+          }}
+          placeholder='Quick add: "dentist next tue 3pm, every month"'
+          className="w-full bg-gray-50 rounded-xl pl-10 pr-4 py-3 text-sm text-gray-700 outline-none border border-dashed border-gray-200 transition-all duration-300 focus:bg-white focus:border-gray-400 focus:ring-4 focus:ring-gray-100"
+        />
+      </div>
+
+      {result && (
+        <div className="bg-gray-50 rounded-xl p-3 text-xs text-gray-500 flex flex-col gap-2 animate-fade-in">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm text-gray-800 font-medium truncate">{result.draft.title || 'Untitled'}</span>
+            <span className={`whitespace-nowrap ${result.hasDate ? 'text-gray-600' : 'text-gray-300 italic'}`} title={result.hasDate ? undefined : 'No date found, this is the default'}>
+              {when}
+            </span>
+          </div>
+          {result.draft.rrule && <span>{describeRRule(result.draft.rrule)}</span>}
+          {result.recognized.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {result.recognized.map((part, i) => (
+                <span key={i} className="px-2 py-0.5 rounded-full bg-white border border-gray-100">
+                  <span className="text-gray-400">{FIELD_LABELS[part.field]}:</span> {part.text}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2 pt-1">
+            {!result.hasDate ? (
+              <button
+                type="button"
+                onClick={handleAskAi}
+                disabled={isAsking}
+                className="flex items-center gap-1 text-gray-500 hover:text-gray-800 disabled:opacity-50"
+              >
+                {isAsking ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                Ask AI to read it
+              </button>
+            ) : <span />}
+            <button
+              type="button"
+              onClick={() => apply(result.draft)}
+              className="flex items-center gap-1 font-medium text-gray-700 hover:text-gray-900"
+            >
+              Fill in <CornerDownLeft size={12} />
+            </button>
+          </div>
+          {aiError && <p className="text-amber-600">{aiError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickAddInput;
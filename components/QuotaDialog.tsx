@@ -0,0 +1,51 @@
+import React from 'react';
+import { QuotaError, QUOTA_LABELS } from '../services/planService';
+import { AlertCircle } from 'lucide-react';
+
+interface QuotaDialogProps {
+  error: QuotaError;
+  isGuest: boolean;
+  replaceCount?: number; // offered when the plan replaces instead of refusing
+  onReplace?: () => void;
+  onClose: () => void;
+}
+
+const QuotaDialog: React.FC<QuotaDialogProps> = ({ error, isGuest, replaceCount = 0, onReplace, onClose }) => (
+  <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+    <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-sm w-full animate-scale-in" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-3 text-amber-500 mb-4">
+        <AlertCircle size={24} />
+        <h3 className="text-lg font-semibold text-gray-800">Limit Reached</h3>
+      </div>
+      <p className="text-gray-600 mb-2 text-sm leading-relaxed">{error.message}</p>
+      {error.quota !== 'deliveryChannels' && (
+        <p className="text-xs text-gray-400 mb-2">
+          {QUOTA_LABELS[error.quota]}: {Math.min(error.used, error.limit)} of {error.limit} used
+        </p>
+      )}
+      <p className="text-gray-600 mb-6 text-sm leading-relaxed">
+        {onReplace
+          ? `Would you like to replace your oldest ${replaceCount === 1 ? 'reminder' : `${replaceCount} reminders`} with this new one?`
+          : isGuest ? 'Create an account for more room.' : 'Complete or delete some entries to make room.'}
+      </p>
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          className="flex-1 py-3 rounded-xl text-gray-600 hover:bg-gray-100 font-medium transition-colors"
+        >
+          {onReplace ? 'Cancel' : 'OK'}
+        </button>
+        {onReplace && (
+          <button
+            onClick={onReplace}
+            className="flex-1 py-3 rounded-xl bg-gray-800 text-white hover:bg-gray-900 font-medium transition-colors shadow-lg"
+          >
+            Replace
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default QuotaDialog;
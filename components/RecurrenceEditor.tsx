@@ -0,0 +1,246 @@
+import React from 'react';
+import { RecurrenceRule, RecurrenceFrequency, Weekday, WeekdayNum } from '../types';
+import { WEEKDAYS, WORKWEEK, describeRRule } from '../services/rruleService';
+import { toWallInputs, fromWallInputs, formatReminderDate } from '../services/timeZoneService';
+import { Repeat, Calendar, Hash } from 'lucide-react';
+
+interface RecurrenceEditorProps {
+  value?: RecurrenceRule;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+  anchorDate: string; // YYYY-MM-DD of the reminder, used for defaults
+  timeZone?: string; // the reminder's; the end date is the end of that day there
+  inputClass: string;
+}
+
+type EndMode = 'never' | 'date' | 'count';
+type MonthlyMode = 'day' | 'position';
+type PositionTarget = Weekday | 'weekday' | 'day';
+
+const MONDAY_FIRST: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday'
+};
+const ORDINALS: { value: number; label: string }[] = [
+  { value: 1, label: 'First' }, { value: 2, label: 'Second' }, { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' }, { value: -1, label: 'Last' }
+];
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly'
+};
+
+const parseAnchor = (anchorDate: string) => {
+  const d = anchorDate ? new Date(`${anchorDate}T00:00`) : new Date();
+  return isNaN(d.getTime()) ? new Date() : d;
+};
+
+const toDateInput = (iso: string, timeZone?: string) => toWallInputs(new Date(iso), timeZone).date;
+
+// UNTIL is inclusive: the series runs through the whole end day
+const endOfDay = (date: string, timeZone?: string) =>
+  formatReminderDate({ timeZone }, fromWallInputs(date, '23:59:59.999', timeZone));
+
+// Work out which "On the ___ ___" options a monthly rule corresponds to
+const readPosition = (rule: RecurrenceRule, anchor: Date): { ordinal: number; target: PositionTarget } => {
+  const byDay = rule.byDay || [];
+  if (rule.bySetPos?.length) {
+    const target: PositionTarget = byDay.length === 7 ? 'day'
+      : byDay.length === WORKWEEK.length && byDay.every(d => WORKWEEK.includes(d.day)) ? 'weekday'
+      : byDay[0]?.day || WEEKDAYS[anchor.getDay()];
+    return { ordinal: rule.bySetPos[0], target };
+  }
+  return { ordinal: byDay[0]?.n || 1, target: byDay[0]?.day || WEEKDAYS[anchor.getDay()] };
+};
+
+const buildPosition = (ordinal: number, target: PositionTarget): Partial<RecurrenceRule> => {
+  if (target === 'weekday') return { byDay: WORKWEEK.map(day => ({ day })), bySetPos: [ordinal] };
+  if (target === 'day') return { byDay: MONDAY_FIRST.map(day => ({ day })), bySetPos: [ordinal] };
+  return { byDay: [{ day: target, n: ordinal }], bySetPos: undefined };
+};
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, anchorDate, timeZone, inputClass }) => {
+  const anchor = parseAnchor(anchorDate);
+  const anchorWeekday = WEEKDAYS[anchor.getDay()];
+
+  const endMode: EndMode = value?.until ? 'date' : value?.count ? 'count' : 'never';
+  const monthlyMode: MonthlyMode = value?.byDay?.length ? 'position' : 'day';
+  const update = (patch: Partial<RecurrenceRule>) => value && onChange({ ...value, ...patch });
+
+  const handleFrequencyChange = (freq: RecurrenceFrequency | 'NONE') => {
+    if (freq === 'NONE') return onChange(undefined);
+    const rule: RecurrenceRule = { freq, interval: value?.interval || 1, until: value?.until, count: value?.count };
+    if (freq === 'WEEKLY') rule.byDay = [{ day: anchorWeekday }];
+    onChange(rule);
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    const current = value?.byDay?.length ? value.byDay : [{ day: anchorWeekday }];
+    const next: WeekdayNum[] = current.some(d => d.day === day)
+      ? current.filter(d => d.day !== day)
+      : [...current, { day }];
+    // A weekly rule keeps at least one day selected
+    if (next.length) update({ byDay: MONDAY_FIRST.filter(d => next.some(n => n.day === d)).map(d => ({ day: d })) });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') update({ until: undefined, count: undefined });
+    if (mode === 'count') update({ until: undefined, count: value?.count || 10 });
+    if (mode === 'date') {
+      const end = new Date(anchor.getFullYear(), anchor.getMonth() + 3, anchor.getDate());
+      update({ count: undefined, until: endOfDay(toWallInputs(end).date, timeZone) });
+    }
+  };
+
+  const position = value ? readPosition(value, anchor) : { ordinal: 1, target: anchorWeekday as PositionTarget };
+  const isWorkweekDaily = value?.freq === 'DAILY' && value.byDay?.length === WORKWEEK.length;
+
+  return (
+    <div className="flex flex-col gap-4 p-4 bg-gray-50/50 rounded-2xl border border-gray-100">
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-1">
+            <Repeat size={12} /> Recurrence
+          </label>
+          <select
+            value={value?.freq || 'NONE'}
+            onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'NONE')}
+            className={`${inputClass} appearance-none cursor-pointer bg-white`}
+          >
+            <option value="NONE">None</option>
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => (
+              <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+
+        {value && (
+          <div className="w-24 animate-fade-in">
+            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Every</label>
+            <input
+              type="number"
+              min="1"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={`${inputClass} bg-white`}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Frequency specific options */}
+      {value?.freq === 'DAILY' && (
+        <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer animate-fade-in">
+          <input
+            type="checkbox"
+            checked={isWorkweekDaily}
+            onChange={(e) => update({ byDay: e.target.checked ? WORKWEEK.map(day => ({ day })) : undefined })}
+            className="accent-gray-800"
+          />
+          Weekdays only (Mon–Fri)
+        </label>
+      )}
+
+      {value?.freq === 'WEEKLY' && (
+        <div className="flex gap-1 justify-between animate-fade-in">
+          {MONDAY_FIRST.map(day => {
+            const active = value.byDay?.length ? value.byDay.some(d => d.day === day) : day === anchorWeekday;
+            return (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                title={WEEKDAY_LABELS[day]}
+                className={`w-9 h-9 rounded-full text-xs font-medium transition-all duration-200
+                  ${active ? 'bg-gray-800 text-white shadow-md' : 'bg-white text-gray-500 border border-gray-200 hover:bg-gray-100'}`}
+              >
+                {WEEKDAY_LABELS[day].charAt(0)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {(value?.freq === 'MONTHLY' || value?.freq === 'YEARLY') && (
+        <div className="flex flex-col gap-2 animate-fade-in">
+          <select
+            value={monthlyMode}
+            onChange={(e) => update(e.target.value === 'day'
+              ? { byDay: undefined, bySetPos: undefined, byMonthDay: undefined }
+              : { byMonthDay: undefined, ...buildPosition(position.ordinal, position.target) })}
+            className={`${inputClass} appearance-none cursor-pointer bg-white`}
+          >
+            <option value="day">On day {anchor.getDate()}</option>
+            <option value="position">On a weekday position…</option>
+          </select>
+          {monthlyMode === 'position' && (
+            <div className="flex gap-2">
+              <select
+                value={position.ordinal}
+                onChange={(e) => update(buildPosition(Number(e.target.value), position.target))}
+                className={`${inputClass} appearance-none cursor-pointer bg-white`}
+              >
+                {ORDINALS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <select
+                value={position.target}
+                onChange={(e) => update(buildPosition(position.ordinal, e.target.value as PositionTarget))}
+                className={`${inputClass} appearance-none cursor-pointer bg-white`}
+              >
+                {MONDAY_FIRST.map(day => <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>)}
+                <option value="weekday">Weekday</option>
+                <option value="day">Day</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recurrence End Settings */}
+      {value && (
+        <div className="flex gap-4 animate-fade-in">
+          <div className="flex-1">
+            <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Ends</label>
+            <select
+              value={endMode}
+              onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+              className={`${inputClass} appearance-none cursor-pointer bg-white`}
+            >
+              <option value="never">Never</option>
+              <option value="date">On Date</option>
+              <option value="count">After...</option>
+            </select>
+          </div>
+          {endMode === 'date' && (
+            <div className="flex-1 relative self-end">
+              <Calendar size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="date"
+                value={toDateInput(value.until!, timeZone)}
+                onChange={(e) => e.target.value && update({ until: endOfDay(e.target.value, timeZone) })}
+                className={`${inputClass} bg-white pl-10`}
+              />
+            </div>
+          )}
+          {endMode === 'count' && (
+            <div className="flex-1 relative self-end">
+              <Hash size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="number"
+                min="1"
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClass} bg-white pl-10`}
+                placeholder="Number of occurrences"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <div className="text-xs text-gray-500 italic animate-fade-in">{describeRRule(value)}</div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
@@ -1,109 +1,171 @@
-import React, { useState, useEffect } from 'react';
-import { Reminder, ReminderType, RecurrenceType, CommunicationMethod } from '../types';
-import { Plus, Wand2, Loader2, X, Repeat, Bell, Mail, MessageSquare, Phone, Save, Calendar, Hash, Contact } from 'lucide-react';
-import { refineReminderText } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Reminder, ReminderDraft, ReminderAlert, Category, RecurrenceRule, CommunicationMethod, OccurrenceScope } from '../types';
+import { Plus, Wand2, Loader2, X, Save, Globe, Hash, Settings2 } from 'lucide-react';
+import { refineReminderText } from '../services/aiService';
+import { AiError } from '../services/aiProvider';
+import { resolveOccurrence } from '../services/recurrenceService';
+import { newAlert, needsContact, alertMethods } from '../services/alertService';
+import { defaultCategoryId, categoryColor, normalizeTags } from '../services/categoryService';
+import {
+  listTimeZones, toWallInputs, fromWallInputs, formatReminderDate, differsFromViewer, timeZoneAbbreviation
+} from '../services/timeZoneService';
+import RecurrenceEditor from './RecurrenceEditor';
+import AlertEditor from './AlertEditor';
+import QuickAddInput from './QuickAddInput';
+import DeliveryLog from './DeliveryLog';
+import CategoryIcon from './CategoryIcon';
+import { SCOPE_LABELS } from './SeriesScopeDialog';
 
 interface ReminderWidgetProps {
-  onAdd: (reminder: Omit<Reminder, 'id' | 'createdAt' | 'userId'>) => void;
+  onAdd: (reminder: ReminderDraft, scope: OccurrenceScope) => void;
   onClose: () => void;
   initialReminder?: Reminder | null; // For edit mode
+  occurrenceDate?: Date | null; // Instance of a recurring reminder being edited
   initialDate?: Date | null; // For clicking on empty calendar slot
+  defaultTimeZone: string; // for new reminders
+  allowedMethods: CommunicationMethod[]; // delivery channels of the user's plan
+  onAiRequest: () => void; // counts against the plan; throws to refuse
+  categories: Category[];
+  onManageCategories: () => void;
+  sessionToken: string | null; // delivery logs need a signed-in account
 }
 
-const ReminderWidget: React.FC<ReminderWidgetProps> = ({ onAdd, onClose, initialReminder, initialDate }) => {
+const ReminderWidget: React.FC<ReminderWidgetProps> = ({ onAdd, onClose, initialReminder, occurrenceDate, initialDate, defaultTimeZone, allowedMethods, onAiRequest, categories, onManageCategories, sessionToken }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [date, setDate] = useState('');
   const [time, setTime] = useState('');
-  const [type, setType] = useState<ReminderType>(ReminderType.Standard);
-  const [recurrence, setRecurrence] = useState<RecurrenceType>(RecurrenceType.None);
-  const [method, setMethod] = useState<CommunicationMethod>(CommunicationMethod.Notification);
-  
-  // New State for features
-  const [recurrenceEndMode, setRecurrenceEndMode] = useState<'never' | 'date' | 'count'>('never');
-  const [recurrenceEndValue, setRecurrenceEndValue] = useState<string | number>('');
-  const [contactInfo, setContactInfo] = useState('');
+  const [timeZone, setTimeZone] = useState<string | undefined>(defaultTimeZone); // undefined: floating
+  const [category, setCategory] = useState(() => defaultCategoryId(categories));
+  const [tags, setTags] = useState(''); // as typed; normalized on save
+  const [rrule, setRrule] = useState<RecurrenceRule | undefined>(undefined);
+  const [alerts, setAlerts] = useState<ReminderAlert[]>(() => [newAlert()]);
 
   const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [quickAddNotice, setQuickAddNotice] = useState<string | null>(null);
+
+  // Editing one instance of a series offers the this / following / all choice
+  const isSeriesInstance = !!(initialReminder?.rrule && occurrenceDate);
+  const [scope, setScope] = useState<OccurrenceScope>('all');
+  const showSeriesFields = !(isSeriesInstance && scope === 'this');
 
   // Initialize form with initialReminder data or defaults when opened
   useEffect(() => {
     if (initialReminder) {
-      setTitle(initialReminder.title);
-      setDescription(initialReminder.description);
-      const d = new Date(initialReminder.date);
-      setDate(d.toISOString().split('T')[0]);
-      setTime(d.toTimeString().slice(0, 5));
-      setType(initialReminder.type);
-      setRecurrence(initialReminder.recurrence);
-      setMethod(initialReminder.method);
-      
-      // Load new fields
-      setRecurrenceEndMode(initialReminder.recurrenceEndMode || 'never');
-      setRecurrenceEndValue(initialReminder.recurrenceEndValue || '');
-      setContactInfo(initialReminder.contactInfo || '');
+      // Prefill with the instance's own values when editing a single occurrence
+      const occurrence = initialReminder.rrule && occurrenceDate ? resolveOccurrence(initialReminder, occurrenceDate) : null;
+      const source = occurrence ? occurrence.reminder : initialReminder;
+      setScope(occurrence ? 'this' : 'all');
+      setTitle(source.title);
+      setDescription(source.description);
+      // Date and time are shown on the reminder's own clock
+      const d = occurrence ? occurrence.date : new Date(initialReminder.date);
+      const wall = toWallInputs(d, initialReminder.timeZone);
+      setDate(wall.date);
+      setTime(wall.time);
+      setTimeZone(initialReminder.timeZone);
+      setCategory(source.category);
+      setTags((initialReminder.tags || []).join(' '));
+      setRrule(initialReminder.rrule);
+      setAlerts(initialReminder.alerts);
     } else {
       // Reset or set default date from click
+      setScope('all');
+      setQuickAddNotice(null);
       setTitle('');
       setDescription('');
+      setTimeZone(defaultTimeZone);
       if (initialDate) {
-          setDate(initialDate.toISOString().split('T')[0]);
-          setTime('09:00');
+          // The calendar day (or day view hour) that was clicked, as the viewer sees it
+          const wall = toWallInputs(initialDate);
+          setDate(wall.date);
+          setTime(wall.time === '00:00' ? '09:00' : wall.time);
       } else {
           setDate('');
           setTime('');
       }
-      setType(ReminderType.Standard);
-      setRecurrence(RecurrenceType.None);
-      setMethod(CommunicationMethod.Notification);
-      
-      setRecurrenceEndMode('never');
-      setRecurrenceEndValue('');
-      setContactInfo('');
+      setCategory(defaultCategoryId(categories));
+      setTags('');
+      setRrule(undefined);
+      setAlerts([newAlert()]);
     }
-  }, [initialReminder, initialDate]);
+  }, [initialReminder, occurrenceDate, initialDate, defaultTimeZone]);
+
+  // A category deleted while the form is open gives way to the default
+  useEffect(() => {
+    if (!categories.some(c => c.id === category)) setCategory(defaultCategoryId(categories));
+  }, [categories]);
+
+  const timeZones = useMemo(listTimeZones, []);
+
+  // The instant the inputs describe, to show it on the viewer's clock
+  const instant = date ? fromWallInputs(date, time || '09:00', timeZone) : null;
+
+  // A new zone keeps the wall-clock date of a recurrence end
+  const handleTimeZoneChange = (next: string | undefined) => {
+    if (rrule?.until) {
+      const endDate = toWallInputs(new Date(rrule.until), timeZone).date;
+      setRrule({ ...rrule, until: formatReminderDate({ timeZone: next }, fromWallInputs(endDate, '23:59:59.999', next)) });
+    }
+    setTimeZone(next);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title || !date) return;
 
-    const fullDate = new Date(`${date}T${time || '09:00'}`);
+    const fullDate = fromWallInputs(date, time || '09:00', timeZone);
+    const tagList = normalizeTags(tags);
 
     onAdd({
       title,
       description,
-      date: fullDate.toISOString(),
-      type,
-      recurrence,
-      method,
+      date: formatReminderDate({ timeZone }, fullDate),
+      timeZone,
+      category,
+      tags: tagList.length ? tagList : undefined,
+      rrule,
+      // Only alerts sent somewhere keep their contact info
+      alerts: alerts.map(({ contactInfo, ...alert }) => needsContact(alert.method) && contactInfo ? { ...alert, contactInfo } : alert),
       completed: initialReminder ? initialReminder.completed : false,
-      
-      // Only include recurrence end info if recurring
-      recurrenceEndMode: recurrence === RecurrenceType.None ? undefined : recurrenceEndMode,
-      recurrenceEndValue: recurrence === RecurrenceType.None || recurrenceEndMode === 'never' ? undefined : recurrenceEndValue,
-      
-      // Only include contact info if method requires it
-      contactInfo: method === CommunicationMethod.Notification ? undefined : contactInfo,
-    });
+    }, scope);
+  };
+
+  // A parsed quick-add line fills the form, where it can be checked and edited before saving
+  const applyQuickAdd = (draft: ReminderDraft) => {
+    const wall = toWallInputs(new Date(draft.date), draft.timeZone);
+    setTitle(draft.title);
+    setDate(wall.date);
+    setTime(wall.time);
+    setTimeZone(draft.timeZone);
+    setCategory(draft.category);
+    setTags((draft.tags || []).join(' '));
+    setRrule(draft.rrule);
+    const refused = alertMethods(draft).filter(m => !allowedMethods.includes(m));
+    setAlerts(draft.alerts.map(a => refused.includes(a.method) ? { ...a, method: CommunicationMethod.Notification, contactInfo: undefined } : a));
+    setQuickAddNotice(refused.length ? `${refused.join(' and ')} ${refused.length === 1 ? 'is' : 'are'} not part of your plan, so this will be a notification.` : null);
   };
 
   const handleAiRefine = async () => {
     if (!description) return;
+    try {
+      onAiRequest();
+    } catch (error) {
+      setRefineError((error as Error).message);
+      return;
+    }
+    setRefineError(null);
     setIsRefining(true);
-    const refined = await refineReminderText(description);
-    setDescription(refined);
+    try {
+      setDescription(await refineReminderText(description));
+    } catch (error) {
+      console.error("Refine Error:", error);
+      setRefineError(error instanceof AiError ? error.message : 'The note could not be refined.');
+    }
     setIsRefining(false);
   };
 
-  const getMethodIcon = (m: CommunicationMethod) => {
-     switch(m) {
-         case CommunicationMethod.Email: return <Mail size={16} />;
-         case CommunicationMethod.SMS: return <MessageSquare size={16} />;
-         case CommunicationMethod.Call: return <Phone size={16} />;
-         default: return <Bell size={16} />;
-     }
-  };
-
   // Shared input class with enhanced focus styles
   const inputClass = "w-full bg-gray-50 rounded-xl px-4 py-3 text-gray-700 outline-none border border-transparent transition-all duration-300 focus:bg-white focus:border-gray-400 focus:ring-4 focus:ring-gray-100 focus:shadow-md";
 
@@ -119,22 +181,56 @@ const ReminderWidget: React.FC<ReminderWidgetProps> = ({ onAdd, onClose, initial
       </div>
 
       <form onSubmit={handleSubmit} className="flex flex-col gap-5 flex-1 overflow-y-auto pr-2 custom-scrollbar">
+
+        {/* Series scope (only when editing one occurrence of a recurring reminder) */}
+        {isSeriesInstance && (
+          <div className="flex bg-gray-50 rounded-xl p-1 border border-gray-100">
+            {(Object.keys(SCOPE_LABELS) as OccurrenceScope[]).map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setScope(s)}
+                className={`flex-1 px-2 py-2 text-[11px] font-medium rounded-lg transition-all ${scope === s ? 'bg-white text-gray-800 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                {SCOPE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+        )}
         
-        {/* Type Selection */}
+        {/* Quick add (new entries only) */}
+        {!initialReminder && (
+          <div>
+            <QuickAddInput timeZone={timeZone} categories={categories} onApply={applyQuickAdd} onAiRequest={onAiRequest} />
+            {quickAddNotice && <p className="text-xs text-amber-600 mt-2">{quickAddNotice}</p>}
+          </div>
+        )}
+
+        {/* Category Selection */}
         <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar">
-          {Object.values(ReminderType).map((t) => (
+          {categories.map((c) => (
             <button
-              key={t}
+              key={c.id}
               type="button"
-              onClick={() => setType(t)}
-              className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-300 whitespace-nowrap
-                ${type === t 
-                  ? 'bg-gray-800 text-white shadow-lg transform scale-105' 
+              onClick={() => setCategory(c.id)}
+              style={category === c.id ? { backgroundColor: categoryColor(c).fill, color: categoryColor(c).ink } : undefined}
+              className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium transition-all duration-300 whitespace-nowrap
+                ${category === c.id 
+                  ? 'shadow-lg transform scale-105' 
                   : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
             >
-              {t}
+              <CategoryIcon icon={c.icon} size={14} />
+              {c.name}
             </button>
           ))}
+          <button
+            type="button"
+            onClick={onManageCategories}
+            className="p-2 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 transition-colors flex-shrink-0"
+            title="Manage categories"
+          >
+            <Settings2 size={16} />
+          </button>
         </div>
 
         {/* Inputs */}
@@ -173,111 +269,65 @@ const ReminderWidget: React.FC<ReminderWidgetProps> = ({ onAdd, onClose, initial
              </div>
           </div>
 
-          <div className="flex flex-col gap-4 p-4 bg-gray-50/50 rounded-2xl border border-gray-100">
-             <div className="flex gap-4">
-                <div className="flex-1">
-                     <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-1">
-                        <Repeat size={12} /> Recurrence
-                     </label>
-                     <div className="relative">
-                        <select
-                            value={recurrence}
-                            onChange={(e) => setRecurrence(e.target.value as RecurrenceType)}
-                            className={`${inputClass} appearance-none cursor-pointer bg-white`}
-                        >
-                            {Object.values(RecurrenceType).map(r => (
-                                <option key={r} value={r}>{r}</option>
-                            ))}
-                        </select>
-                     </div>
+          {showSeriesFields && (
+             <div>
+                <div className="relative">
+                   <Globe size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+                   <select
+                      value={timeZone || ''}
+                      onChange={(e) => handleTimeZoneChange(e.target.value || undefined)}
+                      className={`${inputClass} pl-10 appearance-none cursor-pointer text-sm`}
+                   >
+                      <option value="">Floating (local time wherever you are)</option>
+                      {timeZones.map(z => <option key={z} value={z}>{z.replace(/_/g, ' ')}</option>)}
+                   </select>
                 </div>
-                
-                {/* Recurrence End Settings */}
-                {recurrence !== RecurrenceType.None && (
-                    <div className="flex-1 animate-fade-in">
-                        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1">Ends</label>
-                        <select
-                             value={recurrenceEndMode}
-                             onChange={(e) => setRecurrenceEndMode(e.target.value as any)}
-                             className={`${inputClass} appearance-none cursor-pointer bg-white`}
-                        >
-                             <option value="never">Never</option>
-                             <option value="date">On Date</option>
-                             <option value="count">After...</option>
-                        </select>
-                    </div>
+                {instant && timeZone && differsFromViewer(timeZone, instant) && (
+                   <p className="text-[11px] text-gray-400 mt-1 px-1">
+                      {time || '09:00'} {timeZoneAbbreviation(timeZone, instant)} is {instant.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })} your time
+                   </p>
                 )}
              </div>
+          )}
 
-             {/* Recurrence End Detail Input */}
-             {recurrence !== RecurrenceType.None && recurrenceEndMode !== 'never' && (
-                 <div className="animate-fade-in-down">
-                     {recurrenceEndMode === 'date' ? (
-                         <div className="relative">
-                            <Calendar size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
-                            <input 
-                                type="date"
-                                value={recurrenceEndValue as string}
-                                onChange={(e) => setRecurrenceEndValue(e.target.value)}
-                                className={`${inputClass} bg-white pl-10`}
-                                placeholder="Select End Date"
-                            />
-                         </div>
-                     ) : (
-                         <div className="relative">
-                            <Hash size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
-                            <input 
-                                type="number"
-                                min="1"
-                                value={recurrenceEndValue}
-                                onChange={(e) => setRecurrenceEndValue(Number(e.target.value))}
-                                className={`${inputClass} bg-white pl-10`}
-                                placeholder="Number of occurrences"
-                            />
-                         </div>
-                     )}
-                 </div>
-             )}
-          </div>
+          {showSeriesFields ? (
+            <>
+            <div className="relative">
+               <Hash size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+               <input
+                  type="text"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="Tags, e.g. work travel"
+                  className={`${inputClass} pl-10 text-sm`}
+               />
+            </div>
 
-          <div className="flex flex-col gap-3">
-             <div>
-                 <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1 flex items-center gap-1">
-                    Method
-                 </label>
-                 <div className="relative">
-                    <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none">
-                        {getMethodIcon(method)}
-                    </div>
-                    <select
-                        value={method}
-                        onChange={(e) => setMethod(e.target.value as CommunicationMethod)}
-                        className={`${inputClass} pl-10 appearance-none cursor-pointer`}
-                    >
-                        {Object.values(CommunicationMethod).map(m => (
-                            <option key={m} value={m}>{m}</option>
-                        ))}
-                    </select>
-                 </div>
+            <RecurrenceEditor
+               value={rrule}
+               onChange={setRrule}
+               anchorDate={date}
+               timeZone={timeZone}
+               inputClass={inputClass}
+            />
+
+            <AlertEditor
+               value={alerts}
+               onChange={setAlerts}
+               allowedMethods={allowedMethods}
+               keptMethods={initialReminder ? alertMethods(initialReminder) : []}
+               inputClass={inputClass}
+            />
+
+            {initialReminder && sessionToken && initialReminder.alerts.some(a => needsContact(a.method)) && (
+               <DeliveryLog reminderId={initialReminder.id} token={sessionToken} />
+            )}
+            </>
+          ) : (
+             <div className="text-xs text-gray-400 px-1">
+                Tags, recurrence and alerts apply to the whole series.
              </div>
-             
-             {/* Conditional Contact Info Input */}
-             {method !== CommunicationMethod.Notification && (
-                 <div className="animate-fade-in-down">
-                     <div className="relative">
-                        <Contact size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
-                        <input
-                            type={method === CommunicationMethod.Email ? "email" : "tel"}
-                            value={contactInfo}
-                            onChange={(e) => setContactInfo(e.target.value)}
-                            placeholder={method === CommunicationMethod.Email ? "Enter email address..." : "Enter phone number..."}
-                            className={`${inputClass} pl-10`}
-                            required
-                        />
-                     </div>
-                 </div>
-             )}
-          </div>
+          )}
 
           <div className="relative">
              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-1 flex justify-between">
@@ -299,6 +349,7 @@ const ReminderWidget: React.FC<ReminderWidgetProps> = ({ onAdd, onClose, initial
                 rows={4}
                 className={`${inputClass} resize-none`}
              />
+             {refineError && <p className="text-[11px] text-amber-600 mt-1">{refineError}</p>}
           </div>
         </div>
 
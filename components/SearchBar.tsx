@@ -0,0 +1,115 @@
+import React from 'react';
+import { Search, Bookmark, BookmarkPlus, Pin, PinOff, Trash2, AlertCircle } from 'lucide-react';
+import { SavedFilter } from '../services/searchService';
+
+interface SearchBarProps {
+  query: string;
+  onChange: (query: string) => void;
+  error: string | null; // what is wrong with the query, shown under the box
+  savedFilters: SavedFilter[];
+  onChangeSavedFilters: (filters: SavedFilter[]) => void;
+}
+
+const SYNTAX_HELP = 'Words match loosely; "quotes" match exactly. Filters: category:urgent #tag method:sms before:2026-12-01 after:2026-11-01 recurring:yes done:no, -word to leave out.';
+
+const SearchBar: React.FC<SearchBarProps> = ({ query, onChange, error, savedFilters, onChangeSavedFilters }) => {
+    const [isPanelOpen, setIsPanelOpen] = React.useState(false);
+    const [name, setName] = React.useState('');
+
+    const trimmed = query.trim();
+    const canSave = !!trimmed && !error && !savedFilters.some(f => f.query === trimmed);
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSave || !name.trim()) return;
+        onChangeSavedFilters([...savedFilters, { id: crypto.randomUUID(), name: name.trim(), query: trimmed, pinned: true }]);
+        setName('');
+    };
+
+    const update = (id: string, patch: Partial<SavedFilter> | null) => onChangeSavedFilters(
+        patch ? savedFilters.map(f => f.id === id ? { ...f, ...patch } : f) : savedFilters.filter(f => f.id !== id)
+    );
+
+    return (
+        <div className="relative group">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 group-focus-within:text-gray-600 transition-colors" size={18} />
+            <input
+                type="text"
+                placeholder="Search, or category:urgent done:no..."
+                title={SYNTAX_HELP}
+                value={query}
+                onChange={(e) => onChange(e.target.value)}
+                className={`w-full bg-white border rounded-full py-2 pl-10 pr-10 text-sm outline-none focus:ring-4 transition-all shadow-sm
+                    ${error ? 'border-amber-300 focus:border-amber-400 focus:ring-amber-50' : 'border-gray-200 focus:border-gray-400 focus:ring-gray-100'}`}
+            />
+            <button
+                onClick={() => setIsPanelOpen(!isPanelOpen)}
+                className={`absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full transition-colors ${isPanelOpen ? 'text-gray-700 bg-gray-100' : 'text-gray-400 hover:text-gray-600'}`}
+                title="Saved filters"
+            >
+                {canSave ? <BookmarkPlus size={16} /> : <Bookmark size={16} />}
+            </button>
+
+            {error && (
+                <div className="absolute left-4 right-4 top-full mt-1 flex items-center gap-1.5 text-[11px] text-amber-700">
+                    <AlertCircle size={12} className="flex-shrink-0" />
+                    <span className="truncate" title={error}>{error}</span>
+                </div>
+            )}
+
+            {isPanelOpen && (
+                <div className="absolute top-12 right-0 w-72 bg-white rounded-2xl shadow-xl border border-gray-100 p-4 z-20 animate-fade-in-down">
+                    <div className="text-[10px] uppercase tracking-widest text-gray-400 mb-2 px-1">Saved filters</div>
+                    {savedFilters.length === 0 && (
+                        <p className="text-[11px] text-gray-400 px-1 mb-2">None yet. Search for something, then save it here.</p>
+                    )}
+                    {savedFilters.map(filter => (
+                        <div key={filter.id} className="flex items-center gap-1">
+                            <button
+                                onClick={() => { onChange(filter.query); setIsPanelOpen(false); }}
+                                className={`flex-1 min-w-0 text-left px-2 py-1.5 rounded-lg text-xs transition-colors hover:bg-gray-50 ${filter.query === trimmed ? 'text-gray-800 font-medium' : 'text-gray-500'}`}
+                            >
+                                <div className="truncate">{filter.name}</div>
+                                <div className="truncate text-[10px] text-gray-400 font-mono">{filter.query}</div>
+                            </button>
+                            <button
+                                onClick={() => update(filter.id, { pinned: !filter.pinned })}
+                                className={`p-1.5 rounded-lg transition-colors ${filter.pinned ? 'text-gray-600' : 'text-gray-300 hover:text-gray-500'}`}
+                                title={filter.pinned ? 'Unpin from the upcoming list' : 'Pin above the upcoming list'}
+                            >
+                                {filter.pinned ? <Pin size={14} /> : <PinOff size={14} />}
+                            </button>
+                            <button
+                                onClick={() => update(filter.id, null)}
+                                className="p-1.5 rounded-lg text-gray-300 hover:text-red-500 transition-colors"
+                                title="Delete"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    {canSave && (
+                        <form onSubmit={handleSave} className="mt-3 pt-3 border-t border-gray-100 flex gap-2">
+                            <input
+                                type="text"
+                                placeholder="Name this search"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                className="flex-1 min-w-0 text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                            />
+                            <button
+                                type="submit"
+                                disabled={!name.trim()}
+                                className="px-3 text-xs bg-gray-800 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                            >
+                                Save
+                            </button>
+                        </form>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchBar;
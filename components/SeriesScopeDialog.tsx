@@ -0,0 +1,49 @@
+import React from 'react';
+import { OccurrenceScope } from '../types';
+import { Repeat } from 'lucide-react';
+
+interface SeriesScopeDialogProps {
+  title: string;
+  scopes: OccurrenceScope[];
+  onSelect: (scope: OccurrenceScope) => void;
+  onCancel: () => void;
+}
+
+export const SCOPE_LABELS: Record<OccurrenceScope, string> = {
+  this: 'This occurrence',
+  following: 'This and following',
+  all: 'All occurrences'
+};
+
+const SeriesScopeDialog: React.FC<SeriesScopeDialogProps> = ({ title, scopes, onSelect, onCancel }) => (
+  <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onCancel}>
+    <div className="bg-white rounded-3xl shadow-2xl p-6 max-w-sm w-full animate-scale-in" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center gap-3 text-gray-500 mb-4">
+        <Repeat size={24} />
+        <h3 className="text-lg font-semibold text-gray-800">{title}</h3>
+      </div>
+      <p className="text-gray-600 mb-6 text-sm leading-relaxed">
+        This is a recurring reminder. Which occurrences should be affected?
+      </p>
+      <div className="flex flex-col gap-2">
+        {scopes.map(scope => (
+          <button
+            key={scope}
+            onClick={() => onSelect(scope)}
+            className="w-full py-3 rounded-xl bg-gray-50 text-gray-700 hover:bg-gray-800 hover:text-white font-medium transition-colors"
+          >
+            {SCOPE_LABELS[scope]}
+          </button>
+        ))}
+        <button
+          onClick={onCancel}
+          className="w-full py-3 rounded-xl text-gray-500 hover:bg-gray-100 font-medium transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default SeriesScopeDialog;
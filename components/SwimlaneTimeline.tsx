@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Reminder, Category, D3Node } from '../types';
+import { expandReminders } from '../services/recurrenceService';
+import { findCategory, categoryColor } from '../services/categoryService';
+import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+
+interface SwimlaneTimelineProps {
+  reminders: Reminder[];
+  categories: Category[];
+  onSelectReminder: (id: string, occurrenceDate?: Date) => void;
+}
+
+// Lane of reminders whose category is not among the user's
+const UNCATEGORIZED_LANE = '';
+
+const LANE_HEIGHT = 56;
+const LABEL_WIDTH = 88;
+const LABEL_CHARS = 12;
+const AXIS_HEIGHT = 28;
+const NODE_RADIUS = 6;
+// Nodes closer than this on a lane merge into one cluster
+const CLUSTER_DISTANCE = 16;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// The axis zooms from a few hours to about a decade
+const MIN_SPAN = 2 * HOUR;
+const MAX_SPAN = 10 * 365 * DAY;
+const INITIAL_PAST = 7 * DAY;
+const INITIAL_FUTURE = 30 * DAY;
+
+const nodeKey = (node: D3Node) => `${node.id}:${node.originalDate?.getTime()}`;
+
+/**
+ * Group a lane's nodes (sorted by x) into runs that would overlap on screen.
+ */
+const clusterLane = (nodes: D3Node[]): D3Node[][] => {
+  const clusters: D3Node[][] = [];
+  nodes.forEach(node => {
+    const last = clusters[clusters.length - 1];
+    if (last && node.x! - last[0].x! < CLUSTER_DISTANCE) last.push(node);
+    else clusters.push([node]);
+  });
+  return clusters;
+};
+
+// One lane per category, plus one for reminders in none of them when there are any
+const laneCategories = (categories: Category[], reminders: Reminder[]): Category[] =>
+  reminders.some(r => !categories.some(c => c.id === r.category))
+    ? [...categories, findCategory(categories, UNCATEGORIZED_LANE)]
+    : categories;
+
+const SwimlaneTimeline: React.FC<SwimlaneTimelineProps> = ({ reminders, categories, onSelectReminder }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [width, setWidth] = useState(0);
+  const [visibleRange, setVisibleRange] = useState<[Date, Date] | null>(null);
+
+  // Latest props for the D3 handlers, which outlive renders
+  const remindersRef = useRef(reminders);
+  const onSelectRef = useRef(onSelectReminder);
+  const drawRef = useRef<() => void>(() => {});
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  remindersRef.current = reminders;
+  onSelectRef.current = onSelectReminder;
+
+  const lanes = laneCategories(categories, reminders);
+  const lanesRef = useRef(lanes);
+  lanesRef.current = lanes;
+  // Lane layout and colors; the chart is rebuilt when they change
+  const lanesKey = lanes.map(c => `${c.id}:${c.name}:${c.color}`).join('|');
+  const height = lanes.length * LANE_HEIGHT + AXIS_HEIGHT;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  // Build the chart for the current width; zooming redraws it in place
+  useEffect(() => {
+    if (!svgRef.current || width <= LABEL_WIDTH) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const now = Date.now();
+    const baseX = d3.scaleTime()
+      .domain([new Date(now - INITIAL_PAST), new Date(now + INITIAL_FUTURE)])
+      .range([LABEL_WIDTH, width]);
+    const baseSpan = INITIAL_PAST + INITIAL_FUTURE;
+    const lanes = lanesRef.current;
+    const laneIds = lanes.map(c => c.id);
+    const laneOf = (category: string) => laneIds.includes(category) ? category : UNCATEGORIZED_LANE;
+    const laneY = (lane: string) => laneIds.indexOf(lane) * LANE_HEIGHT + LANE_HEIGHT / 2;
+    const colorOf = (lane: string) => categoryColor(lanes[laneIds.indexOf(lane)]);
+
+    // Lanes and their labels
+    const laneGroups = svg.append('g').selectAll('g').data(lanes).join('g')
+      .attr('transform', (_, i) => `translate(0,${i * LANE_HEIGHT})`);
+    laneGroups.append('rect')
+      .attr('width', width).attr('height', LANE_HEIGHT)
+      .attr('fill', (_, i) => i % 2 ? '#ffffff' : '#f9fafb');
+    const labels = laneGroups.append('text')
+      .attr('x', 12).attr('y', LANE_HEIGHT / 2).attr('dy', '0.35em')
+      .attr('class', 'fill-gray-400 text-[10px] uppercase tracking-widest font-medium')
+      .text(lane => lane.name.length > LABEL_CHARS ? `${lane.name.slice(0, LABEL_CHARS - 1)}…` : lane.name);
+    labels.append('title').text(lane => lane.name);
+
+    const plot = svg.append('g');
+    plot.append('clipPath').attr('id', 'swimlane-clip')
+      .append('rect').attr('x', LABEL_WIDTH).attr('width', width - LABEL_WIDTH).attr('height', height);
+    const content = plot.append('g').attr('clip-path', 'url(#swimlane-clip)');
+    const todayLine = content.append('line')
+      .attr('y1', 0).attr('y2', height - AXIS_HEIGHT)
+      .attr('stroke', '#1f2937').attr('stroke-dasharray', '3,3').attr('stroke-opacity', 0.4);
+    const nodeLayer = content.append('g');
+    const axisLayer = svg.append('g')
+      .attr('transform', `translate(0,${height - AXIS_HEIGHT})`)
+      .attr('class', 'text-gray-400');
+
+    const zoomToRange = (start: number, end: number) => {
+      const span = Math.max(end - start, MIN_SPAN);
+      const center = (start + end) / 2;
+      const k = baseSpan / (span * 1.2);
+      const x0 = baseX(new Date(center - span * 0.6));
+      svg.transition().duration(500).call(zoom.transform, d3.zoomIdentity.translate(LABEL_WIDTH - x0 * k, 0).scale(k));
+    };
+
+    const draw = () => {
+      const x = d3.zoomTransform(svgRef.current!).rescaleX(baseX);
+      const [start, end] = x.domain();
+      setVisibleRange([start, end]);
+
+      axisLayer.call(d3.axisBottom(x).ticks(Math.max(2, Math.floor((width - LABEL_WIDTH) / 100))));
+      axisLayer.select('.domain').attr('stroke', '#e5e7eb');
+      todayLine.attr('x1', x(new Date())).attr('x2', x(new Date()));
+
+      const nodes: D3Node[] = expandReminders(remindersRef.current, start, end).map(occ => ({
+        ...occ.reminder,
+        date: occ.date.toISOString(),
+        originalDate: occ.originalDate,
+        x: x(occ.date),
+        y: laneY(laneOf(occ.reminder.category)),
+      }));
+      const clusters = laneIds.flatMap(lane => clusterLane(nodes.filter(n => laneOf(n.category) === lane)));
+
+      const groups = nodeLayer.selectAll<SVGGElement, D3Node[]>('g.node')
+        .data(clusters, cluster => cluster.length === 1 ? nodeKey(cluster[0]) : `${laneOf(cluster[0].category)}:${nodeKey(cluster[0])}`)
+        .join(enter => {
+          const g = enter.append('g').attr('class', 'node cursor-pointer');
+          g.append('circle').attr('stroke', '#ffffff').attr('stroke-width', 2);
+          g.append('text').attr('text-anchor', 'middle').attr('dy', '0.35em').attr('class', 'text-[9px] font-bold pointer-events-none');
+          g.append('title');
+          return g;
+        });
+
+      groups
+        .attr('transform', cluster => `translate(${d3.mean(cluster, n => n.x!)},${cluster[0].y})`)
+        .on('click', (event, cluster) => {
+          event.stopPropagation();
+          if (cluster.length === 1) {
+            onSelectRef.current(cluster[0].id, cluster[0].originalDate);
+          } else {
+            zoomToRange(new Date(cluster[0].date).getTime(), new Date(cluster[cluster.length - 1].date).getTime());
+          }
+        });
+      groups.select('circle')
+        .attr('r', cluster => cluster.length === 1 ? NODE_RADIUS : NODE_RADIUS + 3 + Math.min(8, Math.sqrt(cluster.length) * 2))
+        .attr('fill', cluster => colorOf(laneOf(cluster[0].category)).fill)
+        .attr('opacity', cluster => cluster.every(n => n.completed) ? 0.4 : 1);
+      groups.select('text')
+        .text(cluster => cluster.length === 1 ? '' : cluster.length)
+        .attr('fill', cluster => colorOf(laneOf(cluster[0].category)).ink);
+      groups.select('title').text(cluster => cluster.length === 1
+        ? `${cluster[0].title}\n${new Date(cluster[0].date).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+        : `${cluster.length} ${lanes[laneIds.indexOf(laneOf(cluster[0].category))].name} reminders, click to zoom in`);
+    };
+
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([baseSpan / MAX_SPAN, baseSpan / MIN_SPAN])
+      .on('zoom', draw);
+    zoomRef.current = zoom;
+    drawRef.current = draw;
+    svg.call(zoom).on('dblclick.zoom', null);
+    draw();
+  }, [width, lanesKey]);
+
+  useEffect(() => {
+    drawRef.current();
+  }, [reminders]);
+
+  const zoomBy = (factor: number) => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const resetZoom = () => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).transition().duration(500).call(zoomRef.current.transform, d3.zoomIdentity);
+  };
+
+  return (
+    <div className="bg-white rounded-3xl shadow-soft p-6 flex flex-col gap-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-center gap-4">
+        <div className="flex flex-col items-center md:items-start">
+            <h2 className="text-2xl font-light text-gray-800">
+                {visibleRange ? `${d3.timeFormat('%b %d, %Y')(visibleRange[0])} – ${d3.timeFormat('%b %d, %Y')(visibleRange[1])}` : 'Timeline'}
+            </h2>
+            <span className="text-xs text-gray-400 uppercase tracking-widest font-medium">
+                Timeline by Category · Scroll to zoom, drag to pan
+            </span>
+        </div>
+        <div className="flex items-center gap-1 bg-gray-50 p-1 rounded-2xl">
+            <button onClick={() => zoomBy(0.5)} className="p-2 hover:bg-white hover:shadow-sm rounded-full text-gray-600 transition-all" title="Zoom out">
+                <ZoomOut size={18} />
+            </button>
+            <button onClick={resetZoom} className="p-2 hover:bg-white hover:shadow-sm rounded-full text-gray-600 transition-all group" title="Back to the coming weeks">
+                <RotateCcw size={16} className="group-hover:-rotate-180 transition-transform duration-500"/>
+            </button>
+            <button onClick={() => zoomBy(2)} className="p-2 hover:bg-white hover:shadow-sm rounded-full text-gray-600 transition-all" title="Zoom in">
+                <ZoomIn size={18} />
+            </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="w-full border border-gray-100 rounded-2xl overflow-hidden shadow-inner-soft">
+        <svg ref={svgRef} width={width} height={height} className="block select-none cursor-grab active:cursor-grabbing" />
+      </div>
+    </div>
+  );
+};
+
+export default SwimlaneTimeline;
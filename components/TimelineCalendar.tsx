@@ -1,90 +1,301 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import * as d3 from 'd3';
-import { Reminder, ReminderType } from '../types';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, RotateCcw, Clock, AlignLeft } from 'lucide-react';
+import { Reminder, Category, Occurrence } from '../types';
+import { expandReminders, getNextOccurrence, occurrenceKey } from '../services/recurrenceService';
+import { differsFromViewer, formatZonedTime } from '../services/timeZoneService';
+import { moveToDay, moveToSlot } from '../services/rescheduleService';
+import { findCategory, categoryColor } from '../services/categoryService';
+import { describeAlert, alertTime } from '../services/alertService';
+import CategoryIcon from './CategoryIcon';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, RotateCcw, Clock, AlignLeft, Wand2, BellRing } from 'lucide-react';
 
 interface TimelineCalendarProps {
   reminders: Reminder[];
-  onSelectReminder: (id: string) => void;
+  categories: Category[];
+  onSelectReminder: (id: string, occurrenceDate?: Date) => void;
   onDateClick: (date: Date) => void;
+  // A chip dropped elsewhere: the occurrence generated at `originalDate`, now at `from`, should move to `to`
+  onMoveOccurrence: (id: string, originalDate: Date, from: Date, to: Date) => void;
 }
 
-type ViewMode = 'month' | 'week';
+type ViewMode = 'year' | 'month' | 'week' | 'day' | 'agenda';
+type Zoom = ViewMode | 'auto';
 
-const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelectReminder, onDateClick }) => {
+const VIEW_LABELS: Record<ViewMode, string> = {
+  year: 'Yearly Density',
+  month: 'Monthly Overview',
+  week: 'Weekly Details',
+  day: 'Daily Schedule',
+  agenda: 'Agenda',
+};
+
+const TITLE_FORMATS: Record<ViewMode, string> = {
+  year: '%Y',
+  month: '%B %Y',
+  week: 'Week of %b %d, %Y',
+  day: '%A, %B %d, %Y',
+  agenda: 'From %b %d, %Y',
+};
+
+// Entries a month cell shows before "+N more"
+const CELL_LIMIT = 4;
+// Busiest day the week's time grid shows comfortably; auto zoom picks the day view past it
+const WEEK_DAY_LIMIT = 8;
+const AGENDA_DAYS = 30;
+const HOUR_HEIGHT = 48; // px per hour row in the day view
+
+const busiestDay = (occurrences: Occurrence[]) =>
+  d3.max(d3.rollup(occurrences, v => v.length, occ => d3.timeDay.floor(occ.date).getTime()).values()) || 0;
+
+/**
+ * The view the "auto" zoom picks for `date`: the widest view whose cells still
+ * fit their busiest day. An empty month stays a month, so paging through a
+ * quiet stretch keeps stepping a month at a time; the year heatmap is only
+ * ever chosen by hand.
+ */
+const pickViewMode = (reminders: Reminder[], date: Date): ViewMode => {
+  const month = d3.timeMonth.floor(date);
+  const monthOccurrences = expandReminders(reminders, month, d3.timeMonth.offset(month, 1));
+  if (busiestDay(monthOccurrences) <= CELL_LIMIT) return 'month';
+
+  const week = d3.timeWeek.floor(date);
+  const weekOccurrences = monthOccurrences.filter(occ => occ.date >= week && occ.date < d3.timeWeek.offset(week, 1));
+  return busiestDay(weekOccurrences) <= WEEK_DAY_LIMIT ? 'week' : 'day';
+};
+
+// Time steps the views navigate by
+const VIEW_INTERVALS: Record<ViewMode, (date: Date, step: number) => Date> = {
+  year: (date, step) => d3.timeYear.offset(date, step),
+  month: (date, step) => d3.timeMonth.offset(date, step),
+  week: (date, step) => d3.timeWeek.offset(date, step),
+  day: (date, step) => d3.timeDay.offset(date, step),
+  agenda: (date, step) => d3.timeDay.offset(date, step * AGENDA_DAYS),
+};
+
+// Alt+arrow steps: days for left/right; weeks in the day-cell views or hours in the time grids for up/down
+const ARROW_STEPS: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -1, ArrowDown: 1 };
+
+const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, categories, onSelectReminder, onDateClick, onMoveOccurrence }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [viewMode, setViewMode] = useState<ViewMode>('month');
-  const [hoveredReminderId, setHoveredReminderId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState<Zoom>('auto');
+  const [agendaLength, setAgendaLength] = useState(AGENDA_DAYS); // days the agenda lists, grows on scroll
+  const [hoveredOccurrenceKey, setHoveredOccurrenceKey] = useState<string | null>(null);
+  const [dragKey, setDragKey] = useState<string | null>(null); // occurrence being dragged
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // cell it hovers
+  const [moving, setMoving] = useState<{ occurrence: Occurrence; to: Date } | null>(null); // keyboard move in progress
+  const rootRef = useRef<HTMLDivElement>(null);
+  const timeGridRef = useRef<HTMLDivElement>(null);
+  const agendaEndRef = useRef<HTMLDivElement>(null);
+
+  const viewMode: ViewMode = zoom === 'auto' ? pickViewMode(reminders, currentDate) : zoom;
 
   // --- Logic ---
 
   const resetView = () => {
-    // Advanced Reset: Find the range of reminders and try to fit them or default to today
-    if (reminders.length > 0 && reminders.some(r => new Date(r.date) > new Date())) {
-        // If there are future reminders, jump to the nearest one
-        const upcoming = reminders
-            .filter(r => new Date(r.date) >= new Date())
-            .sort((a,b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
-        
-        if (upcoming) {
-            setCurrentDate(new Date(upcoming.date));
-        } else {
-             setCurrentDate(new Date());
-        }
-    } else {
-        setCurrentDate(new Date());
-    }
-    setViewMode('month');
+    // Advanced Reset: jump to the nearest upcoming occurrence (recurring series included) or default to today
+    const now = new Date();
+    const upcoming = reminders
+        .map(r => getNextOccurrence(r, now))
+        .filter(occ => occ !== null)
+        .sort((a, b) => a.date.getTime() - b.date.getTime())[0];
+
+    setCurrentDate(upcoming ? new Date(upcoming.date) : now);
+    setZoom('auto');
   };
 
   const handleNav = (direction: 'prev' | 'next') => {
-    const offset = direction === 'prev' ? -1 : 1;
-    if (viewMode === 'month') {
-        setCurrentDate(d3.timeMonth.offset(currentDate, offset));
-    } else {
-        setCurrentDate(d3.timeWeek.offset(currentDate, offset));
-    }
+    setCurrentDate(VIEW_INTERVALS[viewMode](currentDate, direction === 'prev' ? -1 : 1));
   };
 
-  // Generate days to render based on view mode
-  const getDays = () => {
-    const start = viewMode === 'month' 
-        ? d3.timeMonth.floor(currentDate) 
-        : d3.timeWeek.floor(currentDate);
-    
-    const end = viewMode === 'month'
-        ? d3.timeMonth.offset(start, 1)
-        : d3.timeWeek.offset(start, 1);
-
-    // We need to pad the grid to start on Sunday/Monday. Let's assume Sunday start for D3 default
-    const startGrid = d3.timeWeek.floor(start);
-    const endGrid = viewMode === 'month' 
-        ? d3.timeWeek.ceil(end) // Complete the last week
-        : d3.timeWeek.offset(startGrid, 1);
-
-    return d3.timeDay.range(startGrid, endGrid);
+  // Zoom into a single day, e.g. from "+N more" or a heatmap cell
+  const zoomToDay = (day: Date) => {
+    setCurrentDate(day);
+    setZoom('day');
   };
 
-  const days = getDays();
+  // The range a view covers: whole weeks for the grids, so they start on Sunday (d3's default week)
+  const getRange = (): [Date, Date] => {
+    switch (viewMode) {
+      case 'year': {
+        const start = d3.timeYear.floor(currentDate);
+        return [start, d3.timeYear.offset(start, 1)];
+      }
+      case 'month': {
+        const start = d3.timeMonth.floor(currentDate);
+        return [d3.timeWeek.floor(start), d3.timeWeek.ceil(d3.timeMonth.offset(start, 1))];
+      }
+      case 'week': {
+        const start = d3.timeWeek.floor(currentDate);
+        return [start, d3.timeWeek.offset(start, 1)];
+      }
+      case 'day': {
+        const start = d3.timeDay.floor(currentDate);
+        return [start, d3.timeDay.offset(start, 1)];
+      }
+      case 'agenda': {
+        const start = d3.timeDay.floor(currentDate);
+        return [start, d3.timeDay.offset(start, agendaLength)];
+      }
+    }
+  };
+
+  const [rangeStart, rangeEnd] = getRange();
+  const days = d3.timeDay.range(rangeStart, rangeEnd);
+
+  // Expand recurring series into the visible range, bucketed per day on the
+  // viewer's clock (occurrence dates are instants, whatever the reminder's zone)
+  const occurrences = expandReminders(reminders, rangeStart, rangeEnd);
+  const occurrencesByDay = d3.group(occurrences, occ => d3.timeDay.floor(occ.date).getTime());
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
-  // Helper for reminder colors
-  const getTypeColor = (type: ReminderType) => {
-    switch (type) {
-      case ReminderType.Urgent: return 'bg-gray-600';
-      case ReminderType.Meeting: return 'bg-gray-400';
-      case ReminderType.Health: return 'bg-gray-300';
-      case ReminderType.Idea: return 'bg-gray-200';
-      default: return 'bg-gray-500';
+  useEffect(() => {
+    setAgendaLength(AGENDA_DAYS);
+  }, [currentDate, viewMode]);
+
+  // Open the time grids scrolled to their earliest entry, or to the morning
+  useEffect(() => {
+    if (!timeGridRef.current) return;
+    const hour = d3.min(occurrences, occ => occ.date.getHours()) ?? 8;
+    timeGridRef.current.scrollTop = Math.max(0, hour - 1) * HOUR_HEIGHT;
+  }, [viewMode, currentDate]);
+
+  // The agenda grows by another stretch of days when scrolled to its end
+  useEffect(() => {
+    if (viewMode !== 'agenda' || !agendaEndRef.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) setAgendaLength(n => n + AGENDA_DAYS);
+    });
+    observer.observe(agendaEndRef.current);
+    return () => observer.disconnect();
+  }, [viewMode]);
+
+  // Chip colors of a reminder's category
+  const categoryStyle = (id: string): React.CSSProperties => {
+    const color = categoryColor(findCategory(categories, id));
+    return { backgroundColor: color.fill, color: color.ink };
+  };
+
+  const hoveredOccurrence = occurrences.find(occ => occurrenceKey(occ) === hoveredOccurrenceKey);
+  const hoveredReminder = hoveredOccurrence?.reminder;
+  const hoveredCategory = hoveredReminder && findCategory(categories, hoveredReminder.category);
+
+  // --- Moving ---
+
+  const isTimeGrid = viewMode === 'week' || viewMode === 'day';
+
+  const commitMove = (occ: Occurrence, to: Date) => {
+    if (to.getTime() !== occ.date.getTime()) onMoveOccurrence(occ.reminder.id, occ.originalDate, occ.date, to);
+  };
+
+  // Drag and drop onto a cell; `landing` is where a dropped occurrence ends up
+  const dropHandlers = (cellKey: string, landing: (occ: Occurrence) => Date) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragKey) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(cellKey);
+    },
+    onDragLeave: () => setDropTarget(target => target === cellKey ? null : target),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const occ = occurrences.find(o => occurrenceKey(o) === dragKey);
+      setDragKey(null);
+      setDropTarget(null);
+      if (occ) commitMove(occ, landing(occ));
+    },
+  });
+
+  const dropHighlight = (cellKey: string) => dropTarget === cellKey ? 'ring-2 ring-inset ring-gray-400 bg-blue-50/40' : '';
+
+  // One keyboard step from `from`, keeping the time of day (or the minutes when changing hour)
+  const stepMove = (occ: Occurrence, from: Date, key: string): Date => {
+    const step = ARROW_STEPS[key];
+    const vertical = key === 'ArrowUp' || key === 'ArrowDown';
+    if (vertical && isTimeGrid) return moveToSlot({ date: from }, d3.timeHour.offset(from, step));
+    return moveToDay({ date: from, reminder: occ.reminder }, d3.timeDay.offset(from, vertical ? step * 7 : step));
+  };
+
+  const showMove = (occurrence: Occurrence, to: Date) => {
+    setMoving({ occurrence, to });
+    if (to < rangeStart || to >= rangeEnd) setCurrentDate(to);
+  };
+
+  // Alt+arrow on a chip picks it up; the calendar takes focus so the move survives navigation
+  const handleChipKeyDown = (e: React.KeyboardEvent, occ: Occurrence) => {
+    if (!e.altKey || !(e.key in ARROW_STEPS)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    showMove(occ, stepMove(occ, occ.date, e.key));
+    rootRef.current?.focus();
+  };
+
+  const handleMoveKeyDown = (e: React.KeyboardEvent) => {
+    if (!moving) return;
+    if (e.key in ARROW_STEPS) {
+      e.preventDefault();
+      showMove(moving.occurrence, stepMove(moving.occurrence, moving.to, e.key));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      setMoving(null);
+      commitMove(moving.occurrence, moving.to);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMoving(null);
     }
   };
 
-  const hoveredReminder = reminders.find(r => r.id === hoveredReminderId);
+  const isMovingTo = (start: Date, end: Date) => !!moving && moving.to >= start && moving.to < end;
+
+  // Outline of the chip being moved, where it would land
+  const renderGhost = () => moving && (
+    <div className="text-[10px] px-2 py-1 rounded-md border-2 border-dashed border-gray-400 text-gray-500 truncate bg-white">
+        {moving.occurrence.reminder.title}
+    </div>
+  );
+
+  // Year heatmap: one column per week, shaded by the number of entries that day
+  const yearCounts = d3.rollup(occurrences, v => v.length, occ => d3.timeDay.floor(occ.date).getTime());
+  const heatColor = d3.scaleSequential(d3.interpolateGreys).domain([0, Math.max(4, d3.max(yearCounts.values()) || 0)]);
+  const yearWeeks = d3.timeWeek.range(d3.timeWeek.floor(rangeStart), rangeEnd);
 
   // --- Render ---
 
+  const renderChip = (occ: Occurrence, className: string = '') => {
+    const r = occ.reminder;
+    return (
+        <button
+            key={occurrenceKey(occ)}
+            draggable
+            onDragStart={(e) => {
+                setDragKey(occurrenceKey(occ));
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', r.title);
+            }}
+            onDragEnd={() => { setDragKey(null); setDropTarget(null); }}
+            onKeyDown={(e) => handleChipKeyDown(e, occ)}
+            aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight Alt+ArrowUp Alt+ArrowDown"
+            onMouseEnter={() => setHoveredOccurrenceKey(occurrenceKey(occ))}
+            onMouseLeave={() => setHoveredOccurrenceKey(null)}
+            onClick={(e) => { e.stopPropagation(); onSelectReminder(r.id, occ.originalDate); }}
+            className={`text-[10px] text-left px-2 py-1 rounded-md truncate shadow-sm hover:scale-105 transition-transform cursor-grab active:cursor-grabbing ${r.completed ? 'opacity-40 grayscale decoration-slice' : ''} ${dragKey === occurrenceKey(occ) || moving && occurrenceKey(moving.occurrence) === occurrenceKey(occ) ? 'opacity-50' : ''} ${className}`}
+            style={categoryStyle(r.category)}
+            title={`${r.title} (drag, or Alt+arrow keys, to move)`}
+        >
+            {r.title}
+        </button>
+    );
+  };
+
+  const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
   return (
-    <div className="bg-white rounded-3xl shadow-soft p-6 flex flex-col gap-6 animate-fade-in relative">
+    <div
+        ref={rootRef}
+        tabIndex={-1}
+        onKeyDown={handleMoveKeyDown}
+        onBlur={(e) => { if (!rootRef.current?.contains(e.relatedTarget as Node)) setMoving(null); }}
+        className="bg-white rounded-3xl shadow-soft p-6 flex flex-col gap-6 animate-fade-in relative outline-none"
+    >
       
       {/* Header / Controls */}
       <div className="flex flex-col md:flex-row justify-between items-center gap-4">
@@ -92,29 +303,33 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
         {/* Title */}
         <div className="flex flex-col items-center md:items-start">
             <h2 className="text-2xl font-light text-gray-800">
-                {d3.timeFormat(viewMode === 'month' ? "%B %Y" : "Week of %b %d, %Y")(currentDate)}
+                {d3.timeFormat(TITLE_FORMATS[viewMode])(currentDate)}
             </h2>
             <span className="text-xs text-gray-400 uppercase tracking-widest font-medium">
-                {viewMode === 'month' ? 'Monthly Overview' : 'Weekly Details'}
+                {VIEW_LABELS[viewMode]}{zoom === 'auto' && ' · Auto'}
             </span>
         </div>
 
         {/* Action Bar */}
-        <div className="flex items-center gap-2 bg-gray-50 p-1 rounded-2xl">
+        <div className="flex flex-wrap justify-center items-center gap-2 bg-gray-50 p-1 rounded-2xl">
             {/* View Switcher (Zoom) */}
             <div className="flex bg-white rounded-xl shadow-sm mr-2 border border-gray-100">
-                <button 
-                    onClick={() => setViewMode('month')}
-                    className={`px-4 py-2 text-xs font-bold uppercase tracking-wide rounded-xl transition-all ${viewMode === 'month' ? 'bg-gray-800 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+                <button
+                    onClick={() => setZoom('auto')}
+                    className={`px-3 py-2 rounded-xl transition-all ${zoom === 'auto' ? 'bg-gray-800 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
+                    title="Zoom to fit the entries"
                 >
-                    Month
-                </button>
-                <button 
-                    onClick={() => setViewMode('week')}
-                    className={`px-4 py-2 text-xs font-bold uppercase tracking-wide rounded-xl transition-all ${viewMode === 'week' ? 'bg-gray-800 text-white' : 'text-gray-500 hover:bg-gray-50'}`}
-                >
-                    Week
+                    <Wand2 size={14} />
                 </button>
+                {(['year', 'month', 'week', 'day', 'agenda'] as ViewMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => setZoom(mode)}
+                        className={`px-3 py-2 text-xs font-bold uppercase tracking-wide rounded-xl transition-all ${zoom === mode ? 'bg-gray-800 text-white' : zoom === 'auto' && viewMode === mode ? 'bg-gray-100 text-gray-700' : 'text-gray-500 hover:bg-gray-50'}`}
+                    >
+                        {mode}
+                    </button>
+                ))}
             </div>
 
             {/* Navigation */}
@@ -132,7 +347,18 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
         </div>
       </div>
 
+      {/* Keyboard move in progress */}
+      <div aria-live="polite" className={moving ? 'text-xs text-gray-500 bg-gray-50 rounded-xl px-4 py-2 -mt-2' : 'sr-only'}>
+        {moving && (
+            <>
+                Moving <span className="font-medium text-gray-700">{moving.occurrence.reminder.title}</span> to{' '}
+                {d3.timeFormat('%a, %b %d')(moving.to)} at {formatTime(moving.to)}. Enter drops it, Escape cancels.
+            </>
+        )}
+      </div>
+
       {/* Calendar Grid */}
+      {viewMode === 'month' && (
       <div className="flex-1 min-h-[400px] flex flex-col relative z-0">
         {/* Weekday Headers */}
         <div className="grid grid-cols-7 mb-2">
@@ -146,20 +372,19 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
         {/* Days */}
         <div className="grid grid-cols-7 flex-1 auto-rows-fr gap-px bg-gray-100 border border-gray-100 rounded-2xl overflow-hidden shadow-inner-soft">
             {days.map((day, idx) => {
-                const dayReminders = reminders.filter(r => {
-                    const rDate = new Date(r.date);
-                    return d3.timeDay.count(day, rDate) === 0; // Same day
-                });
+                const dayOccurrences = occurrencesByDay.get(day.getTime()) || [];
+                const cellKey = `day:${day.getTime()}`;
                 
                 const isToday = d3.timeDay.count(new Date(), day) === 0;
                 const isCurrentMonth = day.getMonth() === currentDate.getMonth();
-                const opacity = viewMode === 'month' && !isCurrentMonth ? 'bg-gray-50/50 text-gray-300' : 'bg-white text-gray-700';
+                const opacity = !isCurrentMonth ? 'bg-gray-50/50 text-gray-300' : 'bg-white text-gray-700';
 
                 return (
                     <div 
                         key={idx} 
                         onClick={() => onDateClick(day)}
-                        className={`min-h-[80px] p-2 flex flex-col gap-1 transition-colors duration-200 hover:bg-blue-50/30 cursor-pointer ${opacity} relative group`}
+                        {...dropHandlers(cellKey, occ => moveToDay(occ, day))}
+                        className={`min-h-[80px] p-2 flex flex-col gap-1 transition-colors duration-200 hover:bg-blue-50/30 cursor-pointer ${opacity} ${dropHighlight(cellKey)} relative group`}
                     >
                         {/* Day Number */}
                         <div className={`text-sm font-medium w-7 h-7 flex items-center justify-center rounded-full ${isToday ? 'bg-gray-800 text-white shadow-md' : ''}`}>
@@ -168,22 +393,15 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
 
                         {/* Reminders List */}
                         <div className="flex flex-col gap-1 mt-1 overflow-hidden">
-                            {dayReminders.slice(0, 4).map(r => (
+                            {dayOccurrences.slice(0, CELL_LIMIT).map(occ => renderChip(occ))}
+                            {isMovingTo(day, d3.timeDay.offset(day, 1)) && renderGhost()}
+                            {dayOccurrences.length > CELL_LIMIT && (
                                 <button
-                                    key={r.id}
-                                    onMouseEnter={() => setHoveredReminderId(r.id)}
-                                    onMouseLeave={() => setHoveredReminderId(null)}
-                                    onClick={(e) => { e.stopPropagation(); onSelectReminder(r.id); }}
-                                    className={`text-[10px] text-left px-2 py-1 rounded-md text-white truncate shadow-sm hover:scale-105 transition-transform ${getTypeColor(r.type)} ${r.completed ? 'opacity-40 grayscale decoration-slice' : ''}`}
-                                    title={r.title}
+                                    onClick={(e) => { e.stopPropagation(); zoomToDay(day); }}
+                                    className="relative z-10 text-[9px] text-left text-gray-400 pl-1 hover:text-gray-700 hover:underline"
                                 >
-                                    {r.title}
+                                    +{dayOccurrences.length - CELL_LIMIT} more
                                 </button>
-                            ))}
-                            {dayReminders.length > 4 && (
-                                <div className="text-[9px] text-gray-400 pl-1">
-                                    +{dayReminders.length - 4} more
-                                </div>
                             )}
                         </div>
 
@@ -196,14 +414,142 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
             })}
         </div>
       </div>
+      )}
+
+      {/* Week / Day: hourly time grid */}
+      {isTimeGrid && (
+      <div ref={timeGridRef} className="h-[480px] overflow-y-auto border border-gray-100 rounded-2xl shadow-inner-soft relative z-0">
+        {viewMode === 'week' && (
+            <div className="flex sticky top-0 z-10 bg-white border-b border-gray-100">
+                <div className="w-16 flex-shrink-0" />
+                {days.map(day => (
+                    <button
+                        key={day.getTime()}
+                        onClick={() => zoomToDay(day)}
+                        className="flex-1 min-w-0 py-2 text-xs text-gray-400 font-medium uppercase tracking-wider hover:text-gray-700"
+                    >
+                        {weekDays[day.getDay()]}{' '}
+                        <span className={`inline-flex w-6 h-6 items-center justify-center rounded-full ${d3.timeDay.count(new Date(), day) === 0 ? 'bg-gray-800 text-white' : 'text-gray-700'}`}>
+                            {day.getDate()}
+                        </span>
+                    </button>
+                ))}
+            </div>
+        )}
+        {d3.range(24).map(hour => (
+            <div key={hour} style={{ minHeight: HOUR_HEIGHT }} className="flex border-b border-gray-50 last:border-b-0">
+                <div className="w-16 flex-shrink-0 text-[10px] text-gray-400 text-right pr-3 pt-1">
+                    {d3.format('02')(hour)}:00
+                </div>
+                {days.map(day => {
+                    // Built from the day's fields, so the labels hold on DST change days
+                    const slot = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour);
+                    const cellKey = `slot:${slot.getTime()}`;
+                    const slotOccurrences = (occurrencesByDay.get(day.getTime()) || []).filter(occ => occ.date.getHours() === hour);
+                    return (
+                        <div
+                            key={day.getTime()}
+                            onClick={() => onDateClick(slot)}
+                            {...dropHandlers(cellKey, occ => moveToSlot(occ, slot))}
+                            className={`flex-1 min-w-0 flex gap-1 p-1 border-l border-gray-100 hover:bg-blue-50/30 cursor-pointer transition-colors ${viewMode === 'day' ? 'flex-wrap content-start' : 'flex-col'} ${dropHighlight(cellKey)}`}
+                        >
+                            {slotOccurrences.map(occ => renderChip(occ, viewMode === 'day' ? 'max-w-[200px]' : ''))}
+                            {moving && moving.to.getHours() === hour && isMovingTo(day, d3.timeDay.offset(day, 1)) && renderGhost()}
+                        </div>
+                    );
+                })}
+            </div>
+        ))}
+      </div>
+      )}
+
+      {/* Agenda: every entry in date order, growing as it scrolls */}
+      {viewMode === 'agenda' && (
+      <div className="h-[480px] overflow-y-auto flex flex-col gap-4 pr-1 relative z-0">
+        {days.filter(day => occurrencesByDay.has(day.getTime())).map(day => (
+            <div key={day.getTime()} {...dropHandlers(`agenda:${day.getTime()}`, occ => moveToDay(occ, day))} className={`rounded-xl ${dropHighlight(`agenda:${day.getTime()}`)}`}>
+                <button
+                    onClick={() => zoomToDay(day)}
+                    className="text-xs font-medium text-gray-400 uppercase tracking-widest mb-2 hover:text-gray-700"
+                >
+                    {d3.timeFormat('%A, %b %d')(day)}
+                </button>
+                <div className="flex flex-col gap-1">
+                    {occurrencesByDay.get(day.getTime())!.map(occ => (
+                        <div key={occurrenceKey(occ)} className="flex items-center gap-3">
+                            <span className="w-12 text-[11px] text-gray-400 text-right flex-shrink-0">{formatTime(occ.date)}</span>
+                            {renderChip(occ, 'flex-1 text-xs py-1.5 hover:scale-[1.01]')}
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ))}
+        {occurrences.length === 0 && (
+            <div className="text-sm text-gray-400 text-center py-10">Nothing scheduled in the next {agendaLength} days.</div>
+        )}
+        <div ref={agendaEndRef} className="text-center">
+            <button
+                onClick={() => setAgendaLength(n => n + AGENDA_DAYS)}
+                className="text-xs text-gray-400 hover:text-gray-700 py-2"
+            >
+                Show until {d3.timeFormat('%b %d')(d3.timeDay.offset(rangeEnd, AGENDA_DAYS - 1))}
+            </button>
+        </div>
+      </div>
+      )}
+
+      {/* Year: density heatmap */}
+      {viewMode === 'year' && (
+      <div className="overflow-x-auto relative z-0">
+        <div className="flex gap-[3px] min-w-max">
+            <div className="flex flex-col gap-[3px] mr-1 pt-5">
+                {weekDays.map((d, i) => (
+                    <div key={d} className="h-3 text-[9px] leading-3 text-gray-400">{i % 2 ? d : ''}</div>
+                ))}
+            </div>
+            {yearWeeks.map(week => (
+                <div key={week.getTime()} className="flex flex-col gap-[3px]">
+                    <div className="h-4 mb-1 text-[9px] text-gray-400 whitespace-nowrap">
+                        {d3.timeDay.range(week, d3.timeWeek.offset(week, 1)).some(d => d.getDate() === 1 && d >= rangeStart && d < rangeEnd)
+                            ? d3.timeFormat('%b')(d3.timeMonth.ceil(week))
+                            : ''}
+                    </div>
+                    {d3.timeDay.range(week, d3.timeWeek.offset(week, 1)).map(day => {
+                        const inYear = day >= rangeStart && day < rangeEnd;
+                        const count = yearCounts.get(day.getTime()) || 0;
+                        return (
+                            <button
+                                key={day.getTime()}
+                                disabled={!inYear}
+                                onClick={() => zoomToDay(day)}
+                                {...(inYear ? dropHandlers(`year:${day.getTime()}`, occ => moveToDay(occ, day)) : {})}
+                                style={inYear ? { backgroundColor: count ? heatColor(count) : undefined } : undefined}
+                                className={`w-3 h-3 rounded-sm transition-transform ${inYear ? 'hover:scale-150 hover:ring-1 hover:ring-gray-300' : 'invisible'} ${count ? '' : 'bg-gray-100'} ${dropTarget === `year:${day.getTime()}` ? 'scale-150 ring-1 ring-gray-500' : ''}`}
+                                title={`${d3.timeFormat('%b %d')(day)}: ${count} ${count === 1 ? 'entry' : 'entries'}`}
+                            />
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-3 text-[9px] text-gray-400">
+            Less
+            {[0, 1, 2, 3, 4].map(n => (
+                <div key={n} className={`w-3 h-3 rounded-sm ${n ? '' : 'bg-gray-100'}`} style={n ? { backgroundColor: heatColor(n * heatColor.domain()[1] / 4) } : undefined} />
+            ))}
+            More
+        </div>
+      </div>
+      )}
 
       {/* Magnifying Glass / Detail View Overlay */}
-      {hoveredReminder && (
+      {hoveredOccurrence && hoveredReminder && hoveredCategory && (
         <div className="absolute top-24 right-8 w-72 bg-white/95 backdrop-blur-xl p-5 rounded-2xl shadow-2xl border border-gray-100 z-50 animate-scale-in pointer-events-none origin-top-right">
            <div className="flex justify-between items-start mb-3">
-               <div className={`h-2 w-16 rounded-full ${getTypeColor(hoveredReminder.type)}`}></div>
-               <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest border border-gray-100 px-2 py-0.5 rounded-full bg-white">
-                 {hoveredReminder.type}
+               <div className="h-2 w-16 rounded-full" style={categoryStyle(hoveredReminder.category)}></div>
+               <span className="flex items-center gap-1 text-[10px] font-bold text-gray-400 uppercase tracking-widest border border-gray-100 px-2 py-0.5 rounded-full bg-white">
+                 <CategoryIcon icon={hoveredCategory.icon} size={10} />
+                 {hoveredCategory.name}
                </span>
            </div>
            
@@ -214,13 +560,18 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
            <div className="flex items-center gap-4 text-xs text-gray-500 mb-4 font-medium">
                 <div className="flex items-center gap-1.5">
                     <CalendarIcon size={14} className="text-gray-400"/>
-                    <span>{new Date(hoveredReminder.date).toLocaleDateString()}</span>
+                    <span>{hoveredOccurrence.date.toLocaleDateString()}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
                     <Clock size={14} className="text-gray-400"/>
-                    <span>{new Date(hoveredReminder.date).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                    <span>{hoveredOccurrence.date.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
                 </div>
            </div>
+           {differsFromViewer(hoveredReminder.timeZone, hoveredOccurrence.date) && (
+               <div className="text-[11px] text-gray-400 -mt-2 mb-4">
+                   {formatZonedTime(hoveredOccurrence.date, hoveredReminder.timeZone!)} in {hoveredReminder.timeZone!.replace(/_/g, ' ')}
+               </div>
+           )}
            
            <div className="bg-gray-50 p-3 rounded-xl mb-2">
                 <div className="flex gap-2 mb-1">
@@ -231,6 +582,30 @@ const TimelineCalendar: React.FC<TimelineCalendarProps> = ({ reminders, onSelect
                 </div>
            </div>
 
+           {!!hoveredReminder.tags?.length && (
+               <div className="flex flex-wrap gap-1 mb-2">
+                   {hoveredReminder.tags.map(tag => (
+                       <span key={tag} className="text-[10px] text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">#{tag}</span>
+                   ))}
+               </div>
+           )}
+
+           {hoveredReminder.alerts.length > 0 && (
+               <ul className="space-y-1 mb-2">
+                   {hoveredReminder.alerts.map(alert => (
+                       <li key={alert.id} className="flex items-center gap-1.5 text-[11px] text-gray-500">
+                           <BellRing size={12} className="text-gray-400 flex-shrink-0" />
+                           <span className="truncate">{describeAlert(alert)}</span>
+                           {alert.offsetMinutes > 0 && (
+                               <span className="ml-auto text-gray-400 flex-shrink-0">
+                                   {alertTime(hoveredOccurrence, alert).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+                               </span>
+                           )}
+                       </li>
+                   ))}
+               </ul>
+           )}
+
            <div className="text-[10px] text-center text-gray-300 mt-2">
                Click to edit details
            </div>
@@ -1,21 +1,139 @@
 import React from 'react';
 import { User } from '../types';
-import { User as UserIcon, LogOut, ShieldCheck } from 'lucide-react';
+import { SyncSnapshot } from '../services/syncEngine';
+import { Plan, PlanUsage, QUOTA_LABELS } from '../services/planService';
+import { listTimeZones } from '../services/timeZoneService';
+import { AiSettings, AiProviderId, AI_PROVIDER_LABELS } from '../services/aiService';
+import { User as UserIcon, LogOut, ShieldCheck, Loader2, RefreshCw, CloudOff, AlertCircle, Check, UserPlus, Tags } from 'lucide-react';
+
+export type AuthMode = 'register' | 'login';
+
+// An account that has been used on this device
+export interface KnownAccount {
+  user: User;
+  signedIn: boolean; // has a session, so it can be opened without a password
+}
 
 interface UserProfileProps {
   user: User;
+  accounts: KnownAccount[];
+  guestReminderCount: number; // what a guest would bring into a new account
+  plan: Plan;
+  usage: PlanUsage;
+  defaultTimeZone: string;
+  onChangeTimeZone: (timeZone: string) => void;
+  onManageCategories: () => void;
+  aiSettings: AiSettings;
+  onChangeAiSettings: (settings: AiSettings) => void;
+  sync: SyncSnapshot | null; // null for guests
+  onSyncNow: () => void;
+  onSwitchUser: (user: User | null) => void; // null switches to the guest
   onLogout: () => void;
-  onLogin: (name: string) => void;
+  // Rejects with a message to show when the server refuses
+  onAuthenticate: (mode: AuthMode, username: string, password: string, bringGuestReminders: boolean) => Promise<void>;
 }
 
-const UserProfile: React.FC<UserProfileProps> = ({ user, onLogout, onLogin }) => {
+const UserProfile: React.FC<UserProfileProps> = ({
+  user, accounts, guestReminderCount, plan, usage, defaultTimeZone, onChangeTimeZone, onManageCategories, aiSettings, onChangeAiSettings, sync, onSyncNow, onSwitchUser, onLogout, onAuthenticate
+}) => {
   const [isMenuOpen, setIsMenuOpen] = React.useState(false);
-  const [tempName, setTempName] = React.useState('');
+  const [showForm, setShowForm] = React.useState(false); // accounts adding another account
+  const [mode, setMode] = React.useState<AuthMode>('register');
+  const [username, setUsername] = React.useState('');
+  const [password, setPassword] = React.useState('');
+  const [bringGuestReminders, setBringGuestReminders] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const timeZones = React.useMemo(listTimeZones, []);
+
+  const closeMenu = () => {
+    setIsMenuOpen(false);
+    setShowForm(false);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username || !password) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onAuthenticate(mode, username, password, user.isTemp && bringGuestReminders);
+      setPassword('');
+      closeMenu();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const syncLabel = () => {
+    if (!sync) return 'Signed in';
+    switch (sync.status) {
+      case 'syncing': return 'Syncing…';
+      case 'offline': return sync.pending ? `Offline · ${sync.pending} pending` : 'Offline';
+      case 'error': return 'Sync problem';
+      default: return sync.lastSyncedAt ? `Synced ${new Date(sync.lastSyncedAt).toLocaleTimeString([], { timeStyle: 'short' })}` : 'Signed in';
+    }
+  };
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  // Accounts without a session need their password again
+  const handleSelectAccount = (account: KnownAccount | null) => {
+    if (!account) {
+      onSwitchUser(null);
+      closeMenu();
+    } else if (account.signedIn) {
+      onSwitchUser(account.user);
+      closeMenu();
+    } else {
+      setMode('login');
+      setUsername(account.user.name);
+      setPassword('');
+      setShowForm(true);
+    }
+  };
+
+  const changeAi = (patch: Partial<AiSettings>) => onChangeAiSettings({ ...aiSettings, ...patch });
+
+  const accountRow = (key: string, label: string, isCurrent: boolean, onClick: () => void, hint?: string) => (
+    <button
+      key={key}
+      onClick={onClick}
+      disabled={isCurrent}
+      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs text-left transition-colors ${isCurrent ? 'text-gray-800 font-medium' : 'text-gray-500 hover:bg-gray-50'}`}
+    >
+      <UserIcon size={12} className="flex-shrink-0" />
+      <span className="flex-1 truncate">{label}</span>
+      {hint && <span className="text-[10px] text-gray-400">{hint}</span>}
+      {isCurrent && <Check size={12} className="text-green-500" />}
+    </button>
+  );
+
+  const meter = (label: string, used: number, limit: number) => {
+    const ratio = Math.min(1, limit ? used / limit : 1);
+    return (
+      <div key={label}>
+        <div className="flex justify-between text-[11px] text-gray-500">
+          <span>{label}</span>
+          <span className={used >= limit ? 'text-amber-600' : ''}>{used} / {limit}</span>
+        </div>
+        <div className="h-1 bg-gray-100 rounded-full overflow-hidden mt-0.5">
+          <div className={`h-full rounded-full ${ratio >= 1 ? 'bg-amber-400' : 'bg-gray-400'}`} style={{ width: `${ratio * 100}%` }} />
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="relative">
       <button 
-        onClick={() => setIsMenuOpen(!isMenuOpen)}
+        onClick={() => isMenuOpen ? closeMenu() : setIsMenuOpen(true)}
         className="flex items-center gap-3 pl-2 pr-4 py-2 rounded-full hover:bg-white hover:shadow-sm transition-all duration-300"
       >
         <div className="w-10 h-10 rounded-full bg-gradient-to-br from-gray-200 to-gray-300 flex items-center justify-center text-gray-600 shadow-inner">
@@ -26,41 +144,130 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, onLogout, onLogin }) =>
                 {user.isTemp ? 'Guest' : user.name}
             </div>
             <div className="text-[10px] text-gray-400">
-                {user.isTemp ? 'Temp Access' : 'Pro Account'}
+                {user.isTemp ? 'Temp Access' : syncLabel()}
             </div>
         </div>
       </button>
 
       {isMenuOpen && (
         <div className="absolute top-14 right-0 w-64 bg-white rounded-2xl shadow-xl border border-gray-100 p-4 z-20 animate-fade-in-down">
-            {user.isTemp ? (
-                <div className="space-y-3">
-                    <p className="text-xs text-gray-500 mb-2">Create an account to sync your reminders across devices.</p>
-                    <input 
-                        type="text" 
-                        placeholder="Enter Username" 
-                        value={tempName}
-                        onChange={(e) => setTempName(e.target.value)}
-                        className="w-full text-sm bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
-                    />
-                    <button 
-                        onClick={() => { if(tempName) { onLogin(tempName); setIsMenuOpen(false); } }}
-                        className="w-full bg-gray-800 text-white text-sm py-2 rounded-lg hover:bg-gray-900"
-                    >
-                        Create Account
-                    </button>
-                    <div className="text-[10px] text-center text-gray-400 mt-2">
-                        Currently using a temporary session ID.
-                    </div>
+            {accounts.length > 0 && (
+                <div className="mb-3 pb-3 border-b border-gray-100">
+                    <div className="text-[10px] uppercase tracking-widest text-gray-400 mb-1 px-2">Accounts on this device</div>
+                    {accountRow('guest', 'Guest', user.isTemp, () => handleSelectAccount(null))}
+                    {accounts.map(account => accountRow(
+                        account.user.id,
+                        account.user.name,
+                        account.user.id === user.id,
+                        () => handleSelectAccount(account),
+                        account.signedIn ? undefined : 'Sign in'
+                    ))}
                 </div>
-            ) : (
+            )}
+
+            <div className="mb-3 pb-3 border-b border-gray-100 space-y-2">
+                <div className="text-[10px] uppercase tracking-widest text-gray-400 px-0.5">{plan.name} plan</div>
+                {meter(QUOTA_LABELS.activeReminders, usage.activeReminders, plan.limits.activeReminders)}
+                {meter(QUOTA_LABELS.recurringSeries, usage.recurringSeries, plan.limits.recurringSeries)}
+                {meter(QUOTA_LABELS.aiCallsPerDay, usage.aiCallsToday, plan.limits.aiCallsPerDay)}
+                <div className="text-[11px] text-gray-500">
+                    {QUOTA_LABELS.deliveryChannels}: {plan.limits.deliveryChannels.join(', ')}
+                </div>
+            </div>
+
+            <label className="block mb-3 pb-3 border-b border-gray-100">
+                <span className="block text-[10px] uppercase tracking-widest text-gray-400 mb-1 px-0.5">Default time zone</span>
+                <select
+                    value={defaultTimeZone}
+                    onChange={(e) => onChangeTimeZone(e.target.value)}
+                    className="w-full text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                >
+                    {!timeZones.includes(defaultTimeZone) && <option value={defaultTimeZone}>{defaultTimeZone}</option>}
+                    {timeZones.map(z => <option key={z} value={z}>{z.replace(/_/g, ' ')}</option>)}
+                </select>
+            </label>
+
+            <button
+                onClick={() => { setIsMenuOpen(false); onManageCategories(); }}
+                className="w-full flex items-center gap-2 mb-3 pb-3 border-b border-gray-100 px-0.5 text-xs text-gray-600 hover:text-gray-800 transition-colors"
+            >
+                <Tags size={14} className="text-gray-400" />
+                Categories
+            </button>
+
+            <div className="mb-3 pb-3 border-b border-gray-100 space-y-2">
+                <label className="block">
+                    <span className="block text-[10px] uppercase tracking-widest text-gray-400 mb-1 px-0.5">AI provider</span>
+                    <select
+                        value={aiSettings.provider}
+                        onChange={(e) => changeAi({ provider: e.target.value as AiProviderId })}
+                        className="w-full text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                    >
+                        {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>)}
+                    </select>
+                </label>
+                {aiSettings.provider === 'gemini' && (
+                    <p className="text-[11px] text-gray-400 px-0.5">Runs through the Memento server, which holds the API key and chooses the model.</p>
+                )}
+                {aiSettings.provider === 'openai' && (
+                    <>
+                        <input
+                            type="url"
+                            placeholder="Server URL, e.g. http://localhost:11434/v1"
+                            value={aiSettings.openAiBaseUrl}
+                            onChange={(e) => changeAi({ openAiBaseUrl: e.target.value })}
+                            className="w-full text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                        />
+                        <input
+                            type="text"
+                            placeholder="Model"
+                            value={aiSettings.openAiModel}
+                            onChange={(e) => changeAi({ openAiModel: e.target.value })}
+                            className="w-full text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                        />
+                        <input
+                            type="password"
+                            placeholder="API key (optional)"
+                            autoComplete="off"
+                            value={aiSettings.openAiApiKey || ''}
+                            onChange={(e) => changeAi({ openAiApiKey: e.target.value || undefined })}
+                            className="w-full text-xs bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                        />
+                    </>
+                )}
+                {aiSettings.provider === 'mock' && (
+                    <p className="text-[11px] text-gray-400 px-0.5">Answers offline by echoing your request, for trying the app without a model.</p>
+                )}
+            </div>
+
+            {!user.isTemp && (
                 <div className="space-y-3">
                      <div className="flex items-center gap-2 text-green-600 text-xs bg-green-50 p-2 rounded-lg">
                         <ShieldCheck size={14} />
-                        Account Active
+                        Signed in as {user.name}
                      </div>
+                     {sync && (
+                        <div className="flex items-center justify-between gap-2 text-xs text-gray-500 bg-gray-50 p-2 rounded-lg">
+                            <div className="flex items-center gap-2 min-w-0">
+                                {sync.status === 'offline' ? <CloudOff size={14} /> : sync.status === 'error' ? <AlertCircle size={14} className="text-red-500" /> : <RefreshCw size={14} className={sync.status === 'syncing' ? 'animate-spin' : ''} />}
+                                <span className="truncate" title={sync.error}>{sync.status === 'error' ? sync.error : syncLabel()}</span>
+                            </div>
+                            <button onClick={onSyncNow} disabled={sync.status === 'syncing'} className="text-gray-600 hover:text-gray-900 disabled:opacity-40 flex-shrink-0">
+                                Sync now
+                            </button>
+                        </div>
+                     )}
+                     {!showForm && (
+                        <button
+                            onClick={() => { setMode('login'); setUsername(''); setShowForm(true); }}
+                            className="w-full flex items-center justify-center gap-2 text-gray-600 hover:bg-gray-50 text-sm py-2 rounded-lg transition-colors"
+                        >
+                            <UserPlus size={16} />
+                            Add another account
+                        </button>
+                     )}
                      <button 
-                        onClick={() => { onLogout(); setIsMenuOpen(false); }}
+                        onClick={() => { onLogout(); closeMenu(); }}
                         className="w-full flex items-center justify-center gap-2 text-red-500 hover:bg-red-50 text-sm py-2 rounded-lg transition-colors"
                     >
                         <LogOut size={16} />
@@ -68,10 +275,60 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, onLogout, onLogin }) =>
                     </button>
                 </div>
             )}
+
+            {(user.isTemp || showForm) && (
+                <form onSubmit={handleSubmit} className={`space-y-3 ${user.isTemp ? '' : 'mt-3 pt-3 border-t border-gray-100'}`}>
+                    <div className="flex bg-gray-50 rounded-lg p-1 text-xs">
+                        <button type="button" onClick={() => switchMode('register')} className={`flex-1 py-1 rounded-md transition-colors ${mode === 'register' ? 'bg-white shadow-sm text-gray-800' : 'text-gray-400'}`}>
+                            Create Account
+                        </button>
+                        <button type="button" onClick={() => switchMode('login')} className={`flex-1 py-1 rounded-md transition-colors ${mode === 'login' ? 'bg-white shadow-sm text-gray-800' : 'text-gray-400'}`}>
+                            Sign In
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-2">Create an account to sync your reminders across devices.</p>
+                    <input 
+                        type="text" 
+                        placeholder="Username" 
+                        autoComplete="username"
+                        value={username}
+                        onChange={(e) => setUsername(e.target.value)}
+                        className="w-full text-sm bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                    />
+                    <input 
+                        type="password" 
+                        placeholder="Password" 
+                        autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="w-full text-sm bg-gray-50 p-2 rounded-lg border border-gray-200 outline-none focus:border-gray-400"
+                    />
+                    {user.isTemp && guestReminderCount > 0 && (
+                        <label className="flex items-center gap-2 text-[11px] text-gray-500">
+                            <input type="checkbox" checked={bringGuestReminders} onChange={(e) => setBringGuestReminders(e.target.checked)} />
+                            Move my {guestReminderCount} guest reminder{guestReminderCount === 1 ? '' : 's'} into this account
+                        </label>
+                    )}
+                    {error && <p className="text-[11px] text-red-500">{error}</p>}
+                    <button 
+                        type="submit"
+                        disabled={isSubmitting || !username || !password}
+                        className="w-full flex items-center justify-center gap-2 bg-gray-800 text-white text-sm py-2 rounded-lg hover:bg-gray-900 disabled:opacity-50"
+                    >
+                        {isSubmitting && <Loader2 size={14} className="animate-spin" />}
+                        {mode === 'register' ? 'Create Account' : 'Sign In'}
+                    </button>
+                    {user.isTemp && (
+                        <div className="text-[10px] text-center text-gray-400 mt-2">
+                            Currently using a temporary session ID.
+                        </div>
+                    )}
+                </form>
+            )}
         </div>
       )}
     </div>
   );
 };
 
-export default UserProfile;
\ No newline at end of file
+export default UserProfile;
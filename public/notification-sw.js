@@ -0,0 +1,25 @@
+// Service worker for reminder notifications.
+// Shows nothing by itself: the app's scheduler calls registration.showNotification().
+// This worker relays notification clicks and snooze actions back to the app,
+// opening it when no window is left.
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', (event) => {
+  const { key } = event.notification.data || {};
+  const snooze = event.action && event.action.startsWith('snooze-') ? event.action.slice('snooze-'.length) : null;
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      if (client) {
+        client.postMessage({ type: 'memento:notification', key, snooze });
+        return snooze ? undefined : client.focus();
+      }
+      const params = new URLSearchParams(snooze ? { snooze, key } : { open: key || '' });
+      return self.clients.openWindow(`/?${params.toString()}`);
+    })
+  );
+});
@@ -0,0 +1,92 @@
+import { GoogleGenAI, ApiError, Content, Part } from '@google/genai';
+import { AssistantToolCall, ChatMessage } from '../../types';
+import { AiUpstream, UpstreamError } from './service';
+
+interface GeminiOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string; // another endpoint speaking the Gemini API, e.g. a stub in tests
+}
+
+// Reasons a reply stops early because of content filtering
+const BLOCKED = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Chat turns as Gemini contents: tool results go back as function responses
+const toContents = (messages: ChatMessage[]): Content[] => {
+  const first = messages.findIndex(m => m.role === 'user'); // Gemini wants the user to speak first
+  return messages.slice(first < 0 ? messages.length : first).map(m => {
+    if (m.role === 'tool') {
+      return {
+        role: 'user',
+        parts: (m.toolResults || []).map(r => ({ functionResponse: { id: r.callId, name: r.name, response: r.result } })),
+      };
+    }
+    const parts: Part[] = m.text ? [{ text: m.text }] : [];
+    (m.toolCalls || []).forEach(call => parts.push({
+      functionCall: { id: call.id, name: call.name, args: call.args },
+      ...(call.signature ? { thoughtSignature: call.signature } : {}),
+    }));
+    return { role: m.role, parts };
+  });
+};
+
+// Gemini answers an unknown API key with a plain 400
+const upstreamError = (error: unknown): Error => {
+  if (error instanceof UpstreamError || (error instanceof Error && error.name === 'AbortError')) return error;
+  if (!(error instanceof ApiError)) return new UpstreamError('network', error instanceof Error ? error.message : String(error));
+  const { status, message } = error;
+  if (status === 401 || status === 403 || (status === 400 && /api key/i.test(message))) return new UpstreamError('auth', message);
+  if (status === 429) return new UpstreamError('quota', message);
+  if (status === 408 || status >= 500) return new UpstreamError('network', message);
+  return new UpstreamError('invalid', message);
+};
+
+export const createGeminiUpstream = ({ apiKey, model, baseUrl }: GeminiOptions): AiUpstream => {
+  const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+  return {
+    model,
+    generate: async ({ instructions, messages, tools = [], json }, onText, signal) => {
+      if (!apiKey) throw new UpstreamError('auth', 'GEMINI_API_KEY is not set on the server');
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents: toContents(messages),
+          config: {
+            systemInstruction: instructions,
+            abortSignal: signal,
+            ...(json ? { responseMimeType: 'application/json' } : {}),
+            ...(tools.length ? {
+              tools: [{
+                functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })),
+              }],
+            } : {}),
+          },
+        });
+
+        let text = '';
+        const toolCalls: AssistantToolCall[] = [];
+        for await (const chunk of stream) {
+          if (chunk.promptFeedback?.blockReason) throw new UpstreamError('safety', chunk.promptFeedback.blockReason);
+          const candidate = chunk.candidates?.[0];
+          if (candidate?.finishReason && BLOCKED.includes(candidate.finishReason)) throw new UpstreamError('safety', candidate.finishReason);
+          for (const part of candidate?.content?.parts || []) {
+            if (part.functionCall) {
+              toolCalls.push({
+                id: part.functionCall.id || `call-${Date.now()}-${toolCalls.length}`,
+                name: part.functionCall.name || '',
+                args: part.functionCall.args || {},
+                ...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+              });
+            } else if (part.text && !part.thought) {
+              text += part.text;
+              onText(part.text);
+            }
+          }
+        }
+        return { text: text.trim(), toolCalls };
+      } catch (error) {
+        throw upstreamError(error);
+      }
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import { AiProxyRequest, ChatMessage } from '../../types';
+import { PLANS, Plan, accountPlan } from '../../services/planService';
+import { ApiRequest, HttpError, Route } from '../http';
+import { AuthService } from '../auth/service';
+import { bearerToken } from '../auth/routes';
+import { AiProxyService } from './service';
+
+const MESSAGE_ROLES = ['user', 'model', 'tool'];
+
+const parseRequest = (body: unknown): AiProxyRequest => {
+  const { instructions, messages, tools, json } = (body || {}) as Record<string, unknown>;
+  const validMessages = Array.isArray(messages) && messages.every(m =>
+    m && typeof m === 'object' && MESSAGE_ROLES.includes(m.role) && typeof m.text === 'string');
+  const validTools = tools === undefined || (Array.isArray(tools) && tools.every(t =>
+    t && typeof t === 'object' && typeof t.name === 'string' && typeof t.description === 'string' && t.parameters && typeof t.parameters === 'object'));
+  if (!validMessages || !validTools || (instructions !== undefined && typeof instructions !== 'string')) {
+    throw new HttpError(400, 'Expected { instructions?, messages, tools?, json? }');
+  }
+  return {
+    instructions: instructions as string | undefined,
+    messages: messages as ChatMessage[],
+    tools: tools as AiProxyRequest['tools'],
+    json: json === true,
+  };
+};
+
+// Signed-in users are limited per account by their plan, guests per address
+// by the guest plan
+const requester = (auth: AuthService, req: ApiRequest): { user: string; plan: Plan } => {
+  const token = bearerToken(req);
+  const account = token ? auth.authenticate(token) : null;
+  return account
+    ? { user: `account:${account.id}`, plan: accountPlan(account.plan) }
+    : { user: `guest:${req.remoteAddress || 'unknown'}`, plan: PLANS.guest };
+};
+
+export const aiRoutes = (proxy: AiProxyService, auth: AuthService): Route[] => [
+  {
+    method: 'POST',
+    pattern: '/api/ai/generate',
+    handler: (req) => {
+      const { user, plan } = requester(auth, req);
+      return { stream: proxy.start(user, plan, parseRequest(req.body)) };
+    },
+  },
+];
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AiProxyEvent, AiProxyRequest } from '../../types';
+import { createStillClock } from '../../test/fixtures';
+import { PLANS, Plan } from '../../services/planService';
+import { createMemoryStore } from '../storage';
+import { AiLogEntry, AiUpstream, UpstreamError, createAiProxyService, emptyAiUsageState } from './service';
+
+const request: AiProxyRequest = {
+  instructions: 'Be brief.',
+  messages: [{ id: 'm1', role: 'user', text: 'Hello there', timestamp: 1 }],
+};
+
+// Streams "Hi " then "there" and replies, or fails as told
+const stubUpstream = (failure?: UpstreamError): AiUpstream & { calls: number } => {
+  const upstream = {
+    model: 'stub-model',
+    calls: 0,
+    generate: async (_: AiProxyRequest, onText: (delta: string) => void) => {
+      upstream.calls++;
+      if (failure) throw failure;
+      onText('Hi ');
+      onText('there');
+      return { text: 'Hi there', toolCalls: [] };
+    },
+  };
+  return upstream;
+};
+
+const setup = ({ failure, rateLimit = 3 }: { failure?: UpstreamError; rateLimit?: number } = {}) => {
+  const { clock, advance } = createStillClock();
+  const log: AiLogEntry[] = [];
+  const usage = createMemoryStore(emptyAiUsageState());
+  const upstream = stubUpstream(failure);
+  const proxy = createAiProxyService({ upstream, clock, rateLimit, rateWindowMs: 60_000, usage, log: entry => log.push(entry) });
+  return { proxy, upstream, log, usage, advance };
+};
+
+const collect = async (stream: ReturnType<ReturnType<typeof createAiProxyService>['start']>, signal = new AbortController().signal) => {
+  const events: AiProxyEvent[] = [];
+  await stream(event => events.push(event), signal);
+  return events;
+};
+
+const refusal = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error as { status: number; code: string; message: string };
+  }
+  throw new Error('Expected a refusal');
+};
+
+describe('AI proxy', () => {
+  it('streams the upstream reply and logs the request without its content', async () => {
+    const { proxy, log } = setup();
+    const events = await collect(proxy.start('account:ann', PLANS.free, request));
+
+    expect(events).toEqual([{ text: 'Hi ' }, { text: 'there' }, { reply: { text: 'Hi there', toolCalls: [] } }]);
+    expect(log).toEqual([expect.objectContaining({ user: 'account:ann', model: 'stub-model', messages: 1, chars: 20, status: 'ok' })]);
+    expect(JSON.stringify(log)).not.toContain('Hello');
+  });
+
+  it('refuses requests over the rate limit until the window has passed', async () => {
+    const { proxy, upstream, log, advance } = setup({ rateLimit: 2 });
+    proxy.start('guest:1.2.3.4', PLANS.guest, request);
+    advance(10_000);
+    proxy.start('guest:1.2.3.4', PLANS.guest, request);
+
+    expect(refusal(() => proxy.start('guest:1.2.3.4', PLANS.guest, request))).toMatchObject({ status: 429, code: 'rate_limited' });
+    expect(log.at(-1)?.status).toBe('rate_limited');
+    expect(upstream.calls).toBe(0);
+
+    // Others are counted on their own
+    expect(() => proxy.start('account:ann', PLANS.free, request)).not.toThrow();
+
+    // The first request leaves the window, making room for one more
+    advance(50_001);
+    expect(() => proxy.start('guest:1.2.3.4', PLANS.guest, request)).not.toThrow();
+    expect(refusal(() => proxy.start('guest:1.2.3.4', PLANS.guest, request)).code).toBe('rate_limited');
+  });
+
+  it("refuses requests over the plan's daily allowance until the next day", () => {
+    const { proxy, log, usage, advance } = setup({ rateLimit: 100 });
+    const plan: Plan = { ...PLANS.free, limits: { ...PLANS.free.limits, aiCallsPerDay: 2 } };
+    proxy.start('account:ann', plan, request);
+    proxy.start('account:ann', plan, request);
+
+    expect(refusal(() => proxy.start('account:ann', plan, request))).toMatchObject({
+      status: 429, code: 'plan_quota', message: 'The Free plan allows 2 AI requests a day. Try again tomorrow.',
+    });
+    expect(log.at(-1)?.status).toBe('over_quota');
+    expect(usage.read().days['account:ann']).toEqual({ day: '2026-03-02', count: 2 });
+
+    advance(24 * 60 * 60 * 1000);
+    expect(() => proxy.start('account:ann', plan, request)).not.toThrow();
+  });
+
+  it("sends upstream failures back as errors, hiding what the provider said about the server's key", async () => {
+    const { proxy, log } = setup({ failure: new UpstreamError('auth', 'API key not valid') });
+    const quiet = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const events = await collect(proxy.start('account:ann', PLANS.free, request));
+    quiet.mockRestore();
+
+    expect(events).toEqual([{ error: { kind: 'auth', message: 'The server could not authenticate with the AI provider.' } }]);
+    expect(log.at(-1)).toMatchObject({ status: 'error', errorKind: 'auth' });
+  });
+
+  it('logs an aborted request without sending anything more', async () => {
+    const { proxy, log } = setup({ failure: new UpstreamError('network', 'socket closed') });
+    const controller = new AbortController();
+    controller.abort();
+    const events = await collect(proxy.start('account:ann', PLANS.free, request), controller.signal);
+
+    expect(events).toEqual([]);
+    expect(log.at(-1)?.status).toBe('aborted');
+  });
+});
@@ -0,0 +1,164 @@
+import fs from 'fs';
+import path from 'path';
+import { AiErrorKind, AiProxyEvent, AiProxyRequest, AssistantToolCall } from '../../types';
+import { Plan, QuotaError } from '../../services/planService';
+import { Clock } from '../clock';
+import { HttpError } from '../http';
+import { JsonStore } from '../storage';
+
+// Forwards the app's AI requests to the model provider with the server's key,
+// so the key never reaches the browser. Each user gets a fixed number of
+// requests per window and their plan's number per day, and every request is
+// logged without its content.
+
+export class UpstreamError extends Error {
+  constructor(public kind: AiErrorKind, message: string) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+export interface UpstreamReply {
+  text: string;
+  toolCalls: AssistantToolCall[];
+}
+
+// The model provider behind the proxy; a stub in tests
+export interface AiUpstream {
+  model: string;
+  // `onText` gets each new piece of the reply's text. Throws UpstreamError.
+  generate: (request: AiProxyRequest, onText: (delta: string) => void, signal: AbortSignal) => Promise<UpstreamReply>;
+}
+
+// What is known about a request, never what was said
+export interface AiLogEntry {
+  at: number;
+  user: string;
+  model: string;
+  messages: number;
+  chars: number;
+  tools: number;
+  json: boolean;
+  status: 'ok' | 'error' | 'aborted' | 'rate_limited' | 'over_quota';
+  errorKind?: AiErrorKind;
+  ms: number;
+}
+
+export type AiLog = (entry: AiLogEntry) => void;
+
+export type AiProxyStream = (send: (event: AiProxyEvent) => void, signal: AbortSignal) => Promise<void>;
+
+export interface AiProxyService {
+  // Throws a 429 HttpError over the rate limit or the plan's daily allowance;
+  // otherwise the events to send back: text deltas, then the reply or an error
+  start: (user: string, plan: Plan, request: AiProxyRequest) => AiProxyStream;
+}
+
+// Requests so far today, per user
+export interface AiUsageState {
+  days: Record<string, { day: string; count: number }>;
+}
+
+export const emptyAiUsageState = (): AiUsageState => ({ days: {} });
+
+interface AiProxyOptions {
+  upstream: AiUpstream;
+  clock: Clock;
+  rateLimit: number; // requests per user within the window
+  rateWindowMs: number;
+  usage: JsonStore<AiUsageState>;
+  log: AiLog;
+}
+
+// Shown to the user instead of what the provider said about the server's key
+const SERVER_MESSAGES: Partial<Record<AiErrorKind, string>> = {
+  auth: 'The server could not authenticate with the AI provider.',
+  quota: "The server's AI usage limit has been reached. Try again later.",
+};
+
+/**
+ * Appends log entries to a JSONL file. Failures are reported on the console
+ * and never fail the request.
+ */
+export const createFileLog = (file: string): AiLog => (entry) => {
+  fs.promises.mkdir(path.dirname(file), { recursive: true })
+    .then(() => fs.promises.appendFile(file, JSON.stringify(entry) + '\n'))
+    .catch(error => console.error('AI log:', error));
+};
+
+const dayKey = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+export const createAiProxyService = ({ upstream, clock, rateLimit, rateWindowMs, usage, log }: AiProxyOptions): AiProxyService => {
+  const recent = new Map<string, number[]>(); // request times per user, within the window
+
+  const admit = (user: string): boolean => {
+    const now = clock.now();
+    const times = (recent.get(user) || []).filter(t => t > now - rateWindowMs);
+    if (times.length >= rateLimit) {
+      recent.set(user, times);
+      return false;
+    }
+    times.push(now);
+    recent.set(user, times);
+    return true;
+  };
+
+  // Counts the request against today's allowance, or returns the refusal
+  const consume = (user: string, plan: Plan): QuotaError | null => {
+    const state = usage.read();
+    const today = dayKey(clock.now());
+    const entry = state.days[user];
+    const used = entry && entry.day === today ? entry.count : 0;
+    const limit = plan.limits.aiCallsPerDay;
+    if (used >= limit) return new QuotaError('aiCallsPerDay', plan, used, limit);
+    usage.write({ days: { ...state.days, [user]: { day: today, count: used + 1 } } });
+    return null;
+  };
+
+  return {
+    // `user` is an account, or a guest's address
+    start: (user, plan, request) => {
+      const started = clock.now();
+      const entry = (status: AiLogEntry['status'], errorKind?: AiErrorKind): AiLogEntry => ({
+        at: started,
+        user,
+        model: upstream.model,
+        messages: request.messages.length,
+        chars: (request.instructions || '').length + request.messages.reduce((sum, m) => sum + m.text.length, 0),
+        tools: request.tools?.length || 0,
+        json: !!request.json,
+        status,
+        ...(errorKind ? { errorKind } : {}),
+        ms: clock.now() - started,
+      });
+
+      if (!admit(user)) {
+        log(entry('rate_limited'));
+        throw new HttpError(429, 'Too many AI requests. Wait a minute and try again.', 'rate_limited');
+      }
+      const refused = consume(user, plan);
+      if (refused) {
+        log(entry('over_quota'));
+        throw new HttpError(429, refused.message, 'plan_quota');
+      }
+
+      return async (send, signal) => {
+        try {
+          const reply = await upstream.generate(request, text => send({ text }), signal);
+          send({ reply });
+          log(entry('ok'));
+        } catch (error) {
+          if (signal.aborted) {
+            log(entry('aborted'));
+            return;
+          }
+          const kind = error instanceof UpstreamError ? error.kind : 'network';
+          console.error('AI upstream:', error);
+          const message = SERVER_MESSAGES[kind];
+          send({ error: { kind, ...(message ? { message } : {}) } });
+          log(entry('error', kind));
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+
+// Password hashing with scrypt from node:crypto. Hashes are stored as
+// `scrypt$N$r$p$salt$hash` so the cost can be raised without breaking old ones.
+
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELISM = 1;
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(password.normalize('NFKC'), salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (error, key) => {
+      if (error) reject(error); else resolve(key);
+    });
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const key = await derive(password, salt, COST, BLOCK_SIZE, PARALLELISM);
+  return ['scrypt', COST, BLOCK_SIZE, PARALLELISM, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const key = await derive(password, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p));
+  return key.length === expected.length && crypto.timingSafeEqual(key, expected);
+};
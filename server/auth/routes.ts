@@ -0,0 +1,59 @@
+import { ApiRequest, HttpError, Route } from '../http';
+import { AuthService, PublicAccount } from './service';
+
+export const bearerToken = (req: ApiRequest): string | null => {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * The signed-in account of a request; 401 without a valid session.
+ */
+export const requireAccount = (auth: AuthService, req: ApiRequest): PublicAccount => {
+  const token = bearerToken(req);
+  const account = token ? auth.authenticate(token) : null;
+  if (!account) throw new HttpError(401, 'Not signed in or the session has expired', 'unauthenticated');
+  return account;
+};
+
+const parseCredentials = (body: unknown) => {
+  const { username, password } = (body || {}) as { username?: unknown; password?: unknown };
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    throw new HttpError(400, 'Expected { username, password }');
+  }
+  return { username, password };
+};
+
+export const authRoutes = (auth: AuthService): Route[] => [
+  {
+    method: 'POST',
+    pattern: '/api/auth/register',
+    handler: async ({ body }) => {
+      const { username, password } = parseCredentials(body);
+      return { status: 201, body: await auth.register(username, password) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/auth/login',
+    handler: async ({ body }) => {
+      const { username, password } = parseCredentials(body);
+      return { body: await auth.login(username, password) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/auth/logout',
+    handler: (req) => {
+      const token = bearerToken(req);
+      if (token) auth.logout(token);
+      return { status: 204 };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/auth/me',
+    handler: (req) => ({ body: requireAccount(auth, req) }),
+  },
+];
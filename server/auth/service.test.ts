@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStillClock } from '../../test/fixtures';
+import { createMemoryStore } from '../storage';
+import * as passwords from './passwords';
+import { createAuthService, emptyAuthState } from './service';
+
+vi.mock('./passwords', async (original) => {
+  const actual = await original<typeof passwords>();
+  return { ...actual, verifyPassword: vi.fn(actual.verifyPassword) };
+});
+
+const setup = async () => {
+  const { clock } = createStillClock();
+  const auth = createAuthService({ store: createMemoryStore(emptyAuthState()), clock, sessionTtlMs: 60_000, defaultPlan: 'free' });
+  await auth.register('ann', 'correct horse');
+  vi.mocked(passwords.verifyPassword).mockClear();
+  return auth;
+};
+
+describe('auth service', () => {
+  it('signs in with the right password only', async () => {
+    const auth = await setup();
+    await expect(auth.login('Ann', 'correct horse')).resolves.toMatchObject({ account: { username: 'ann', plan: 'free' } });
+    await expect(auth.login('ann', 'wrong horse')).rejects.toMatchObject({ status: 401, code: 'invalid_credentials' });
+  });
+
+  it('checks a password for an unknown username too, refusing it the same way', async () => {
+    const auth = await setup();
+    await expect(auth.login('bob', 'correct horse')).rejects.toMatchObject({
+      status: 401, code: 'invalid_credentials', message: 'Wrong username or password',
+    });
+    expect(passwords.verifyPassword).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(passwords.verifyPassword).mock.calls[0][1]).toMatch(/^scrypt\$/);
+  });
+});
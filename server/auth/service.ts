@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { SyncedCategories } from '../../types';
+import { Clock } from '../clock';
+import { HttpError } from '../http';
+import { JsonStore } from '../storage';
+import { hashPassword, verifyPassword } from './passwords';
+
+export interface Account {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: number;
+  plan?: string; // set by hand in accounts.json; the default plan otherwise
+  categories?: SyncedCategories; // the app's category list, shared by the account's devices
+}
+
+// Only a hash of the token is stored, so the data file alone can't be used to sign in
+export interface Session {
+  tokenHash: string;
+  accountId: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface AuthState {
+  accounts: Account[];
+  sessions: Session[];
+}
+
+// What clients get to see of an account
+export interface PublicAccount {
+  id: string;
+  username: string;
+  plan: string;
+}
+
+export interface AuthResult {
+  token: string;
+  account: PublicAccount;
+  expiresAt: number;
+}
+
+export interface AuthService {
+  register: (username: string, password: string) => Promise<AuthResult>;
+  login: (username: string, password: string) => Promise<AuthResult>;
+  logout: (token: string) => void;
+  authenticate: (token: string) => PublicAccount | null;
+  getCategories: (accountId: string) => SyncedCategories | null;
+  // Stores `synced` if it is newer than the account's; returns what the account has now
+  saveCategories: (accountId: string, synced: SyncedCategories) => SyncedCategories;
+}
+
+interface AuthOptions {
+  store: JsonStore<AuthState>;
+  clock: Clock;
+  sessionTtlMs: number;
+  defaultPlan: string;
+}
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const emptyAuthState = (): AuthState => ({ accounts: [], sessions: [] });
+
+// Checked in place of a missing account's hash, so an unknown username takes
+// as long to refuse as a wrong password
+let dummyHash: Promise<string> | null = null;
+const unknownAccountHash = () => (dummyHash ??= hashPassword(crypto.randomBytes(16).toString('base64')));
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('base64url');
+
+/**
+ * Accounts with scrypt-hashed passwords and opaque bearer session tokens.
+ * Sessions expire after `sessionTtlMs`; logout deletes the session outright.
+ */
+export const createAuthService = ({ store, clock, sessionTtlMs, defaultPlan }: AuthOptions): AuthService => {
+  const toPublic = (account: Account): PublicAccount =>
+    ({ id: account.id, username: account.username, plan: account.plan || defaultPlan });
+
+  const findAccount = (username: string) =>
+    store.read().accounts.find(a => a.username.toLowerCase() === username.trim().toLowerCase());
+
+  const startSession = (account: Account): AuthResult => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = clock.now();
+    const session: Session = { tokenHash: hashToken(token), accountId: account.id, createdAt: now, expiresAt: now + sessionTtlMs };
+    const state = store.read();
+    store.write({ ...state, sessions: [...state.sessions.filter(s => s.expiresAt > now), session] });
+    return { token, account: toPublic(account), expiresAt: session.expiresAt };
+  };
+
+  return {
+    register: async (username, password) => {
+      const name = username.trim();
+      if (!USERNAME_PATTERN.test(name)) {
+        throw new HttpError(400, 'Usernames are 3-32 letters, digits, dots, dashes or underscores', 'invalid_username');
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new HttpError(400, `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`, 'weak_password');
+      }
+      if (findAccount(name)) throw new HttpError(409, 'That username is already taken', 'username_taken');
+
+      const passwordHash = await hashPassword(password);
+      // Checked again: another registration may have finished while hashing
+      if (findAccount(name)) throw new HttpError(409, 'That username is already taken', 'username_taken');
+
+      const account: Account = { id: crypto.randomUUID(), username: name, passwordHash, createdAt: clock.now() };
+      const state = store.read();
+      store.write({ ...state, accounts: [...state.accounts, account] });
+      return startSession(account);
+    },
+
+    login: async (username, password) => {
+      const account = findAccount(username);
+      const valid = await verifyPassword(password, account ? account.passwordHash : await unknownAccountHash());
+      // Same error and the same work either way, so usernames can't be probed
+      if (!account || !valid) {
+        throw new HttpError(401, 'Wrong username or password', 'invalid_credentials');
+      }
+      return startSession(account);
+    },
+
+    logout: (token) => {
+      const tokenHash = hashToken(token);
+      const state = store.read();
+      store.write({ ...state, sessions: state.sessions.filter(s => s.tokenHash !== tokenHash) });
+    },
+
+    authenticate: (token) => {
+      const tokenHash = hashToken(token);
+      const state = store.read();
+      const session = state.sessions.find(s => s.tokenHash === tokenHash);
+      if (!session || session.expiresAt <= clock.now()) return null;
+      const account = state.accounts.find(a => a.id === session.accountId);
+      return account ? toPublic(account) : null;
+    },
+
+    getCategories: (accountId) => store.read().accounts.find(a => a.id === accountId)?.categories || null,
+
+    saveCategories: (accountId, synced) => {
+      const state = store.read();
+      const account = state.accounts.find(a => a.id === accountId);
+      if (!account) throw new HttpError(404, 'Account not found', 'not_found');
+      if (account.categories && account.categories.at >= synced.at) return account.categories;
+      store.write({ ...state, accounts: state.accounts.map(a => a.id === accountId ? { ...a, categories: synced } : a) });
+      return synced;
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import path from 'path';
+
+// Server configuration, read once from the environment.
+// Everything has an offline-friendly default: `npm run server` works with no .env at all.
+
+// Secrets such as GEMINI_API_KEY can live in .env.local, next to the app's settings
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // no .env.local: the environment alone
+}
+
+const env = process.env;
+
+const int = (value: string | undefined, fallback: number) => {
+  const n = parseInt(value || '', 10);
+  return isNaN(n) ? fallback : n;
+};
+
+export const config = {
+  port: int(env.PORT, 8787),
+  dataDir: path.resolve(env.DATA_DIR || path.join(process.cwd(), 'server', 'data')),
+
+  auth: {
+    sessionTtlMs: int(env.SESSION_TTL_DAYS, 30) * 24 * 60 * 60 * 1000,
+    // Plan of accounts without one of their own; the limits live in config/plans.json
+    defaultPlan: env.DEFAULT_PLAN || 'free',
+  },
+
+  ai: {
+    // The key stays here; the app reaches the model through /api/ai
+    geminiApiKey: env.GEMINI_API_KEY || '',
+    geminiBaseUrl: env.GEMINI_BASE_URL || '', // another endpoint, e.g. a stub upstream
+    model: env.GEMINI_MODEL || 'gemini-3-flash-preview',
+    // Requests per user (account, or address for guests) within the window
+    rateLimit: int(env.AI_RATE_LIMIT, 20),
+    rateWindowMs: int(env.AI_RATE_WINDOW_SECONDS, 60) * 1000,
+    logFile: env.AI_LOG_FILE || '',
+  },
+
+  delivery: {
+    // 'outbox' routes every channel to the local outbox, 'live' uses the real adapters
+    mode: (env.DELIVERY_MODE === 'live' ? 'live' : 'outbox') as 'live' | 'outbox',
+    maxAttempts: int(env.DELIVERY_MAX_ATTEMPTS, 5),
+    retryDelayMs: int(env.DELIVERY_RETRY_DELAY_MS, 30_000),
+    outboxFile: env.OUTBOX_FILE || '',
+    outboxUrl: env.OUTBOX_URL || '',
+    smtp: {
+      host: env.SMTP_HOST || '',
+      port: int(env.SMTP_PORT, 587),
+      secure: env.SMTP_SECURE === 'true',
+      user: env.SMTP_USER || '',
+      pass: env.SMTP_PASS || '',
+      from: env.SMTP_FROM || 'memento@localhost',
+    },
+    sms: {
+      url: env.SMS_GATEWAY_URL || '',
+      token: env.SMS_GATEWAY_TOKEN || '',
+      sender: env.SMS_SENDER || 'Memento',
+    },
+    voice: {
+      url: env.VOICE_API_URL || '',
+      token: env.VOICE_API_TOKEN || '',
+      voice: env.VOICE_TTS_VOICE || 'alice',
+      language: env.VOICE_TTS_LANGUAGE || 'en-US',
+    },
+  },
+};
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import { DeliveryChannel, DeliveryError } from '../types';
+
+interface OutboxConfig {
+  file?: string; // JSON lines file
+  url?: string;  // mock server receiving one POST per message
+}
+
+/**
+ * Local stand-in for every real channel: messages are appended to a file or
+ * posted to a mock server, so the whole flow can run offline.
+ */
+export const createOutboxChannel = (method: string, config: OutboxConfig): DeliveryChannel => ({
+  name: `outbox:${method}`,
+  send: async (message) => {
+    const record = { method, ...message, at: new Date().toISOString() };
+
+    if (config.url) {
+      const response = await fetch(config.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(record),
+      }).catch((error: Error) => { throw new DeliveryError(`Outbox server unreachable: ${error.message}`); });
+      if (!response.ok) throw new DeliveryError(`Outbox server answered ${response.status}`, response.status >= 500);
+      return;
+    }
+
+    if (!config.file) throw new DeliveryError('Outbox has neither a file nor a URL configured', false);
+    await fs.promises.mkdir(path.dirname(config.file), { recursive: true });
+    await fs.promises.appendFile(config.file, JSON.stringify(record) + '\n');
+  },
+});
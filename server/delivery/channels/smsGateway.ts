@@ -0,0 +1,37 @@
+import { DeliveryChannel, DeliveryError } from '../types';
+
+interface SmsGatewayConfig {
+  url: string;
+  token: string;
+  sender: string;
+}
+
+// SMS bodies are cut to a single long message
+const MAX_SMS_LENGTH = 480;
+
+/**
+ * Generic HTTP SMS gateway: POST {from, to, message} as JSON with a bearer token.
+ * 4xx answers are treated as permanent, 5xx and network errors are retried.
+ */
+export const createSmsGatewayChannel = (config: SmsGatewayConfig): DeliveryChannel => ({
+  name: 'sms-gateway',
+  send: async (message) => {
+    if (!config.url) throw new DeliveryError('SMS_GATEWAY_URL is not configured', false);
+
+    const text = `${message.subject}: ${message.text}`.slice(0, MAX_SMS_LENGTH);
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+      },
+      body: JSON.stringify({ from: config.sender, to: message.to, message: text }),
+    }).catch((error: Error) => { throw new DeliveryError(`SMS gateway unreachable: ${error.message}`); });
+
+    if (!response.ok) {
+      throw new DeliveryError(`SMS gateway answered ${response.status}: ${await response.text()}`, response.status >= 500 || response.status === 429);
+    }
+    const result = await response.json().catch(() => ({})) as { id?: string };
+    return result.id;
+  },
+});
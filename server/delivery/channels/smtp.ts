@@ -0,0 +1,161 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { DeliveryChannel, DeliveryError, OutgoingMessage } from '../types';
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise plain, upgraded with STARTTLS when offered
+  user: string;
+  pass: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const TIMEOUT_MS = 30_000;
+
+// Reads complete (possibly multi-line "250-...") replies off a socket
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line[3] === '-') continue;
+
+      const reply = { code: parseInt(line.slice(0, 3), 10), lines };
+      lines = [];
+      const waiter = pending.shift();
+      if (waiter) waiter.resolve(reply); else replies.push(reply);
+    }
+  };
+  const onError = (error: Error) => {
+    failure = failure || error;
+    pending.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  const onClose = () => onError(new Error('Connection closed by SMTP server'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    next: (): Promise<SmtpReply> => {
+      const queued = replies.shift();
+      if (queued) return Promise.resolve(queued);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => pending.push({ resolve, reject }));
+    },
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    },
+  };
+};
+
+const connect = (config: SmtpConfig): Promise<net.Socket> => new Promise((resolve, reject) => {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+    : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+  socket.once('error', reject);
+});
+
+const upgradeToTls = (socket: net.Socket, host: string): Promise<net.Socket> => new Promise((resolve, reject) => {
+  const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+  secure.setTimeout(TIMEOUT_MS, () => secure.destroy(new Error('SMTP connection timed out')));
+  secure.once('error', reject);
+});
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const buildMessage = (from: string, message: OutgoingMessage) => {
+  const body = message.text.replace(/\r?\n/g, '\r\n')
+    // Dot-stuffing: a line starting with "." would otherwise end the DATA section
+    .replace(/^\./gm, '..');
+  return [
+    `From: Memento <${from}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${os.hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    body,
+    '.',
+    '',
+  ].join('\r\n');
+};
+
+/**
+ * Email over plain SMTP (RFC 5321) using only node:net/tls.
+ * Supports implicit TLS, STARTTLS and AUTH PLAIN. 5xx replies are permanent
+ * failures, everything else is retried by the queue.
+ */
+export const createSmtpChannel = (config: SmtpConfig): DeliveryChannel => ({
+  name: 'smtp',
+  send: async (message) => {
+    if (!config.host) throw new DeliveryError('SMTP_HOST is not configured', false);
+
+    let socket = await connect(config).catch((error: Error) => { throw new DeliveryError(`SMTP connect failed: ${error.message}`); });
+    let reader = createReplyReader(socket);
+
+    const send = async (line: string | null, expected: number[]) => {
+      if (line !== null) socket.write(line + '\r\n');
+      const reply = await reader.next();
+      if (!expected.includes(reply.code)) {
+        const shown = line?.startsWith('AUTH') ? 'AUTH' : line || 'greeting';
+        throw new DeliveryError(`SMTP ${shown} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code < 500);
+      }
+      return reply;
+    };
+
+    try {
+      await send(null, [220]);
+      const ehlo = await send(`EHLO ${os.hostname()}`, [250]);
+
+      if (!config.secure && ehlo.lines.some(l => l.toUpperCase().startsWith('STARTTLS'))) {
+        await send('STARTTLS', [220]);
+        reader.detach();
+        socket = await upgradeToTls(socket, config.host);
+        reader = createReplyReader(socket);
+        await send(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (config.user) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.pass}`, 'utf8').toString('base64');
+        await send(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await send(`MAIL FROM:<${config.from}>`, [250]);
+      await send(`RCPT TO:<${message.to}>`, [250, 251]);
+      await send('DATA', [354]);
+      socket.write(buildMessage(config.from, message));
+      const accepted = await send(null, [250]);
+      await send('QUIT', [221]).catch(() => undefined);
+      return accepted.lines.join(' ');
+    } catch (error) {
+      if (error instanceof DeliveryError) throw error;
+      throw new DeliveryError(`SMTP error: ${(error as Error).message}`);
+    } finally {
+      socket.destroy();
+    }
+  },
+});
@@ -0,0 +1,41 @@
+import { DeliveryChannel, DeliveryError } from '../types';
+
+interface VoiceCallConfig {
+  url: string;
+  token: string;
+  voice: string;
+  language: string;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Voice call through an HTTP telephony API. The call script is sent as TwiML-style
+ * markup, so the provider reads the reminder out with its text-to-speech engine.
+ */
+export const createVoiceCallChannel = (config: VoiceCallConfig): DeliveryChannel => ({
+  name: 'voice-call',
+  send: async (message) => {
+    if (!config.url) throw new DeliveryError('VOICE_API_URL is not configured', false);
+
+    const script = `This is your Memento reminder. ${message.subject}. ${message.text}`;
+    const twiml = `<Response><Say voice="${config.voice}" language="${config.language}">${escapeXml(script)}</Say>`
+      + `<Pause length="1"/><Say voice="${config.voice}" language="${config.language}">${escapeXml(message.subject)}</Say></Response>`;
+
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+      },
+      body: JSON.stringify({ to: message.to, twiml }),
+    }).catch((error: Error) => { throw new DeliveryError(`Voice API unreachable: ${error.message}`); });
+
+    if (!response.ok) {
+      throw new DeliveryError(`Voice API answered ${response.status}: ${await response.text()}`, response.status >= 500 || response.status === 429);
+    }
+    const result = await response.json().catch(() => ({})) as { sid?: string; id?: string };
+    return result.sid || result.id;
+  },
+});
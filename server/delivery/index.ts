@@ -0,0 +1,31 @@
+import path from 'path';
+import { CommunicationMethod } from '../../types';
+import { config } from '../config';
+import { ChannelMap } from './queue';
+import { createOutboxChannel } from './channels/outbox';
+import { createSmtpChannel } from './channels/smtp';
+import { createSmsGatewayChannel } from './channels/smsGateway';
+import { createVoiceCallChannel } from './channels/voiceCall';
+
+/**
+ * Channel adapter per method. In 'outbox' mode (the default) every method is
+ * routed to the local outbox so nothing leaves the machine.
+ */
+export const createChannels = (delivery = config.delivery): ChannelMap => {
+  if (delivery.mode === 'outbox') {
+    const outbox = {
+      file: delivery.outboxFile || path.join(config.dataDir, 'outbox.jsonl'),
+      url: delivery.outboxUrl,
+    };
+    return {
+      [CommunicationMethod.Email]: createOutboxChannel('email', outbox),
+      [CommunicationMethod.SMS]: createOutboxChannel('sms', outbox),
+      [CommunicationMethod.Call]: createOutboxChannel('call', outbox),
+    };
+  }
+  return {
+    [CommunicationMethod.Email]: createSmtpChannel(delivery.smtp),
+    [CommunicationMethod.SMS]: createSmsGatewayChannel(delivery.sms),
+    [CommunicationMethod.Call]: createVoiceCallChannel(delivery.voice),
+  };
+};
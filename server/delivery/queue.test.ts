@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { CommunicationMethod } from '../../types';
+import { NOW, createStillClock } from '../../test/fixtures';
+import { createMemoryStore } from '../storage';
+import { createDeliveryQueue, emptyDeliveryState } from './queue';
+import { DeliveryError, DeliveryJob, DeliveryRequest, OutgoingMessage } from './types';
+
+const request = (key: string, patch: Partial<DeliveryRequest> = {}): DeliveryRequest => ({
+  key,
+  reminderId: key.split(':')[0],
+  method: CommunicationMethod.Email,
+  to: 'ann@example.com',
+  title: 'Dentist',
+  body: '',
+  sendAt: NOW - 1000,
+  ...patch,
+});
+
+// The channel fails the first `failures` sends with a retryable error
+const setup = (failures = 0) => {
+  const sent: OutgoingMessage[] = [];
+  const store = createMemoryStore(emptyDeliveryState());
+  const { clock, advance } = createStillClock();
+  const send = async (message: OutgoingMessage) => {
+    if (failures-- > 0) throw new DeliveryError('Mailbox busy');
+    sent.push(message);
+  };
+  const queue = createDeliveryQueue({
+    channels: { [CommunicationMethod.Email]: { name: 'test', send } },
+    store,
+    clock,
+    maxAttempts: 3,
+    retryDelayMs: 1000,
+  });
+  return { queue, store, sent, advance };
+};
+
+describe('delivery queue', () => {
+  it('replaces only the pending jobs of the account that schedules', () => {
+    const { queue } = setup();
+    queue.schedule('ann', [request('r1:1/a0')]);
+    queue.schedule('bob', [request('r2:1/a0')]);
+    queue.schedule('bob', []);
+
+    expect(queue.getJobs('ann').map(j => j.key)).toEqual(['r1:1/a0']);
+    expect(queue.getJobs('bob')).toEqual([]);
+  });
+
+  it('keeps equal keys of different accounts apart', async () => {
+    const { queue, sent } = setup();
+    queue.schedule('ann', [request('r1:1/a0', { to: 'ann@example.com' })]);
+    queue.schedule('bob', [request('r1:1/a0', { to: 'bob@example.com' })]);
+    await queue.processDue();
+
+    expect(sent.map(m => m.to).sort()).toEqual(['ann@example.com', 'bob@example.com']);
+    expect(queue.getJobs('ann')).toMatchObject([{ status: 'sent' }]);
+    expect(queue.getJobs('bob')).toMatchObject([{ status: 'sent' }]);
+  });
+
+  it('shows each account only its own log', async () => {
+    const { queue } = setup();
+    queue.enqueue('ann', request('r1:1/a0'));
+    queue.enqueue('bob', request('r2:1/a0', { to: 'bob@example.com' }));
+    await queue.processDue();
+
+    expect(queue.getLog('ann')).toEqual([expect.objectContaining({ reminderId: 'r1', status: 'sent' })]);
+    expect(queue.getLog('ann')[0]).not.toHaveProperty('owner');
+    expect(queue.getLog('bob', 'r1')).toEqual([]);
+    expect(queue.getLog('carol')).toEqual([]);
+  });
+
+  it('does not send a settled job again when it is scheduled again', async () => {
+    const { queue, sent } = setup();
+    queue.schedule('ann', [request('r1:1/a0')]);
+    await queue.processDue();
+    expect(queue.schedule('ann', [request('r1:1/a0')])).toEqual({ scheduled: 0 });
+    await queue.processDue();
+    expect(sent).toHaveLength(1);
+  });
+
+  it('drops pending jobs stored without an owner on the next schedule', () => {
+    const { queue, store } = setup();
+    const legacy = { ...request('old:1/a0'), status: 'pending', attempts: 0, nextAttemptAt: NOW } as DeliveryJob;
+    store.write({ jobs: [legacy], log: [] });
+    queue.schedule('ann', []);
+    expect(store.read().jobs).toEqual([]);
+  });
+
+  it('stops retrying deliveries that are no longer scheduled', async () => {
+    const { queue, sent, advance } = setup(2);
+    queue.schedule('ann', [request('r1:1/a0'), request('r2:1/a0')]);
+    await queue.processDue();
+    expect(queue.getJobs('ann')).toMatchObject([{ key: 'r1:1/a0', attempts: 1 }, { key: 'r2:1/a0', attempts: 1 }]);
+
+    // r2 was deleted while both were backing off
+    queue.schedule('ann', [request('r1:1/a0')]);
+    advance(1000);
+    await queue.processDue();
+
+    expect(queue.getJobs('ann')).toMatchObject([{ key: 'r1:1/a0', status: 'sent' }]);
+    expect(sent.map(m => m.subject)).toEqual(['Reminder: Dentist']);
+  });
+});
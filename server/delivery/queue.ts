@@ -0,0 +1,182 @@
+import { CommunicationMethod } from '../../types';
+import { Clock } from '../clock';
+import { JsonStore } from '../storage';
+import { DeliveryChannel, DeliveryError, DeliveryJob, DeliveryLogEntry, DeliveryRequest, OutgoingMessage, StoredLogEntry } from './types';
+
+export interface DeliveryState {
+  jobs: DeliveryJob[];
+  log: StoredLogEntry[];
+}
+
+export type ChannelMap = Partial<Record<CommunicationMethod, DeliveryChannel>>;
+
+interface QueueOptions {
+  channels: ChannelMap;
+  store: JsonStore<DeliveryState>;
+  clock: Clock;
+  maxAttempts: number;
+  retryDelayMs: number;
+}
+
+export interface DeliveryQueue {
+  // Everything but processing is per account (`owner`)
+  schedule: (owner: string, requests: DeliveryRequest[]) => { scheduled: number };
+  enqueue: (owner: string, request: DeliveryRequest) => DeliveryJob;
+  getJobs: (owner: string, reminderId?: string) => DeliveryJob[];
+  getLog: (owner: string, reminderId?: string) => DeliveryLogEntry[];
+  processDue: () => Promise<void>;
+  start: () => void;
+  stop: () => void;
+}
+
+const MAX_LOG_ENTRIES = 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+const MAX_IDLE_DELAY = 5 * 60 * 1000;
+// Jobs that are this late (server was down) are dropped instead of sent
+const EXPIRY_MS = 24 * 60 * 60 * 1000;
+// Sent and failed jobs are kept this long so a re-schedule doesn't send them twice
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const emptyDeliveryState = (): DeliveryState => ({ jobs: [], log: [] });
+
+const render = (job: DeliveryJob): OutgoingMessage => ({
+  to: job.to,
+  subject: `Reminder: ${job.title}`,
+  text: [
+    job.title,
+    new Date(job.dueAt ?? job.sendAt).toLocaleString('en-GB', { dateStyle: 'full', timeStyle: 'short' }),
+    job.body,
+  ].filter(Boolean).join('\n\n'),
+});
+
+const toJob = (owner: string, request: DeliveryRequest): DeliveryJob => ({
+  ...request,
+  owner,
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: request.sendAt,
+});
+
+/**
+ * Persistent delivery queue. Due jobs are sent through the channel of their
+ * method; retryable failures back off exponentially up to `maxAttempts`.
+ * Every attempt is appended to the delivery log.
+ */
+export const createDeliveryQueue = ({ channels, store, clock, maxAttempts, retryDelayMs }: QueueOptions): DeliveryQueue => {
+  let timer: unknown = null;
+  let running = false;
+  let started = false;
+
+  const state = () => store.read();
+
+  const save = (next: DeliveryState) => {
+    const cutoff = clock.now() - RETENTION_MS;
+    store.write({
+      jobs: next.jobs.filter(j => j.status === 'pending' || j.nextAttemptAt > cutoff),
+      log: next.log.slice(-MAX_LOG_ENTRIES),
+    });
+  };
+
+  // Keys are only unique within an account
+  const sameJob = (a: DeliveryJob, b: DeliveryJob) => a.owner === b.owner && a.key === b.key;
+
+  const updateJob = (job: DeliveryJob, entry: Omit<DeliveryLogEntry, 'key' | 'reminderId' | 'method' | 'to' | 'at'>) => {
+    const current = state();
+    save({
+      jobs: current.jobs.map(j => (sameJob(j, job) ? job : j)),
+      log: [...current.log, { owner: job.owner, key: job.key, reminderId: job.reminderId, method: job.method, to: job.to, at: clock.now(), ...entry }],
+    });
+  };
+
+  const attempt = async (job: DeliveryJob) => {
+    const now = clock.now();
+    const channel = channels[job.method];
+    const attemptNo = job.attempts + 1;
+
+    if (now - job.sendAt > EXPIRY_MS) {
+      updateJob({ ...job, status: 'failed', lastError: 'Expired before it could be sent' },
+        { channel: channel?.name || 'none', attempt: job.attempts, status: 'failed', detail: 'Expired before it could be sent' });
+      return;
+    }
+
+    try {
+      if (!channel) throw new DeliveryError(`No channel for ${job.method}`, false);
+      const reference = await channel.send(render(job));
+      updateJob({ ...job, status: 'sent', attempts: attemptNo, lastError: undefined },
+        { channel: channel.name, attempt: attemptNo, status: 'sent', detail: reference || undefined });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = !(error instanceof DeliveryError) || error.retryable;
+      const giveUp = !retryable || attemptNo >= maxAttempts;
+      const delay = Math.min(retryDelayMs * 2 ** (attemptNo - 1), MAX_RETRY_DELAY);
+      updateJob(
+        { ...job, attempts: attemptNo, status: giveUp ? 'failed' : 'pending', nextAttemptAt: clock.now() + delay, lastError: message },
+        { channel: channel?.name || 'none', attempt: attemptNo, status: giveUp ? 'failed' : 'retrying', detail: message },
+      );
+    }
+  };
+
+  const arm = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+    if (!started) return;
+    const now = clock.now();
+    const next = Math.min(now + MAX_IDLE_DELAY, ...state().jobs.filter(j => j.status === 'pending').map(j => j.nextAttemptAt));
+    timer = clock.setTimeout(() => { queue.processDue(); }, Math.max(0, next - now));
+  };
+
+  const queue: DeliveryQueue = {
+    schedule: (owner, requests) => {
+      const current = state();
+      // Jobs stored before they had an owner belong to nobody, so any schedule replaces them
+      const own = (j: DeliveryJob) => j.owner === owner || !j.owner;
+      const settled = new Set(current.jobs.filter(j => j.owner === owner && j.status !== 'pending').map(j => j.key));
+      const fresh = requests.filter(r => !settled.has(r.key));
+      // Retries carry on only while their reminder and alert are still scheduled
+      const keys = new Set(requests.map(r => r.key));
+      const inFlight = current.jobs.filter(j => j.owner === owner && j.status === 'pending' && j.attempts > 0 && keys.has(j.key));
+      // The owner's pending jobs are replaced by the new schedule, except ones already being retried
+      const jobs = [
+        ...current.jobs.filter(j => !own(j) || j.status !== 'pending'),
+        ...inFlight,
+        ...fresh.filter(r => !inFlight.some(j => j.key === r.key)).map(r => toJob(owner, r)),
+      ];
+      save({ ...current, jobs });
+      arm();
+      return { scheduled: fresh.length };
+    },
+    enqueue: (owner, request) => {
+      const current = state();
+      const job = toJob(owner, request);
+      save({ ...current, jobs: [...current.jobs.filter(j => !sameJob(j, job)), job] });
+      arm();
+      return job;
+    },
+    getJobs: (owner, reminderId) => state().jobs.filter(j => j.owner === owner && (!reminderId || j.reminderId === reminderId)),
+    getLog: (owner, reminderId) => state().log
+      .filter(e => e.owner === owner && (!reminderId || e.reminderId === reminderId))
+      .map(({ owner: _, ...entry }) => entry),
+    processDue: async () => {
+      if (running) return;
+      running = true;
+      try {
+        const now = clock.now();
+        const due = state().jobs.filter(j => j.status === 'pending' && j.nextAttemptAt <= now);
+        for (const job of due) await attempt(job);
+      } finally {
+        running = false;
+        arm();
+      }
+    },
+    start: () => {
+      started = true;
+      queue.processDue();
+    },
+    stop: () => {
+      started = false;
+      if (timer !== null) clock.clearTimeout(timer);
+      timer = null;
+    },
+  };
+  return queue;
+};
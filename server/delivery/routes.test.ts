@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { CommunicationMethod } from '../../types';
+import { NOW, createStillClock } from '../../test/fixtures';
+import { createMemoryStore } from '../storage';
+import { HttpError } from '../http';
+import { createAuthService, emptyAuthState } from '../auth/service';
+import { createDeliveryQueue, emptyDeliveryState } from './queue';
+import { deliveryRoutes } from './routes';
+
+const { clock } = createStillClock();
+const auth = createAuthService({ store: createMemoryStore(emptyAuthState()), clock, sessionTtlMs: 60_000_000, defaultPlan: 'plus' });
+const queue = createDeliveryQueue({ channels: {}, store: createMemoryStore(emptyDeliveryState()), clock, maxAttempts: 3, retryDelayMs: 1000 });
+const routes = deliveryRoutes(queue, auth);
+let token = '';
+
+beforeAll(async () => {
+  token = (await auth.register('ann', 'correct horse')).token;
+});
+
+const post = async (to: string, method = CommunicationMethod.Email) => {
+  const route = routes.find(r => r.method === 'POST' && r.pattern === '/api/deliveries')!;
+  const body = { key: `r1:${to}`, reminderId: 'r1', method, to, title: 'Dentist', sendAt: NOW };
+  try {
+    return (await route.handler({
+      method: 'POST', path: route.pattern, params: {}, query: new URLSearchParams(), headers: { authorization: `Bearer ${token}` }, body,
+    })).status;
+  } catch (error) {
+    return (error as HttpError).status;
+  }
+};
+
+describe('delivery routes', () => {
+  it('refuses a recipient that would add SMTP commands or headers', async () => {
+    expect(await post('ann@example.com\r\nRCPT TO:<eve@example.com>')).toBe(400);
+    expect(await post('ann@example.com>\r\nBcc: eve@example.com')).toBe(400);
+    expect(await post('ann@example.com\r\n')).toBe(400);
+  });
+
+  it("checks the recipient against the channel's kind of address", async () => {
+    expect(await post('ann@example.com')).toBe(201);
+    expect(await post('ann@example')).toBe(400);
+    expect(await post('<ann@example.com>')).toBe(400);
+    expect(await post('+49 30 1234567', CommunicationMethod.SMS)).toBe(201);
+    expect(await post('ann@example.com', CommunicationMethod.SMS)).toBe(400);
+    expect(await post('+1 (555) 010-0100', CommunicationMethod.Call)).toBe(201);
+    expect(await post('call me', CommunicationMethod.Call)).toBe(400);
+  });
+});
@@ -0,0 +1,81 @@
+import { CommunicationMethod } from '../../types';
+import { QuotaError, accountPlan } from '../../services/planService';
+import { HttpError, Route } from '../http';
+import { AuthService, PublicAccount } from '../auth/service';
+import { requireAccount } from '../auth/routes';
+import { DeliveryQueue } from './queue';
+import { DeliveryRequest } from './types';
+
+const DELIVERABLE = [CommunicationMethod.Email, CommunicationMethod.SMS, CommunicationMethod.Call];
+
+// Recipients end up in SMTP commands and headers, so only plain addresses pass
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+const EMAIL_PATTERN = /^[^\s@<>()",;:\\]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]{2,24}$/;
+
+const checkRecipient = (method: CommunicationMethod, raw: string) => {
+  if (CONTROL_CHARACTERS.test(raw)) throw new HttpError(400, 'Recipient must not contain control characters');
+  const to = raw.trim();
+  if (method === CommunicationMethod.Email && !EMAIL_PATTERN.test(to)) throw new HttpError(400, `Not an email address: ${to}`);
+  if (method !== CommunicationMethod.Email && !PHONE_PATTERN.test(to)) throw new HttpError(400, `Not a phone number: ${to}`);
+};
+
+const parseRequest = (value: unknown): DeliveryRequest => {
+  const r = (value || {}) as Partial<DeliveryRequest>;
+  if (typeof r.key !== 'string' || !r.key) throw new HttpError(400, 'Delivery needs a key');
+  if (typeof r.reminderId !== 'string' || !r.reminderId) throw new HttpError(400, 'Delivery needs a reminderId');
+  if (!DELIVERABLE.includes(r.method as CommunicationMethod)) throw new HttpError(400, `Unsupported delivery method: ${r.method}`);
+  if (typeof r.to !== 'string' || !r.to.trim()) throw new HttpError(400, 'Delivery needs a recipient');
+  checkRecipient(r.method as CommunicationMethod, r.to);
+  if (typeof r.sendAt !== 'number' || !isFinite(r.sendAt)) throw new HttpError(400, 'Delivery needs a numeric sendAt');
+  if (r.dueAt !== undefined && (typeof r.dueAt !== 'number' || !isFinite(r.dueAt))) throw new HttpError(400, 'dueAt must be numeric');
+  return {
+    key: r.key,
+    reminderId: r.reminderId,
+    method: r.method as CommunicationMethod,
+    to: r.to.trim(),
+    title: String(r.title || ''),
+    body: String(r.body || ''),
+    sendAt: r.sendAt,
+    ...(r.dueAt !== undefined ? { dueAt: r.dueAt } : {}),
+  };
+};
+
+const allowed = (account: PublicAccount, request: DeliveryRequest) =>
+  accountPlan(account.plan).limits.deliveryChannels.includes(request.method);
+
+// Every route acts for the signed-in account, on its own deliveries only, and
+// only through the channels of its plan
+export const deliveryRoutes = (queue: DeliveryQueue, auth: AuthService): Route[] => [
+  {
+    // Replace the account's pending schedule with the client's view of upcoming deliveries
+    method: 'PUT',
+    pattern: '/api/deliveries/schedule',
+    handler: (req) => {
+      const account = requireAccount(auth, req);
+      const requests = (req.body as { requests?: unknown[] } | undefined)?.requests;
+      if (!Array.isArray(requests)) throw new HttpError(400, 'Expected { requests: [...] }');
+      const parsed = requests.map(parseRequest);
+      const permitted = parsed.filter(r => allowed(account, r));
+      return { body: { ...queue.schedule(account.id, permitted), refused: parsed.length - permitted.length } };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/deliveries',
+    handler: (req) => {
+      const account = requireAccount(auth, req);
+      const request = parseRequest(req.body);
+      if (!allowed(account, request)) {
+        const plan = accountPlan(account.plan);
+        throw new HttpError(403, new QuotaError('deliveryChannels', plan, 0, plan.limits.deliveryChannels.length, request.method).message, 'quota');
+      }
+      return { status: 201, body: queue.enqueue(account.id, request) };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/api/deliveries/log',
+    handler: (req) => ({ body: queue.getLog(requireAccount(auth, req).id, req.query.get('reminderId') || undefined) }),
+  },
+];
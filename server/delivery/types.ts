@@ -0,0 +1,38 @@
+import { DeliveryRequest, DeliveryLogEntry } from '../../types';
+
+export type { DeliveryRequest, DeliveryLogEntry } from '../../types';
+
+export interface DeliveryJob extends DeliveryRequest {
+  owner: string; // account id; accounts only see and replace their own jobs
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// The log as stored, each entry under the account of its job
+export interface StoredLogEntry extends DeliveryLogEntry {
+  owner: string;
+}
+
+// A message rendered for one channel
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface DeliveryChannel {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<string | void>; // optional provider reference
+}
+
+/**
+ * Thrown by channels. `retryable: false` marks errors a retry can't fix,
+ * such as a rejected recipient or missing configuration.
+ */
+export class DeliveryError extends Error {
+  constructor(message: string, public retryable: boolean = true) {
+    super(message);
+  }
+}
@@ -0,0 +1,30 @@
+import http from 'http';
+import { describe, it, expect } from 'vitest';
+import { createRouter } from './http';
+
+// Runs one GET through the router, returning the status and JSON sent back
+const get = async (router: ReturnType<typeof createRouter>, url: string) => {
+  const sent: { status?: number; body?: string } = {};
+  const req = { url, method: 'GET', headers: {}, socket: {} } as unknown as http.IncomingMessage;
+  const res = {
+    headersSent: false,
+    writeHead: (status: number) => { sent.status = status; },
+    end: (body: string) => { sent.body = body; },
+  } as unknown as http.ServerResponse;
+  await router(req, res);
+  return { status: sent.status, body: sent.body ? JSON.parse(sent.body) : undefined };
+};
+
+describe('router', () => {
+  const router = createRouter([{ method: 'GET', pattern: '/api/reminders/:id', handler: (req) => ({ body: req.params }) }]);
+
+  it('decodes path parameters', async () => {
+    expect(await get(router, '/api/reminders/a%20b')).toEqual({ status: 200, body: { id: 'a b' } });
+  });
+
+  it('answers a malformed escape in the path with a 400', async () => {
+    expect(await get(router, '/api/reminders/%E0%A4%A')).toEqual({
+      status: 400, body: { error: 'Malformed path segment: %E0%A4%A' },
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import http from 'http';
+
+// Minimal JSON routing on top of node:http.
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+  }
+}
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  remoteAddress?: string;
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status?: number;
+  body?: unknown;
+  // Sent as NDJSON instead of `body`, one event per line; the signal aborts when the client goes away
+  stream?: (send: (event: unknown) => void, signal: AbortSignal) => Promise<void>;
+}
+
+export type Handler = (req: ApiRequest) => Promise<ApiResponse> | ApiResponse;
+
+export interface Route {
+  method: string;
+  pattern: string; // e.g. /api/deliveries/:key
+  handler: Handler;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const readBody = (req: http.IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (!chunks.length) return resolve(undefined);
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`);
+  }
+};
+
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) params[patternParts[i].slice(1)] = decodeSegment(pathParts[i]);
+    else if (patternParts[i] !== pathParts[i]) return null;
+  }
+  return params;
+};
+
+export const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const sendStream = async (res: http.ServerResponse, status: number, stream: NonNullable<ApiResponse['stream']>) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  res.writeHead(status, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  await stream(event => res.write(`${JSON.stringify(event)}\n`), controller.signal);
+  res.end();
+};
+
+export const createRouter = (routes: Route[]) => async (req: http.IncomingMessage, res: http.ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const method = (req.method || 'GET').toUpperCase();
+
+  try {
+    for (const route of routes) {
+      if (route.method !== method) continue;
+      const params = matchPath(route.pattern, url.pathname);
+      if (!params) continue;
+
+      const body = method === 'GET' || method === 'HEAD' ? undefined : await readBody(req);
+      const result = await route.handler({
+        method, path: url.pathname, params, query: url.searchParams, headers: req.headers, remoteAddress: req.socket.remoteAddress, body,
+      });
+      if (result.stream) return await sendStream(res, result.status ?? 200, result.stream);
+      return sendJson(res, result.status ?? 200, result.body);
+    }
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+  } catch (error) {
+    // A stream that already started can only be cut short
+    if (res.headersSent) {
+      console.error("Server Error:", error);
+      return res.end();
+    }
+    if (error instanceof HttpError) return sendJson(res, error.status, { error: error.message, code: error.code });
+    console.error("Server Error:", error);
+    sendJson(res, 500, { error: 'Internal server error' });
+  }
+};
@@ -0,0 +1,69 @@
+import http from 'http';
+import path from 'path';
+import { config } from './config';
+import { systemClock } from './clock';
+import { createRouter } from './http';
+import { createJsonFileStore } from './storage';
+import { createChannels } from './delivery';
+import { createDeliveryQueue, emptyDeliveryState } from './delivery/queue';
+import { deliveryRoutes } from './delivery/routes';
+import { createAuthService, emptyAuthState } from './auth/service';
+import { authRoutes } from './auth/routes';
+import { createSyncService, emptySyncState } from './sync/service';
+import { syncRoutes } from './sync/routes';
+import { createAiProxyService, createFileLog, emptyAiUsageState } from './ai/service';
+import { createGeminiUpstream } from './ai/gemini';
+import { aiRoutes } from './ai/routes';
+
+// Local Memento backend. Runs as a plain Node process: `npm run server`.
+
+const deliveryQueue = createDeliveryQueue({
+  channels: createChannels(),
+  store: createJsonFileStore(path.join(config.dataDir, 'deliveries.json'), emptyDeliveryState),
+  clock: systemClock,
+  maxAttempts: config.delivery.maxAttempts,
+  retryDelayMs: config.delivery.retryDelayMs,
+});
+
+const auth = createAuthService({
+  store: createJsonFileStore(path.join(config.dataDir, 'accounts.json'), emptyAuthState),
+  clock: systemClock,
+  sessionTtlMs: config.auth.sessionTtlMs,
+  defaultPlan: config.auth.defaultPlan,
+});
+
+const sync = createSyncService({
+  store: createJsonFileStore(path.join(config.dataDir, 'reminders.json'), emptySyncState),
+  clock: systemClock,
+});
+
+const aiProxy = createAiProxyService({
+  upstream: createGeminiUpstream({ apiKey: config.ai.geminiApiKey, model: config.ai.model, baseUrl: config.ai.geminiBaseUrl }),
+  clock: systemClock,
+  rateLimit: config.ai.rateLimit,
+  rateWindowMs: config.ai.rateWindowMs,
+  usage: createJsonFileStore(path.join(config.dataDir, 'ai-usage.json'), emptyAiUsageState),
+  log: createFileLog(config.ai.logFile || path.join(config.dataDir, 'ai-requests.jsonl')),
+});
+
+const router = createRouter([
+  { method: 'GET', pattern: '/api/health', handler: () => ({ body: { ok: true } }) },
+  ...authRoutes(auth),
+  ...syncRoutes(sync, auth),
+  ...deliveryRoutes(deliveryQueue, auth),
+  ...aiRoutes(aiProxy, auth),
+]);
+
+const server = http.createServer(router);
+
+server.listen(config.port, () => {
+  console.log(`Memento server listening on http://localhost:${config.port} (delivery: ${config.delivery.mode}, AI: ${config.ai.geminiApiKey ? config.ai.model : 'no GEMINI_API_KEY'})`);
+  deliveryQueue.start();
+});
+
+const shutdown = () => {
+  deliveryQueue.stop();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+
+// Small JSON file persistence. Writes go to a temp file first and are renamed
+// into place, so a crash never leaves a half-written store behind.
+
+export interface JsonStore<T> {
+  read: () => T;
+  write: (value: T) => void;
+}
+
+export const createJsonFileStore = <T>(file: string, fallback: () => T): JsonStore<T> => {
+  let cache: T | null = null;
+
+  return {
+    read: () => {
+      if (cache !== null) return cache;
+      try {
+        cache = JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Could not read ${file}:`, error);
+        cache = fallback();
+      }
+      return cache;
+    },
+    write: (value) => {
+      cache = value;
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(value, null, 2));
+      fs.renameSync(tmp, file);
+    },
+  };
+};
+
+export const createMemoryStore = <T>(initial: T): JsonStore<T> => {
+  let value = initial;
+  return { read: () => value, write: (next) => { value = next; } };
+};
@@ -0,0 +1,109 @@
+import { Reminder, SyncMutation, SyncResponse, SyncedCategories } from '../../types';
+import { accountPlan, checkReminderQuota } from '../../services/planService';
+import { SYNC_BASE_VERSION, migrateReminders } from '../../services/migrationService';
+import { HttpError, Route } from '../http';
+import { AuthService, PublicAccount } from '../auth/service';
+import { requireAccount } from '../auth/routes';
+import { ReminderLimit, SyncService } from './service';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseMutation = (value: unknown): SyncMutation => {
+  if (!isObject(value)) throw new HttpError(400, 'Mutation must be an object');
+  const { mid, id, at, set, unset } = value;
+  if (typeof mid !== 'string' || typeof id !== 'string' || !id) throw new HttpError(400, 'Mutation needs a mid and an id');
+  if (typeof at !== 'number' || !isFinite(at)) throw new HttpError(400, 'Mutation needs a numeric at');
+  if (set !== undefined && !isObject(set)) throw new HttpError(400, 'Mutation set must be an object');
+  if (unset !== undefined && !(Array.isArray(unset) && unset.every(f => typeof f === 'string'))) {
+    throw new HttpError(400, 'Mutation unset must be a list of field names');
+  }
+  return { mid, id, at, set: set as Partial<Reminder> | undefined, unset: unset as string[] | undefined, delete: value.delete === true };
+};
+
+const parseCategories = (value: unknown): SyncedCategories => {
+  if (!isObject(value) || typeof value.at !== 'number' || !isFinite(value.at) || !Array.isArray(value.categories)) {
+    throw new HttpError(400, 'Categories must be { categories: [...], at }');
+  }
+  const valid = value.categories.every(c =>
+    isObject(c) && typeof c.id === 'string' && typeof c.name === 'string' && typeof c.color === 'string' && typeof c.icon === 'string');
+  if (!valid) throw new HttpError(400, 'Each category needs an id, name, color and icon');
+  return value as unknown as SyncedCategories;
+};
+
+const parseReminder = (value: unknown, id: string): Reminder => {
+  if (!isObject(value)) throw new HttpError(400, 'Expected a reminder object');
+  if (value.id !== undefined && value.id !== id) throw new HttpError(400, 'Reminder id does not match the URL');
+  if (typeof value.title !== 'string' || typeof value.date !== 'string') throw new HttpError(400, 'Reminder needs a title and a date');
+  return { ...value, id } as Reminder;
+};
+
+// The account's categories travel with every sync response
+const withCategories = (auth: AuthService, accountId: string, response: SyncResponse): SyncResponse => {
+  const categories = auth.getCategories(accountId);
+  return categories ? { ...response, categories } : response;
+};
+
+// The account's plan, checked against reminders as the current app reads them
+const planLimit = (account: PublicAccount): ReminderLimit => {
+  const plan = accountPlan(account.plan);
+  const current = (reminders: Reminder[]) => migrateReminders(reminders, SYNC_BASE_VERSION).reminders;
+  return (previous, next) => checkReminderQuota(plan, current(previous), current(next))?.message ?? null;
+};
+
+export const syncRoutes = (sync: SyncService, auth: AuthService): Route[] => [
+  // Change feed for the client sync engine
+  {
+    method: 'GET',
+    pattern: '/api/sync',
+    handler: (req) => {
+      const since = Number(req.query.get('since') || 0);
+      const account = requireAccount(auth, req);
+      return { body: withCategories(auth, account.id, sync.changesSince(account.id, isNaN(since) ? 0 : since)) };
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/api/sync',
+    handler: (req) => {
+      const account = requireAccount(auth, req);
+      const { mutations, categories } = (req.body || {}) as { mutations?: unknown; categories?: unknown };
+      if (!Array.isArray(mutations)) throw new HttpError(400, 'Expected { mutations: [...], categories? }');
+      const parsed = mutations.map(parseMutation);
+      if (categories !== undefined) auth.saveCategories(account.id, parseCategories(categories));
+      return { body: withCategories(auth, account.id, sync.apply(account.id, parsed, planLimit(account))) };
+    },
+  },
+
+  // Plain CRUD
+  {
+    method: 'GET',
+    pattern: '/api/reminders',
+    handler: (req) => ({ body: sync.list(requireAccount(auth, req).id) }),
+  },
+  {
+    method: 'GET',
+    pattern: '/api/reminders/:id',
+    handler: (req) => {
+      const reminder = sync.get(requireAccount(auth, req).id, req.params.id);
+      if (!reminder) throw new HttpError(404, 'Reminder not found', 'not_found');
+      return { body: reminder };
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/reminders/:id',
+    handler: (req) => {
+      const account = requireAccount(auth, req);
+      return { body: sync.put(account.id, parseReminder(req.body, req.params.id), planLimit(account)) };
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: '/api/reminders/:id',
+    handler: (req) => {
+      sync.remove(requireAccount(auth, req).id, req.params.id);
+      return { status: 204 };
+    },
+  },
+];
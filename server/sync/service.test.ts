@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, SyncMutation } from '../../types';
+import { NOW, createStillClock, reminder } from '../../test/fixtures';
+import { PLANS, checkReminderQuota } from '../../services/planService';
+import { createMemoryStore } from '../storage';
+import { ReminderLimit, createSyncService, emptySyncState } from './service';
+
+const { clock } = createStillClock();
+
+const create = (r: Reminder, at = NOW): SyncMutation => {
+  const { id, ...set } = r;
+  return { mid: `m-${id}-${at}`, id, at, set };
+};
+
+// Two active reminders at most
+const limit: ReminderLimit = (previous, next) =>
+  checkReminderQuota({ ...PLANS.free, limits: { ...PLANS.free.limits, activeReminders: 2 } }, previous, next)?.message ?? null;
+
+describe('sync service', () => {
+  it('merges fields written by different clients', () => {
+    const sync = createSyncService({ store: createMemoryStore(emptySyncState()), clock });
+    sync.apply('ann', [create(reminder('r1'), NOW - 10)]);
+    sync.apply('ann', [
+      { mid: 'a', id: 'r1', at: NOW - 5, set: { title: 'Newer' } },
+      { mid: 'b', id: 'r1', at: NOW - 8, set: { title: 'Older', description: 'kept' } },
+    ]);
+    expect(sync.get('ann', 'r1')).toMatchObject({ title: 'Newer', description: 'kept' });
+    expect(sync.list('bob')).toEqual([]);
+  });
+
+  it('refuses the mutations that would break the limit and sends their records back', () => {
+    const sync = createSyncService({ store: createMemoryStore(emptySyncState()), clock });
+    sync.apply('ann', [create(reminder('r1')), create(reminder('r2'))], limit);
+    const seq = sync.changesSince('ann', 0).seq;
+
+    const response = sync.apply('ann', [
+      create(reminder('r3')),
+      { mid: 'done', id: 'r1', at: NOW + 1, set: { completed: true } },
+      create(reminder('r4'), NOW + 2),
+    ], limit);
+
+    expect(response.refused).toEqual([{ id: 'r3', reason: 'The Free plan allows 2 active reminders.' }]);
+    expect(response.records.find(r => r.id === 'r3')).toEqual({ id: 'r3', reminder: null, seq: 0 });
+    expect(sync.list('ann').map(r => r.id).sort()).toEqual(['r1', 'r2', 'r4']);
+    expect(sync.changesSince('ann', seq).records.map(r => r.id)).toEqual(['r1', 'r4']);
+  });
+
+  it('restores a refused edit to the reminder as the server had it', () => {
+    const sync = createSyncService({ store: createMemoryStore(emptySyncState()), clock });
+    sync.apply('ann', [create(reminder('r1')), create(reminder('r2')), create(reminder('r3', { completed: true }))], limit);
+
+    const response = sync.apply('ann', [{ mid: 'undo', id: 'r3', at: NOW + 1, set: { completed: false } }], limit);
+    expect(response.refused).toHaveLength(1);
+    expect(response.records).toMatchObject([{ id: 'r3', reminder: { completed: true } }]);
+    expect(sync.get('ann', 'r3')?.completed).toBe(true);
+  });
+
+  it('answers a refused REST write with a 403', () => {
+    const sync = createSyncService({ store: createMemoryStore(emptySyncState()), clock });
+    sync.put('ann', reminder('r1'), limit);
+    sync.put('ann', reminder('r2'), limit);
+    expect(() => sync.put('ann', reminder('r3'), limit)).toThrow(expect.objectContaining({ status: 403, code: 'quota' }));
+    expect(sync.get('ann', 'r3')).toBeNull();
+  });
+});
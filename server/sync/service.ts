@@ -0,0 +1,144 @@
+import { Reminder, SyncMutation, SyncRecord, SyncResponse } from '../../types';
+import { Clock } from '../clock';
+import { HttpError } from '../http';
+import { JsonStore } from '../storage';
+
+// Per-account reminder storage with per-field last-writer-wins merging.
+// Every field remembers when it was last written; a mutation only overwrites
+// fields it is newer for. Deletions leave a tombstone so other clients learn
+// about them, and an edit made after a delete brings the reminder back.
+
+interface StoredRecord {
+  accountId: string;
+  id: string;
+  values: Record<string, unknown>;
+  times: Record<string, number>;
+  deletedAt: number | null;
+  seq: number; // position in the account's change feed
+}
+
+export interface SyncState {
+  seq: number;
+  records: StoredRecord[];
+}
+
+// Why going from `previous` to `next` reminders is not allowed, or null
+export type ReminderLimit = (previous: Reminder[], next: Reminder[]) => string | null;
+
+export interface SyncService {
+  // Mutations that would break `limit` are refused one by one
+  apply: (accountId: string, mutations: SyncMutation[], limit?: ReminderLimit) => SyncResponse;
+  changesSince: (accountId: string, since: number) => SyncResponse;
+  list: (accountId: string) => Reminder[];
+  get: (accountId: string, id: string) => Reminder | null;
+  // Plain REST writes, stamped with the server clock. `put` throws a 403
+  // HttpError when `limit` refuses it.
+  put: (accountId: string, reminder: Reminder, limit?: ReminderLimit) => Reminder | null;
+  remove: (accountId: string, id: string) => void;
+}
+
+interface SyncOptions {
+  store: JsonStore<SyncState>;
+  clock: Clock;
+}
+
+export const emptySyncState = (): SyncState => ({ seq: 0, records: [] });
+
+const isLive = (record: StoredRecord) =>
+  record.deletedAt === null || Object.values(record.times).some(t => t > record.deletedAt!);
+
+const toReminder = (record: StoredRecord): Reminder | null =>
+  isLive(record) ? ({ ...record.values, id: record.id } as Reminder) : null;
+
+const toSyncRecord = (record: StoredRecord): SyncRecord => ({ id: record.id, reminder: toReminder(record), seq: record.seq });
+
+const copy = (record: StoredRecord): StoredRecord => ({ ...record, values: { ...record.values }, times: { ...record.times } });
+
+// Returns whether anything changed
+const merge = (record: StoredRecord, mutation: SyncMutation): boolean => {
+  let changed = false;
+  const write = (field: string, apply: () => void) => {
+    if (field === 'id' || mutation.at < (record.times[field] ?? -Infinity)) return;
+    apply();
+    record.times[field] = mutation.at;
+    changed = true;
+  };
+
+  Object.entries(mutation.set || {}).forEach(([field, value]) => write(field, () => { record.values[field] = value; }));
+  (mutation.unset || []).forEach(field => write(field, () => { delete record.values[field]; }));
+  if (mutation.delete && mutation.at > (record.deletedAt ?? -Infinity)) {
+    record.deletedAt = mutation.at;
+    changed = true;
+  }
+  return changed;
+};
+
+export const createSyncService = ({ store, clock }: SyncOptions): SyncService => {
+  const apply = (accountId: string, mutations: SyncMutation[], limit?: ReminderLimit): SyncResponse => {
+    const state = store.read();
+    let seq = state.seq;
+    const records = state.records.map(copy);
+    const index = new Map(records.filter(r => r.accountId === accountId).map(r => [r.id, r]));
+    const touched = new Set<StoredRecord>();
+    const refused: { id: string; reason: string }[] = [];
+    const live = () => Array.from(index.values()).map(toReminder).filter((r): r is Reminder => r !== null);
+
+    mutations.forEach(mutation => {
+      const previous = limit ? live() : [];
+      let record = index.get(mutation.id);
+      const before = record ? copy(record) : null;
+      if (!record) {
+        record = { accountId, id: mutation.id, values: {}, times: {}, deletedAt: null, seq: 0 };
+        index.set(mutation.id, record);
+        records.push(record);
+      }
+      touched.add(record);
+      if (!merge(record, mutation)) return;
+
+      const reason = limit ? limit(previous, live()) : null;
+      if (!reason) {
+        record.seq = ++seq;
+        return;
+      }
+      // Left as it was; a reminder the server never had goes back to the client deleted
+      refused.push({ id: mutation.id, reason });
+      if (before) {
+        Object.assign(record, before);
+      } else {
+        index.delete(mutation.id);
+        records.splice(records.indexOf(record), 1);
+        record.deletedAt = mutation.at;
+      }
+    });
+
+    if (seq !== state.seq) store.write({ seq, records });
+    return { records: Array.from(touched).map(toSyncRecord), seq, ...(refused.length ? { refused } : {}) };
+  };
+
+  const accountRecords = (accountId: string) => store.read().records.filter(r => r.accountId === accountId);
+
+  return {
+    apply,
+    changesSince: (accountId, since) => {
+      const records = accountRecords(accountId).filter(r => r.seq > since).sort((a, b) => a.seq - b.seq);
+      return { records: records.map(toSyncRecord), seq: store.read().seq };
+    },
+    list: (accountId) => accountRecords(accountId).map(toReminder).filter((r): r is Reminder => r !== null),
+    get: (accountId, id) => {
+      const record = accountRecords(accountId).find(r => r.id === id);
+      return record ? toReminder(record) : null;
+    },
+    put: (accountId, reminder, limit) => {
+      const { id, ...fields } = reminder;
+      const current = accountRecords(accountId).find(r => r.id === id);
+      const unset = current ? Object.keys(current.values).filter(f => !(f in fields)) : [];
+      const mutation: SyncMutation = { mid: `rest-${clock.now()}`, id, at: clock.now(), set: fields, unset };
+      const response = apply(accountId, [mutation], limit);
+      if (response.refused) throw new HttpError(403, response.refused[0].reason, 'quota');
+      return response.records[0].reminder;
+    },
+    remove: (accountId, id) => {
+      apply(accountId, [{ mid: `rest-${clock.now()}`, id, at: clock.now(), delete: true }]);
+    },
+  };
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { AiErrorKind } from '../types';
+import { AiError, AiProvider, AiRequest, createMockProvider, errorFromStatus, toAiError, withRetry } from './aiProvider';
+
+const request = (patch: Partial<AiRequest> = {}): AiRequest => ({
+  messages: [{ id: 'm1', role: 'user', text: 'Hello', timestamp: 1 }],
+  ...patch,
+});
+
+const FAST = { timeoutMs: 50, retries: 2, backoffMs: 1 };
+
+// Never answers; fails only when its request is aborted
+const silentProvider = (): AiProvider & { calls: number } => {
+  const provider = {
+    calls: 0,
+    generate: (req: AiRequest) => new Promise<never>((_, reject) => {
+      provider.calls++;
+      req.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }),
+  };
+  return provider;
+};
+
+describe('AI errors', () => {
+  it.each<[number, AiErrorKind]>([
+    [401, 'auth'], [403, 'auth'], [429, 'quota'], [408, 'network'], [500, 'network'], [503, 'network'], [400, 'invalid'], [404, 'invalid'],
+  ])('reads status %i as %s', (status, kind) => {
+    const error = errorFromStatus(status, 'detail');
+    expect(error).toBeInstanceOf(AiError);
+    expect(error.kind).toBe(kind);
+    expect(error.detail).toBe('detail');
+    expect(error.retryable).toBe(kind === 'network');
+  });
+
+  it('turns unexpected failures into AiErrors, leaving aborts alone', () => {
+    const abort = new DOMException('Aborted', 'AbortError');
+    const own = new AiError('safety');
+    expect(toAiError(abort)).toBe(abort);
+    expect(toAiError(own)).toBe(own);
+    expect(toAiError(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network', detail: 'Failed to fetch' });
+    expect(toAiError(new Error('Unexpected token'))).toMatchObject({ kind: 'invalid', detail: 'Unexpected token' });
+    expect(toAiError('odd')).toMatchObject({ kind: 'invalid', detail: 'odd' });
+  });
+
+  it('keeps a message of its own when given one', () => {
+    expect(new AiError('quota', undefined, 'The Free plan allows 50 AI requests a day.').message)
+      .toBe('The Free plan allows 50 AI requests a day.');
+    expect(new AiError('quota').message).toMatch(/usage limit/);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries network failures with backoff until one succeeds', async () => {
+    const provider = createMockProvider({ replies: [{ text: 'Hi' }], failures: [new AiError('network'), new AiError('network')] });
+    await expect(withRetry(provider, FAST).generate(request())).resolves.toEqual({ text: 'Hi' });
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const provider = createMockProvider({ failures: [0, 1, 2, 3].map(() => new AiError('network', 'down')) });
+    await expect(withRetry(provider, FAST).generate(request())).rejects.toMatchObject({ kind: 'network', detail: 'down' });
+    expect(provider.requests).toHaveLength(3);
+  });
+
+  it.each<AiErrorKind>(['auth', 'quota', 'safety', 'invalid'])('does not retry %s errors', async (kind) => {
+    const provider = createMockProvider({ failures: [new AiError(kind)] });
+    await expect(withRetry(provider, FAST).generate(request())).rejects.toMatchObject({ kind });
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('times out a silent provider as a network error', async () => {
+    const provider = silentProvider();
+    await expect(withRetry(provider, { ...FAST, retries: 1 }).generate(request()))
+      .rejects.toMatchObject({ kind: 'network', message: 'The AI provider did not answer in time.' });
+    expect(provider.calls).toBe(2);
+  });
+
+  it('does not retry a reply that has started streaming', async () => {
+    const streamed: string[] = [];
+    const provider: AiProvider & { calls: number } = {
+      calls: 0,
+      generate: async (req) => {
+        provider.calls++;
+        req.onText?.('Half a');
+        throw new AiError('network');
+      },
+    };
+    await expect(withRetry(provider, FAST).generate(request({ onText: text => streamed.push(text) })))
+      .rejects.toMatchObject({ kind: 'network' });
+    expect(provider.calls).toBe(1);
+    expect(streamed).toEqual(['Half a']);
+  });
+
+  it('stops when the caller aborts', async () => {
+    const provider = silentProvider();
+    const controller = new AbortController();
+    const reply = withRetry(provider, FAST).generate(request({ signal: controller.signal }));
+    controller.abort();
+    await expect(reply).rejects.toMatchObject({ name: 'AbortError' });
+    expect(provider.calls).toBe(1);
+  });
+});
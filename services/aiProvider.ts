@@ -0,0 +1,163 @@
+import { ChatMessage, AssistantToolCall, AiErrorKind } from '../types';
+
+// What a language model backend has to offer the app: one chat request, with
+// optional tools, streamed text and a JSON mode. Each provider turns its own
+// failures into an AiError; `withRetry` adds timeouts and retries on top.
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments object
+  destructive?: boolean; // waits for the user's confirmation in the chat
+}
+
+export interface ModelReply {
+  text?: string;
+  toolCalls?: AssistantToolCall[];
+}
+
+export interface AiRequest {
+  instructions?: string;
+  messages: ChatMessage[];
+  tools?: ToolDeclaration[];
+  json?: boolean; // answer with a JSON object
+  onText?: (text: string) => void; // the reply's text so far, as it streams in
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  generate: (request: AiRequest) => Promise<ModelReply>;
+}
+
+const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  auth: 'The AI provider refused the credentials. Check the AI settings in your profile.',
+  quota: "The AI provider's usage limit has been reached. Try again later.",
+  network: "The AI provider couldn't be reached. Check your connection and try again.",
+  safety: 'The AI provider declined to answer this.',
+  invalid: 'The AI provider could not handle this request.',
+};
+
+export class AiError extends Error {
+  constructor(
+    public kind: AiErrorKind,
+    public detail?: string, // the provider's own wording, for the console
+    message: string = AI_ERROR_MESSAGES[kind]
+  ) {
+    super(message);
+    this.name = 'AiError';
+  }
+
+  // Worth another try: the provider may simply have been unreachable
+  get retryable() {
+    return this.kind === 'network';
+  }
+}
+
+/**
+ * The AiError for an HTTP status from a provider's API.
+ */
+export const errorFromStatus = (status: number, detail?: string): AiError => {
+  if (status === 401 || status === 403) return new AiError('auth', detail);
+  if (status === 429) return new AiError('quota', detail);
+  if (status === 408 || status >= 500) return new AiError('network', detail);
+  return new AiError('invalid', detail);
+};
+
+/**
+ * `error` as an AiError: failed fetches are network errors, anything else
+ * unexpected is 'invalid'. Aborts pass through as they are.
+ */
+export const toAiError = (error: unknown): Error => {
+  if (error instanceof AiError || (error instanceof Error && error.name === 'AbortError')) return error;
+  if (error instanceof TypeError) return new AiError('network', error.message);
+  return new AiError('invalid', error instanceof Error ? error.message : String(error));
+};
+
+export interface RetryOptions {
+  timeoutMs: number; // without an answer, or new streamed text, for this long
+  retries: number;
+  backoffMs: number; // doubled for each further retry
+}
+
+const DEFAULT_RETRY: RetryOptions = { timeoutMs: 30 * 1000, retries: 2, backoffMs: 1000 };
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeout);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * `provider` with a timeout on each attempt and retries with backoff for
+ * network failures. A reply that has started streaming is not retried, so
+ * nothing shown is taken back. Aborting the request's signal stops it all.
+ */
+export const withRetry = (provider: AiProvider, options: RetryOptions = DEFAULT_RETRY): AiProvider => ({
+  generate: async (request) => {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      request.signal?.addEventListener('abort', abort);
+      let timedOut = false;
+      let streamed = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const arm = () => {
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeoutMs);
+      };
+
+      try {
+        arm();
+        return await provider.generate({
+          ...request,
+          signal: controller.signal,
+          onText: text => {
+            streamed = true;
+            arm();
+            request.onText?.(text);
+          },
+        });
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        const failure = timedOut ? new AiError('network', undefined, 'The AI provider did not answer in time.') : toAiError(error);
+        if (!(failure instanceof AiError) || !failure.retryable || streamed || attempt >= options.retries) throw failure;
+      } finally {
+        clearTimeout(timeout);
+        request.signal?.removeEventListener('abort', abort);
+      }
+      await sleep(options.backoffMs * 2 ** attempt, request.signal);
+    }
+  },
+});
+
+/**
+ * A deterministic provider for tests and for trying the app offline. It plays
+ * back `replies` in order, then echoes the last user message (`{}` for JSON
+ * requests). `failures` are thrown first, one per request. Requests are kept
+ * in `requests` for inspection.
+ */
+export const createMockProvider = (
+  { replies = [], failures = [] }: { replies?: ModelReply[]; failures?: AiError[] } = {}
+): AiProvider & { requests: AiRequest[] } => {
+  const requests: AiRequest[] = [];
+  let nextReply = 0;
+  let nextFailure = 0;
+  return {
+    requests,
+    generate: async (request) => {
+      requests.push(request);
+      if (nextFailure < failures.length) throw failures[nextFailure++];
+      const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+      const reply = nextReply < replies.length
+        ? replies[nextReply++]
+        : { text: request.json ? '{}' : lastUser?.text || '' };
+      if (reply.text) request.onText?.(reply.text);
+      return reply;
+    },
+  };
+};
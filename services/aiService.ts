@@ -0,0 +1,110 @@
+import { AiProvider, withRetry, createMockProvider } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiProvider } from './openAiService';
+import { AssistantModel, userMessage } from './assistantService';
+import { QuickAddFields } from './quickAddService';
+import { Category } from '../types';
+
+// Which AI provider the app uses, and the requests it makes of it. Settings
+// are kept per device, since they may hold an API key.
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId; // Gemini runs through the server, which picks the model
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiApiKey?: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock',
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  openAiBaseUrl: 'http://localhost:11434/v1', // Ollama's default
+  openAiModel: 'llama3.1',
+};
+
+const SETTINGS_KEY = 'memento_ai_settings';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// The signed-in session, so the server can rate-limit Gemini requests per account
+let sessionToken: string | null = null;
+
+export const setAiSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+export const createProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return withRetry(createOpenAiProvider({ baseUrl: settings.openAiBaseUrl, model: settings.openAiModel, apiKey: settings.openAiApiKey }));
+    case 'mock':
+      return createMockProvider();
+    default:
+      return withRetry(createGeminiProvider({ token: sessionToken }));
+  }
+};
+
+// The provider as currently set, so a change applies to the next request
+const currentProvider = () => createProvider(loadAiSettings());
+
+/**
+ * The assistant's model, on the provider as currently set. `admit` runs before
+ * every call, each round of a tool-using turn included, and throws to refuse
+ * it (e.g. the plan's QuotaError).
+ */
+export const createAssistantModel = (admit: () => void = () => {}, provider: AiProvider = currentProvider()): AssistantModel => ({
+  respond: async (messages, tools, instructions, options = {}) => {
+    admit();
+    return provider.generate({ messages, tools, instructions, ...options });
+  },
+});
+
+/**
+ * The note rewritten to be concise and clear. Throws an AiError when the
+ * provider fails.
+ */
+export const refineReminderText = async (text: string): Promise<string> => {
+  const reply = await currentProvider().generate({
+    instructions: 'Rewrite the reminder note you are given to be more concise, clear, and professional, but keep the friendly tone. Answer with the rewritten text only.',
+    messages: [userMessage(text)],
+  });
+  return reply.text?.trim() || text;
+};
+
+/**
+ * Fallback for quick-add lines the local parser cannot read. Returns an empty
+ * object when the model answers with something else; throws an AiError when
+ * the provider fails.
+ */
+export const parseReminderText = async (text: string, today: string, timeZone: string, categories: Category[]): Promise<QuickAddFields> => {
+  const reply = await currentProvider().generate({
+    instructions: `Extract a reminder from the user's text. Today is ${today} (time zone ${timeZone}).
+Answer with a JSON object only, leaving out fields the text does not give:
+title (string), date ("YYYY-MM-DD"), time ("HH:mm", 24h), freq ("DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"),
+interval (number), until ("YYYY-MM-DD"), count (number), method ("Notification" | "Email" | "SMS" | "Phone Call"),
+contactInfo (string), minutesBefore (number, how early to alert), category (${categories.map(c => JSON.stringify(c.name)).join(' | ')}), tags (array of single lowercase words).`,
+    messages: [userMessage(text)],
+    json: true,
+  });
+  try {
+    const fields = JSON.parse(reply.text || '{}');
+    return fields && typeof fields === 'object' ? fields : {};
+  } catch {
+    return {};
+  }
+};
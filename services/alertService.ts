@@ -0,0 +1,85 @@
+import { Reminder, ReminderAlert, CommunicationMethod, Occurrence } from '../types';
+import { expandReminders, resolveOccurrence, occurrenceKey } from './recurrenceService';
+
+// Alerts: the heads-ups a reminder gives at or before its time, each through
+// its own channel. The in-app notification scheduler and the server's
+// delivery schedule both find theirs with `expandAlerts`.
+
+export interface AlertInstance {
+  key: string; // unique per alert of each occurrence
+  occurrence: Occurrence;
+  alert: ReminderAlert;
+  at: Date; // when it goes off
+}
+
+const MINUTE = 60 * 1000;
+
+// Lead times the editor offers, in minutes
+export const ALERT_OFFSETS = [0, 5, 10, 15, 30, 60, 120, 24 * 60, 2 * 24 * 60, 7 * 24 * 60];
+
+export const newAlert = (
+  method: CommunicationMethod = CommunicationMethod.Notification, offsetMinutes = 0, contactInfo?: string
+): ReminderAlert => ({
+  id: Math.random().toString(36).slice(2, 10),
+  offsetMinutes,
+  method,
+  ...(contactInfo ? { contactInfo } : {}),
+});
+
+// Email, SMS and Phone Call alerts go to an address or number
+export const needsContact = (method: CommunicationMethod) => method !== CommunicationMethod.Notification;
+
+const UNITS: [number, string][] = [[7 * 24 * 60, 'week'], [24 * 60, 'day'], [60, 'hour'], [1, 'minute']];
+
+// "At the time", "10 minutes before", "1 day before"
+export const describeOffset = (minutes: number): string => {
+  if (minutes <= 0) return 'At the time';
+  const [size, unit] = UNITS.find(([size]) => minutes % size === 0)!;
+  const n = minutes / size;
+  return `${n} ${unit}${n === 1 ? '' : 's'} before`;
+};
+
+// "Email to ann@example.com, 1 day before"
+export const describeAlert = (alert: ReminderAlert): string =>
+  `${alert.method}${needsContact(alert.method) && alert.contactInfo ? ` to ${alert.contactInfo}` : ''}, ${describeOffset(alert.offsetMinutes).toLowerCase()}`;
+
+export const alertTime = (occurrence: Occurrence, alert: ReminderAlert) =>
+  new Date(occurrence.date.getTime() - alert.offsetMinutes * MINUTE);
+
+export const alertKey = (occurrence: Occurrence, alert: ReminderAlert) => `${occurrenceKey(occurrence)}/${alert.id}`;
+
+/**
+ * The alert an `alertKey` stands for, or null once its occurrence or the
+ * alert itself is gone.
+ */
+export const findAlert = (reminders: Reminder[], key: string): AlertInstance | null => {
+  const [occKey, alertId] = key.split('/');
+  const separator = occKey.lastIndexOf(':');
+  const reminder = reminders.find(r => r.id === occKey.slice(0, separator));
+  const time = Number(occKey.slice(separator + 1));
+  const occurrence = reminder && !isNaN(time) ? resolveOccurrence(reminder, new Date(time)) : null;
+  const alert = occurrence?.reminder.alerts.find(a => a.id === alertId);
+  return occurrence && alert ? { key, occurrence, alert, at: alertTime(occurrence, alert) } : null;
+};
+
+/**
+ * Alerts of open reminders going off within [start, end), by time. `accept`
+ * narrows them down, e.g. to one channel.
+ */
+export const expandAlerts = (
+  reminders: Reminder[], start: Date, end: Date, accept: (alert: ReminderAlert) => boolean = () => true
+): AlertInstance[] => {
+  const alerting = reminders.filter(r => !r.completed && r.alerts.some(accept));
+  // Occurrences up to the longest lead time past `end` still alert within the range
+  const lead = Math.max(0, ...alerting.flatMap(r => r.alerts.filter(accept).map(a => a.offsetMinutes))) * MINUTE;
+  return expandReminders(alerting, start, new Date(end.getTime() + lead))
+    .filter(occ => !occ.reminder.completed)
+    .flatMap(occurrence => occurrence.reminder.alerts.filter(accept)
+      .map(alert => ({ key: alertKey(occurrence, alert), occurrence, alert, at: alertTime(occurrence, alert) })))
+    .filter(a => a.at >= start && a.at < end)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+// The channels a reminder's alerts use
+export const alertMethods = (reminder: Pick<Reminder, 'alerts'>): CommunicationMethod[] =>
+  Array.from(new Set(reminder.alerts.map(a => a.method)));
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, ReminderDraft, ChatMessage } from '../types';
+import { reminder, series } from '../test/fixtures';
+import { PLANS, QuotaError } from './planService';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import {
+  AssistantHandlers, Conversation, createScriptedModel, respondToUser, resolveConfirmation, abandonPending
+} from './assistantService';
+
+// Monday March 2nd 2026, 12:00 in Berlin
+const context = { now: new Date('2026-03-02T11:00:00Z'), timeZone: 'Europe/Berlin', categories: DEFAULT_CATEGORIES };
+
+// Handlers over an in-memory list, recording what the tools did
+const setup = (initial: Reminder[] = [], refuse?: QuotaError) => {
+  let reminders = initial;
+  const handlers: AssistantHandlers = {
+    getReminders: () => reminders,
+    createReminder: (draft: ReminderDraft) => {
+      if (refuse) return refuse;
+      const created = { ...draft, id: `new${reminders.length}`, userId: 'ann', createdAt: 2 };
+      reminders = [...reminders, created];
+      return created;
+    },
+    rescheduleReminder: () => null,
+    completeReminder: (id) => {
+      reminders = reminders.map(r => r.id === id ? { ...r, completed: !r.completed } : r);
+      return null;
+    },
+    deleteReminder: (id) => {
+      reminders = reminders.filter(r => r.id !== id);
+    },
+  };
+  return { handlers, reminders: () => reminders };
+};
+
+const empty: Conversation = { messages: [] };
+
+const toolResults = (messages: ChatMessage[]) => messages.filter(m => m.role === 'tool').flatMap(m => m.toolResults || []);
+
+const call = (id: string, name: string, args: Record<string, unknown>) => ({ id, name, args });
+
+describe('assistant', () => {
+  it('runs the tools the model asks for and hands it their results', async () => {
+    const { handlers, reminders } = setup();
+    const model = createScriptedModel([
+      { toolCalls: [call('c1', 'create_reminder', { title: 'Dentist', date: '2026-03-03T15:00', category: 'Health' })] },
+      { text: 'Booked.' },
+    ]);
+
+    const run = await respondToUser(model, empty, 'Dentist tomorrow at 3pm', handlers, context);
+
+    expect(reminders()).toMatchObject([{ title: 'Dentist', date: '2026-03-03T14:00:00.000Z', category: 'health' }]);
+    expect(model.received).toHaveLength(2);
+    expect(toolResults(model.received[1])).toMatchObject([{ callId: 'c1', result: { created: { title: 'Dentist' } } }]);
+    expect(run.pending).toBeUndefined();
+    expect(run.conversation.messages.map(m => m.role)).toEqual(['user', 'model', 'tool', 'model']);
+    expect(run.conversation.messages[3].text).toBe('Booked.');
+  });
+
+  it('answers bad arguments and plan refusals as errors for the model to read', async () => {
+    const { handlers } = setup([], new QuotaError('activeReminders', PLANS.guest, 2, 1));
+    const model = createScriptedModel([
+      { toolCalls: [
+        call('c1', 'create_reminder', { date: '2026-03-03' }),
+        call('c2', 'create_reminder', { title: 'Gym', date: '2026-03-03' }),
+      ] },
+      { text: 'Your plan is full.' },
+    ]);
+
+    await respondToUser(model, empty, 'Gym tomorrow', handlers, context);
+
+    expect(toolResults(model.received[1])).toEqual([
+      { callId: 'c1', name: 'create_reminder', result: { error: '"title" is required' } },
+      { callId: 'c2', name: 'create_reminder', result: { error: 'The Guest plan allows 1 active reminder.' } },
+    ]);
+  });
+
+  it('holds a delete for confirmation, with the calls after it', async () => {
+    const { handlers, reminders } = setup([reminder('r1'), reminder('r2')]);
+    const model = createScriptedModel([
+      { toolCalls: [
+        call('c1', 'complete_reminder', { id: 'r2' }),
+        call('c2', 'delete_reminder', { id: 'r1' }),
+        call('c3', 'complete_reminder', { id: 'r1' }),
+      ] },
+      { text: 'Deleted.' },
+    ]);
+
+    const held = await respondToUser(model, empty, 'Finish r2 and drop r1', handlers, context);
+    expect(held.pending).toMatchObject({ call: { id: 'c2' }, done: [{ callId: 'c1' }], rest: [{ id: 'c3' }] });
+    expect(model.received).toHaveLength(1);
+    expect(reminders().map(r => [r.id, r.completed])).toEqual([['r1', false], ['r2', true]]);
+
+    const run = await resolveConfirmation(model, held.conversation, held.pending!, true, handlers, context);
+    expect(reminders().map(r => r.id)).toEqual(['r2']);
+    expect(toolResults(model.received[1]).map(r => r.callId)).toEqual(['c1', 'c2', 'c3']);
+    expect(toolResults(model.received[1])[2].result).toEqual({ error: 'No reminder has the id "r1"' });
+    expect(run.conversation.messages.at(-1)?.text).toBe('Deleted.');
+  });
+
+  it('tells the model when the user declines', async () => {
+    const { handlers, reminders } = setup([reminder('r1')]);
+    const model = createScriptedModel([
+      { toolCalls: [call('c1', 'delete_reminder', { id: 'r1' })] },
+      { text: 'Kept it.' },
+    ]);
+
+    const held = await respondToUser(model, empty, 'Delete r1', handlers, context);
+    await resolveConfirmation(model, held.conversation, held.pending!, false, handlers, context);
+
+    expect(reminders().map(r => r.id)).toEqual(['r1']);
+    expect(toolResults(model.received[1])).toEqual([
+      { callId: 'c1', name: 'delete_reminder', result: { error: 'The user declined this action' } },
+    ]);
+  });
+
+  it('answers every call of an abandoned confirmation', async () => {
+    const { handlers } = setup([reminder('r1')]);
+    const model = createScriptedModel([{ toolCalls: [call('c1', 'delete_reminder', { id: 'r1' }), call('c2', 'list_reminders', {})] }]);
+
+    const held = await respondToUser(model, empty, 'Delete r1', handlers, context);
+    const stored = abandonPending(held.conversation, held.pending!);
+    expect(toolResults(stored.messages).map(r => [r.callId, r.result.error])).toEqual([
+      ['c1', 'The user did not confirm this action'],
+      ['c2', 'The user did not confirm this action'],
+    ]);
+  });
+
+  it('answers an occurrence the series does not have as an error', async () => {
+    const { handlers } = setup([series()]);
+    const completed: (Date | undefined)[] = [];
+    handlers.completeReminder = (_, occurrenceDate) => {
+      completed.push(occurrenceDate);
+      return null;
+    };
+    const model = createScriptedModel([
+      { toolCalls: [
+        call('c1', 'complete_reminder', { id: 'gym', occurrence: '2026-03-04T08:00:00.000Z' }), // a Wednesday
+        call('c2', 'complete_reminder', { id: 'gym', occurrence: 'next monday' }),
+        call('c3', 'complete_reminder', { id: 'gym', occurrence: '2026-03-09T08:00:00.000Z' }),
+      ] },
+      { text: 'Done.' },
+    ]);
+
+    await respondToUser(model, empty, 'I went to the gym', handlers, context);
+
+    expect(toolResults(model.received[1]).map(r => r.result.error)).toEqual([
+      '"2026-03-04T08:00:00.000Z" is not an occurrence of this reminder',
+      '"occurrence" must be a date as returned by list_reminders or search_reminders',
+      undefined,
+    ]);
+    expect(completed).toEqual([new Date('2026-03-09T08:00:00.000Z')]);
+  });
+});
@@ -0,0 +1,655 @@
+import * as d3 from 'd3';
+import {
+  Reminder, ReminderDraft, ReminderAlert, Category, CommunicationMethod, RecurrenceRule, RecurrenceFrequency, OccurrenceScope,
+  Occurrence, ChatMessage, AssistantToolCall, AssistantToolResult
+} from '../types';
+import { expandReminders, generatesDate, getNextOccurrence, resolveOccurrence } from './recurrenceService';
+import { describeRRule } from './rruleService';
+import { toWallInputs, fromWallInputs, formatReminderDate } from './timeZoneService';
+import { MoveScope } from './rescheduleService';
+import { QuotaError } from './planService';
+import { newAlert, needsContact, describeAlert } from './alertService';
+import { defaultCategoryId, findCategory, matchCategory, normalizeTags } from './categoryService';
+import { ToolDeclaration, ModelReply } from './aiProvider';
+
+// The assistant's tools: what the model may call, how calls are checked and
+// carried out through the app's own handlers, and the loop that hands results
+// back to the model until it answers in plain text.
+//
+// The model sits behind `AssistantModel`, so the loop runs the same against
+// any AI provider and against `createScriptedModel`, which needs no network.
+//
+// Conversations are kept per user. The model sees a summary of the user's
+// schedule with every request, and of older turns once a chat grows long.
+
+export interface RespondOptions {
+  onText?: (text: string) => void; // the reply's text so far, as it streams in
+  signal?: AbortSignal;
+}
+
+export interface AssistantModel {
+  respond: (messages: ChatMessage[], tools: ToolDeclaration[], instructions: string, options?: RespondOptions) => Promise<ModelReply>;
+}
+
+// What the tools act through; App passes the handlers its own UI uses. Changes
+// a plan limit refuses come back as the QuotaError instead of opening the dialog.
+export interface AssistantHandlers {
+  getReminders: () => Reminder[]; // including changes made earlier in the same turn
+  createReminder: (draft: ReminderDraft) => Reminder | QuotaError;
+  rescheduleReminder: (id: string, originalDate: Date, from: Date, to: Date, scope: MoveScope) => QuotaError | null;
+  completeReminder: (id: string, occurrenceDate?: Date) => QuotaError | null;
+  deleteReminder: (id: string, occurrenceDate: Date | undefined, scope: OccurrenceScope) => void;
+}
+
+export interface AssistantContext {
+  now: Date;
+  timeZone: string; // dates the model reads and writes are wall-clock times here
+  categories: Category[]; // the user's own, named in the instructions
+}
+
+// A destructive call held back for confirmation, with the rest of its turn
+export interface PendingConfirmation {
+  call: AssistantToolCall;
+  done: AssistantToolResult[]; // calls of the same turn before it
+  rest: AssistantToolCall[];   // and after it
+}
+
+// A chat as stored: everything shown, and how much of it the model still sees in full
+export interface Conversation {
+  messages: ChatMessage[];
+  summary?: string;     // of the turns before `contextFrom`
+  contextFrom?: number; // timestamp of the first message the model sees
+}
+
+export interface AssistantRun {
+  conversation: Conversation;
+  pending?: PendingConfirmation;
+}
+
+export interface RunOptions {
+  onUpdate?: (conversation: Conversation) => void; // progress, including streamed text
+  signal?: AbortSignal; // stops the run, keeping what has been said and done so far
+}
+
+export interface ConversationStore {
+  load: () => Conversation | null;
+  save: (conversation: Conversation) => void;
+}
+
+// Rounds of tool calls one user message may trigger
+const MAX_TOOL_ROUNDS = 6;
+const DEFAULT_LIST_DAYS = 14;
+const MAX_RESULTS = 50;
+
+// The schedule every request carries
+const SCHEDULE_DAYS = 7;
+const MAX_SCHEDULE_LINES = 40;
+
+// Rough budget, in characters, for the turns the model sees in full; past it
+// older turns are summarised until about KEEP_CONTEXT_CHARS remain
+const MAX_CONTEXT_CHARS = 16000;
+const KEEP_CONTEXT_CHARS = 6000;
+
+// Stored messages beyond this are dropped oldest first
+const MAX_STORED_MESSAGES = 200;
+
+const LOCAL_DATE_HELP = 'Local time, "YYYY-MM-DDTHH:mm" or "YYYY-MM-DD"';
+const OCCURRENCE_HELP = 'The "occurrence" value of a recurring reminder\'s instance, as returned by list_reminders or search_reminders';
+
+export const ASSISTANT_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'list_reminders',
+    description: `List reminder occurrences in a date range, sorted by date. Defaults to the next ${DEFAULT_LIST_DAYS} days.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: LOCAL_DATE_HELP },
+        to: { type: 'string', description: LOCAL_DATE_HELP },
+        includeCompleted: { type: 'boolean' },
+      },
+    },
+  },
+  {
+    name: 'search_reminders',
+    description: 'Find reminders whose title, description or contact contains the query, with their next occurrence.',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'create_reminder',
+    description: 'Create a reminder, optionally repeating.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        date: { type: 'string', description: LOCAL_DATE_HELP },
+        description: { type: 'string' },
+        category: { type: 'string', description: 'Name of one of the user\'s categories' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Free-form labels, without "#"' },
+        repeat: {
+          type: 'object',
+          properties: {
+            freq: { type: 'string', enum: ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] },
+            interval: { type: 'integer' },
+            until: { type: 'string', description: 'Last day, "YYYY-MM-DD"' },
+            count: { type: 'integer' },
+          },
+          required: ['freq'],
+        },
+        alerts: {
+          type: 'array',
+          description: 'Defaults to one notification at the time',
+          items: {
+            type: 'object',
+            properties: {
+              minutesBefore: { type: 'integer', description: '0 is at the time' },
+              method: { type: 'string', enum: Object.values(CommunicationMethod) },
+              contactInfo: { type: 'string', description: 'Email address or phone number for Email, SMS and Phone Call' },
+            },
+            required: ['method'],
+          },
+        },
+      },
+      required: ['title', 'date'],
+    },
+  },
+  {
+    name: 'reschedule_reminder',
+    description: 'Move a reminder, or one occurrence or the whole series of a recurring one, to a new date and time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        occurrence: { type: 'string', description: OCCURRENCE_HELP },
+        to: { type: 'string', description: LOCAL_DATE_HELP },
+        scope: { type: 'string', enum: ['this', 'all'], description: 'For recurring reminders; defaults to "this"' },
+      },
+      required: ['id', 'to'],
+    },
+  },
+  {
+    name: 'complete_reminder',
+    description: 'Mark a reminder done, or one occurrence of a recurring reminder. Calling it again reopens it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        occurrence: { type: 'string', description: OCCURRENCE_HELP },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'delete_reminder',
+    description: 'Delete a reminder, or one occurrence, this and the following ones, or the whole series of a recurring one. The user is asked to confirm.',
+    destructive: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        occurrence: { type: 'string', description: OCCURRENCE_HELP },
+        scope: { type: 'string', enum: ['this', 'following', 'all'], description: 'For recurring reminders; defaults to "all"' },
+      },
+      required: ['id'],
+    },
+  },
+];
+
+export const isDestructive = (name: string) => !!ASSISTANT_TOOLS.find(t => t.name === name)?.destructive;
+
+/**
+ * System instructions for any model driving the tools, with the schedule as it
+ * stands and what is left of the conversation's older turns.
+ */
+export const assistantInstructions = (context: AssistantContext, reminders: Reminder[], summary?: string): string => {
+  return `You are Memento AI, a minimalist assistant for a reminder app.
+Help the user plan, and refine reminder notes to be concise and clear.
+Explain app features (calendar zoom based on entries, temp accounts) when asked.
+Keep responses short, sober, and helpful.
+
+You can read and change the user's reminders with the tools. Look reminders up
+with list_reminders or search_reminders before changing them, and use the ids
+and occurrence values they return. It is ${formatLocalDay(context.now, context)} in ${context.timeZone};
+all dates you read and write are local times there.
+The user's categories are ${context.categories.map(c => c.name).join(', ')}.
+Deleting asks the user to confirm in the app, so just make the call.
+
+${summarizeSchedule(reminders, context)}${summary ? `
+
+Summary of the earlier conversation:
+${summary}` : ''}`;
+};
+
+// "Thu 2026-10-22 10:00" on the context's clock
+const formatLocalDay = (date: Date, context: AssistantContext) => {
+  const wall = toWallInputs(date, context.timeZone);
+  return `${d3.utcFormat('%a')(new Date(`${wall.date}T00:00:00Z`))} ${wall.date} ${wall.time}`;
+};
+
+/**
+ * The user's schedule in a few lines: open reminders of the coming week and
+ * overdue ones. Anything further out is left to the tools.
+ */
+export const summarizeSchedule = (reminders: Reminder[], context: AssistantContext): string => {
+  const active = reminders.filter(r => !r.completed);
+  const overdue = active
+    .filter(r => !r.rrule && new Date(r.date) < context.now)
+    .sort((a, b) => d3.ascending(a.date, b.date));
+  const upcoming = expandReminders(active, context.now, d3.timeDay.offset(context.now, SCHEDULE_DAYS))
+    .filter(occ => !occ.reminder.completed);
+
+  const line = (date: Date, reminder: Reminder) =>
+    `- ${formatLocalDay(date, context)} ${reminder.title} (${findCategory(context.categories, reminder.category).name}${reminder.rrule ? `; ${describeRRule(reminder.rrule)}` : ''})`;
+  const lines = [
+    ...overdue.map(r => `${line(new Date(r.date), r)}, overdue`),
+    ...upcoming.map(occ => line(occ.date, occ.reminder)),
+  ];
+  const shown = lines.slice(0, MAX_SCHEDULE_LINES);
+  if (lines.length > shown.length) shown.push(`- and ${lines.length - shown.length} more`);
+
+  return `The user has ${active.length} open reminder${active.length === 1 ? '' : 's'}, ${active.filter(r => r.rrule).length} of them repeating.
+${shown.length ? `Overdue and the next ${SCHEDULE_DAYS} days:\n${shown.join('\n')}` : `Nothing is due in the next ${SCHEDULE_DAYS} days.`}`;
+};
+
+// --- Argument checking ---
+
+class ToolArgumentError extends Error {}
+
+const str = (args: Record<string, unknown>, key: string, required = false): string | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new ToolArgumentError(`"${key}" is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw new ToolArgumentError(`"${key}" must be a string`);
+  return value;
+};
+
+const oneOf = <T extends string>(value: string | undefined, allowed: readonly T[], key: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw new ToolArgumentError(`"${key}" must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+// The id of the category named `value`; the default one when there is none
+const categoryArg = (value: string | undefined, context: AssistantContext): string => {
+  if (value === undefined) return defaultCategoryId(context.categories);
+  const category = matchCategory(context.categories, value);
+  if (!category) throw new ToolArgumentError(`"category" must be one of ${context.categories.map(c => c.name).join(', ')}`);
+  return category.id;
+};
+
+const alertsArg = (value: unknown): ReminderAlert[] => {
+  if (!Array.isArray(value)) throw new ToolArgumentError('"alerts" must be a list');
+  return value.map((item, i) => {
+    const alert = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const method = oneOf(str(alert, 'method', true), Object.values(CommunicationMethod), `alerts[${i}].method`)!;
+    const minutes = alert.minutesBefore ?? 0;
+    if (!Number.isInteger(minutes) || (minutes as number) < 0) throw new ToolArgumentError(`"alerts[${i}].minutesBefore" must be a whole number, 0 or more`);
+    const contactInfo = str(alert, 'contactInfo');
+    if (needsContact(method) && !contactInfo) throw new ToolArgumentError(`"alerts[${i}].contactInfo" is required for ${method}`);
+    return newAlert(method, minutes as number, needsContact(method) ? contactInfo : undefined);
+  });
+};
+
+// "YYYY-MM-DD" or "YYYY-MM-DDTHH:mm[:ss]" on the context's clock
+const localDate = (value: string, context: AssistantContext, key: string, defaultTime = '09:00'): Date => {
+  const m = value.match(/^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2})(?::\d{2})?)?$/);
+  if (!m || isNaN(Date.parse(m[1]))) throw new ToolArgumentError(`"${key}" must look like YYYY-MM-DDTHH:mm`);
+  return fromWallInputs(m[1], m[2] || defaultTime, context.timeZone);
+};
+
+const formatLocal = (date: Date, context: AssistantContext) => {
+  const wall = toWallInputs(date, context.timeZone);
+  return `${wall.date}T${wall.time}`;
+};
+
+const findReminder = (handlers: AssistantHandlers, id: string): Reminder => {
+  const reminder = handlers.getReminders().find(r => r.id === id);
+  if (!reminder) throw new ToolArgumentError(`No reminder has the id "${id}"`);
+  return reminder;
+};
+
+// The instance named by an `occurrence` argument, or the reminder's next/only one
+const findOccurrence = (reminder: Reminder, occurrence: string | undefined, context: AssistantContext): Occurrence => {
+  if (!reminder.rrule) return resolveOccurrence(reminder, new Date(reminder.date))!;
+  const date = occurrence ? new Date(occurrence) : null;
+  if (date && isNaN(date.getTime())) throw new ToolArgumentError('"occurrence" must be a date as returned by list_reminders or search_reminders');
+  // A date the rule never produces would leave a stray completion or exception behind
+  const found = date
+    ? (generatesDate(reminder, date) ? resolveOccurrence(reminder, date) : null)
+    : getNextOccurrence(reminder, context.now);
+  if (!found) throw new ToolArgumentError(occurrence ? `"${occurrence}" is not an occurrence of this reminder` : 'This series has no upcoming occurrence');
+  return found;
+};
+
+const summarize = (occ: Occurrence, context: AssistantContext) => ({
+  id: occ.reminder.id,
+  ...(occ.reminder.rrule ? { occurrence: occ.originalDate.toISOString(), repeats: describeRRule(occ.reminder.rrule) } : {}),
+  title: occ.reminder.title,
+  when: formatLocal(occ.date, context),
+  category: findCategory(context.categories, occ.reminder.category).name,
+  ...(occ.reminder.tags?.length ? { tags: occ.reminder.tags } : {}),
+  alerts: occ.reminder.alerts.map(describeAlert),
+  completed: occ.reminder.completed,
+  ...(occ.reminder.description ? { description: occ.reminder.description } : {}),
+});
+
+// --- Execution ---
+
+const runTool = (call: AssistantToolCall, handlers: AssistantHandlers, context: AssistantContext): Record<string, unknown> => {
+  const args = call.args || {};
+  switch (call.name) {
+    case 'list_reminders': {
+      const from = str(args, 'from') ? localDate(str(args, 'from')!, context, 'from', '00:00') : context.now;
+      const to = str(args, 'to') ? localDate(str(args, 'to')!, context, 'to', '23:59') : d3.timeDay.offset(from, DEFAULT_LIST_DAYS);
+      const occurrences = expandReminders(handlers.getReminders(), from, to)
+        .filter(occ => args.includeCompleted === true || !occ.reminder.completed);
+      return {
+        from: formatLocal(from, context),
+        to: formatLocal(to, context),
+        total: occurrences.length,
+        reminders: occurrences.slice(0, MAX_RESULTS).map(occ => summarize(occ, context)),
+      };
+    }
+
+    case 'search_reminders': {
+      const query = str(args, 'query', true)!.toLowerCase();
+      const matches = handlers.getReminders()
+        .filter(r => [r.title, r.description, ...r.alerts.map(a => a.contactInfo)].some(field => field?.toLowerCase().includes(query)))
+        .map(r => getNextOccurrence(r, context.now) || resolveOccurrence(r, new Date(r.date)))
+        .filter((occ): occ is Occurrence => !!occ);
+      return { total: matches.length, reminders: matches.slice(0, MAX_RESULTS).map(occ => summarize(occ, context)) };
+    }
+
+    case 'create_reminder': {
+      const date = localDate(str(args, 'date', true)!, context, 'date');
+      const draft: ReminderDraft = {
+        title: str(args, 'title', true)!,
+        description: str(args, 'description') || '',
+        date: formatReminderDate(context, date),
+        timeZone: context.timeZone,
+        category: categoryArg(str(args, 'category'), context),
+        alerts: args.alerts === undefined ? [newAlert()] : alertsArg(args.alerts),
+        completed: false,
+      };
+      if (args.tags !== undefined) {
+        if (!Array.isArray(args.tags) || args.tags.some(t => typeof t !== 'string')) throw new ToolArgumentError('"tags" must be a list of strings');
+        const tags = normalizeTags(args.tags);
+        if (tags.length) draft.tags = tags;
+      }
+      if (args.repeat && typeof args.repeat === 'object') {
+        const repeat = args.repeat as Record<string, unknown>;
+        const rule: RecurrenceRule = {
+          freq: oneOf(str(repeat, 'freq', true), ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as RecurrenceFrequency[], 'repeat.freq')!,
+          interval: Math.max(1, Math.floor(Number(repeat.interval) || 1)),
+        };
+        const until = str(repeat, 'until');
+        if (until) rule.until = formatReminderDate(context, localDate(until.slice(0, 10), context, 'repeat.until', '23:59:59.999'));
+        else if (Number(repeat.count) > 0) rule.count = Math.floor(Number(repeat.count));
+        draft.rrule = rule;
+      }
+      const created = handlers.createReminder(draft);
+      if (created instanceof QuotaError) return { error: created.message };
+      return { created: summarize(resolveOccurrence(created, new Date(created.date))!, context) };
+    }
+
+    case 'reschedule_reminder': {
+      const reminder = findReminder(handlers, str(args, 'id', true)!);
+      const occ = findOccurrence(reminder, str(args, 'occurrence'), context);
+      const to = localDate(str(args, 'to', true)!, context, 'to');
+      const scope = oneOf(str(args, 'scope'), ['this', 'all'] as MoveScope[], 'scope') || 'this';
+      const refused = handlers.rescheduleReminder(reminder.id, occ.originalDate, occ.date, to, scope);
+      if (refused) return { error: refused.message };
+      return { rescheduled: reminder.title, from: formatLocal(occ.date, context), to: formatLocal(to, context), scope: reminder.rrule ? scope : 'all' };
+    }
+
+    case 'complete_reminder': {
+      const reminder = findReminder(handlers, str(args, 'id', true)!);
+      const occ = reminder.rrule ? findOccurrence(reminder, str(args, 'occurrence'), context) : undefined;
+      const refused = handlers.completeReminder(reminder.id, occ?.originalDate);
+      if (refused) return { error: refused.message };
+      return { toggled: reminder.title, ...(occ ? { occurrence: formatLocal(occ.date, context), completed: !occ.reminder.completed } : { completed: !reminder.completed }) };
+    }
+
+    case 'delete_reminder': {
+      const reminder = findReminder(handlers, str(args, 'id', true)!);
+      const scope = oneOf(str(args, 'scope'), ['this', 'following', 'all'] as OccurrenceScope[], 'scope') || 'all';
+      const occ = reminder.rrule && scope !== 'all' ? findOccurrence(reminder, str(args, 'occurrence'), context) : undefined;
+      handlers.deleteReminder(reminder.id, occ?.originalDate, occ ? scope : 'all');
+      return { deleted: reminder.title, ...(occ ? { scope, occurrence: formatLocal(occ.date, context) } : {}) };
+    }
+
+    default:
+      return { error: `Unknown tool "${call.name}"` };
+  }
+};
+
+/**
+ * Carry out one tool call. Bad arguments and refusals come back as `error`
+ * results for the model to read, never as exceptions.
+ */
+export const executeTool = (call: AssistantToolCall, handlers: AssistantHandlers, context: AssistantContext): AssistantToolResult => {
+  try {
+    return { callId: call.id, name: call.name, result: runTool(call, handlers, context) };
+  } catch (error) {
+    if (!(error instanceof ToolArgumentError)) throw error;
+    return { callId: call.id, name: call.name, result: { error: error.message } };
+  }
+};
+
+/**
+ * Describe a held-back call for the confirmation card, e.g. Delete "Dentist" (all occurrences).
+ */
+export const describeToolCall = (call: AssistantToolCall, handlers: AssistantHandlers): string => {
+  const reminder = handlers.getReminders().find(r => r.id === call.args.id);
+  const name = reminder ? `"${reminder.title}"` : 'a reminder that no longer exists';
+  if (call.name !== 'delete_reminder') return `${call.name} ${name}`;
+  const scope = reminder?.rrule ? call.args.scope || 'all' : 'all';
+  const what = { this: 'this occurrence', following: 'this and all following occurrences', all: reminder?.rrule ? 'all occurrences' : '' }[scope as OccurrenceScope];
+  return `Delete ${name}${what ? ` (${what})` : ''}`;
+};
+
+// --- Conversation loop ---
+
+let messageCounter = 0;
+const nextId = () => `${Date.now()}-${++messageCounter}`;
+
+export const userMessage = (text: string): ChatMessage => ({ id: nextId(), role: 'user', text, timestamp: Date.now() });
+
+const modelMessage = (reply: ModelReply, id: string = nextId()): ChatMessage => ({
+  id,
+  role: 'model',
+  text: reply.text || '',
+  timestamp: Date.now(),
+  ...(reply.toolCalls?.length ? { toolCalls: reply.toolCalls } : {}),
+});
+
+const toolMessage = (results: AssistantToolResult[]): ChatMessage => ({
+  id: nextId(),
+  role: 'tool',
+  text: '',
+  timestamp: Date.now(),
+  toolResults: results,
+});
+
+const declined = (call: AssistantToolCall, reason: string): AssistantToolResult =>
+  ({ callId: call.id, name: call.name, result: { error: reason } });
+
+const withMessages = (conversation: Conversation, messages: ChatMessage[]): Conversation =>
+  ({ ...conversation, messages: [...conversation.messages, ...messages] });
+
+/**
+ * The messages the model sees in full; earlier ones live on in the summary.
+ */
+export const contextMessages = (conversation: Conversation): ChatMessage[] =>
+  conversation.contextFrom ? conversation.messages.filter(m => m.timestamp >= conversation.contextFrom!) : conversation.messages;
+
+type BatchOutcome = { results: AssistantToolResult[] } | { pending: PendingConfirmation };
+
+// Run a turn's calls in order, stopping at the first destructive one
+const runBatch = (calls: AssistantToolCall[], done: AssistantToolResult[], handlers: AssistantHandlers, context: AssistantContext): BatchOutcome => {
+  const results = [...done];
+  for (let i = 0; i < calls.length; i++) {
+    if (isDestructive(calls[i].name)) return { pending: { call: calls[i], done: results, rest: calls.slice(i + 1) } };
+    results.push(executeTool(calls[i], handlers, context));
+  }
+  return { results };
+};
+
+const continueRun = async (
+  model: AssistantModel, conversation: Conversation, outcome: BatchOutcome,
+  handlers: AssistantHandlers, context: AssistantContext, { onUpdate, signal }: RunOptions
+): Promise<AssistantRun> => {
+  let current = conversation;
+  for (let round = 0; ; round++) {
+    if ('pending' in outcome) return { conversation: current, pending: outcome.pending };
+    if (outcome.results.length) current = withMessages(current, [toolMessage(outcome.results)]);
+    if (round > MAX_TOOL_ROUNDS) {
+      return { conversation: withMessages(current, [modelMessage({ text: 'That took more steps than I can take at once. Please ask again in smaller parts.' })]) };
+    }
+    onUpdate?.(current);
+
+    // The reply streams into a message that keeps its id once complete
+    const id = nextId();
+    let streamed = '';
+    const instructions = assistantInstructions(context, handlers.getReminders(), current.summary);
+    const reply = await model.respond(contextMessages(current), ASSISTANT_TOOLS, instructions, {
+      signal,
+      onText: text => {
+        streamed = text;
+        onUpdate?.(withMessages(current, [modelMessage({ text }, id)]));
+      },
+    }).catch((error): ModelReply => {
+      if (signal?.aborted) return { text: streamed };
+      throw error;
+    });
+
+    // Stopped: keep what was said, but run nothing more
+    if (signal?.aborted) {
+      return { conversation: reply.text ? withMessages(current, [modelMessage({ text: reply.text }, id)]) : current };
+    }
+    current = withMessages(current, [modelMessage(reply, id)]);
+    if (!reply.toolCalls?.length) return { conversation: current };
+    outcome = runBatch(reply.toolCalls, [], handlers, context);
+  }
+};
+
+const SUMMARY_INSTRUCTIONS = `Summarise this conversation between a user and the assistant of a reminder app
+in a few sentences. Keep what the user wants, decisions made, and what was changed. Plain text only.`;
+
+const transcript = (messages: ChatMessage[]) => messages.map(m => {
+  if (m.role === 'tool') return `tool results: ${JSON.stringify(m.toolResults)}`;
+  const calls = m.toolCalls ? ` [calls ${m.toolCalls.map(c => `${c.name} ${JSON.stringify(c.args)}`).join(', ')}]` : '';
+  return `${m.role}: ${m.text}${calls}`;
+}).join('\n');
+
+const messageSize = (m: ChatMessage) => m.text.length + JSON.stringify(m.toolCalls || m.toolResults || '').length;
+
+/**
+ * Fold the oldest turns of a long conversation into its summary, so what the
+ * model sees stays within MAX_CONTEXT_CHARS. It cuts just before a user
+ * message, so tool calls stay with their results.
+ */
+export const compactConversation = async (model: AssistantModel, conversation: Conversation, signal?: AbortSignal): Promise<Conversation> => {
+  const visible = contextMessages(conversation);
+  if (d3.sum(visible, messageSize) <= MAX_CONTEXT_CHARS) return conversation;
+
+  // The earliest user message after which KEEP_CONTEXT_CHARS are left, or at least the latest one
+  let cut = -1;
+  let size = 0;
+  for (let i = visible.length - 1; i > 0 && (cut < 0 || size <= KEEP_CONTEXT_CHARS); i--) {
+    size += messageSize(visible[i]);
+    if (visible[i].role === 'user' && (cut < 0 || size <= KEEP_CONTEXT_CHARS)) cut = i;
+  }
+  if (cut < 0) return conversation;
+
+  const earlier = `${conversation.summary ? `Summary so far: ${conversation.summary}\n\n` : ''}${transcript(visible.slice(0, cut))}`;
+  const reply = await model.respond([userMessage(earlier)], [], SUMMARY_INSTRUCTIONS, { signal });
+  return { ...conversation, summary: reply.text?.trim() || conversation.summary, contextFrom: visible[cut].timestamp };
+};
+
+/**
+ * Add the user's message and let the model answer, running the tools it asks
+ * for. Stops early at a destructive call; see `resolveConfirmation`.
+ */
+export const respondToUser = async (
+  model: AssistantModel, conversation: Conversation, text: string,
+  handlers: AssistantHandlers, context: AssistantContext, options: RunOptions = {}
+): Promise<AssistantRun> => {
+  const asked = withMessages(conversation, [userMessage(text)]);
+  options.onUpdate?.(asked);
+  const compacted = await compactConversation(model, asked, options.signal);
+  return continueRun(model, compacted, { results: [] }, handlers, context, options);
+};
+
+/**
+ * Run or decline the held-back call, then carry on with the conversation.
+ */
+export const resolveConfirmation = (
+  model: AssistantModel, conversation: Conversation, pending: PendingConfirmation, confirmed: boolean,
+  handlers: AssistantHandlers, context: AssistantContext, options: RunOptions = {}
+): Promise<AssistantRun> => {
+  const result = confirmed ? executeTool(pending.call, handlers, context) : declined(pending.call, 'The user declined this action');
+  return continueRun(model, conversation, runBatch(pending.rest, [...pending.done, result], handlers, context), handlers, context, options);
+};
+
+/**
+ * The conversation as if the held-back call had been declined, for storing
+ * it or leaving it: every call the model made needs an answer.
+ */
+export const abandonPending = (conversation: Conversation, pending: PendingConfirmation): Conversation =>
+  withMessages(conversation, [toolMessage([
+    ...pending.done,
+    ...[pending.call, ...pending.rest].map(call => declined(call, 'The user did not confirm this action')),
+  ])]);
+
+/**
+ * Conversations in localStorage, one per user.
+ */
+export const localConversationStore = (userId: string): ConversationStore => {
+  const key = `memento_assistant_${userId}`;
+  return {
+    load: () => {
+      try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : null;
+      } catch {
+        return null;
+      }
+    },
+    save: (conversation) => localStorage.setItem(key, JSON.stringify({
+      ...conversation,
+      messages: conversation.messages.slice(-MAX_STORED_MESSAGES),
+    })),
+  };
+};
+
+/**
+ * A model that plays back fixed replies, one per call, so the tool layer can
+ * be exercised without a network. Steps given as functions see the
+ * conversation so far, e.g. to pick an id out of a tool result. Text is
+ * streamed word by word.
+ */
+export const createScriptedModel = (script: (ModelReply | ((messages: ChatMessage[]) => ModelReply))[]): AssistantModel & { received: ChatMessage[][] } => {
+  const received: ChatMessage[][] = [];
+  return {
+    received,
+    respond: async (messages, _tools, _instructions, options) => {
+      const step = script[received.length];
+      received.push(messages);
+      if (!step) throw new Error('The scripted model has no more replies');
+      const reply = typeof step === 'function' ? step(messages) : step;
+      const words = (reply.text || '').split(/(?<= )/);
+      for (let i = 1; i <= words.length && reply.text; i++) {
+        if (options?.signal?.aborted) throw new Error('Aborted');
+        options?.onText?.(words.slice(0, i).join(''));
+        await Promise.resolve();
+      }
+      return reply;
+    },
+  };
+};
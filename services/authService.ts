@@ -0,0 +1,99 @@
+import { User, PlanId } from '../types';
+
+// Client side of the local server's accounts. Session tokens are kept in
+// localStorage, one per account used on this device, and sent as bearer tokens.
+
+const API_BASE = '/api/auth';
+const SESSIONS_KEY = 'memento_sessions';
+
+export interface Session {
+  token: string;
+  user: User;
+  expiresAt: number;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public code?: string, public status?: number) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+interface AuthResponse {
+  token: string;
+  account: { id: string; username: string; plan?: PlanId };
+  expiresAt: number;
+}
+
+const toUser = (account: AuthResponse['account']): User =>
+  ({ id: account.id, isTemp: false, name: account.username, plan: account.plan });
+
+const toSession = (response: AuthResponse): Session => ({
+  token: response.token,
+  user: toUser(response.account),
+  expiresAt: response.expiresAt,
+});
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+  } catch {
+    throw new AuthError("Can't reach the Memento server. Is `npm run server` running?", 'offline');
+  }
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AuthError(body?.error || `Request failed (${response.status})`, body?.code, response.status);
+  }
+  return body as T;
+};
+
+export const register = async (username: string, password: string): Promise<Session> =>
+  toSession(await request<AuthResponse>('/register', { method: 'POST', body: JSON.stringify({ username, password }) }));
+
+export const login = async (username: string, password: string): Promise<Session> =>
+  toSession(await request<AuthResponse>('/login', { method: 'POST', body: JSON.stringify({ username, password }) }));
+
+/**
+ * Invalidate the session on the server. Throws when the server can't be
+ * reached, so the caller can decide whether to sign out locally anyway.
+ */
+export const logout = (token: string): Promise<void> =>
+  request<void>('/logout', { method: 'POST', headers: { Authorization: `Bearer ${token}` } });
+
+/**
+ * Check a stored session. Resolves null when the server rejects it; throws
+ * AuthError('offline') when the server can't be reached.
+ */
+export const verifySession = async (session: Session): Promise<Session | null> => {
+  try {
+    const account = await request<AuthResponse['account']>('/me', { headers: { Authorization: `Bearer ${session.token}` } });
+    return { ...session, user: toUser(account) };
+  } catch (error) {
+    if (error instanceof AuthError && error.status === 401) return null;
+    throw error;
+  }
+};
+
+const loadSessions = (): Record<string, Session> => {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSession = (userId: string): Session | null => {
+  const session = loadSessions()[userId];
+  return session && session.expiresAt > Date.now() ? session : null;
+};
+
+export const saveSession = (userId: string, session: Session | null) => {
+  const sessions = loadSessions();
+  if (session) sessions[userId] = session;
+  else delete sessions[userId];
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
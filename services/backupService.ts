@@ -0,0 +1,78 @@
+import { Reminder, User, Category } from '../types';
+import { SCHEMA_VERSION, MigrationResult, migrateReminders, isObject } from './migrationService';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from './categoryService';
+
+// Downloadable backup files and restoring from them
+
+const BACKUP_FORMAT = 'memento-backup';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  user: Pick<User, 'name'>;
+  categories?: Category[]; // since version 4
+  reminders: Reminder[];
+}
+
+export interface ParsedBackup extends MigrationResult {
+  exportedAt: string | null;
+  categories: Category[]; // the ones the reminders were filed under; none for older backups
+}
+
+const isCategory = (value: unknown): value is Category =>
+  isObject(value) &&
+  typeof value.id === 'string' && !!value.id &&
+  typeof value.name === 'string' && !!value.name.trim() &&
+  typeof value.color === 'string' && value.color in CATEGORY_COLORS &&
+  (CATEGORY_ICONS as unknown[]).includes(value.icon);
+
+export const createBackup = (user: User, categories: Category[], reminders: Reminder[], now: Date = new Date()): string =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    user: { name: user.name },
+    categories,
+    reminders,
+  } satisfies BackupFile, null, 2);
+
+/**
+ * Read a backup file. Throws when the file as a whole is unusable; individual
+ * corrupt reminders are returned in `rejected`.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  // A bare array is the raw localStorage value, which is accepted as well
+  if (Array.isArray(parsed)) return { ...migrateReminders(parsed, 0), exportedAt: null, categories: [] };
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || typeof parsed.version !== 'number' || !Array.isArray(parsed.reminders)) {
+    throw new Error('This file is not a Memento backup');
+  }
+  return {
+    ...migrateReminders(parsed.reminders, parsed.version),
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : null,
+    // Malformed categories are dropped; their reminders show as uncategorized
+    categories: Array.isArray(parsed.categories) ? parsed.categories.filter(isCategory) : [],
+  };
+};
+
+/**
+ * Combine restored reminders with the current ones. Merging keeps current
+ * reminders and lets the backup's copy win where ids match. Restored reminders
+ * are re-owned by the current user.
+ */
+export const restoreReminders = (current: Reminder[], restored: Reminder[], mode: RestoreMode, userId: string): Reminder[] => {
+  const owned = restored.map(r => ({ ...r, userId }));
+  if (mode === 'replace') return owned;
+
+  const restoredIds = new Set(owned.map(r => r.id));
+  return [...current.filter(r => !restoredIds.has(r.id)), ...owned];
+};
@@ -0,0 +1,114 @@
+import { Category, CategoryColor, CategoryIcon, Reminder, User } from '../types';
+
+// User-defined categories and free-form tags.
+//
+// CATEGORY_COLORS is the one place colors are defined: the calendar chips,
+// the timeline lanes and the cards all read their fill and ink from it, so a
+// category looks the same everywhere.
+
+export interface CategoryColorSpec {
+  label: string;
+  fill: string; // background of chips, stripes and timeline nodes
+  ink: string;  // text drawn on top of the fill
+}
+
+export const CATEGORY_COLORS: Record<CategoryColor, CategoryColorSpec> = {
+  graphite: { label: 'Graphite', fill: '#4b5563', ink: '#ffffff' },
+  slate: { label: 'Slate', fill: '#6b7280', ink: '#ffffff' },
+  ash: { label: 'Ash', fill: '#9ca3af', ink: '#ffffff' },
+  mist: { label: 'Mist', fill: '#d1d5db', ink: '#374151' },
+  cloud: { label: 'Cloud', fill: '#e5e7eb', ink: '#374151' },
+  red: { label: 'Red', fill: '#ef4444', ink: '#ffffff' },
+  amber: { label: 'Amber', fill: '#fbbf24', ink: '#374151' },
+  green: { label: 'Green', fill: '#22c55e', ink: '#ffffff' },
+  teal: { label: 'Teal', fill: '#14b8a6', ink: '#ffffff' },
+  blue: { label: 'Blue', fill: '#3b82f6', ink: '#ffffff' },
+  violet: { label: 'Violet', fill: '#8b5cf6', ink: '#ffffff' },
+  pink: { label: 'Pink', fill: '#ec4899', ink: '#ffffff' },
+};
+
+export const CATEGORY_ICONS: CategoryIcon[] = [
+  'tag', 'alert', 'users', 'heart', 'lightbulb', 'briefcase', 'home', 'cart', 'book', 'star', 'plane', 'dumbbell',
+];
+
+// The former fixed reminder types, with the ids stored reminders were migrated to
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'standard', name: 'Standard', color: 'slate', icon: 'tag' },
+  { id: 'urgent', name: 'Urgent', color: 'graphite', icon: 'alert' },
+  { id: 'meeting', name: 'Meeting', color: 'ash', icon: 'users' },
+  { id: 'health', name: 'Health', color: 'mist', icon: 'heart' },
+  { id: 'idea', name: 'Idea', color: 'cloud', icon: 'lightbulb' },
+];
+
+export const DEFAULT_CATEGORY_ID = 'standard';
+
+// Stands in for a category that is not (or no longer) among the user's, e.g.
+// one created on another device
+const uncategorized = (id: string): Category => ({ id, name: 'Uncategorized', color: 'cloud', icon: 'tag' });
+
+export const userCategories = (user: User): Category[] => user.categories?.length ? user.categories : DEFAULT_CATEGORIES;
+
+// What new reminders get: "Standard" while the user still has it, else their first category
+export const defaultCategoryId = (categories: Category[]): string =>
+  categories.some(c => c.id === DEFAULT_CATEGORY_ID) ? DEFAULT_CATEGORY_ID : categories[0]?.id ?? DEFAULT_CATEGORY_ID;
+
+export const findCategory = (categories: Category[], id: string): Category =>
+  categories.find(c => c.id === id) || uncategorized(id);
+
+export const categoryColor = (category: Category): CategoryColorSpec =>
+  CATEGORY_COLORS[category.color] || CATEGORY_COLORS.slate;
+
+/**
+ * The category called `name`, ignoring case, or the only one whose name
+ * starts with it.
+ */
+export const matchCategory = (categories: Category[], name: string): Category | undefined => {
+  const key = name.trim().toLowerCase();
+  if (!key) return undefined;
+  const exact = categories.find(c => c.name.toLowerCase() === key);
+  if (exact) return exact;
+  const prefixed = categories.filter(c => c.name.toLowerCase().startsWith(key));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+};
+
+// The category id a pre-category reminder type was migrated to
+export const categoryForLegacyType = (type: unknown): string => {
+  const id = typeof type === 'string' ? type.toLowerCase() : '';
+  return DEFAULT_CATEGORIES.some(c => c.id === id) ? id : DEFAULT_CATEGORY_ID;
+};
+
+export const createCategory = (name: string, existing: Category[]): Category => {
+  const used = new Set(existing.map(c => c.color));
+  const color = (Object.keys(CATEGORY_COLORS) as CategoryColor[]).find(c => !used.has(c)) || 'slate';
+  return { id: `cat-${Math.random().toString(36).slice(2, 10)}`, name: name.trim(), color, icon: 'tag' };
+};
+
+/**
+ * Categories of a backup or another source added to `current`; ones already
+ * known by id are kept as they are.
+ */
+export const mergeCategories = (current: Category[], incoming: Category[]): Category[] => [
+  ...current,
+  ...incoming.filter(c => !current.some(known => known.id === c.id)),
+];
+
+/**
+ * `reminder` moved from category `from` to `to`, on the series and on every
+ * instance that had its own category.
+ */
+export const reassignCategory = (reminder: Reminder, from: string, to: string): Reminder => {
+  const overrides = reminder.overrides?.some(o => o.category === from)
+    ? reminder.overrides.map(o => o.category === from ? { ...o, category: to } : o)
+    : reminder.overrides;
+  if (reminder.category !== from && overrides === reminder.overrides) return reminder;
+  return { ...reminder, category: reminder.category === from ? to : reminder.category, overrides };
+};
+
+/**
+ * Tags as stored: lowercase, without "#", no blanks or repeats. A string is
+ * split at commas and spaces.
+ */
+export const normalizeTags = (tags: string | string[]): string[] => {
+  const list = typeof tags === 'string' ? tags.split(/[\s,]+/) : tags;
+  return Array.from(new Set(list.map(t => t.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean)));
+};
@@ -0,0 +1,113 @@
+import * as d3 from 'd3';
+import { Reminder, Occurrence, OccurrenceOverride, CompletionRecord } from '../types';
+import { expandOccurrences, resolveOccurrence } from './recurrenceService';
+import { formatReminderDate } from './timeZoneService';
+
+const sameInstant = (iso: string, date: Date) => new Date(iso).getTime() === date.getTime();
+
+// How far back to look for recent instances before walking the whole series
+const LOOKBACK_DAYS = [31, 366, 3660];
+
+export interface CompletionStats {
+  done: number;
+  total: number;
+  unit: 'days' | 'times';
+  streak: number; // consecutive completed instances, most recent first
+  recent: { occurrence: Occurrence; done: boolean }[]; // oldest first
+}
+
+/**
+ * Tick or untick one instance of a recurring reminder.
+ */
+export const toggleOccurrenceCompleted = (reminder: Reminder, originalDate: Date, now: number = Date.now()): Reminder => {
+  const completions = reminder.completions || [];
+  const exists = completions.some(c => sameInstant(c.occurrenceDate, originalDate));
+  const next: CompletionRecord[] = exists
+    ? completions.filter(c => !sameInstant(c.occurrenceDate, originalDate))
+    : [...completions, { occurrenceDate: formatReminderDate(reminder, originalDate), completedAt: now }];
+  return { ...reminder, completions: next.length ? next : undefined };
+};
+
+/**
+ * The instance a recurring reminder's card should show: the first one from the
+ * start of today that hasn't been ticked off. Missed instances from earlier
+ * days don't hold the card back. One-offs always return their single instance.
+ */
+export const getDueOccurrence = (reminder: Reminder, now: Date = new Date()): Occurrence | null => {
+  if (!reminder.rrule) return resolveOccurrence(reminder, new Date(reminder.date));
+  if (reminder.completed) return null;
+
+  let from = d3.timeDay.floor(now);
+  // Look a year ahead at a time; a fully ticked-off year is the practical limit
+  for (let i = 0; i < 5; i++) {
+    const to = d3.timeYear.offset(from, 1);
+    const due = expandOccurrences(reminder, from, to).find(occ => !occ.reminder.completed);
+    if (due) return due;
+    from = to;
+  }
+  return null;
+};
+
+/**
+ * The last `n` instances up to the end of the day of `now`, oldest first.
+ */
+export const getRecentOccurrences = (reminder: Reminder, now: Date, n: number): Occurrence[] => {
+  const end = d3.timeDay.offset(d3.timeDay.floor(now), 1);
+  for (const days of LOOKBACK_DAYS) {
+    const found = expandOccurrences(reminder, d3.timeDay.offset(end, -days), end);
+    if (found.length >= n) return found.slice(-n);
+  }
+  return expandOccurrences(reminder, new Date(reminder.date), end).slice(-n);
+};
+
+/**
+ * Habit summary over the last `n` instances, e.g. "done 5 of last 7 days".
+ */
+export const getCompletionStats = (reminder: Reminder, now: Date = new Date(), n: number = 7): CompletionStats => {
+  const recent = getRecentOccurrences(reminder, now, n).map(occurrence => ({
+    occurrence,
+    done: occurrence.reminder.completed,
+  }));
+
+  let streak = 0;
+  for (let i = recent.length - 1; i >= 0; i--) {
+    // Today's instance not being done yet doesn't break the streak
+    if (!recent[i].done && i === recent.length - 1 && recent[i].occurrence.date >= d3.timeDay.floor(now)) continue;
+    if (!recent[i].done) break;
+    streak++;
+  }
+
+  const isDaily = reminder.rrule?.freq === 'DAILY' && reminder.rrule.interval === 1 && !reminder.rrule.byDay?.length;
+  return {
+    done: recent.filter(r => r.done).length,
+    total: recent.length,
+    unit: isDaily ? 'days' : 'times',
+    streak,
+    recent,
+  };
+};
+
+/**
+ * Move per-instance `completed` flags, which used to live on overrides, into
+ * the completion history.
+ */
+export const migrateOverrideCompletions = (reminder: Reminder): Reminder => {
+  const legacy = reminder.overrides as (OccurrenceOverride & { completed?: boolean })[] | undefined;
+  if (!legacy?.some(o => 'completed' in o)) return reminder;
+
+  const completions = [...(reminder.completions || [])];
+  const overrides = legacy
+    .map(({ completed, ...override }) => {
+      if (completed && !completions.some(c => c.occurrenceDate === override.originalDate)) {
+        completions.push({ occurrenceDate: override.originalDate, completedAt: new Date(override.originalDate).getTime() });
+      }
+      return override;
+    })
+    .filter(o => Object.keys(o).length > 1);
+
+  return {
+    ...reminder,
+    overrides: overrides.length ? overrides : undefined,
+    completions: completions.length ? completions : undefined,
+  };
+};
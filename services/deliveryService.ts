@@ -0,0 +1,52 @@
+import * as d3 from 'd3';
+import { Reminder, ReminderAlert, DeliveryRequest, DeliveryLogEntry } from '../types';
+import { expandAlerts, needsContact } from './alertService';
+
+// Client side of Email / SMS / Phone Call delivery. The local server does the
+// actual sending; the app keeps it up to date with the deliveries due soon.
+// Both calls act for the account of the session token.
+
+const API_BASE = '/api/deliveries';
+// How far ahead the server is told about upcoming deliveries
+const HORIZON_DAYS = 7;
+
+const isDeliverable = (alert: ReminderAlert) => needsContact(alert.method) && !!alert.contactInfo?.trim();
+
+export const buildDeliveryRequests = (reminders: Reminder[], now: Date = new Date()): DeliveryRequest[] =>
+  expandAlerts(reminders, now, d3.timeDay.offset(now, HORIZON_DAYS), isDeliverable)
+    .map(({ key, occurrence, alert, at }) => ({
+      key,
+      reminderId: occurrence.reminder.id,
+      method: alert.method,
+      to: alert.contactInfo!.trim(),
+      title: occurrence.reminder.title,
+      body: occurrence.reminder.description,
+      sendAt: at.getTime(),
+      dueAt: occurrence.date.getTime(),
+    }));
+
+/**
+ * Replace the account's pending schedule on the server. Failures (server not
+ * running) are logged and otherwise ignored: the next sync will try again.
+ */
+export const syncDeliverySchedule = async (reminders: Reminder[], token: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_BASE}/schedule`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ requests: buildDeliveryRequests(reminders) }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn("Delivery server unreachable:", error);
+    return false;
+  }
+};
+
+export const fetchDeliveryLog = async (reminderId: string, token: string): Promise<DeliveryLogEntry[]> => {
+  const response = await fetch(`${API_BASE}/log?reminderId=${encodeURIComponent(reminderId)}`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) throw new Error(`Delivery log unavailable (${response.status})`);
+  return response.json();
+};
@@ -1,50 +1,62 @@
-import { GoogleGenAI } from "@google/genai";
+import { AiProxyEvent, AiProxyRequest, AssistantToolCall } from "../types";
+import { AiProvider, AiError, errorFromStatus, toAiError } from "./aiProvider";
 
-const apiKey = process.env.API_KEY || ''; // In a real app, handle missing key gracefully
-const ai = new GoogleGenAI({ apiKey });
+// Gemini through the Memento server, which holds the API key and picks the
+// model (see server/ai). Replies stream back as one JSON event per line.
 
-export const generateAssistantResponse = async (
-  history: string,
-  userMessage: string
-): Promise<string> => {
-  try {
-    const model = 'gemini-3-flash-preview';
-    
-    const response = await ai.models.generateContent({
-      model,
-      contents: [
-        {
-            role: 'user',
-            parts: [{ text: `System Context: You are Memento AI, a minimalist assistant for a reminder app. 
-            Help the user refine their reminder notes to be concise and clear. 
-            Explain app features (Calendar zoom based on entries, temp accounts).
-            Keep responses short, sober, and helpful.
-            
-            Conversation History:
-            ${history}
-            
-            User Input: ${userMessage}` }]
-        }
-      ],
-    });
+const API_BASE = '/api/ai';
 
-    return response.text || "I'm having trouble connecting to the cloud right now.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "I apologize, but I cannot process your request at the moment.";
-  }
-};
+const SERVER_REFUSALS = ['rate_limited', 'plan_quota'];
 
-export const refineReminderText = async (text: string): Promise<string> => {
+export const createGeminiProvider = ({ token }: { token?: string | null } = {}): AiProvider => ({
+  generate: async ({ instructions, messages, tools = [], json, onText, signal }) => {
+    const request: AiProxyRequest = {
+      instructions,
+      messages,
+      tools: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+      json,
+    };
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `Rewrite the following reminder note to be more concise, clear, and professional, but keep the friendly tone. Return ONLY the rewritten text.
-            
-            Original: "${text}"`
-        });
-        return response.text?.trim() || text;
-    } catch (e) {
-        return text;
+      const response = await fetch(`${API_BASE}/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify(request),
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        const failure = errorFromStatus(response.status, body?.error || response.statusText);
+        // The server's own refusals (its rate limit, the plan's daily allowance)
+        // say what happened better than the defaults
+        throw SERVER_REFUSALS.includes(body?.code) ? new AiError(failure.kind, failure.detail, body.error) : failure;
+      }
+
+      let text = '';
+      let reply: { text: string; toolCalls: AssistantToolCall[] } | null = null;
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event = JSON.parse(line) as AiProxyEvent;
+          if ('error' in event) throw new AiError(event.error.kind, undefined, event.error.message);
+          if ('reply' in event) reply = event.reply;
+          else {
+            text += event.text;
+            onText?.(text);
+          }
+        }
+      }
+      if (!reply) throw new AiError('network', 'The reply ended early');
+      return reply;
+    } catch (error) {
+      throw toAiError(error);
     }
-}
\ No newline at end of file
+  },
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { Category } from '../types';
+import { NOW, reminder } from '../test/fixtures';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { exportIcs, parseIcs } from './icsService';
+
+const bills: Category = { id: 'bills', name: 'Bills, taxes', color: 'slate', icon: 'tag' };
+const CATEGORIES = [...DEFAULT_CATEGORIES, bills];
+
+const calendar = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VTODO', 'UID:t1', 'SUMMARY:Pay', 'DUE:20260302T100000Z', ...lines, 'END:VTODO', 'END:VCALENDAR'].join('\r\n');
+
+describe('iCalendar categories', () => {
+  it('keeps escaped commas inside a category or tag name', () => {
+    const { items } = parseIcs(calendar('CATEGORIES:Bills\\, taxes,rent\\,flat,urgent'), 'Europe/Berlin', CATEGORIES);
+    expect(items[0].draft).toMatchObject({ category: 'bills', tags: ['rent,flat', 'urgent'] });
+  });
+
+  it('reads back the category and tags it wrote', () => {
+    const text = exportIcs([reminder('r1', { category: 'bills', tags: ['rent,flat'] })], 'todo', new Date(NOW), CATEGORIES);
+    expect(text).toContain('CATEGORIES:Bills\\, taxes,rent\\,flat');
+    expect(parseIcs(text, 'Europe/Berlin', CATEGORIES).items[0].draft).toMatchObject({ category: 'bills', tags: ['rent,flat'] });
+  });
+});
@@ -0,0 +1,442 @@
+import { Reminder, ReminderDraft, ReminderAlert, Category, CommunicationMethod, OccurrenceOverride } from '../types';
+import { formatRRule, parseRRule } from './rruleService';
+import { zoneCalendar, reminderCalendar, formatReminderDate, deviceTimeZone, isValidTimeZone } from './timeZoneService';
+import { newAlert } from './alertService';
+import { DEFAULT_CATEGORIES, defaultCategoryId, categoryForLegacyType, findCategory, normalizeTags } from './categoryService';
+
+// iCalendar (RFC 5545) export and import of reminders.
+
+export type IcsExportMode = 'event' | 'todo' | 'auto';
+
+export interface IcsImportItem {
+  uid: string;
+  kind: 'VEVENT' | 'VTODO';
+  draft: ReminderDraft;
+}
+
+export interface IcsImportResult {
+  items: IcsImportItem[];
+  unmapped: { property: string; count: number }[]; // properties that were dropped
+  errors: string[];
+}
+
+const PRODID = '-//Memento//Reminders//EN';
+const UID_DOMAIN = 'memento';
+
+// Properties that carry no reminder data and are skipped without a report
+const IGNORED = new Set(['UID', 'DTSTAMP', 'CREATED', 'LAST-MODIFIED', 'SEQUENCE', 'PRODID', 'VERSION', 'CALSCALE', 'METHOD', 'TRANSP', 'CLASS']);
+const SUPPORTED_RRULE_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYSETPOS', 'UNTIL', 'COUNT', 'WKST']);
+
+// --- Text encoding ---
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// The items of a TEXT list such as CATEGORIES, split on the commas that are
+// not escaped and still escaped themselves
+const splitTextList = (value: string): string[] => {
+  const items: string[] = [];
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\') i++;
+    else if (value[i] === ',') {
+      items.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  return [...items, value.slice(start)];
+};
+
+const encoder = new TextEncoder();
+
+// Content lines are folded at 75 octets (RFC 5545 §3.1)
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Basic format of the UTC fields: 20261231T235959
+const formatBasic = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+
+const formatUtc = (date: Date) => `${formatBasic(date)}Z`;
+
+// Zoned reminders use their IANA zone as TZID; the common calendar apps know
+// those names, so no VTIMEZONE is written. Floating reminders use floating time.
+const dateProperty = (name: string, reminder: Reminder, dates: Date[]) => {
+  const values = dates.map(d => formatBasic(reminderCalendar(reminder).toWall(d))).join(',');
+  return reminder.timeZone ? `${name};TZID=${reminder.timeZone}:${values}` : `${name}:${values}`;
+};
+
+// --- Export ---
+
+// Default categories exported as events in 'auto' mode; everything else is a to-do
+const EVENT_CATEGORIES = ['meeting', 'health'];
+const URGENT_CATEGORY = 'urgent';
+
+const componentFor = (reminder: Reminder, mode: IcsExportMode): 'VEVENT' | 'VTODO' => {
+  if (mode === 'event') return 'VEVENT';
+  if (mode === 'todo') return 'VTODO';
+  return EVENT_CATEGORIES.includes(reminder.category) ? 'VEVENT' : 'VTODO';
+};
+
+const uidFor = (reminder: Reminder) => reminder.icalUid || `${reminder.id}@${UID_DOMAIN}`;
+
+// A lead time as a TRIGGER duration: "-PT10M", "-P1D", "PT0S"
+const formatTrigger = (minutes: number): string => {
+  if (minutes <= 0) return 'PT0S';
+  if (minutes % (7 * 24 * 60) === 0) return `-P${minutes / (7 * 24 * 60)}W`;
+  if (minutes % (24 * 60) === 0) return `-P${minutes / (24 * 60)}D`;
+  const hours = Math.floor(minutes / 60);
+  return `-PT${hours ? `${hours}H` : ''}${minutes % 60 ? `${minutes % 60}M` : ''}`;
+};
+
+// One VALARM per alert; SMS and calls, which iCalendar has no action for, are kept in X- properties
+const alarmLines = (reminder: Reminder, alert: ReminderAlert): string[] => {
+  const lines = ['BEGIN:VALARM', `TRIGGER:${formatTrigger(alert.offsetMinutes)}`];
+  if (alert.method === CommunicationMethod.Email && alert.contactInfo) {
+    lines.push('ACTION:EMAIL', `SUMMARY:${escapeText(reminder.title)}`, `DESCRIPTION:${escapeText(reminder.description || reminder.title)}`,
+      `ATTENDEE:mailto:${alert.contactInfo}`);
+  } else {
+    lines.push('ACTION:DISPLAY', `DESCRIPTION:${escapeText(reminder.title)}`);
+  }
+  lines.push(`X-MEMENTO-METHOD:${alert.method}`);
+  if (alert.contactInfo) lines.push(`X-MEMENTO-CONTACT:${escapeText(alert.contactInfo)}`);
+  lines.push('END:VALARM');
+  return lines;
+};
+
+const componentLines = (
+  reminder: Reminder, kind: 'VEVENT' | 'VTODO', stamp: string, categories: Category[], override?: OccurrenceOverride
+): string[] => {
+  const date = new Date(override?.date || override?.originalDate || reminder.date);
+  const title = override?.title ?? reminder.title;
+  const description = override?.description ?? reminder.description;
+  const categoryId = override?.category ?? reminder.category;
+  const category = findCategory(categories, categoryId);
+
+  const lines = [`BEGIN:${kind}`, `UID:${uidFor(reminder)}`, `DTSTAMP:${stamp}`, dateProperty('DTSTART', reminder, [date])];
+  if (kind === 'VTODO') lines.push(dateProperty('DUE', reminder, [date]));
+  if (override) lines.push(dateProperty('RECURRENCE-ID', reminder, [new Date(override.originalDate)]));
+  lines.push(`SUMMARY:${escapeText(title)}`);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  // The category name first, then the tags; X-MEMENTO-CATEGORY tells them apart on import
+  lines.push(`CATEGORIES:${[category.name, ...(reminder.tags || [])].map(escapeText).join(',')}`, `X-MEMENTO-CATEGORY:${escapeText(category.name)}`);
+  if (categoryId === URGENT_CATEGORY) lines.push('PRIORITY:1');
+
+  if (!override) {
+    if (reminder.rrule) lines.push(`RRULE:${formatRRule(reminder.rrule)}`);
+    if (reminder.exDates?.length) lines.push(dateProperty('EXDATE', reminder, reminder.exDates.map(d => new Date(d))));
+    if (reminder.completed) lines.push(kind === 'VTODO' ? 'STATUS:COMPLETED' : 'X-MEMENTO-COMPLETED:TRUE');
+  }
+
+  lines.push(...reminder.alerts.flatMap(alert => alarmLines(reminder, alert)), `END:${kind}`);
+  return lines;
+};
+
+/**
+ * Serialise reminders to an iCalendar file. Exceptions of recurring reminders
+ * become EXDATEs and RECURRENCE-ID components; each alert becomes a VALARM.
+ */
+export const exportIcs = (
+  reminders: Reminder[], mode: IcsExportMode = 'event', now: Date = new Date(), categories: Category[] = DEFAULT_CATEGORIES
+): string => {
+  const stamp = formatUtc(now);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+  reminders.forEach(reminder => {
+    const kind = componentFor(reminder, mode);
+    lines.push(...componentLines(reminder, kind, stamp, categories));
+    (reminder.overrides || []).forEach(o => lines.push(...componentLines(reminder, kind, stamp, categories, o)));
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
+
+// --- Import ---
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  children: Component[];
+}
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(p => {
+    const [key, ...rest] = p.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const parseComponents = (text: string): Component[] => {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const root: Component = { name: 'ROOT', properties: [], children: [] };
+  const stack = [root];
+
+  lines.forEach(raw => {
+    if (!raw.trim()) return;
+    const line = parseContentLine(raw);
+    if (!line) return;
+    const current = stack[stack.length - 1];
+    if (line.name === 'BEGIN') {
+      const child: Component = { name: line.value.toUpperCase(), properties: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (line.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(line);
+    }
+  });
+  return root.children;
+};
+
+/**
+ * DATE values (all-day) are placed at 09:00 local time. Date-times with an
+ * IANA TZID are read on that zone's clock; unknown TZIDs and floating times
+ * are read as local wall-clock time.
+ */
+const parseDate = (line: ContentLine): Date | null => {
+  const m = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (h === undefined) return new Date(+y, +mo - 1, +d, 9, 0, 0);
+  const wall = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s));
+  if (utc) return wall;
+  return zoneCalendar(line.params.TZID && isValidTimeZone(line.params.TZID) ? line.params.TZID : undefined).fromWall(wall);
+};
+
+// The reminder zone a start date implies: its TZID, the importing user's zone
+// for UTC times, none (floating) for floating times and all-day dates
+const zoneOf = (line: ContentLine, defaultTimeZone: string): string | undefined => {
+  if (line.params.TZID && isValidTimeZone(line.params.TZID)) return line.params.TZID;
+  return /Z$/.test(line.value.trim()) ? defaultTimeZone : undefined;
+};
+
+const parseMethod = (value?: string): CommunicationMethod | undefined =>
+  (Object.values(CommunicationMethod) as string[]).includes(value || '') ? value as CommunicationMethod : undefined;
+
+// Minutes before the start a TRIGGER names; alarms after the start go off at it
+const parseTrigger = (line: ContentLine, start: Date): number | null => {
+  if (line.params.VALUE === 'DATE-TIME') {
+    const at = parseDate(line);
+    return at ? Math.max(0, Math.round((start.getTime() - at.getTime()) / 60000)) : null;
+  }
+  const m = line.value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [, sign, w = 0, d = 0, h = 0, min = 0, sec = 0] = m;
+  const minutes = ((+w * 7 + +d) * 24 + +h) * 60 + +min + Math.round(+sec / 60);
+  return sign === '-' ? minutes : 0;
+};
+
+// A VALARM as an alert: our own X- properties first, then its ACTION
+const parseAlarm = (alarm: Component, start: Date, unmapped: (name: string) => void): ReminderAlert | null => {
+  const get = (name: string) => alarm.properties.find(p => p.name === name);
+  const trigger = get('TRIGGER');
+  const offset = trigger ? parseTrigger(trigger, start) : 0;
+  if (offset === null) {
+    unmapped('VALARM TRIGGER');
+    return null;
+  }
+  const contact = get('X-MEMENTO-CONTACT')?.value;
+  const method = parseMethod(get('X-MEMENTO-METHOD')?.value);
+  if (method) return newAlert(method, offset, contact && unescapeText(contact));
+
+  const attendee = get('ATTENDEE')?.value.replace(/^mailto:/i, '');
+  if (get('ACTION')?.value.toUpperCase() === 'EMAIL' && attendee) return newAlert(CommunicationMethod.Email, offset, attendee);
+  return newAlert(CommunicationMethod.Notification, offset);
+};
+
+const parseDateList = (line: ContentLine): Date[] =>
+  line.value.split(',').map(v => parseDate({ ...line, value: v })).filter((d): d is Date => d !== null);
+
+// The user's category named by X-MEMENTO-CATEGORY or among CATEGORIES (or the
+// former X-MEMENTO-TYPE); the other CATEGORIES become tags
+const parseCategory = (component: Component, categories: Category[]): { category: string; tags: string[] } => {
+  const byName = (name?: string) => name ? categories.find(c => c.name.toLowerCase() === name.toLowerCase()) : undefined;
+  const names = component.properties
+    .filter(p => p.name === 'CATEGORIES')
+    .flatMap(p => splitTextList(p.value).map(c => unescapeText(c.trim())));
+  const explicit = component.properties.find(p => p.name === 'X-MEMENTO-CATEGORY');
+  const legacyType = component.properties.find(p => p.name === 'X-MEMENTO-TYPE')?.value;
+  const tagsBesides = (name?: string) => normalizeTags(names.filter(n => n.toLowerCase() !== name?.toLowerCase()));
+
+  const known = byName(explicit && unescapeText(explicit.value)) || names.map(byName).find(Boolean);
+  if (known) return { category: known.id, tags: tagsBesides(known.name) };
+
+  const ids = new Set(categories.map(c => c.id));
+  const legacy = legacyType !== undefined ? categoryForLegacyType(legacyType) : undefined;
+  const priority = parseInt(component.properties.find(p => p.name === 'PRIORITY')?.value || '', 10);
+  const category = legacy && ids.has(legacy) ? legacy
+    : priority >= 1 && priority <= 4 && ids.has(URGENT_CATEGORY) ? URGENT_CATEGORY
+    : defaultCategoryId(categories);
+  // A category this user doesn't have is kept as a tag
+  return { category, tags: tagsBesides(legacyType) };
+};
+
+/**
+ * Parse an iCalendar file into reminder drafts. VEVENTs and VTODOs are imported;
+ * RECURRENCE-ID components become overrides of their series. Everything that has
+ * no place on a Reminder is counted in `unmapped`.
+ */
+export const parseIcs = (
+  text: string, defaultTimeZone: string = deviceTimeZone(), categories: Category[] = DEFAULT_CATEGORIES
+): IcsImportResult => {
+  const unmappedCounts = new Map<string, number>();
+  const unmapped = (name: string) => unmappedCounts.set(name, (unmappedCounts.get(name) || 0) + 1);
+  const errors: string[] = [];
+  const items = new Map<string, IcsImportItem>();
+  const exceptions: { uid: string; component: Component }[] = [];
+
+  const calendars = parseComponents(text).filter(c => c.name === 'VCALENDAR');
+  if (!calendars.length) return { items: [], unmapped: [], errors: ['No VCALENDAR found in file'] };
+
+  calendars.forEach(calendar => {
+    calendar.properties.forEach(p => { if (!IGNORED.has(p.name)) unmapped(p.name); });
+
+    calendar.children.forEach((component, index) => {
+      if (component.name !== 'VEVENT' && component.name !== 'VTODO') {
+        if (component.name !== 'VTIMEZONE') unmapped(component.name);
+        return;
+      }
+      const uid = component.properties.find(p => p.name === 'UID')?.value || `import-${index}`;
+      if (component.properties.some(p => p.name === 'RECURRENCE-ID')) {
+        exceptions.push({ uid, component });
+        return;
+      }
+
+      const get = (name: string) => component.properties.find(p => p.name === name);
+      const start = get('DTSTART') || get('DUE');
+      const date = start && parseDate(start);
+      const title = unescapeText(get('SUMMARY')?.value || '').trim() || 'Untitled';
+      if (!date) {
+        errors.push(`"${title}" has no usable start date and was skipped`);
+        return;
+      }
+      if (start!.params.TZID && !isValidTimeZone(start!.params.TZID)) unmapped('TZID (read as local time)');
+      const zone = { timeZone: zoneOf(start!, defaultTimeZone) };
+      const { category, tags } = parseCategory(component, categories);
+
+      const draft: ReminderDraft = {
+        title,
+        description: unescapeText(get('DESCRIPTION')?.value || ''),
+        date: formatReminderDate(zone, date),
+        ...(zone.timeZone ? zone : {}),
+        category,
+        ...(tags.length ? { tags } : {}),
+        alerts: [],
+        completed: get('STATUS')?.value.toUpperCase() === 'COMPLETED' || get('X-MEMENTO-COMPLETED')?.value === 'TRUE' || !!get('COMPLETED'),
+        icalUid: uid,
+      };
+
+      const rrule = get('RRULE');
+      if (rrule) {
+        const parsed = parseRRule(rrule.value);
+        if (parsed) draft.rrule = parsed.until ? { ...parsed, until: formatReminderDate(zone, new Date(parsed.until)) } : parsed;
+        else errors.push(`"${title}": recurrence "${rrule.value}" is not supported, imported as a one-off`);
+        rrule.value.split(';').map(part => part.split('=')[0].toUpperCase())
+          .filter(part => part && !SUPPORTED_RRULE_PARTS.has(part))
+          .forEach(part => unmapped(`RRULE ${part}`));
+      }
+
+      const exDates = component.properties.filter(p => p.name === 'EXDATE').flatMap(parseDateList);
+      if (exDates.length) draft.exDates = exDates.map(d => formatReminderDate(zone, d));
+
+      // Alerts: one per VALARM. Files from before alerts kept a single method on the component.
+      const legacyMethod = parseMethod(get('X-MEMENTO-METHOD')?.value);
+      if (legacyMethod) {
+        const contact = get('X-MEMENTO-CONTACT')?.value;
+        draft.alerts = [newAlert(legacyMethod, 0, contact && unescapeText(contact))];
+      } else {
+        draft.alerts = component.children
+          .filter(c => c.name === 'VALARM')
+          .map(alarm => parseAlarm(alarm, date, unmapped))
+          .filter((alert): alert is ReminderAlert => !!alert);
+      }
+
+      const handled = new Set(['DTSTART', 'DUE', 'SUMMARY', 'DESCRIPTION', 'RRULE', 'EXDATE', 'STATUS', 'COMPLETED',
+        'CATEGORIES', 'PRIORITY', 'X-MEMENTO-CATEGORY', 'X-MEMENTO-TYPE', 'X-MEMENTO-METHOD', 'X-MEMENTO-CONTACT', 'X-MEMENTO-COMPLETED']);
+      component.properties.forEach(p => { if (!handled.has(p.name) && !IGNORED.has(p.name)) unmapped(p.name); });
+      component.children.forEach(child => { if (child.name !== 'VALARM') unmapped(child.name); });
+
+      items.set(uid, { uid, kind: component.name, draft });
+    });
+  });
+
+  // Modified instances of imported series
+  exceptions.forEach(({ uid, component }) => {
+    const master = items.get(uid);
+    const get = (name: string) => component.properties.find(p => p.name === name);
+    const originalDate = parseDate(get('RECURRENCE-ID')!);
+    if (!master?.draft.rrule || !originalDate) {
+      unmapped('RECURRENCE-ID without its series');
+      return;
+    }
+    const start = get('DTSTART') || get('DUE');
+    const date = start && parseDate(start);
+    const override: OccurrenceOverride = { originalDate: formatReminderDate(master.draft, originalDate) };
+    if (date && date.getTime() !== originalDate.getTime()) override.date = formatReminderDate(master.draft, date);
+    const title = get('SUMMARY') && unescapeText(get('SUMMARY')!.value);
+    if (title && title !== master.draft.title) override.title = title;
+    const description = get('DESCRIPTION') && unescapeText(get('DESCRIPTION')!.value);
+    if (description !== undefined && description !== master.draft.description) override.description = description;
+    if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      master.draft.exDates = [...(master.draft.exDates || []), formatReminderDate(master.draft, originalDate)];
+      return;
+    }
+    master.draft.overrides = [...(master.draft.overrides || []), override];
+  });
+
+  return {
+    items: Array.from(items.values()),
+    unmapped: Array.from(unmappedCounts.entries()).map(([property, count]) => ({ property, count })).sort((a, b) => b.count - a.count),
+    errors,
+  };
+};
+
+/**
+ * The existing reminder an imported item corresponds to: same UID, one of our
+ * own exported UIDs, or the same title at the same time.
+ */
+export const findExistingReminder = (item: IcsImportItem, reminders: Reminder[]): Reminder | undefined => {
+  const ownId = item.uid.endsWith(`@${UID_DOMAIN}`) ? item.uid.slice(0, -UID_DOMAIN.length - 1) : null;
+  return reminders.find(r => r.icalUid === item.uid || r.id === ownId)
+    || reminders.find(r => r.title === item.draft.title && new Date(r.date).getTime() === new Date(item.draft.date).getTime());
+};
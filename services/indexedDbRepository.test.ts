@@ -0,0 +1,156 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { User, CommunicationMethod } from '../types';
+import { reminder } from '../test/fixtures';
+import { SCHEMA_VERSION } from './migrationService';
+import { openIndexedDbRepository } from './indexedDbRepository';
+
+const ANN: User = { id: 'ann', isTemp: false, name: 'Ann' };
+
+// What the app stored in localStorage before schema versions: a bare array
+// with the fixed type, the single method and the old recurrence fields
+const unversioned = (patch: Record<string, unknown> = {}) => ({
+  id: 'r1',
+  userId: 'migrated',
+  title: 'Stand-up',
+  description: '',
+  date: '2026-03-02T09:00:00.000Z',
+  type: 'Meeting',
+  method: CommunicationMethod.Email,
+  contactInfo: 'ann@example.com',
+  recurrence: 'Weekly',
+  recurrenceEndMode: 'count',
+  recurrenceEndValue: 4,
+  completed: false,
+  createdAt: 1,
+  ...patch,
+});
+
+let dbCount = 0;
+const freshName = () => `memento-test-${++dbCount}`;
+
+// A database as an older version of the app left it
+const seedDatabase = (name: string, version: number, meta: Record<string, unknown>, records: unknown[]) =>
+  new Promise<void>((resolve, reject) => {
+    const req = indexedDB.open(name, version);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore('reminders', { keyPath: 'id' });
+      db.createObjectStore('meta');
+      if (version > 1) {
+        db.createObjectStore('quarantine', { autoIncrement: true });
+        req.transaction!.objectStore('reminders').createIndex('userId', 'userId');
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      const tx = db.transaction(['reminders', 'meta'], 'readwrite');
+      Object.entries(meta).forEach(([key, value]) => tx.objectStore('meta').put(value, key));
+      records.forEach(r => tx.objectStore('reminders').put(r));
+      tx.oncomplete = () => { db.close(); resolve(); };
+      tx.onerror = () => reject(tx.error);
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+describe('IndexedDB repository', () => {
+  it('starts empty', async () => {
+    const repository = await openIndexedDbRepository(freshName());
+    expect(await repository.load()).toEqual({ user: null, users: [], reminders: [], rejected: [] });
+    repository.close();
+  });
+
+  it('takes over and migrates the reminders kept in localStorage', async () => {
+    storage.set('memento_user', JSON.stringify(ANN));
+    storage.set('memento_reminders', JSON.stringify([unversioned()]));
+
+    const repository = await openIndexedDbRepository(freshName());
+    const snapshot = await repository.load();
+    expect(snapshot.user).toEqual(ANN);
+    expect(snapshot.users).toEqual([ANN]);
+    expect(snapshot.reminders).toHaveLength(1);
+    expect(snapshot.reminders[0]).toMatchObject({
+      userId: 'ann',
+      category: 'meeting',
+      rrule: { freq: 'WEEKLY', interval: 1, count: 4 },
+      alerts: [{ id: 'a0', offsetMinutes: 0, method: CommunicationMethod.Email, contactInfo: 'ann@example.com' }],
+    });
+    expect(snapshot.reminders[0]).not.toHaveProperty('type');
+    expect(snapshot.reminders[0]).not.toHaveProperty('recurrence');
+    expect(storage.has('memento_reminders')).toBe(false);
+
+    // Migrated once: a second load reads the stored records as they are
+    expect((await repository.load()).reminders).toEqual(snapshot.reminders);
+    repository.close();
+  });
+
+  it('keeps unreadable localStorage data aside', async () => {
+    storage.set('memento_reminders', JSON.stringify([unversioned(), { id: 'r2', title: 42 }]));
+
+    const repository = await openIndexedDbRepository(freshName());
+    const snapshot = await repository.load();
+    expect(snapshot.reminders.map(r => r.id)).toEqual(['r1']);
+    expect(snapshot.rejected).toMatchObject([{ index: 1, id: 'r2' }]);
+    expect(storage.get('memento_reminders_unreadable')).toContain('"r2"');
+    repository.close();
+  });
+
+  it('upgrades records stored at an older schema version and quarantines corrupt ones', async () => {
+    const name = freshName();
+    // Version 4 had a single method and contact instead of alerts
+    const { alerts: _, ...v4 } = { ...reminder(), method: CommunicationMethod.SMS, contactInfo: '+15550100' };
+    await seedDatabase(name, 2, { user: ANN, users: [ANN], schemaVersion: 4 }, [v4, { id: 'broken', userId: 'ann' }]);
+
+    const repository = await openIndexedDbRepository(name);
+    const snapshot = await repository.load();
+    expect(snapshot.reminders).toEqual([
+      reminder('r1', { alerts: [{ id: 'a0', offsetMinutes: 0, method: CommunicationMethod.SMS, contactInfo: '+15550100' }] }),
+    ]);
+    expect(snapshot.rejected).toMatchObject([{ id: 'broken', reason: 'missing title' }]);
+
+    // The upgrade is written back; the corrupt record no longer loads
+    const again = await repository.load();
+    expect(again.rejected).toEqual([]);
+    expect(again.reminders).toEqual(snapshot.reminders);
+    repository.close();
+  });
+
+  it('hands the single-user records of database version 1 to whoever was signed in', async () => {
+    const name = freshName();
+    await seedDatabase(name, 1, { user: ANN, schemaVersion: SCHEMA_VERSION }, [reminder('r1', { userId: 'migrated' })]);
+
+    const repository = await openIndexedDbRepository(name);
+    const snapshot = await repository.load();
+    expect(snapshot.users).toEqual([ANN]);
+    expect(snapshot.reminders).toEqual([reminder()]);
+    expect(await repository.loadReminders('ann')).toEqual([reminder()]);
+    repository.close();
+  });
+
+  it('scopes reminders per user', async () => {
+    const repository = await openIndexedDbRepository(freshName());
+    await repository.load();
+    await repository.saveUser(ANN);
+    await repository.putReminders([reminder(), reminder('r1', { id: 'r2', userId: 'bob' })]);
+    await repository.saveUser({ id: 'temp-user', isTemp: true, name: 'Guest' });
+
+    expect((await repository.loadReminders('ann')).map(r => r.id)).toEqual(['r1']);
+    expect((await repository.loadReminders('bob')).map(r => r.id)).toEqual(['r2']);
+    expect((await repository.load()).users).toEqual([ANN]);
+
+    await repository.deleteReminders(['r1']);
+    expect(await repository.loadReminders('ann')).toEqual([]);
+    repository.close();
+  });
+});
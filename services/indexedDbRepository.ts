@@ -0,0 +1,162 @@
+import { Reminder, User } from '../types';
+import { Repository, RepositorySnapshot, GUEST_USER } from './repository';
+import { SCHEMA_VERSION, RejectedRecord, migrateReminders, parseStoredReminders } from './migrationService';
+
+// IndexedDB-backed repository. Reminders are stored one record per id, so
+// edits only touch the records that changed.
+
+const DB_VERSION = 2;
+const REMINDERS = 'reminders';   // indexed by userId
+const META = 'meta';             // 'user', 'users', 'schemaVersion'
+const QUARANTINE = 'quarantine'; // records that failed validation, kept for recovery
+
+// Where the app kept its data before IndexedDB
+const LEGACY_USER_KEY = 'memento_user';
+const LEGACY_REMINDERS_KEY = 'memento_reminders';
+const LEGACY_UNREADABLE_KEY = 'memento_reminders_unreadable';
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+});
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(name, DB_VERSION);
+  req.onupgradeneeded = (event) => {
+    const db = req.result;
+    const tx = req.transaction!;
+    if (!db.objectStoreNames.contains(REMINDERS)) db.createObjectStore(REMINDERS, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    if (!db.objectStoreNames.contains(QUARANTINE)) db.createObjectStore(QUARANTINE, { autoIncrement: true });
+
+    const reminders = tx.objectStore(REMINDERS);
+    if (!reminders.indexNames.contains('userId')) reminders.createIndex('userId', 'userId');
+
+    if (event.oldVersion === 1) {
+      // Version 1 held a single user's reminders, whose userId could be anything
+      // (e.g. 'migrated'); they belong to whoever was signed in
+      const userRequest = tx.objectStore(META).get('user');
+      userRequest.onsuccess = () => {
+        const user: User = userRequest.result || GUEST_USER;
+        if (!user.isTemp) tx.objectStore(META).put([user], 'users');
+        reminders.openCursor().onsuccess = (e) => {
+          const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (cursor.value.userId !== user.id) cursor.update({ ...cursor.value, userId: user.id });
+          cursor.continue();
+        };
+      };
+    }
+  };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+  req.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another open tab'));
+});
+
+// One-time import of what used to live in localStorage
+const readLegacyStorage = (): RepositorySnapshot => {
+  const savedUser = localStorage.getItem(LEGACY_USER_KEY);
+  const savedReminders = localStorage.getItem(LEGACY_REMINDERS_KEY);
+  const user: User | null = savedUser ? JSON.parse(savedUser) : null;
+  const users = user && !user.isTemp ? [user] : [];
+  if (!savedReminders) return { user, users, reminders: [], rejected: [] };
+
+  try {
+    const { reminders, rejected } = parseStoredReminders(savedReminders);
+    if (rejected.length) localStorage.setItem(LEGACY_UNREADABLE_KEY, savedReminders);
+    // All of it belonged to the one user the app knew about
+    const owner = (user || GUEST_USER).id;
+    return { user, users, reminders: reminders.map(r => ({ ...r, userId: owner })), rejected };
+  } catch (error) {
+    localStorage.setItem(LEGACY_UNREADABLE_KEY, savedReminders);
+    return { user, users, reminders: [], rejected: [{ index: -1, reason: (error as Error).message }] };
+  }
+};
+
+/**
+ * Open (creating or upgrading if needed) the IndexedDB repository. Rejects when
+ * IndexedDB is unavailable, e.g. in some private browsing modes.
+ */
+export const openIndexedDbRepository = async (name: string = 'memento'): Promise<Repository> => {
+  if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+  const db = await openDatabase(name);
+
+  const load = async (): Promise<RepositorySnapshot> => {
+    const read = db.transaction([REMINDERS, META], 'readonly');
+    const [records, user, users, version] = await Promise.all([
+      request(read.objectStore(REMINDERS).getAll()),
+      request(read.objectStore(META).get('user')),
+      request(read.objectStore(META).get('users')),
+      request(read.objectStore(META).get('schemaVersion')),
+    ]);
+
+    if (version === undefined) {
+      // New database: take over localStorage data, then drop it there
+      const legacy = readLegacyStorage();
+      const tx = db.transaction([REMINDERS, META], 'readwrite');
+      legacy.reminders.forEach(r => tx.objectStore(REMINDERS).put(r));
+      if (legacy.user) tx.objectStore(META).put(legacy.user, 'user');
+      tx.objectStore(META).put(legacy.users, 'users');
+      tx.objectStore(META).put(SCHEMA_VERSION, 'schemaVersion');
+      await completion(tx);
+      localStorage.removeItem(LEGACY_USER_KEY);
+      localStorage.removeItem(LEGACY_REMINDERS_KEY);
+      return legacy;
+    }
+
+    const { reminders, rejected } = migrateReminders(records, version);
+    if (version < SCHEMA_VERSION || rejected.length) {
+      // Persist the upgraded records and move corrupt ones out of the way
+      const tx = db.transaction([REMINDERS, META, QUARANTINE], 'readwrite');
+      rejected.forEach((r: RejectedRecord) => {
+        tx.objectStore(QUARANTINE).add({ record: records[r.index], reason: r.reason, at: Date.now() });
+        const id = (records[r.index] as Partial<Reminder> | null)?.id;
+        if (typeof id === 'string') tx.objectStore(REMINDERS).delete(id);
+      });
+      reminders.forEach(r => tx.objectStore(REMINDERS).put(r));
+      tx.objectStore(META).put(SCHEMA_VERSION, 'schemaVersion');
+      await completion(tx);
+    }
+    const owner = (user || GUEST_USER).id;
+    return { user: user ?? null, users: users || [], reminders: reminders.filter(r => r.userId === owner), rejected };
+  };
+
+  return {
+    load,
+    loadReminders: async (userId) => {
+      const tx = db.transaction(REMINDERS, 'readonly');
+      return request(tx.objectStore(REMINDERS).index('userId').getAll(userId));
+    },
+    saveUser: async (user) => {
+      const tx = db.transaction(META, 'readwrite');
+      const meta = tx.objectStore(META);
+      meta.put(user, 'user');
+      if (!user.isTemp) {
+        const users: User[] = (await request(meta.get('users'))) || [];
+        meta.put([...users.filter(u => u.id !== user.id), user], 'users');
+      }
+      await completion(tx);
+    },
+    putReminders: async (reminders) => {
+      if (!reminders.length) return;
+      const tx = db.transaction(REMINDERS, 'readwrite');
+      reminders.forEach(r => tx.objectStore(REMINDERS).put(r));
+      await completion(tx);
+    },
+    deleteReminders: async (ids) => {
+      if (!ids.length) return;
+      const tx = db.transaction(REMINDERS, 'readwrite');
+      ids.forEach(id => tx.objectStore(REMINDERS).delete(id));
+      await completion(tx);
+    },
+    // Other tabs are reached through withTabSync
+    subscribe: () => () => undefined,
+    close: () => db.close(),
+  };
+};
@@ -0,0 +1,199 @@
+import {
+  Reminder, OccurrenceOverride, CommunicationMethod, LegacyRecurrenceFields, LegacyTypeFields, LegacyDeliveryFields
+} from '../types';
+import { migrateLegacyRecurrence } from './rruleService';
+import { migrateOverrideCompletions } from './completionService';
+import { deviceTimeZone, isValidTimeZone } from './timeZoneService';
+import { categoryForLegacyType } from './categoryService';
+
+// Versioned persistence of reminders. Every change to the stored shape bumps
+// SCHEMA_VERSION and appends a migration to MIGRATIONS; data written by any
+// earlier version is brought forward one step at a time.
+
+export const SCHEMA_VERSION = 5;
+
+// Records from the sync server were written at this version or later
+export const SYNC_BASE_VERSION = 3;
+
+// Stored reminders, wrapped so the version travels with the data
+export interface StoredReminders {
+  version: number;
+  reminders: unknown[];
+}
+
+export interface RejectedRecord {
+  index: number;
+  id?: string;
+  title?: string;
+  reason: string;
+}
+
+export interface MigrationResult {
+  reminders: Reminder[];
+  rejected: RejectedRecord[];
+  fromVersion: number;
+}
+
+export class SchemaVersionError extends Error {
+  constructor(public version: number) {
+    super(`Data was written by a newer version of Memento (schema ${version}, this app reads up to ${SCHEMA_VERSION})`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// A stored record on its way up. Each migration reads the fields of its own
+// version; the whole shape is only checked once the record is current.
+type StoredRecord = Record<string, unknown>;
+type Migration = (record: StoredRecord) => StoredRecord;
+
+const migration = <From, To>(migrate: (record: From) => To): Migration =>
+  record => migrate(record as From) as StoredRecord;
+
+// Id of the alert migrated from a reminder's former method, the same on every device
+const LEGACY_ALERT_ID = 'a0';
+
+// MIGRATIONS[n] upgrades a record from version n to n + 1.
+// Version 0 is the unversioned array the app used to store.
+const MIGRATIONS: Migration[] = [
+  // 0 → 1: RecurrenceType + recurrenceEndMode/Value become an RRULE
+  migration((record: Reminder & LegacyRecurrenceFields) => migrateLegacyRecurrence(record)),
+  // 1 → 2: per-instance `completed` on overrides moves into the completion history
+  migration((record: Reminder) => migrateOverrideCompletions(record)),
+  // 2 → 3: dates were instants shown on the device's clock; they now belong to its zone
+  migration((record: Reminder) => (record.timeZone ? record : { ...record, timeZone: deviceTimeZone() })),
+  // 3 → 4: the fixed type becomes one of the default categories, on the series and its instances.
+  // Records that already have a category (written by a newer client over sync) keep it.
+  migration(({ type, ...record }: Reminder & LegacyTypeFields) => ({
+    ...record,
+    category: record.category ?? categoryForLegacyType(type),
+    ...(record.overrides ? {
+      overrides: record.overrides.map(({ type: overrideType, ...o }: OccurrenceOverride & LegacyTypeFields) =>
+        overrideType === undefined || o.category !== undefined ? o : { ...o, category: categoryForLegacyType(overrideType) }),
+    } : {}),
+  })),
+  // 4 → 5: the single method and contact become one alert at the reminder's time.
+  // Records that already have alerts (written by a newer client over sync) keep them.
+  migration(({ method, contactInfo, ...record }: Reminder & LegacyDeliveryFields) => ({
+    ...record,
+    alerts: record.alerts ?? (method ? [{
+      id: LEGACY_ALERT_ID,
+      offsetMinutes: 0,
+      method,
+      ...(method !== CommunicationMethod.Notification && contactInfo ? { contactInfo } : {}),
+    }] : []),
+  })),
+];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIsoDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const isEnumValue = (values: object, value: unknown) => (Object.values(values) as unknown[]).includes(value);
+
+const isInteger = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+const FREQUENCIES: unknown[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/**
+ * Check a record against the current `Reminder` shape. Returns the reason it
+ * is unusable, or null when it is valid.
+ */
+export const validateReminder = (value: unknown): string | null => {
+  if (!isObject(value)) return 'not an object';
+  if (typeof value.id !== 'string' || !value.id) return 'missing id';
+  if (typeof value.userId !== 'string') return 'missing userId';
+  if (typeof value.title !== 'string') return 'missing title';
+  if (typeof value.description !== 'string') return 'description is not text';
+  if (!isIsoDate(value.date)) return 'invalid date';
+  if (value.timeZone !== undefined && (typeof value.timeZone !== 'string' || !isValidTimeZone(value.timeZone))) {
+    return `unknown time zone "${value.timeZone}"`;
+  }
+  if (typeof value.category !== 'string' || !value.category) return 'missing category';
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every((t: unknown) => typeof t === 'string'))) {
+    return 'tags are not a list of text';
+  }
+  if (!Array.isArray(value.alerts)) return 'missing alerts';
+  for (const alert of value.alerts) {
+    if (!isObject(alert) || typeof alert.id !== 'string' || !alert.id) return 'alert without an id';
+    if (!isInteger(alert.offsetMinutes, 0)) return 'invalid alert lead time';
+    if (!isEnumValue(CommunicationMethod, alert.method)) return `unknown method "${alert.method}"`;
+    if (alert.contactInfo !== undefined && typeof alert.contactInfo !== 'string') return 'alert contact is not text';
+  }
+  if (typeof value.completed !== 'boolean') return 'completed is not a boolean';
+  if (typeof value.createdAt !== 'number') return 'invalid createdAt';
+
+  if (value.rrule !== undefined) {
+    const rule = value.rrule;
+    if (!isObject(rule) || !FREQUENCIES.includes(rule.freq)) return 'invalid recurrence rule';
+    if (!isInteger(rule.interval, 1)) return 'invalid recurrence interval';
+    if (rule.until !== undefined && !isIsoDate(rule.until)) return 'invalid recurrence end date';
+    if (rule.count !== undefined && !isInteger(rule.count, 1)) return 'invalid recurrence count';
+  }
+  if (value.exDates !== undefined && !(Array.isArray(value.exDates) && value.exDates.every(isIsoDate))) {
+    return 'invalid skipped dates';
+  }
+  if (value.overrides !== undefined && !(Array.isArray(value.overrides) && value.overrides.every(
+    (o: unknown) => isObject(o) && isIsoDate(o.originalDate) && (o.date === undefined || isIsoDate(o.date))
+  ))) {
+    return 'invalid occurrence overrides';
+  }
+  if (value.completions !== undefined && !(Array.isArray(value.completions) && value.completions.every(
+    (c: unknown) => isObject(c) && isIsoDate(c.occurrenceDate) && typeof c.completedAt === 'number'
+  ))) {
+    return 'invalid completion history';
+  }
+  return null;
+};
+
+/**
+ * Bring records written at `fromVersion` up to SCHEMA_VERSION and validate
+ * them. Corrupt records are reported, never thrown.
+ */
+export const migrateReminders = (records: unknown[], fromVersion: number): MigrationResult => {
+  if (fromVersion > SCHEMA_VERSION) throw new SchemaVersionError(fromVersion);
+
+  const reminders: Reminder[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  records.forEach((record, index) => {
+    const describe = (reason: string): RejectedRecord => ({
+      index,
+      id: isObject(record) && typeof record.id === 'string' ? record.id : undefined,
+      title: isObject(record) && typeof record.title === 'string' ? record.title : undefined,
+      reason,
+    });
+    if (!isObject(record)) {
+      rejected.push(describe('not an object'));
+      return;
+    }
+
+    let migrated = record;
+    try {
+      for (let version = fromVersion; version < SCHEMA_VERSION; version++) migrated = MIGRATIONS[version](migrated);
+    } catch (error) {
+      rejected.push(describe(`migration failed: ${(error as Error).message}`));
+      return;
+    }
+
+    const reason = validateReminder(migrated);
+    if (reason) rejected.push(describe(reason));
+    // Valid, so a Reminder after all
+    else reminders.push(migrated as unknown as Reminder);
+  });
+
+  return { reminders, rejected, fromVersion };
+};
+
+/**
+ * Read reminders stored in localStorage, either versioned or as the
+ * unversioned array that came before.
+ */
+export const parseStoredReminders = (raw: string): MigrationResult => {
+  const parsed: unknown = JSON.parse(raw);
+  if (Array.isArray(parsed)) return migrateReminders(parsed, 0);
+  if (isObject(parsed) && typeof parsed.version === 'number' && Array.isArray(parsed.reminders)) {
+    return migrateReminders(parsed.reminders, parsed.version);
+  }
+  throw new Error('Stored reminders are not in a known format');
+};
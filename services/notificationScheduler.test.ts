@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CommunicationMethod } from '../types';
+import { reminder } from '../test/fixtures';
+import { Clock, DueNotification, SchedulerState, createNotificationScheduler } from './notificationScheduler';
+
+// A clock that only moves when told to, running timers as it passes them
+const createFakeClock = (start: number) => {
+  let now = start;
+  let timers: { id: number; at: number; callback: () => void }[] = [];
+  let nextId = 1;
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const id = nextId++;
+      timers.push({ id, at: now + ms, callback });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      timers = timers.filter(t => t.id !== handle);
+    },
+  };
+  const advanceTo = (time: number) => {
+    for (;;) {
+      const next = timers.filter(t => t.at <= time).sort((a, b) => a.at - b.at)[0];
+      if (!next) break;
+      timers = timers.filter(t => t !== next);
+      now = next.at;
+      next.callback();
+    }
+    now = time;
+  };
+  return { clock, advanceTo, pending: () => timers.map(t => t.at) };
+};
+
+const at = (iso: string) => Date.parse(iso);
+
+describe('notification scheduler', () => {
+  let fake: ReturnType<typeof createFakeClock>;
+  let shown: DueNotification[];
+  let saved: SchedulerState | null;
+
+  const start = (time: string, state: SchedulerState | null = null) => {
+    fake = createFakeClock(at(time));
+    shown = [];
+    saved = state;
+    return createNotificationScheduler({
+      clock: fake.clock,
+      notifier: { show: n => shown.push(n) },
+      store: { load: () => saved, save: s => { saved = s; } },
+    });
+  };
+
+  beforeEach(() => {
+    shown = [];
+  });
+
+  it('fires a reminder when it comes due', () => {
+    const scheduler = start('2026-03-02T09:00:00Z');
+    scheduler.sync([reminder()]);
+    expect(shown).toEqual([]);
+    expect(fake.pending()).toEqual([at('2026-03-02T10:00:00Z')]);
+
+    fake.advanceTo(at('2026-03-02T10:00:00Z'));
+    expect(shown).toMatchObject([{ reminderId: 'r1', title: 'Reminder r1', kind: 'due' }]);
+    scheduler.stop();
+  });
+
+  it('fires each alert of a reminder, lead alerts saying when it is due', () => {
+    const scheduler = start('2026-03-02T09:00:00Z');
+    scheduler.sync([reminder('r1', {
+      alerts: [
+        { id: 'early', offsetMinutes: 15, method: CommunicationMethod.Notification },
+        { id: 'mail', offsetMinutes: 30, method: CommunicationMethod.Email, contactInfo: 'a@example.com' },
+        { id: 'now', offsetMinutes: 0, method: CommunicationMethod.Notification },
+      ],
+    })]);
+
+    fake.advanceTo(at('2026-03-02T10:00:00Z'));
+    expect(shown.map(n => n.key.split('/')[1])).toEqual(['early', 'now']);
+    expect(shown[0].body).toMatch(/^Due /);
+    scheduler.stop();
+  });
+
+  it('reschedules when the reminders change', () => {
+    const scheduler = start('2026-03-02T09:00:00Z');
+    scheduler.sync([reminder()]);
+    scheduler.sync([reminder('r1', { date: '2026-03-02T09:30:00.000Z' })]);
+    expect(fake.pending()).toEqual([at('2026-03-02T09:30:00Z')]);
+
+    fake.advanceTo(at('2026-03-02T09:30:00Z'));
+    expect(shown).toHaveLength(1);
+
+    // Completed reminders stay quiet
+    scheduler.sync([reminder('r1', { date: '2026-03-02T09:45:00.000Z', completed: true })]);
+    fake.advanceTo(at('2026-03-02T10:00:00Z'));
+    expect(shown).toHaveLength(1);
+    scheduler.stop();
+  });
+
+  it('never sleeps longer than an hour', () => {
+    const scheduler = start('2026-03-01T09:00:00Z');
+    scheduler.sync([reminder()]);
+    expect(fake.pending()).toEqual([at('2026-03-01T10:00:00Z')]);
+    scheduler.stop();
+  });
+
+  it('catches up on what came due while closed', () => {
+    const scheduler = start('2026-03-02T12:00:00Z', { lastCheckedAt: at('2026-03-02T08:00:00Z'), snoozes: [] });
+    scheduler.sync([reminder()]);
+    expect(shown).toMatchObject([{ reminderId: 'r1', kind: 'missed' }]);
+    expect(saved?.lastCheckedAt).toBe(at('2026-03-02T12:00:00Z'));
+    scheduler.stop();
+  });
+
+  it('collapses a long catch-up into one summary', () => {
+    const scheduler = start('2026-03-02T12:00:00Z', { lastCheckedAt: at('2026-03-02T08:00:00Z'), snoozes: [] });
+    scheduler.sync(['a', 'b', 'c', 'd'].map(id => reminder(id, { title: id })));
+    expect(shown).toHaveLength(1);
+    expect(shown[0]).toMatchObject({ key: 'catch-up', title: 'You missed 4 reminders', body: 'a, b, c, d' });
+    scheduler.stop();
+  });
+
+  it('fires a snoozed alert again later', () => {
+    const scheduler = start('2026-03-02T09:00:00Z');
+    scheduler.sync([reminder()]);
+    fake.advanceTo(at('2026-03-02T10:00:00Z'));
+    scheduler.snooze(shown[0].key, '5m');
+    expect(saved?.snoozes).toHaveLength(1);
+
+    fake.advanceTo(at('2026-03-02T10:05:00Z'));
+    expect(shown.map(n => n.kind)).toEqual(['due', 'snoozed']);
+    expect(saved?.snoozes).toEqual([]);
+    scheduler.stop();
+  });
+
+  it('drops a snooze whose reminder was completed', () => {
+    const scheduler = start('2026-03-02T09:00:00Z');
+    scheduler.sync([reminder()]);
+    fake.advanceTo(at('2026-03-02T10:00:00Z'));
+    scheduler.snooze(shown[0].key, '5m');
+    scheduler.sync([reminder('r1', { completed: true })]);
+
+    fake.advanceTo(at('2026-03-02T10:10:00Z'));
+    expect(shown).toHaveLength(1);
+    expect(saved?.snoozes).toEqual([]);
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,190 @@
+import * as d3 from 'd3';
+import { Reminder, ReminderAlert, CommunicationMethod } from '../types';
+import { AlertInstance, expandAlerts, findAlert } from './alertService';
+
+// Core of the in-browser notification scheduler. It has no DOM dependencies:
+// time comes from an injected Clock and output goes to an injected Notifier,
+// so it runs the same against a fake clock as in the browser.
+
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export type SnoozeOption = '5m' | '1h' | 'tomorrow';
+
+export interface DueNotification {
+  key: string; // alertKey of the alert
+  reminderId: string;
+  title: string;
+  body: string;
+  dueAt: number;
+  kind: 'due' | 'snoozed' | 'missed';
+}
+
+export interface Notifier {
+  show: (notification: DueNotification) => void;
+}
+
+export interface Snooze {
+  key: string;
+  until: number;
+}
+
+export interface SchedulerState {
+  lastCheckedAt: number;
+  snoozes: Snooze[];
+}
+
+export interface SchedulerStore {
+  load: () => SchedulerState | null;
+  save: (state: SchedulerState) => void;
+}
+
+export interface NotificationScheduler {
+  sync: (reminders: Reminder[]) => void;
+  snooze: (key: string, option: SnoozeOption) => void;
+  stop: () => void;
+}
+
+interface SchedulerOptions {
+  clock: Clock;
+  notifier: Notifier;
+  store: SchedulerStore;
+}
+
+// Never sleep longer than this, so a suspended laptop or a throttled background
+// tab re-checks soon after it wakes up.
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+// Anything that fires later than this is reported as missed
+const LATE_THRESHOLD = 2 * 60 * 1000;
+// Catch-up only covers the last day; older misses are dropped silently
+const CATCH_UP_WINDOW = 24 * 60 * 60 * 1000;
+// More missed reminders than this are collapsed into one summary
+const MAX_CATCH_UP_NOTIFICATIONS = 3;
+
+export const snoozeUntil = (option: SnoozeOption, now: number): number => {
+  switch (option) {
+    case '5m': return now + 5 * 60 * 1000;
+    case '1h': return now + 60 * 60 * 1000;
+    case 'tomorrow': return d3.timeHour.offset(d3.timeDay.offset(d3.timeDay.floor(new Date(now)), 1), 9).getTime();
+  }
+};
+
+const isNotification = (alert: ReminderAlert) => alert.method === CommunicationMethod.Notification;
+
+// Alerts ahead of the time say when it is due
+const toNotification = ({ key, occurrence, alert, at }: AlertInstance, kind: DueNotification['kind'], dueAt = at.getTime()): DueNotification => {
+  const when = occurrence.date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  const { description } = occurrence.reminder;
+  return {
+    key,
+    reminderId: occurrence.reminder.id,
+    title: occurrence.reminder.title,
+    body: alert.offsetMinutes > 0 ? [`Due ${when}`, description].filter(Boolean).join('\n') : description || when,
+    dueAt,
+    kind,
+  };
+};
+
+/**
+ * Create a scheduler. Nothing fires until the first `sync()`, which also
+ * catches up on instances that came due while the app was closed.
+ */
+export const createNotificationScheduler = ({ clock, notifier, store }: SchedulerOptions): NotificationScheduler => {
+  let reminders: Reminder[] = [];
+  let state: SchedulerState | null = null;
+  let timer: unknown = null;
+  let started = false;
+
+  const ensureState = () => state || (state = store.load() || { lastCheckedAt: clock.now(), snoozes: [] });
+  const persist = () => state && store.save(state);
+
+  // Notification alerts in (from, to]
+  const dueBetween = (from: number, to: number) =>
+    expandAlerts(reminders, new Date(from + 1), new Date(to + 1), isNotification);
+
+  const fire = (due: DueNotification[]) => {
+    const missed = due.filter(n => n.kind === 'missed');
+    if (missed.length > MAX_CATCH_UP_NOTIFICATIONS) {
+      notifier.show({
+        key: 'catch-up',
+        reminderId: '',
+        title: `You missed ${missed.length} reminders`,
+        body: missed.map(n => n.title).join(', '),
+        dueAt: clock.now(),
+        kind: 'missed',
+      });
+      due = due.filter(n => n.kind !== 'missed');
+    }
+    due.forEach(n => notifier.show(n));
+  };
+
+  const schedule = () => {
+    if (timer !== null) clock.clearTimeout(timer);
+    timer = null;
+    if (!state) return;
+
+    const now = clock.now();
+    const nextAlert = dueBetween(now, now + MAX_TIMER_DELAY)[0];
+    const candidates = [
+      now + MAX_TIMER_DELAY,
+      ...(nextAlert ? [nextAlert.at.getTime()] : []),
+      ...state.snoozes.map(s => s.until),
+    ];
+    timer = clock.setTimeout(tick, Math.max(0, Math.min(...candidates) - now));
+  };
+
+  const tick = () => {
+    if (!state) return;
+    const now = clock.now();
+    const from = Math.max(state.lastCheckedAt, now - CATCH_UP_WINDOW);
+
+    const due = dueBetween(from, now).map(alert =>
+      toNotification(alert, now - alert.at.getTime() > LATE_THRESHOLD ? 'missed' : 'due'));
+
+    const snoozed = state.snoozes.filter(s => s.until <= now);
+    snoozed.forEach(s => {
+      const alert = findAlert(reminders, s.key);
+      if (alert && !alert.occurrence.reminder.completed) due.push(toNotification(alert, 'snoozed', s.until));
+    });
+
+    state = { lastCheckedAt: now, snoozes: state.snoozes.filter(s => s.until > now) };
+    persist();
+    fire(due);
+    schedule();
+  };
+
+  return {
+    sync: (next) => {
+      reminders = next;
+      ensureState();
+      if (started) {
+        schedule();
+      } else {
+        started = true;
+        tick();
+      }
+    },
+    snooze: (key, option) => {
+      const current = ensureState();
+      state = {
+        ...current,
+        snoozes: [...current.snoozes.filter(s => s.key !== key), { key, until: snoozeUntil(option, clock.now()) }],
+      };
+      persist();
+      if (started) schedule();
+    },
+    stop: () => {
+      if (timer !== null) clock.clearTimeout(timer);
+      timer = null;
+    },
+  };
+};
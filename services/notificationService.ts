@@ -0,0 +1,103 @@
+import { Notifier, SchedulerStore, SchedulerState, SnoozeOption } from './notificationScheduler';
+
+// Browser side of the notification scheduler: service worker registration,
+// the Notifications API and persistence of the scheduler state.
+
+const SERVICE_WORKER_URL = '/notification-sw.js';
+const STATE_KEY = 'memento_notification_state';
+const SNOOZE_OPTIONS: SnoozeOption[] = ['5m', '1h', 'tomorrow'];
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isNotificationSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!isNotificationSupported()) return 'unsupported';
+  return Notification.requestPermission();
+};
+
+export const registerNotificationWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+          console.error("Service worker registration failed:", error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return registration;
+};
+
+/**
+ * Shows notifications through the service worker, so they carry snooze actions
+ * and work from a background tab. Falls back to a plain Notification.
+ */
+export const createBrowserNotifier = (): Notifier => ({
+  show: (n) => {
+    if (getNotificationPermission() !== 'granted') return;
+
+    const prefix = n.kind === 'missed' ? 'Missed: ' : n.kind === 'snoozed' ? 'Snoozed: ' : '';
+    const options = {
+      body: n.body,
+      tag: n.key,
+      data: { key: n.key },
+      requireInteraction: true,
+      // `actions` is only understood by ServiceWorkerRegistration.showNotification
+      actions: n.reminderId ? [
+        { action: 'snooze-5m', title: 'Snooze 5 min' },
+        { action: 'snooze-1h', title: '1 hour' },
+        { action: 'snooze-tomorrow', title: 'Tomorrow' },
+      ] : [],
+    };
+
+    registerNotificationWorker().then(reg => {
+      if (reg) return reg.showNotification(`${prefix}${n.title}`, options as NotificationOptions);
+      new Notification(`${prefix}${n.title}`, { body: options.body, tag: options.tag });
+    }).catch(error => console.error("Notification Error:", error));
+  },
+});
+
+export const localSchedulerStore: SchedulerStore = {
+  load: () => {
+    try {
+      const saved = localStorage.getItem(STATE_KEY);
+      return saved ? JSON.parse(saved) as SchedulerState : null;
+    } catch {
+      return null;
+    }
+  },
+  save: (state) => localStorage.setItem(STATE_KEY, JSON.stringify(state)),
+};
+
+const isSnoozeOption = (value: unknown): value is SnoozeOption => SNOOZE_OPTIONS.includes(value as SnoozeOption);
+
+/**
+ * Subscribe to snooze actions relayed by the service worker.
+ * Returns an unsubscribe function.
+ */
+export const onNotificationSnooze = (handler: (key: string, option: SnoozeOption) => void): (() => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    const { type, key, snooze } = event.data || {};
+    if (type === 'memento:notification' && key && isSnoozeOption(snooze)) handler(key, snooze);
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+/**
+ * A snooze chosen while no app window was open arrives as ?snooze=…&key=…
+ * Reads it once and strips it from the address bar.
+ */
+export const takePendingSnooze = (): { key: string; option: SnoozeOption } | null => {
+  const params = new URLSearchParams(window.location.search);
+  const key = params.get('key');
+  const option = params.get('snooze');
+  if (params.has('snooze') || params.has('open')) {
+    window.history.replaceState(null, '', window.location.pathname);
+  }
+  return key && isSnoozeOption(option) ? { key, option } : null;
+};
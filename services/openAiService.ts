@@ -0,0 +1,107 @@
+import { ChatMessage, AssistantToolCall } from '../types';
+import { AiProvider, AiError, errorFromStatus, toAiError } from './aiProvider';
+
+// A provider for any server speaking the OpenAI chat completions API, such as
+// OpenAI itself or a local model behind Ollama, llama.cpp or LM Studio.
+
+export interface OpenAiOptions {
+  baseUrl: string; // up to and including the version, e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // local servers usually need none
+}
+
+// Chat turns as chat completion messages; tool results answer their call by id
+const toMessages = (instructions: string | undefined, messages: ChatMessage[]): Record<string, unknown>[] => [
+  ...(instructions ? [{ role: 'system', content: instructions }] : []),
+  ...messages.flatMap((m): Record<string, unknown>[] => {
+    if (m.role === 'tool') {
+      return (m.toolResults || []).map(r => ({ role: 'tool', tool_call_id: r.callId, content: JSON.stringify(r.result) }));
+    }
+    if (m.role === 'user') return [{ role: 'user', content: m.text }];
+    return [{
+      role: 'assistant',
+      content: m.text || null,
+      ...(m.toolCalls?.length ? {
+        tool_calls: m.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } })),
+      } : {}),
+    }];
+  }),
+];
+
+const parseArguments = (json: string): Record<string, unknown> => {
+  try {
+    const args = JSON.parse(json || '{}');
+    return args && typeof args === 'object' ? args : {};
+  } catch {
+    return {}; // the tool reports the missing arguments back to the model
+  }
+};
+
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiOptions): AiProvider => ({
+  generate: async ({ instructions, messages, tools = [], json, onText, signal }) => {
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({
+          model,
+          stream: true,
+          messages: toMessages(instructions, messages),
+          ...(tools.length ? {
+            tools: tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } })),
+          } : {}),
+          ...(json ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        const detail = body?.error?.message || response.statusText;
+        if (body?.error?.code === 'content_filter') throw new AiError('safety', detail);
+        throw errorFromStatus(response.status, detail);
+      }
+
+      // Server-sent events, one chunk of the reply per `data:` line
+      let text = '';
+      const calls: { id: string; name: string; arguments: string }[] = [];
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          const chunk = JSON.parse(data);
+          if (chunk.error) throw errorFromStatus(Number(chunk.error.code) || 500, chunk.error.message);
+          const choice = chunk.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new AiError('safety');
+          if (choice?.delta?.content) {
+            text += choice.delta.content;
+            onText?.(text);
+          }
+          // Tool calls arrive in pieces, keyed by their index
+          for (const delta of choice?.delta?.tool_calls || []) {
+            const call = calls[delta.index] ||= { id: '', name: '', arguments: '' };
+            if (delta.id) call.id = delta.id;
+            if (delta.function?.name) call.name += delta.function.name;
+            if (delta.function?.arguments) call.arguments += delta.function.arguments;
+          }
+        }
+      }
+
+      const toolCalls: AssistantToolCall[] = calls.filter(Boolean).map((call, i) => ({
+        id: call.id || `call-${Date.now()}-${i}`,
+        name: call.name,
+        args: parseArguments(call.arguments),
+      }));
+      return { text: text.trim(), toolCalls };
+    } catch (error) {
+      throw toAiError(error);
+    }
+  },
+});
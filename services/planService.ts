@@ -0,0 +1,166 @@
+import { Reminder, User, CommunicationMethod, PlanId } from '../types';
+import { alertMethods } from './alertService';
+import planConfig from '../config/plans.json';
+
+// Plans and their limits. Guests are always on the guest plan; accounts get
+// the plan the server reports for them, or 'free'.
+
+export type QuotaKind = 'activeReminders' | 'recurringSeries' | 'deliveryChannels' | 'aiCallsPerDay';
+
+export interface PlanLimits {
+  activeReminders: number; // reminders not yet completed
+  recurringSeries: number; // active reminders with a recurrence rule
+  deliveryChannels: CommunicationMethod[];
+  aiCallsPerDay: number;
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  limits: PlanLimits;
+  // What creating one reminder too many does: offer to replace the oldest, or refuse
+  whenFull: 'replace' | 'block';
+}
+
+const CHANNELS: string[] = Object.values(CommunicationMethod);
+
+// The limits live in config/plans.json, which the server reads too
+const readPlan = (id: PlanId): Plan => {
+  const { name, limits, whenFull } = planConfig[id];
+  const unknown = limits.deliveryChannels.find(m => !CHANNELS.includes(m));
+  if (unknown) throw new Error(`config/plans.json: ${id} has unknown delivery channel "${unknown}"`);
+  if (whenFull !== 'replace' && whenFull !== 'block') {
+    throw new Error(`config/plans.json: ${id} has unknown whenFull "${whenFull}"`);
+  }
+  return { id, name, limits: { ...limits, deliveryChannels: limits.deliveryChannels as CommunicationMethod[] }, whenFull };
+};
+
+export const PLANS: Record<PlanId, Plan> = {
+  guest: readPlan('guest'),
+  free: readPlan('free'),
+  plus: readPlan('plus'),
+};
+
+export const QUOTA_LABELS: Record<QuotaKind, string> = {
+  activeReminders: 'Active reminders',
+  recurringSeries: 'Recurring series',
+  deliveryChannels: 'Delivery channels',
+  aiCallsPerDay: 'AI requests today',
+};
+
+// The plan of an account by its stored id; unknown or missing ids get 'free'
+export const accountPlan = (planId?: string): Plan =>
+  Object.values(PLANS).find(p => p.id === planId) || PLANS.free;
+
+export const planFor = (user: User): Plan =>
+  user.isTemp ? PLANS.guest : accountPlan(user.plan);
+
+export interface PlanUsage {
+  activeReminders: number;
+  recurringSeries: number;
+  aiCallsToday: number;
+}
+
+export class QuotaError extends Error {
+  constructor(
+    public quota: QuotaKind,
+    public plan: Plan,
+    public used: number,
+    public limit: number,
+    public channel?: CommunicationMethod // the refused one, for deliveryChannels
+  ) {
+    super(quotaMessage(quota, plan, limit, channel));
+    this.name = 'QuotaError';
+  }
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const quotaMessage = (quota: QuotaKind, plan: Plan, limit: number, channel?: CommunicationMethod) => {
+  switch (quota) {
+    case 'activeReminders': return `The ${plan.name} plan allows ${plural(limit, 'active reminder')}.`;
+    case 'recurringSeries': return `The ${plan.name} plan allows ${plural(limit, 'recurring reminder')}.`;
+    case 'deliveryChannels': return `${channel} delivery isn't available on the ${plan.name} plan.`;
+    case 'aiCallsPerDay': return `The ${plan.name} plan allows ${plural(limit, 'AI request')} a day. Try again tomorrow.`;
+  }
+};
+
+const isActive = (r: Reminder) => !r.completed;
+
+export const measureUsage = (reminders: Reminder[], aiCallsToday: number): PlanUsage => ({
+  activeReminders: reminders.filter(isActive).length,
+  recurringSeries: reminders.filter(r => isActive(r) && r.rrule).length,
+  aiCallsToday,
+});
+
+/**
+ * The first limit that going from `previous` to `next` would break, or null.
+ * Only growth is refused: a user above a limit (e.g. after a plan change) can
+ * still edit, complete and delete.
+ */
+export const checkReminderQuota = (plan: Plan, previous: Reminder[], next: Reminder[]): QuotaError | null => {
+  const before = measureUsage(previous, 0);
+  const after = measureUsage(next, 0);
+  const { limits } = plan;
+
+  if (after.activeReminders > limits.activeReminders && after.activeReminders > before.activeReminders) {
+    return new QuotaError('activeReminders', plan, after.activeReminders, limits.activeReminders);
+  }
+  if (after.recurringSeries > limits.recurringSeries && after.recurringSeries > before.recurringSeries) {
+    return new QuotaError('recurringSeries', plan, after.recurringSeries, limits.recurringSeries);
+  }
+
+  // Channels a reminder already used stay allowed on it
+  const methods = new Map(previous.map(r => [r.id, alertMethods(r)]));
+  for (const r of next.filter(isActive)) {
+    const refused = alertMethods(r).find(m => !methods.get(r.id)?.includes(m) && !limits.deliveryChannels.includes(m));
+    if (refused) return new QuotaError('deliveryChannels', plan, 0, limits.deliveryChannels.length, refused);
+  }
+  return null;
+};
+
+/**
+ * Make room for `added` new reminders by dropping the oldest active ones, for
+ * plans that replace instead of refusing.
+ */
+export const replaceOldest = (plan: Plan, reminders: Reminder[], added: number): Reminder[] => {
+  const active = reminders.filter(isActive).sort((a, b) => a.createdAt - b.createdAt);
+  const excess = active.length + added - plan.limits.activeReminders;
+  if (excess <= 0) return reminders;
+  const dropped = new Set(active.slice(0, excess).map(r => r.id));
+  return reminders.filter(r => !dropped.has(r.id));
+};
+
+// --- AI requests per day, counted per user in localStorage ---
+
+const AI_USAGE_KEY = 'memento_ai_usage';
+
+const dayKey = (now: number) => new Date(now).toDateString();
+
+const loadAiUsage = (): Record<string, { day: string; count: number }> => {
+  try {
+    return JSON.parse(localStorage.getItem(AI_USAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const countAiCalls = (userId: string, now: number = Date.now()): number => {
+  const entry = loadAiUsage()[userId];
+  return entry && entry.day === dayKey(now) ? entry.count : 0;
+};
+
+/**
+ * Count one AI request against today's allowance. Throws QuotaError when the
+ * allowance is used up; returns the new count otherwise.
+ */
+export const consumeAiCall = (plan: Plan, userId: string, now: number = Date.now()): number => {
+  const used = countAiCalls(userId, now);
+  if (used >= plan.limits.aiCallsPerDay) {
+    throw new QuotaError('aiCallsPerDay', plan, used, plan.limits.aiCallsPerDay);
+  }
+  const usage = loadAiUsage();
+  usage[userId] = { day: dayKey(now), count: used + 1 };
+  localStorage.setItem(AI_USAGE_KEY, JSON.stringify(usage));
+  return used + 1;
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RecurrenceRule } from '../types';
+import { parseQuickAdd } from './quickAddService';
+
+// Monday March 2nd 2026, 12:00 in Berlin (UTC+1)
+const NOW = new Date('2026-03-02T11:00:00Z');
+const ZONE = 'Europe/Berlin';
+
+const weekly = (...days: string[]): RecurrenceRule =>
+  ({ freq: 'WEEKLY', interval: 1, byDay: days.map(day => ({ day })) } as RecurrenceRule);
+
+interface Case {
+  text: string;
+  title: string;
+  date: string; // UTC
+  rrule?: RecurrenceRule;
+  tags?: string[];
+  category?: string;
+}
+
+const CASES: Case[] = [
+  // A weekday that is today, at a time already gone, is next week's
+  { text: 'gym mon 7am', title: 'Gym', date: '2026-03-09T06:00:00.000Z', category: 'health' },
+  { text: 'gym mon 3pm', title: 'Gym', date: '2026-03-02T14:00:00.000Z', category: 'health' },
+  { text: 'gym this mon 7am', title: 'Gym', date: '2026-03-09T06:00:00.000Z' },
+  { text: 'report mon', title: 'Report', date: '2026-03-09T08:00:00.000Z' },
+  { text: 'dentist next mon 3pm', title: 'Dentist', date: '2026-03-09T14:00:00.000Z' },
+  { text: 'call mom today 7am', title: 'Call mom', date: '2026-03-02T06:00:00.000Z' },
+  { text: 'wedding fri', title: 'Wedding', date: '2026-03-06T08:00:00.000Z' },
+  { text: 'call mom 7am', title: 'Call mom', date: '2026-03-03T06:00:00.000Z' },
+
+  // Weekday lists repeat weekly, from the first of them still ahead
+  {
+    text: 'gym mon wed fri 7am #health',
+    title: 'Gym',
+    date: '2026-03-04T06:00:00.000Z',
+    rrule: weekly('MO', 'WE', 'FR'),
+    tags: ['health'],
+    category: 'health',
+  },
+  { text: 'gym mon wed fri 6pm', title: 'Gym', date: '2026-03-02T17:00:00.000Z', rrule: weekly('MO', 'WE', 'FR') },
+  { text: 'piano tue and thu 5pm', title: 'Piano', date: '2026-03-03T16:00:00.000Z', rrule: weekly('TU', 'TH') },
+  { text: 'standup on mon, thu at 9:30', title: 'Standup', date: '2026-03-05T08:30:00.000Z', rrule: weekly('MO', 'TH') },
+  { text: 'standup every mon and thu 9:30', title: 'Standup', date: '2026-03-05T08:30:00.000Z', rrule: weekly('MO', 'TH') },
+  { text: 'yoga every weekend', title: 'Yoga', date: '2026-03-07T08:00:00.000Z', rrule: weekly('SA', 'SU') },
+];
+
+describe('parseQuickAdd', () => {
+  it.each(CASES)('reads "$text"', ({ text, title, date, rrule, tags, category }) => {
+    const { draft, hasDate } = parseQuickAdd(text, NOW, ZONE);
+    expect(hasDate).toBe(true);
+    expect(draft.title).toBe(title);
+    expect(draft.date).toBe(date);
+    expect(draft.rrule).toEqual(rrule);
+    expect(draft.tags).toEqual(tags);
+    if (category) expect(draft.category).toBe(category);
+  });
+});
@@ -0,0 +1,425 @@
+import * as d3 from 'd3';
+import { ReminderDraft, Category, CommunicationMethod, RecurrenceRule, RecurrenceFrequency } from '../types';
+import { toWallInputs, fromWallInputs, formatReminderDate } from './timeZoneService';
+import { WEEKDAYS } from './rruleService';
+import { newAlert } from './alertService';
+import { DEFAULT_CATEGORIES, defaultCategoryId, matchCategory, normalizeTags } from './categoryService';
+
+// Quick add: one line of English such as "dentist next tue 3pm, remind by SMS
+// +33 6 12 34 56 78, every month until June" read into reminder fields.
+//
+// A fixed list of patterns runs over the text; whatever they match is cut out
+// and the rest becomes the title. Dates are worked out on the wall clock of the
+// reminder's zone, relative to `now`, so the same input always gives the same
+// draft. Phrases it does not know are left in the title.
+//
+//   dates      today, tonight, tomorrow, (this|next|on) tue, next week|month|year,
+//              in 3 days|2 hours|a week, 12 june [2027], june 12[, 2027], 2026-11-03
+//   times      3pm, 3:30 pm, 15:00, at 15, noon, midnight, morning|afternoon|evening
+//   repeats    daily, every day|week|month|year, every 2 weeks, every other month,
+//              every mon and thu, mon wed fri, every weekday|weekend; until <date or
+//              month>, 5 times
+//   alert      by|via sms|text|email|call|notification, text|call|email me,
+//              an email address or phone number; 10 minutes|2 hours|a day before
+//   category   the name of one of the user's categories, or keywords such as "urgent",
+//              "meeting", "dentist" or "idea" for the default ones (kept in the title)
+//   tags       #words, taken out of the title
+
+export type QuickAddField = 'date' | 'time' | 'rrule' | 'until' | 'method' | 'contactInfo' | 'offset' | 'category' | 'tags';
+
+export interface QuickAddPart {
+  field: QuickAddField;
+  text: string; // the phrase as typed
+}
+
+export interface QuickAddResult {
+  draft: ReminderDraft;
+  recognized: QuickAddPart[];
+  hasDate: boolean; // false when no date or time was found and the draft holds the default
+}
+
+// Used when only a date is given, and for the default date (tomorrow)
+export const DEFAULT_TIME = '09:00';
+
+const WEEKDAY_RE = 'sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs?|rsday)?|fri(?:day)?|sat(?:urday)?';
+const MONTH_RE = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const NUMBER_RE = '\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|couple of';
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, 'couple of': 2,
+};
+
+const toNumber = (text: string) => NUMBER_WORDS[text.toLowerCase()] ?? parseInt(text, 10);
+const weekdayIndex = (name: string) => ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'].indexOf(name.slice(0, 2).toLowerCase());
+const monthIndex = (name: string) =>
+  ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(name.slice(0, 3).toLowerCase());
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Wall dates: UTC fields hold the calendar date, see timeZoneService
+const wallDate = (y: number, m: number, d: number) => new Date(Date.UTC(y, m, d));
+const formatWallDate = (w: Date) => `${w.getUTCFullYear()}-${pad(w.getUTCMonth() + 1)}-${pad(w.getUTCDate())}`;
+
+// The next date with this month and day on or after `today`, unless a year is given
+const nextMonthDay = (today: Date, month: number, day: number, year?: number) => {
+  if (year) return wallDate(year, month, day);
+  const thisYear = wallDate(today.getUTCFullYear(), month, day);
+  return thisYear >= today ? thisYear : wallDate(today.getUTCFullYear() + 1, month, day);
+};
+
+// The next given weekday on or after `today` (after it, when `strictlyAfter`)
+const nextWeekday = (today: Date, weekday: number, strictlyAfter: boolean) => {
+  const ahead = (weekday - today.getUTCDay() + 7) % 7;
+  return d3.utcDay.offset(today, ahead === 0 && strictlyAfter ? 7 : ahead);
+};
+
+interface DateMatch {
+  date: Date;     // wall date
+  time?: string;  // "HH:mm" when the phrase implies one
+  rolls?: boolean; // a weekday that may be today: a week later once its time has passed
+}
+
+interface DatePattern {
+  source: string;
+  resolve: (m: RegExpExecArray, today: Date, nowTime: string) => DateMatch;
+}
+
+// Patterns that name a start date; also read after "until"
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    source: '(\\d{4})-(\\d{2})-(\\d{2})\\b',
+    resolve: m => ({ date: wallDate(+m[1], +m[2] - 1, +m[3]) }),
+  },
+  {
+    source: 'day after tomorrow\\b',
+    resolve: (_, today) => ({ date: d3.utcDay.offset(today, 2) }),
+  },
+  {
+    source: '(today|tonight|tomorrow|tmrw)\\b',
+    resolve: (m, today) => {
+      const word = m[1].toLowerCase();
+      if (word === 'today') return { date: today };
+      if (word === 'tonight') return { date: today, time: '20:00' };
+      return { date: d3.utcDay.offset(today, 1) };
+    },
+  },
+  {
+    source: `in\\s+(${NUMBER_RE})\\s+(minute|min|hour|hr|day|week|month|year)s?\\b`,
+    resolve: (m, today, nowTime) => {
+      const n = toNumber(m[1]);
+      const unit = m[2].toLowerCase();
+      if (unit.startsWith('min') || unit.startsWith('h')) {
+        const [h, mi] = nowTime.split(':').map(Number);
+        const at = new Date(today.getTime() + (h * 60 + mi) * 60 * 1000 + n * (unit.startsWith('h') ? 60 : 1) * 60 * 1000);
+        return { date: d3.utcDay.floor(at), time: `${pad(at.getUTCHours())}:${pad(at.getUTCMinutes())}` };
+      }
+      const interval = { day: d3.utcDay, week: d3.utcWeek, month: d3.utcMonth, year: d3.utcYear }[unit as 'day' | 'week' | 'month' | 'year'];
+      return { date: interval.offset(today, n) };
+    },
+  },
+  {
+    source: 'next\\s+(week|month|year)\\b',
+    resolve: (m, today) => {
+      const unit = m[1].toLowerCase();
+      if (unit === 'week') return { date: nextWeekday(today, 1, true) };
+      if (unit === 'month') return { date: d3.utcMonth.offset(d3.utcMonth.floor(today), 1) };
+      return { date: d3.utcYear.offset(d3.utcYear.floor(today), 1) };
+    },
+  },
+  {
+    // "tue" and "this tue" may be today, "next tue" never is
+    source: `(?:(next|this|on)\\s+)?(${WEEKDAY_RE})\\b`,
+    resolve: (m, today) => {
+      const strictlyAfter = m[1]?.toLowerCase() === 'next';
+      return { date: nextWeekday(today, weekdayIndex(m[2]), strictlyAfter), rolls: !strictlyAfter };
+    },
+  },
+  {
+    source: `(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+(${MONTH_RE})\\.?(?:\\s+(\\d{4}))?\\b`,
+    resolve: (m, today) => ({ date: nextMonthDay(today, monthIndex(m[2]), +m[1], m[3] ? +m[3] : undefined) }),
+  },
+  {
+    source: `(?:on\\s+)?(${MONTH_RE})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`,
+    resolve: (m, today) => ({ date: nextMonthDay(today, monthIndex(m[1]), +m[2], m[3] ? +m[3] : undefined) }),
+  },
+];
+
+// "until June": the last day of the next June
+const UNTIL_MONTH: DatePattern = {
+  source: `(${MONTH_RE})(?:\\s+(\\d{4}))?\\b`,
+  resolve: (m, today) => {
+    const month = monthIndex(m[1]);
+    const year = m[2] ? +m[2] : today.getUTCMonth() <= month ? today.getUTCFullYear() : today.getUTCFullYear() + 1;
+    return { date: d3.utcDay.offset(wallDate(year, month + 1, 1), -1) };
+  },
+};
+
+const TIME_PATTERNS: { source: string; resolve: (m: RegExpExecArray) => string | null }[] = [
+  {
+    source: '(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*([ap])\\.?m\\.?(?![a-z])',
+    resolve: m => {
+      const hour = +m[1];
+      if (hour < 1 || hour > 12) return null;
+      return `${pad(hour % 12 + (m[3].toLowerCase() === 'p' ? 12 : 0))}:${m[2] || '00'}`;
+    },
+  },
+  {
+    source: '(?:at\\s+)?([01]?\\d|2[0-3]):([0-5]\\d)\\b',
+    resolve: m => `${pad(+m[1])}:${m[2]}`,
+  },
+  {
+    source: 'at\\s+([01]?\\d|2[0-3])\\b(?!\\s*(?:[,.:/-]\\d|st|nd|rd|th))',
+    resolve: m => `${pad(+m[1])}:00`,
+  },
+  {
+    source: '(?:at\\s+)?(noon|midday|midnight)\\b',
+    resolve: m => m[1].toLowerCase() === 'midnight' ? '00:00' : '12:00',
+  },
+  {
+    source: '(?:in\\s+the\\s+)?(morning|afternoon|evening)\\b',
+    resolve: m => ({ morning: '09:00', afternoon: '15:00', evening: '19:00' } as Record<string, string>)[m[1].toLowerCase()],
+  },
+];
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  day: 'DAILY', daily: 'DAILY', week: 'WEEKLY', weekly: 'WEEKLY',
+  month: 'MONTHLY', monthly: 'MONTHLY', year: 'YEARLY', yearly: 'YEARLY', annually: 'YEARLY',
+};
+
+const METHODS: Record<string, CommunicationMethod> = {
+  sms: CommunicationMethod.SMS, text: CommunicationMethod.SMS,
+  email: CommunicationMethod.Email, 'e-mail': CommunicationMethod.Email, mail: CommunicationMethod.Email,
+  call: CommunicationMethod.Call, phone: CommunicationMethod.Call, 'phone call': CommunicationMethod.Call,
+  notification: CommunicationMethod.Notification, push: CommunicationMethod.Notification,
+};
+
+// Keywords of the default categories, by id; first match wins and the keywords stay in the title
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['urgent', /\b(urgent|asap|important|critical|deadline)\b|!$/i],
+  ['meeting', /\b(meeting|meet|call with|standup|stand-up|sync|interview|appointment with|1:1)\b/i],
+  ['health', /\b(dentist|doctor|dr|gp|gym|workout|yoga|pills?|meds|medication|vaccine|therapy|checkup|check-up|physio)\b/i],
+  ['idea', /\b(idea|maybe|someday|think about|brainstorm|explore)\b/i],
+];
+
+// Minutes in a lead time's unit, by its first letter
+const LEAD_UNITS: Record<string, number> = { m: 1, h: 60, d: 24 * 60, w: 7 * 24 * 60 };
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A category named in the text (longest names first), else one of the default keywords
+const findCategoryIn = (text: string, categories: Category[]): { id: string; phrase: string } | null => {
+  const byName = [...categories].sort((a, b) => b.name.length - a.name.length)
+    .map(c => ({ id: c.id, m: new RegExp(`(?<![\\w#])${escapeRegExp(c.name)}(?!\\w)`, 'i').exec(text) }))
+    .find(({ m }) => m);
+  if (byName) return { id: byName.id, phrase: byName.m![0] };
+  const keyword = CATEGORY_KEYWORDS.find(([id, re]) => categories.some(c => c.id === id) && re.test(text));
+  return keyword ? { id: keyword[0], phrase: keyword[1].exec(text)![0] } : null;
+};
+
+/**
+ * Read a quick-add line into a reminder draft. `now` and `timeZone` (the
+ * viewer's when undefined) anchor relative dates; `categories` are the user's.
+ */
+export const parseQuickAdd = (
+  text: string, now: Date = new Date(), timeZone?: string, categories: Category[] = DEFAULT_CATEGORIES
+): QuickAddResult => {
+  const recognized: QuickAddPart[] = [];
+  let rest = text;
+
+  // Cut the first match of `source` out of the remaining text
+  const take = (source: string, field: QuickAddField, handle: (m: RegExpExecArray) => boolean | void) => {
+    const m = new RegExp(`(?<![\\w+@])${source}`, 'i').exec(rest);
+    if (!m || handle(m) === false) return false;
+    recognized.push({ field, text: m[0].trim() });
+    rest = `${rest.slice(0, m.index)} ${rest.slice(m.index + m[0].length)}`;
+    return true;
+  };
+
+  const nowWall = toWallInputs(now, timeZone);
+  const [ty, tm, td] = nowWall.date.split('-').map(Number);
+  const today = wallDate(ty, tm - 1, td);
+
+  let method: CommunicationMethod | undefined;
+  let contactInfo: string | undefined;
+  let offsetMinutes = 0;
+  let rrule: RecurrenceRule | undefined;
+  let startDate: Date | undefined;
+  let time: string | undefined;
+  let weekdays: number[] = [];
+  const tags: string[] = [];
+
+  // --- Tags ---
+  while (take('#(\\w[\\w-]*)', 'tags', m => { tags.push(m[1]); }));
+
+  // --- Delivery ---
+  take(`(?:remind(?:\\s+me)?\\s+)?(?:by|via|through)\\s+(sms|text|e-?mail|mail|phone call|phone|call|notification|push)\\b`, 'method', m => {
+    method = METHODS[m[1].toLowerCase()];
+  });
+  if (!method) take('(text|call|e-?mail)\\s+me\\b', 'method', m => { method = METHODS[m[1].toLowerCase()]; });
+  take('[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+\\b', 'contactInfo', m => {
+    contactInfo = m[0];
+    method = method || CommunicationMethod.Email;
+  });
+  if (!contactInfo) take('\\+?\\d[\\d\\s().-]{5,}\\d\\b(?![:/])', 'contactInfo', m => {
+    const digits = m[0].replace(/\D/g, '');
+    // Dates and times are not phone numbers
+    if (digits.length < 7 || /^\d{4}-\d{2}-\d{2}$/.test(m[0].trim())) return false;
+    contactInfo = m[0].trim();
+    method = method || CommunicationMethod.SMS;
+  });
+  take('(\\d+|an?|one)\\s*(minutes?|mins?|hours?|hrs?|days?|weeks?)\\s+(?:before|ahead|early)\\b', 'offset', m => {
+    const n = /^\d+$/.test(m[1]) ? Number(m[1]) : 1;
+    offsetMinutes = n * LEAD_UNITS[m[2].toLowerCase()[0]];
+  });
+
+  // --- Repeats, before dates so "every tue" and "until june 3" are not start dates ---
+  const until = (pattern: DatePattern) =>
+    take(`until\\s+${pattern.source}`, 'until', m => {
+      const inner = new RegExp(pattern.source, 'i').exec(m[0].replace(/^until\s+/i, ''))!;
+      const endDate = formatWallDate(pattern.resolve(inner, today, nowWall.time).date);
+      rrule = rrule && { ...rrule, until: formatReminderDate({ timeZone }, fromWallInputs(endDate, '23:59:59.999', timeZone)) };
+      return !!rrule;
+    });
+
+  take(`every\\s+(weekday|weekend)s?\\b|on\\s+(weekday|weekend)s\\b`, 'rrule', m => {
+    weekdays = (m[1] || m[2]).toLowerCase() === 'weekday' ? [1, 2, 3, 4, 5] : [6, 0];
+    rrule = { freq: 'WEEKLY', interval: 1, byDay: weekdays.map(i => ({ day: WEEKDAYS[i] })) };
+  }) ||
+  take(`every\\s+((?:${WEEKDAY_RE})(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY_RE}))*)\\b`, 'rrule', m => {
+    weekdays = m[1].split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex);
+    rrule = { freq: 'WEEKLY', interval: 1, byDay: weekdays.map(i => ({ day: WEEKDAYS[i] })) };
+  }) ||
+  // Several weekdays without "every" ("gym mon wed fri") repeat as well
+  take(`(?:on\\s+)?((?:${WEEKDAY_RE})\\b(?:(?:\\s*,\\s*|\\s+and\\s+|\\s*&\\s*|\\s+)(?:${WEEKDAY_RE})\\b)+)`, 'rrule', m => {
+    weekdays = Array.from(new Set(m[1].match(new RegExp(WEEKDAY_RE, 'gi'))!.map(weekdayIndex)));
+    rrule = { freq: 'WEEKLY', interval: 1, byDay: weekdays.map(i => ({ day: WEEKDAYS[i] })) };
+  }) ||
+  take(`every\\s+(other\\s+|\\d+\\s+)?(day|week|month|year)s?\\b`, 'rrule', m => {
+    const interval = !m[1] ? 1 : /other/i.test(m[1]) ? 2 : parseInt(m[1], 10);
+    rrule = { freq: FREQUENCIES[m[2].toLowerCase()], interval: Math.max(1, interval) };
+  }) ||
+  take('(daily|weekly|monthly|yearly|annually)\\b', 'rrule', m => {
+    rrule = { freq: FREQUENCIES[m[1].toLowerCase()], interval: 1 };
+  });
+
+  if (rrule) {
+    DATE_PATTERNS.some(until) || until(UNTIL_MONTH) ||
+    take(`(?:for\\s+)?(${NUMBER_RE})\\s+times\\b`, 'until', m => {
+      rrule = { ...rrule!, count: Math.max(1, toNumber(m[1])) };
+    });
+  }
+
+  // --- Date and time ---
+  let rolls = false;
+  DATE_PATTERNS.some(pattern => take(pattern.source, 'date', m => {
+    const match = pattern.resolve(m, today, nowWall.time);
+    startDate = match.date;
+    time = match.time;
+    rolls = !!match.rolls;
+  }));
+  if (!time) TIME_PATTERNS.some(pattern => take(pattern.source, 'time', m => {
+    const resolved = pattern.resolve(m);
+    if (!resolved) return false;
+    time = resolved;
+  }));
+  if (rolls && startDate?.getTime() === today.getTime() && (time || DEFAULT_TIME) <= nowWall.time) {
+    startDate = d3.utcDay.offset(today, 7);
+  }
+
+  // Without a date: the first weekday of a weekly repeat, else today, or tomorrow if the time has passed
+  const hasDate = !!startDate || !!time || weekdays.length > 0;
+  if (!startDate) {
+    if (weekdays.length) {
+      const candidates = weekdays.map(w => nextWeekday(today, w, false));
+      startDate = candidates.reduce((a, b) => a < b ? a : b);
+      if (startDate.getTime() === today.getTime() && time && time <= nowWall.time) {
+        startDate = candidates.filter(c => c > today).reduce((a, b) => a < b ? a : b, nextWeekday(today, today.getUTCDay(), true));
+      }
+    } else if (time && time > nowWall.time) {
+      startDate = today;
+    } else {
+      startDate = d3.utcDay.offset(today, 1);
+    }
+  }
+
+  // --- Title ---
+  const title = rest
+    .replace(/^\s*(?:remind\s+me\s+(?:to|about)|remind\s+me|don'?t\s+forget\s+(?:to)?|todo:?)\s+/i, '')
+    .replace(/\s*[,;]\s*/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/(?:\s+(?:on|at|by|via|in|for|from|and|to|remind(?: me)?))+\s*$/i, '')
+    .replace(/^(?:on|at|by|in|and)\s+/i, '')
+    .trim()
+    .replace(/[\s,;:-]+$/, '');
+
+  const category = findCategoryIn(text.replace(/#\w[\w-]*/g, ' ').trim(), categories);
+  if (category) recognized.push({ field: 'category', text: category.phrase });
+
+  const draft: ReminderDraft = {
+    title: title ? title[0].toUpperCase() + title.slice(1) : '',
+    description: '',
+    date: formatReminderDate({ timeZone }, fromWallInputs(formatWallDate(startDate), time || DEFAULT_TIME, timeZone)),
+    category: category ? category.id : defaultCategoryId(categories),
+    alerts: [newAlert(method, offsetMinutes, contactInfo)],
+    completed: false,
+  };
+  if (tags.length) draft.tags = normalizeTags(tags);
+  if (timeZone) draft.timeZone = timeZone;
+  if (rrule) draft.rrule = rrule;
+
+  return { draft, recognized, hasDate };
+};
+
+// Loosely typed fields of a quick-add line, as the AI fallback returns them
+export interface QuickAddFields {
+  title?: string;
+  date?: string;  // "YYYY-MM-DD"
+  time?: string;  // "HH:mm"
+  freq?: string;  // RRULE frequency
+  interval?: number;
+  until?: string; // "YYYY-MM-DD"
+  count?: number;
+  method?: string;
+  contactInfo?: string;
+  minutesBefore?: number;
+  category?: string; // a category's name
+  tags?: string[];
+}
+
+/**
+ * Build a draft from fields read elsewhere (the AI fallback), keeping only
+ * values that are well-formed; the rest fall back to the local parse `base`.
+ */
+export const draftFromFields = (
+  fields: QuickAddFields, base: ReminderDraft, timeZone?: string, categories: Category[] = DEFAULT_CATEGORIES
+): ReminderDraft => {
+  const isDate = (value?: string): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+  const isTime = (value?: string): value is string => !!value && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  const draft: ReminderDraft = { ...base };
+
+  if (fields.title?.trim()) draft.title = fields.title.trim();
+  if (isDate(fields.date)) {
+    draft.date = formatReminderDate({ timeZone }, fromWallInputs(fields.date, isTime(fields.time) ? fields.time : DEFAULT_TIME, timeZone));
+  }
+  const freq = fields.freq?.toUpperCase() as RecurrenceFrequency;
+  if (['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    const rule: RecurrenceRule = { freq, interval: Math.max(1, Math.floor(fields.interval || 1)) };
+    if (isDate(fields.until)) rule.until = formatReminderDate({ timeZone }, fromWallInputs(fields.until, '23:59:59.999', timeZone));
+    else if (fields.count && fields.count > 0) rule.count = Math.floor(fields.count);
+    draft.rrule = rule;
+  }
+  // The fields describe the first alert
+  const [first = newAlert(), ...others] = base.alerts;
+  const alert = { ...first };
+  const method = Object.values(CommunicationMethod).find(m => m.toLowerCase() === fields.method?.toLowerCase());
+  if (method) alert.method = method;
+  if (fields.contactInfo?.trim()) alert.contactInfo = fields.contactInfo.trim();
+  if (Number.isInteger(fields.minutesBefore) && fields.minutesBefore! >= 0) alert.offsetMinutes = fields.minutesBefore!;
+  draft.alerts = [alert, ...others];
+  const category = typeof fields.category === 'string' ? matchCategory(categories, fields.category) : undefined;
+  if (category) draft.category = category.id;
+  if (Array.isArray(fields.tags)) {
+    const tags = normalizeTags([...(base.tags || []), ...fields.tags.filter((t): t is string => typeof t === 'string')]);
+    if (tags.length) draft.tags = tags;
+  }
+  return draft;
+};
@@ -0,0 +1,247 @@
+import * as d3 from 'd3';
+import { Reminder, RecurrenceRule, Occurrence } from '../types';
+import { WEEKDAYS } from './rruleService';
+import { reminderCalendar } from './timeZoneService';
+
+// Hard stop so a malformed rule can never lock up a render
+const MAX_PERIODS = 5000;
+
+// Rules are expanded on wall-clock dates of the reminder's zone, held in the UTC
+// fields of a Date (see timeZoneService), and converted to instants at the end.
+
+const wallDay = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+const daysInMonth = (year: number, month: number) => wallDay(year, month + 1, 0).getUTCDate();
+
+const matchesMonthDay = (day: Date, byMonthDay: number[]) => {
+  const dim = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+  return byMonthDay.some(d => (d > 0 ? d : dim + 1 + d) === day.getUTCDate());
+};
+
+const matchesWeekday = (day: Date, rule: RecurrenceRule) =>
+  !rule.byDay?.length || rule.byDay.some(w => w.day === WEEKDAYS[day.getUTCDay()]);
+
+// Candidate days of a month given BYDAY / BYMONTHDAY.
+// `anchorDay` is used when neither is set: it is clamped to the month length, so a
+// series on the 31st lands on Apr 30 / Feb 28 and a yearly Feb 29 on Feb 28 outside
+// leap years. Explicit BYMONTHDAY values that don't exist in a month are skipped (RFC 5545).
+const monthCandidates = (rule: RecurrenceRule, year: number, month: number, anchorDay: number): Date[] => {
+  const dim = daysInMonth(year, month);
+  const all = d3.range(1, dim + 1).map(d => wallDay(year, month, d));
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.flatMap(w => {
+      const matching = all.filter(d => WEEKDAYS[d.getUTCDay()] === w.day);
+      if (!w.n) return matching;
+      const pick = w.n > 0 ? matching[w.n - 1] : matching[matching.length + w.n];
+      return pick ? [pick] : [];
+    });
+    return rule.byMonthDay?.length ? days.filter(d => matchesMonthDay(d, rule.byMonthDay!)) : days;
+  }
+  if (rule.byMonthDay?.length) return all.filter(d => matchesMonthDay(d, rule.byMonthDay!));
+  return [wallDay(year, month, Math.min(anchorDay, dim))];
+};
+
+// Candidate days (wall midnight, unsorted) of the k-th period of the rule
+const periodCandidates = (rule: RecurrenceRule, dtstart: Date, k: number): Date[] => {
+  const step = k * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = d3.utcDay.offset(d3.utcDay.floor(dtstart), step);
+      const ok = matchesWeekday(day, rule) && (!rule.byMonthDay?.length || matchesMonthDay(day, rule.byMonthDay));
+      return ok ? [day] : [];
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = d3.utcMonday.offset(d3.utcMonday.floor(dtstart), step);
+      const days = rule.byDay?.length
+        ? d3.utcDay.range(weekStart, d3.utcDay.offset(weekStart, 7)).filter(d => matchesWeekday(d, rule))
+        : [d3.utcDay.offset(weekStart, (dtstart.getUTCDay() + 6) % 7)];
+      return rule.byMonthDay?.length ? days.filter(d => matchesMonthDay(d, rule.byMonthDay!)) : days;
+    }
+    case 'MONTHLY': {
+      const month = wallDay(dtstart.getUTCFullYear(), dtstart.getUTCMonth() + step, 1);
+      return monthCandidates(rule, month.getUTCFullYear(), month.getUTCMonth(), dtstart.getUTCDate());
+    }
+    case 'YEARLY':
+      // BYMONTH is not modelled: yearly rules stay in the month of DTSTART
+      return monthCandidates(rule, dtstart.getUTCFullYear() + step, dtstart.getUTCMonth(), dtstart.getUTCDate());
+  }
+};
+
+/**
+ * Wall dates of the k-th period, in order, with BYSETPOS applied and the
+ * wall-clock time of DTSTART (so a 9:00 reminder stays at 9:00 across DST).
+ */
+const periodOccurrences = (rule: RecurrenceRule, dtstart: Date, k: number): Date[] => {
+  let days = Array.from(new Set(periodCandidates(rule, dtstart, k).map(d => d.getTime())))
+    .sort((a, b) => a - b)
+    .map(t => new Date(t));
+
+  if (rule.bySetPos?.length) {
+    const selected = rule.bySetPos
+      .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((d): d is Date => d !== undefined);
+    days = Array.from(new Set(selected)).sort((a, b) => a.getTime() - b.getTime());
+  }
+
+  const timeOfDay = dtstart.getTime() - d3.utcDay.floor(dtstart).getTime();
+  return days.map(d => new Date(d.getTime() + timeOfDay));
+};
+
+// Cheap lower bound for the first period that may contain `from`, so long-running
+// series don't have to be walked from their first period. COUNT-limited rules
+// always start at period 0 since every earlier occurrence uses up the count.
+const estimateStartPeriod = (rule: RecurrenceRule, dtstart: Date, from: Date): number => {
+  if (rule.count || from <= dtstart) return 0;
+  let elapsed = 0;
+  switch (rule.freq) {
+    case 'DAILY': elapsed = d3.utcDay.count(dtstart, from); break;
+    case 'WEEKLY': elapsed = d3.utcMonday.count(d3.utcMonday.floor(dtstart), from); break;
+    case 'MONTHLY': elapsed = (from.getUTCFullYear() - dtstart.getUTCFullYear()) * 12 + from.getUTCMonth() - dtstart.getUTCMonth(); break;
+    case 'YEARLY': elapsed = from.getUTCFullYear() - dtstart.getUTCFullYear(); break;
+  }
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+};
+
+/**
+ * Walk the raw dates the rule generates from the first one that may be >= `from`,
+ * calling `visit` for each until it returns false or the series ends.
+ * Dates before DTSTART are never produced; UNTIL is inclusive. Exceptions are
+ * applied by the callers, so EXDATEs still use up a COUNT as in RFC 5545.
+ */
+const walkSeries = (reminder: Reminder, from: Date, visit: (date: Date) => boolean) => {
+  const dtstart = new Date(reminder.date);
+  if (isNaN(dtstart.getTime())) return;
+
+  const rule = reminder.rrule;
+  if (!rule) {
+    visit(dtstart);
+    return;
+  }
+
+  const calendar = reminderCalendar(reminder);
+  const wallStart = calendar.toWall(dtstart);
+  const until = rule.until ? new Date(rule.until) : null;
+  const first = estimateStartPeriod(rule, wallStart, calendar.toWall(from));
+  let emitted = 0;
+
+  for (let k = first; k < first + MAX_PERIODS; k++) {
+    for (const wall of periodOccurrences(rule, wallStart, k)) {
+      const date = calendar.fromWall(wall);
+      if (date < dtstart) continue;
+      if (until && date > until) return;
+      if (rule.count && emitted >= rule.count) return;
+      emitted++;
+      if (!visit(date)) return;
+    }
+  }
+};
+
+const sameInstant = (iso: string, date: Date) => new Date(iso).getTime() === date.getTime();
+
+/**
+ * The instance generated at `originalDate` with its exception applied:
+ * null when skipped, otherwise the occurrence with overridden fields and its
+ * completion state merged in.
+ */
+export const resolveOccurrence = (reminder: Reminder, originalDate: Date): Occurrence | null => {
+  if (reminder.exDates?.some(d => sameInstant(d, originalDate))) return null;
+
+  const done = !!reminder.completions?.some(c => sameInstant(c.occurrenceDate, originalDate));
+  const base = done && !reminder.completed ? { ...reminder, completed: true } : reminder;
+
+  const override = reminder.overrides?.find(o => sameInstant(o.originalDate, originalDate));
+  if (!override) return { reminder: base, date: originalDate, originalDate };
+
+  const { originalDate: _original, date, ...fields } = override;
+  return { reminder: { ...base, ...fields }, date: date ? new Date(date) : originalDate, originalDate };
+};
+
+/**
+ * Whether the rule generates an instance at exactly `date`, skipped or not.
+ */
+export const generatesDate = (reminder: Reminder, date: Date): boolean => {
+  let found = false;
+  walkSeries(reminder, date, generated => {
+    found = generated.getTime() === date.getTime();
+    return generated < date;
+  });
+  return found;
+};
+
+const byDate = (a: Occurrence, b: Occurrence) => a.date.getTime() - b.date.getTime();
+
+/**
+ * All occurrences of a reminder within [start, end), in chronological order.
+ * Rescheduled instances are placed at their new date, even when the
+ * rule-generated date lies outside the range.
+ */
+export const expandOccurrences = (reminder: Reminder, start: Date, end: Date): Occurrence[] => {
+  const inRange = (occ: Occurrence | null): occ is Occurrence => !!occ && occ.date >= start && occ.date < end;
+  const visited = new Set<number>();
+  const result: Occurrence[] = [];
+
+  walkSeries(reminder, start, date => {
+    if (date >= end) return false;
+    if (date >= start) {
+      visited.add(date.getTime());
+      const occ = resolveOccurrence(reminder, date);
+      if (inRange(occ)) result.push(occ);
+    }
+    return true;
+  });
+
+  // Instances moved into the range from outside of it
+  (reminder.overrides || []).forEach(o => {
+    const original = new Date(o.originalDate);
+    if (!o.date || visited.has(original.getTime())) return;
+    const occ = resolveOccurrence(reminder, original);
+    if (inRange(occ)) result.push(occ);
+  });
+
+  return result.sort(byDate);
+};
+
+/**
+ * Occurrences of every reminder within [start, end), sorted by date.
+ */
+export const expandReminders = (reminders: Reminder[], start: Date, end: Date): Occurrence[] =>
+  reminders.flatMap(r => expandOccurrences(r, start, end)).sort(byDate);
+
+/**
+ * First occurrence at or after `from`, or null once the series is over.
+ */
+export const getNextOccurrence = (reminder: Reminder, from: Date = new Date()): Occurrence | null => {
+  const hasException = (date: Date) =>
+    !!reminder.exDates?.some(d => sameInstant(d, date)) || !!reminder.overrides?.some(o => sameInstant(o.originalDate, date));
+
+  let next: Occurrence | null = null;
+  walkSeries(reminder, from, date => {
+    if (date < from || hasException(date)) return true;
+    next = resolveOccurrence(reminder, date);
+    return false;
+  });
+
+  // Overridden instances can be moved anywhere, so check them separately
+  (reminder.overrides || []).forEach(o => {
+    const occ = resolveOccurrence(reminder, new Date(o.originalDate));
+    if (occ && occ.date >= from && (!next || occ.date < next.date)) next = occ;
+  });
+  return next;
+};
+
+/**
+ * Number of rule-generated instances (skipped ones included) before `date`.
+ */
+export const countOccurrencesBefore = (reminder: Reminder, date: Date): number => {
+  let count = 0;
+  walkSeries(reminder, new Date(reminder.date), d => {
+    if (d >= date) return false;
+    count++;
+    return true;
+  });
+  return count;
+};
+
+export const occurrenceKey = (occ: Occurrence) => `${occ.reminder.id}:${occ.originalDate.getTime()}`;
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { reminder } from '../test/fixtures';
+import { GUEST_USER, createMemoryRepository, diffReminders, applyReminderChange } from './repository';
+
+describe('diffReminders', () => {
+  it('puts new and changed reminders and deletes removed ones', () => {
+    const a = reminder('a');
+    const b = reminder('b');
+    const c = reminder('c');
+    const changed = { ...b, title: 'B' };
+    expect(diffReminders([a, b, c], [a, changed, reminder('d')])).toEqual({ put: [changed, reminder('d')], deleted: ['c'] });
+  });
+
+  it('writes nothing when nothing changed', () => {
+    const list = [reminder('a'), reminder('b')];
+    expect(diffReminders(list, [...list])).toEqual({ put: [], deleted: [] });
+  });
+});
+
+describe('applyReminderChange', () => {
+  it('replaces in place, appends new ones and drops deleted ones', () => {
+    const list = [reminder('a'), reminder('b'), reminder('c')];
+    const next = applyReminderChange(list, { put: [reminder('b', { title: 'B' }), reminder('d')], deleted: ['a'] });
+    expect(next.map(r => r.title)).toEqual(['B', 'Reminder c', 'Reminder d']);
+  });
+
+  it('returns the same list for a change without reminders', () => {
+    const list = [reminder('a')];
+    expect(applyReminderChange(list, { user: GUEST_USER })).toBe(list);
+  });
+});
+
+describe('memory repository', () => {
+  it('loads the reminders of the current user only', async () => {
+    const repository = createMemoryRepository({
+      user: { id: 'ann', isTemp: false, name: 'Ann' },
+      reminders: [reminder('a'), reminder('b', { userId: 'bob' })],
+    });
+    expect((await repository.load()).reminders.map(r => r.id)).toEqual(['a']);
+    expect((await repository.loadReminders('bob')).map(r => r.id)).toEqual(['b']);
+  });
+
+  it('remembers accounts but not guests', async () => {
+    const repository = createMemoryRepository();
+    await repository.saveUser({ id: 'ann', isTemp: false, name: 'Ann' });
+    await repository.saveUser(GUEST_USER);
+    const snapshot = await repository.load();
+    expect(snapshot.user).toEqual(GUEST_USER);
+    expect(snapshot.users).toEqual([{ id: 'ann', isTemp: false, name: 'Ann' }]);
+  });
+
+  it('puts and deletes reminders', async () => {
+    const repository = createMemoryRepository();
+    await repository.putReminders([reminder('a'), reminder('b')]);
+    await repository.putReminders([reminder('a', { title: 'A' })]);
+    await repository.deleteReminders(['b']);
+    expect(await repository.loadReminders('ann')).toEqual([reminder('a', { title: 'A' })]);
+  });
+});
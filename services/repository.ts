@@ -0,0 +1,124 @@
+import { Reminder, User } from '../types';
+import { RejectedRecord } from './migrationService';
+
+// Storage abstraction for users and their reminders. Reminders of every user
+// on this device live side by side, scoped by `userId`. Writes are
+// incremental: only reminders that changed are put or deleted.
+
+export const GUEST_USER: User = { id: 'temp-user', isTemp: true, name: 'Guest' };
+
+export interface RepositorySnapshot {
+  user: User | null;   // who used the app last
+  users: User[];       // accounts that have been used on this device
+  reminders: Reminder[]; // the current user's
+  rejected: RejectedRecord[]; // stored records that failed validation
+}
+
+// What changed in one write; also what other tabs receive
+export interface RepositoryChange {
+  user?: User;
+  put?: Reminder[];
+  deleted?: string[];
+}
+
+export interface Repository {
+  load: () => Promise<RepositorySnapshot>;
+  loadReminders: (userId: string) => Promise<Reminder[]>;
+  // Makes `user` the current user and remembers accounts
+  saveUser: (user: User) => Promise<void>;
+  putReminders: (reminders: Reminder[]) => Promise<void>;
+  deleteReminders: (ids: string[]) => Promise<void>;
+  // Changes written by other tabs; writes made through this instance are not echoed
+  subscribe: (listener: (change: RepositoryChange) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * The writes needed to go from `previous` to `next`. Reminders are updated
+ * immutably, so an unchanged reminder is the same object in both arrays.
+ */
+export const diffReminders = (previous: Reminder[], next: Reminder[]): { put: Reminder[]; deleted: string[] } => {
+  const before = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    put: next.filter(r => before.get(r.id) !== r),
+    deleted: previous.filter(r => !nextIds.has(r.id)).map(r => r.id),
+  };
+};
+
+export const applyReminderChange = (reminders: Reminder[], change: RepositoryChange): Reminder[] => {
+  if (!change.put?.length && !change.deleted?.length) return reminders;
+  const removed = new Set([...(change.deleted || []), ...(change.put || []).map(r => r.id)]);
+  const replaced = new Map((change.put || []).map(r => [r.id, r]));
+  // Updated reminders keep their position, new ones go to the end
+  const kept = reminders.flatMap(r => replaced.has(r.id) ? [replaced.get(r.id)!] : removed.has(r.id) ? [] : [r]);
+  const existing = new Set(reminders.map(r => r.id));
+  return [...kept, ...(change.put || []).filter(r => !existing.has(r.id))];
+};
+
+/**
+ * Repository that lives only in memory; used where IndexedDB is unavailable
+ * and in tests.
+ */
+export const createMemoryRepository = (initial: Partial<RepositorySnapshot> = {}): Repository => {
+  let user = initial.user ?? null;
+  let users = initial.users || [];
+  const reminders = new Map((initial.reminders || []).map(r => [r.id, r]));
+  const remindersOf = (userId: string) => Array.from(reminders.values()).filter(r => r.userId === userId);
+
+  return {
+    load: async () => ({ user, users, reminders: remindersOf((user || GUEST_USER).id), rejected: [] }),
+    loadReminders: async (userId) => remindersOf(userId),
+    saveUser: async (next) => {
+      user = next;
+      if (!next.isTemp) users = [...users.filter(u => u.id !== next.id), next];
+    },
+    putReminders: async (next) => { next.forEach(r => reminders.set(r.id, r)); },
+    deleteReminders: async (ids) => { ids.forEach(id => reminders.delete(id)); },
+    subscribe: () => () => undefined,
+    close: () => undefined,
+  };
+};
+
+/**
+ * Share every write with other tabs of the app over a BroadcastChannel, and
+ * report theirs to subscribers.
+ */
+export const withTabSync = (repository: Repository, channelName: string = 'memento-sync'): Repository => {
+  if (typeof BroadcastChannel === 'undefined') return repository;
+
+  const channel = new BroadcastChannel(channelName);
+  const listeners = new Set<(change: RepositoryChange) => void>();
+  channel.onmessage = (event: MessageEvent<RepositoryChange>) => listeners.forEach(listener => listener(event.data));
+
+  return {
+    ...repository,
+    saveUser: async (user) => {
+      await repository.saveUser(user);
+      channel.postMessage({ user } satisfies RepositoryChange);
+    },
+    putReminders: async (reminders) => {
+      if (!reminders.length) return;
+      await repository.putReminders(reminders);
+      channel.postMessage({ put: reminders } satisfies RepositoryChange);
+    },
+    deleteReminders: async (ids) => {
+      if (!ids.length) return;
+      await repository.deleteReminders(ids);
+      channel.postMessage({ deleted: ids } satisfies RepositoryChange);
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      const unsubscribe = repository.subscribe(listener);
+      return () => {
+        listeners.delete(listener);
+        unsubscribe();
+      };
+    },
+    close: () => {
+      channel.close();
+      listeners.clear();
+      repository.close();
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder } from '../types';
+import { series } from '../test/fixtures';
+import { expandReminders } from './recurrenceService';
+import { recordMove, rescheduleOccurrence, undoMove } from './rescheduleService';
+
+const march = (reminder: Reminder) =>
+  expandReminders([reminder], new Date('2026-03-01T00:00:00Z'), new Date('2026-03-21T00:00:00Z'))
+    .map(occ => occ.date.toISOString().slice(5, 16));
+
+describe('rescheduleOccurrence', () => {
+  it('moves a whole series with its weekdays and exceptions', () => {
+    const reminder = series({
+      exDates: ['2026-03-05T08:00:00.000Z'],
+      overrides: [{ originalDate: '2026-03-12T08:00:00.000Z', title: 'Leg day' }],
+    });
+    expect(march(reminder)).toEqual(['03-02T08:00', '03-09T08:00', '03-12T08:00', '03-16T08:00', '03-19T08:00']);
+
+    // Monday the 9th dragged to Tuesday the 10th
+    const moved = rescheduleOccurrence(
+      reminder, new Date('2026-03-09T08:00:00Z'), new Date('2026-03-09T08:00:00Z'), new Date('2026-03-10T08:00:00Z'), 'all'
+    );
+
+    expect(moved.rrule?.byDay).toEqual([{ day: 'TU' }, { day: 'FR' }]);
+    expect(march(moved)).toEqual(['03-03T08:00', '03-10T08:00', '03-13T08:00', '03-17T08:00', '03-20T08:00']);
+    expect(moved.exDates).toEqual(['2026-03-06T08:00:00.000Z']);
+    expect(moved.overrides).toEqual([{ originalDate: '2026-03-13T08:00:00.000Z', title: 'Leg day' }]);
+  });
+
+  it('moves month days and the end of a monthly series', () => {
+    const reminder = series({
+      date: '2026-01-15T08:00:00.000Z',
+      rrule: { freq: 'MONTHLY', interval: 1, byMonthDay: [15], until: '2026-06-15T08:00:00.000Z' },
+    });
+    const moved = rescheduleOccurrence(
+      reminder, new Date('2026-03-15T08:00:00Z'), new Date('2026-03-15T08:00:00Z'), new Date('2026-03-17T09:30:00Z'), 'all'
+    );
+    expect(moved.date).toBe('2026-01-17T09:30:00.000Z');
+    expect(moved.rrule).toEqual({ freq: 'MONTHLY', interval: 1, byMonthDay: [17], until: '2026-06-17T09:30:00.000Z' });
+  });
+
+  it('takes back the rule along with the date on undo', () => {
+    const reminder = series();
+    const moved = rescheduleOccurrence(
+      reminder, new Date('2026-03-09T08:00:00Z'), new Date('2026-03-09T08:00:00Z'), new Date('2026-03-10T08:00:00Z'), 'all'
+    );
+    expect(undoMove(moved, recordMove(reminder, moved, new Date('2026-03-10T08:00:00Z')))).toEqual(reminder);
+  });
+});
@@ -0,0 +1,88 @@
+import * as d3 from 'd3';
+import { Reminder, Occurrence } from '../types';
+import { overrideOccurrence, updateSeries } from './seriesService';
+import { formatReminderDate, reminderCalendar } from './timeZoneService';
+
+// Moving reminders around the calendar by drag and drop or the keyboard.
+//
+// Dropping on a day cell moves an occurrence by whole days on its reminder's
+// own clock, so 09:00 in New York stays 09:00 in New York. Dropping on an hour
+// slot sets the hour as the viewer sees it and keeps the minutes. A whole
+// series moves by the same amount as the dragged occurrence, its rule and
+// exceptions included.
+//
+// A move changes only `date`, `rrule`, `exDates` and `overrides`. Undo puts
+// those back, as long as nothing else has changed them since.
+
+export type MoveScope = 'this' | 'all';
+
+const MOVED_FIELDS = ['date', 'rrule', 'exDates', 'overrides'] as const;
+
+type MovedFields = Pick<Reminder, typeof MOVED_FIELDS[number]>;
+
+export interface Move {
+  reminderId: string;
+  title: string;
+  to: Date;
+  before: MovedFields;
+  after: MovedFields;
+}
+
+const movedFields = (reminder: Reminder): MovedFields => ({
+  date: reminder.date,
+  rrule: reminder.rrule,
+  exDates: reminder.exDates,
+  overrides: reminder.overrides,
+});
+
+const sameFields = (a: MovedFields, b: MovedFields) =>
+  MOVED_FIELDS.every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+
+/**
+ * Where an occurrence lands when dropped on `day` (any time within it).
+ */
+export const moveToDay = (occurrence: Pick<Occurrence, 'date' | 'reminder'>, day: Date): Date => {
+  const days = d3.timeDay.count(d3.timeDay.floor(occurrence.date), d3.timeDay.floor(day));
+  const calendar = reminderCalendar(occurrence.reminder);
+  return calendar.fromWall(d3.utcDay.offset(calendar.toWall(occurrence.date), days));
+};
+
+/**
+ * Where an occurrence lands when dropped on the hour starting at `slot`.
+ */
+export const moveToSlot = (occurrence: Pick<Occurrence, 'date'>, slot: Date): Date =>
+  new Date(d3.timeHour.floor(slot).getTime() + occurrence.date.getTime() - d3.timeHour.floor(occurrence.date).getTime());
+
+/**
+ * Reschedule the occurrence generated at `originalDate`, now at `from`, to
+ * `to`: the reminder itself when it does not repeat, otherwise that one
+ * instance or the whole series.
+ */
+export const rescheduleOccurrence = (reminder: Reminder, originalDate: Date, from: Date, to: Date, scope: MoveScope): Reminder => {
+  if (!reminder.rrule) return { ...reminder, date: formatReminderDate(reminder, to) };
+  if (scope === 'this') return overrideOccurrence(reminder, originalDate, { date: formatReminderDate(reminder, to) });
+
+  // Shift the instance's original slot by the distance it was dragged, in wall-clock time
+  const calendar = reminderCalendar(reminder);
+  const shift = calendar.toWall(to).getTime() - calendar.toWall(from).getTime();
+  const target = calendar.fromWall(new Date(calendar.toWall(originalDate).getTime() + shift));
+  return updateSeries(reminder, originalDate, { ...reminder, date: formatReminderDate(reminder, target) });
+};
+
+/**
+ * Record of a move from `before` to `after`, for undo.
+ */
+export const recordMove = (before: Reminder, after: Reminder, to: Date): Move => ({
+  reminderId: before.id,
+  title: before.title,
+  to,
+  before: movedFields(before),
+  after: movedFields(after),
+});
+
+/**
+ * `reminder` with the move taken back, keeping any unrelated edits made since,
+ * or null when the moved fields have changed again and undo would clobber that.
+ */
+export const undoMove = (reminder: Reminder, move: Move): Reminder | null =>
+  sameFields(movedFields(reminder), move.after) ? { ...reminder, ...move.before } : null;
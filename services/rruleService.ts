@@ -0,0 +1,176 @@
+import {
+  Reminder, RecurrenceRule, RecurrenceFrequency, RecurrenceType, Weekday, WeekdayNum, LegacyRecurrenceFields
+} from '../types';
+
+// Index matches Date.getDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WORKWEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const FREQ_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year'
+};
+
+// --- Serialisation (RFC 5545 value syntax) ---
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// UNTIL is emitted as a UTC date-time: 20261231T235959Z
+const formatUntil = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const parseUntil = (value: string): string | undefined => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  // A bare date means "through the end of that local day"
+  if (h === undefined) return new Date(+y, +mo - 1, +d, 23, 59, 59, 999).toISOString();
+  return utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)).toISOString()
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s).toISOString();
+};
+
+const formatWeekdayNum = (w: WeekdayNum) => `${w.n ?? ''}${w.day}`;
+
+const parseWeekdayNum = (value: string): WeekdayNum | null => {
+  const m = value.trim().toUpperCase().match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+  if (!m) return null;
+  return m[1] ? { day: m[2] as Weekday, n: parseInt(m[1], 10) } : { day: m[2] as Weekday };
+};
+
+const parseIntList = (value: string) =>
+  value.split(',').map(v => parseInt(v, 10)).filter(n => !isNaN(n) && n !== 0);
+
+/**
+ * Serialise a rule to its RRULE value, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH".
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(formatWeekdayNum).join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  else if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix).
+ * Returns null when FREQ is missing or unsupported. Unknown parts are ignored.
+ */
+export const parseRRule = (value: string): RecurrenceRule | null => {
+  const body = value.trim().replace(/^RRULE:/i, '');
+  const fields = new Map<string, string>();
+  body.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) fields.set(key.trim().toUpperCase(), val.trim());
+  });
+
+  const freq = fields.get('FREQ')?.toUpperCase() as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(fields.get('INTERVAL') || '1', 10) || 1) };
+
+  const byDay = fields.get('BYDAY')?.split(',').map(parseWeekdayNum).filter((w): w is WeekdayNum => w !== null);
+  if (byDay?.length) rule.byDay = byDay;
+
+  const byMonthDay = fields.has('BYMONTHDAY') ? parseIntList(fields.get('BYMONTHDAY')!) : [];
+  if (byMonthDay.length) rule.byMonthDay = byMonthDay;
+
+  const bySetPos = fields.has('BYSETPOS') ? parseIntList(fields.get('BYSETPOS')!) : [];
+  if (bySetPos.length) rule.bySetPos = bySetPos;
+
+  const until = fields.has('UNTIL') ? parseUntil(fields.get('UNTIL')!) : undefined;
+  if (until) rule.until = until;
+
+  const count = parseInt(fields.get('COUNT') || '', 10);
+  if (!until && count > 0) rule.count = count;
+
+  return rule;
+};
+
+// --- Human readable summary ---
+
+const ordinal = (n: number) => {
+  if (n === -1) return 'last';
+  if (n === -2) return 'second to last';
+  if (n < 0) return `${-n}th to last`;
+  const suffix = n % 10 === 1 && n % 100 !== 11 ? 'st'
+    : n % 10 === 2 && n % 100 !== 12 ? 'nd'
+    : n % 10 === 3 && n % 100 !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+const isWorkweek = (days: WeekdayNum[]) =>
+  days.length === WORKWEEK.length && days.every(d => !d.n && WORKWEEK.includes(d.day));
+
+const listWeekdays = (days: WeekdayNum[]) =>
+  isWorkweek(days) ? 'weekdays' : days.map(d => (d.n ? `the ${ordinal(d.n)} ` : '') + WEEKDAY_NAMES[d.day]).join(', ');
+
+/**
+ * Plain-English summary, e.g. "Every 2 weeks on Mon, Thu, 10 times".
+ */
+export const describeRRule = (rule: RecurrenceRule): string => {
+  const unit = FREQ_UNITS[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.byDay?.length && isWorkweek(rule.byDay) && !rule.bySetPos?.length && rule.interval === 1
+      && (rule.freq === 'DAILY' || rule.freq === 'WEEKLY')) {
+    text = 'Every weekday';
+  } else if (rule.bySetPos?.length && rule.byDay?.length) {
+    const days = isWorkweek(rule.byDay) ? 'weekday'
+      : rule.byDay.length === 7 ? 'day' : listWeekdays(rule.byDay);
+    text += ` on the ${rule.bySetPos.map(ordinal).join(', ')} ${days}`;
+  } else if (rule.byDay?.length) {
+    text += ` on ${listWeekdays(rule.byDay)}`;
+  } else if (rule.byMonthDay?.length) {
+    text += ` on the ${rule.byMonthDay.map(ordinal).join(', ')}`;
+    if (rule.bySetPos?.length) text += ` (${rule.bySetPos.map(ordinal).join(', ')} match)`;
+  }
+
+  if (rule.until) {
+    text += `, until ${new Date(rule.until).toLocaleDateString([], { dateStyle: 'medium' })}`;
+  } else if (rule.count) {
+    text += rule.count === 1 ? ', once' : `, ${rule.count} times`;
+  }
+  return text;
+};
+
+// --- Migration from the five-value RecurrenceType ---
+
+const LEGACY_FREQUENCIES: Partial<Record<RecurrenceType, RecurrenceFrequency>> = {
+  [RecurrenceType.Daily]: 'DAILY',
+  [RecurrenceType.Weekly]: 'WEEKLY',
+  [RecurrenceType.Monthly]: 'MONTHLY',
+  [RecurrenceType.Yearly]: 'YEARLY'
+};
+
+/**
+ * Convert a stored reminder using `recurrence` / `recurrenceEndMode` /
+ * `recurrenceEndValue` into one carrying an `rrule`. Already migrated
+ * reminders are returned unchanged (minus any stale legacy fields).
+ */
+export const migrateLegacyRecurrence = (stored: Reminder & LegacyRecurrenceFields): Reminder => {
+  const { recurrence, recurrenceEndMode, recurrenceEndValue, ...reminder } = stored;
+  if (reminder.rrule || !recurrence) return reminder;
+
+  const freq = LEGACY_FREQUENCIES[recurrence];
+  if (!freq) return reminder;
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  if (recurrenceEndMode === 'count' && Number(recurrenceEndValue) > 0) {
+    rule.count = Math.floor(Number(recurrenceEndValue));
+  } else if (recurrenceEndMode === 'date' && recurrenceEndValue) {
+    const until = new Date(`${recurrenceEndValue}T23:59:59.999`);
+    if (!isNaN(until.getTime())) rule.until = until.toISOString();
+  }
+  return { ...reminder, rrule: rule };
+};
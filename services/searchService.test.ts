@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { CommunicationMethod } from '../types';
+import { NOW, reminder, series } from '../test/fixtures';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { SearchSyntaxError, matchesSearch, parseSearchQuery } from './searchService';
+
+const parse = (input: string) => parseSearchQuery(input, DEFAULT_CATEGORIES).terms;
+
+const REMINDERS = [
+  reminder('dentist', {
+    title: 'Dentist appointment',
+    description: 'Ask about the blood test',
+    category: 'health',
+    tags: ['teeth'],
+    alerts: [{ id: 'a0', offsetMinutes: 60, method: CommunicationMethod.SMS, contactInfo: '+15550100' }],
+  }),
+  reminder('invoice', { title: 'Re: invoice 42', date: '2026-03-20T10:00:00.000Z', category: 'urgent', tags: ['work'] }),
+  reminder('link', { title: 'Read https://example.com/post', completed: true }),
+  series({ id: 'gym' }),
+];
+
+// The ids of the reminders that match
+const search = (input: string) => {
+  const query = parseSearchQuery(input, DEFAULT_CATEGORIES);
+  return REMINDERS.filter(r => matchesSearch(r, query, new Date(NOW))).map(r => r.id);
+};
+
+describe('parseSearchQuery', () => {
+  it('reads the field filters', () => {
+    expect(parse('category:health type:meet tag:Travel #home method:sms before:2026-12-01 after:2026-11-01 recurring:yes done:n')).toEqual([
+      { field: 'category', category: 'health', negated: false },
+      { field: 'category', category: 'meeting', negated: false },
+      { field: 'tag', tag: 'travel', negated: false },
+      { field: 'tag', tag: 'home', negated: false },
+      { field: 'method', method: CommunicationMethod.SMS, negated: false },
+      { field: 'before', date: '2026-12-01', negated: false },
+      { field: 'after', date: '2026-11-01', negated: false },
+      { field: 'recurring', value: true, negated: false },
+      { field: 'done', value: false, negated: false },
+    ]);
+  });
+
+  it('reads quoted phrases and values', () => {
+    expect(parse('"Blood Test" method:"phone call"')).toEqual([
+      { field: 'text', text: 'blood test', exact: true, negated: false },
+      { field: 'method', method: CommunicationMethod.Call, negated: false },
+    ]);
+  });
+
+  it('reads negated words, tags and filters, but not a lone dash', () => {
+    expect(parse('-dentist -#work -done:yes - x')).toEqual([
+      { field: 'text', text: 'dentist', exact: false, negated: true },
+      { field: 'tag', tag: 'work', negated: true },
+      { field: 'done', value: true, negated: true },
+      { field: 'text', text: '-', exact: false, negated: false },
+      { field: 'text', text: 'x', exact: false, negated: false },
+    ]);
+  });
+
+  it('keeps a "word:" that is no filter as text', () => {
+    expect(parse('re: invoice https://example.com todo:milk')).toEqual([
+      { field: 'text', text: 're:', exact: false, negated: false },
+      { field: 'text', text: 'invoice', exact: false, negated: false },
+      { field: 'text', text: 'https://example.com', exact: false, negated: false },
+      { field: 'text', text: 'todo:milk', exact: false, negated: false },
+    ]);
+  });
+
+  it.each([
+    ['category:shopping', 'Unknown category "shopping". Try standard, urgent, meeting, health, idea'],
+    ['method:fax', 'Unknown method "fax". Try notification, email, sms or call'],
+    ['before:2026-02-30', '"before:" expects a date such as 2026-12-01, not "2026-02-30"'],
+    ['done:maybe', '"done:" expects yes or no, not "maybe"'],
+    ['tag:', '"tag:" needs a value'],
+    ['"blood test', 'Missing closing quote after "blood test'],
+  ])('explains what is wrong with %s', (input, message) => {
+    expect(() => parse(input)).toThrow(new SearchSyntaxError(message));
+  });
+});
+
+describe('matchesSearch', () => {
+  it('finds words despite a typo, and phrases only as typed', () => {
+    expect(search('dentst')).toEqual(['dentist']);
+    expect(search('"blood test"')).toEqual(['dentist']);
+    expect(search('"blod test"')).toEqual([]);
+  });
+
+  it('finds text with a colon as it was typed', () => {
+    expect(search('re: invoice')).toEqual(['invoice']);
+    expect(search('https://example.com/post')).toEqual(['link']);
+  });
+
+  it('narrows by field', () => {
+    expect(search('category:health')).toEqual(['dentist', 'gym']);
+    expect(search('#work')).toEqual(['invoice']);
+    expect(search('method:sms')).toEqual(['dentist']);
+    expect(search('after:2026-03-10')).toEqual(['invoice']);
+    expect(search('before:2026-03-03')).toEqual(['dentist', 'link', 'gym']);
+    expect(search('recurring:yes')).toEqual(['gym']);
+    expect(search('done:yes')).toEqual(['link']);
+  });
+
+  it('requires every term and leaves out negated ones', () => {
+    expect(search('category:health -recurring:yes')).toEqual(['dentist']);
+    expect(search('-#teeth -done:yes')).toEqual(['invoice', 'gym']);
+    expect(search('appointment #work')).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+import { Reminder, Category, CommunicationMethod } from '../types';
+import { getDueOccurrence } from './completionService';
+import { toWallInputs } from './timeZoneService';
+import { matchCategory } from './categoryService';
+
+// The search box's query language. Words are matched loosely against the
+// title, description, contact and tags; everything else narrows by field:
+//
+//   dentist              fuzzy: "dentst" finds it too
+//   "blood test"         exact phrase, case aside
+//   category:work        one of the user's categories, by (the start of) its name;
+//                        type: works too
+//   tag:travel, #travel  tagged so
+//   method:sms           has an alert by notification, email, sms or call
+//   before:2026-12-01    due before / after that day, on the reminder's own
+//   after:2026-11-01     wall clock; recurring ones by their next due instance
+//   recurring:yes        yes / no
+//   done:no              yes / no; a recurring series is done once it is closed
+//   -word, -#work        leaves out what matches
+//
+// All terms have to match. Values with spaces can be quoted: method:"phone call".
+// Any other "word:" is plain text, so "re: invoice" and URLs are found as typed.
+
+export type SearchTerm = { negated: boolean } & (
+  | { field: 'text'; text: string; exact: boolean }
+  | { field: 'category'; category: string } // id
+  | { field: 'tag'; tag: string }
+  | { field: 'method'; method: CommunicationMethod }
+  | { field: 'before' | 'after'; date: string } // "YYYY-MM-DD"
+  | { field: 'recurring' | 'done'; value: boolean }
+);
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+}
+
+export class SearchSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchSyntaxError';
+  }
+}
+
+const FIELDS = ['category', 'tag', 'method', 'before', 'after', 'recurring', 'done'];
+const FIELD_ALIASES = ['type'];
+
+const METHOD_NAMES: Record<string, CommunicationMethod> = {
+  notification: CommunicationMethod.Notification,
+  notify: CommunicationMethod.Notification,
+  push: CommunicationMethod.Notification,
+  email: CommunicationMethod.Email,
+  mail: CommunicationMethod.Email,
+  sms: CommunicationMethod.SMS,
+  text: CommunicationMethod.SMS,
+  call: CommunicationMethod.Call,
+  phone: CommunicationMethod.Call,
+  'phone call': CommunicationMethod.Call,
+};
+
+const YES = ['yes', 'y', 'true'];
+const NO = ['no', 'n', 'false'];
+
+const isRealDate = (value: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+const fieldTerm = (field: string, value: string, negated: boolean, categories: Category[]): SearchTerm => {
+  const key = value.toLowerCase();
+  if (!value) throw new SearchSyntaxError(`"${field}:" needs a value`);
+  switch (field) {
+    case 'category':
+    case 'type': {
+      const category = matchCategory(categories, value);
+      if (!category) throw new SearchSyntaxError(`Unknown category "${value}". Try ${categories.map(c => c.name.toLowerCase()).join(', ')}`);
+      return { field: 'category', category: category.id, negated };
+    }
+    case 'tag':
+      return { field, tag: key.replace(/^#+/, ''), negated };
+    case 'method': {
+      const method = METHOD_NAMES[key];
+      if (!method) throw new SearchSyntaxError(`Unknown method "${value}". Try notification, email, sms or call`);
+      return { field, method, negated };
+    }
+    case 'before':
+    case 'after':
+      if (!isRealDate(value)) throw new SearchSyntaxError(`"${field}:" expects a date such as 2026-12-01, not "${value}"`);
+      return { field, date: value, negated };
+    case 'recurring':
+    case 'done':
+      if (YES.includes(key)) return { field, value: true, negated };
+      if (NO.includes(key)) return { field, value: false, negated };
+      throw new SearchSyntaxError(`"${field}:" expects yes or no, not "${value}"`);
+    default:
+      throw new SearchSyntaxError(`Unknown filter "${field}:". Try ${FIELDS.map(f => `${f}:`).join(', ')}`);
+  }
+};
+
+/**
+ * Reads a search box query against the user's `categories`. Throws a
+ * SearchSyntaxError saying what is wrong, so the box can show it instead of
+ * an empty list.
+ */
+export const parseSearchQuery = (input: string, categories: Category[]): SearchQuery => {
+  const terms: SearchTerm[] = [];
+  let i = 0;
+
+  // A quoted string starting at `i`, without the quotes
+  const readQuoted = () => {
+    const close = input.indexOf('"', i + 1);
+    if (close < 0) throw new SearchSyntaxError(`Missing closing quote after ${input.slice(i)}`);
+    const text = input.slice(i + 1, close);
+    i = close + 1;
+    return text;
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    if (input[i] === '"') {
+      const text = readQuoted().trim();
+      if (text) terms.push({ field: 'text', text: text.toLowerCase(), exact: true, negated });
+      continue;
+    }
+
+    const field = /^([a-z]+):/i.exec(input.slice(i));
+    if (field && [...FIELDS, ...FIELD_ALIASES].includes(field[1].toLowerCase())) {
+      i += field[0].length;
+      let value: string;
+      if (input[i] === '"') value = readQuoted().trim();
+      else {
+        const start = i;
+        while (i < input.length && !/\s/.test(input[i])) i++;
+        value = input.slice(start, i);
+      }
+      terms.push(fieldTerm(field[1].toLowerCase(), value, negated, categories));
+      continue;
+    }
+
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    const word = input.slice(start, i).toLowerCase();
+    if (/^#[^#]/.test(word)) terms.push({ field: 'tag', tag: word.slice(1), negated });
+    else terms.push({ field: 'text', text: word, exact: false, negated });
+  }
+  return { terms };
+};
+
+// Edit distance, giving up past `max`
+const withinDistance = (a: string, b: string, max: number): boolean => {
+  if (Math.abs(a.length - b.length) > max) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let x = 1; x <= a.length; x++) {
+    const row = [x];
+    for (let y = 1; y <= b.length; y++) {
+      row[y] = Math.min(previous[y] + 1, row[y - 1] + 1, previous[y - 1] + (a[x - 1] === b[y - 1] ? 0 : 1));
+    }
+    if (Math.min(...row) > max) return false;
+    previous = row;
+  }
+  return previous[b.length] <= max;
+};
+
+// Typos allowed for a word of this length
+const tolerance = (word: string) => (word.length < 4 ? 0 : word.length < 7 ? 1 : 2);
+
+const matchesText = (haystack: string, text: string, exact: boolean) => {
+  if (haystack.includes(text)) return true;
+  if (exact) return false;
+  const allowed = tolerance(text);
+  return allowed > 0 && haystack.split(/[^\p{L}\p{N}]+/u).some(word => withinDistance(word, text, allowed));
+};
+
+/**
+ * Whether `reminder` matches every term of the query. Dates are those of the
+ * upcoming list: the next instance not yet done for recurring reminders.
+ */
+export const matchesSearch = (reminder: Reminder, query: SearchQuery, now: Date = new Date()): boolean => {
+  const haystack = [reminder.title, reminder.description, ...reminder.alerts.map(a => a.contactInfo), ...(reminder.tags || [])]
+    .filter(Boolean).join('\n').toLowerCase();
+  let wallDate: string | undefined;
+  const dueDate = () => wallDate ??= toWallInputs(getDueOccurrence(reminder, now)?.date ?? new Date(reminder.date), reminder.timeZone).date;
+
+  const matches = (term: SearchTerm): boolean => {
+    switch (term.field) {
+      case 'text': return matchesText(haystack, term.text, term.exact);
+      case 'category': return reminder.category === term.category;
+      case 'tag': return !!reminder.tags?.includes(term.tag);
+      case 'method': return reminder.alerts.some(a => a.method === term.method);
+      case 'before': return dueDate() < term.date;
+      case 'after': return dueDate() > term.date;
+      case 'recurring': return !!reminder.rrule === term.value;
+      case 'done': return reminder.completed === term.value;
+    }
+  };
+  return query.terms.every(term => matches(term) !== term.negated);
+};
+
+// --- Saved filters, kept per user in localStorage ---
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  query: string;
+  pinned: boolean; // shown as a chip above the upcoming list
+}
+
+const savedFiltersKey = (userId: string) => `memento_saved_filters_${userId}`;
+
+export const loadSavedFilters = (userId: string): SavedFilter[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(savedFiltersKey(userId)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedFilters = (userId: string, filters: SavedFilter[]) =>
+  localStorage.setItem(savedFiltersKey(userId), JSON.stringify(filters));
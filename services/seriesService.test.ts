@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, ReminderDraft } from '../types';
+import { series } from '../test/fixtures';
+import { updateSeries } from './seriesService';
+
+// The gym series with the 5th skipped and the 12th renamed
+const gym = (): Reminder => series({
+  exDates: ['2026-03-05T08:00:00.000Z'],
+  overrides: [{ originalDate: '2026-03-12T08:00:00.000Z', title: 'Leg day' }],
+});
+
+// What the editor hands back for the instance on the 9th
+const draft = (reminder: Reminder, patch: Partial<ReminderDraft> = {}): ReminderDraft => {
+  const { id: _id, createdAt: _createdAt, userId: _userId, ...fields } = reminder;
+  return { ...fields, date: '2026-03-09T08:00:00.000Z', ...patch };
+};
+
+const NINTH = new Date('2026-03-09T08:00:00Z');
+
+describe('updateSeries', () => {
+  it('keeps the exceptions when only the details change', () => {
+    const reminder = gym();
+    const updated = updateSeries(reminder, NINTH, draft(reminder, { title: 'Workout' }));
+    expect(updated).toEqual({ ...reminder, title: 'Workout' });
+  });
+
+  it('moves the exceptions with a new time of day', () => {
+    const reminder = gym();
+    const updated = updateSeries(reminder, NINTH, draft(reminder, { date: '2026-03-09T17:30:00.000Z' }));
+    expect(updated.date).toBe('2026-03-02T17:30:00.000Z');
+    expect(updated.rrule).toEqual(reminder.rrule);
+    expect(updated.exDates).toEqual(['2026-03-05T17:30:00.000Z']);
+    expect(updated.overrides).toEqual([{ originalDate: '2026-03-12T17:30:00.000Z', title: 'Leg day' }]);
+  });
+
+  it('moves weekdays and exceptions with a new day', () => {
+    const reminder = gym();
+    const updated = updateSeries(reminder, NINTH, draft(reminder, { date: '2026-03-10T08:00:00.000Z' }));
+    expect(updated.date).toBe('2026-03-03T08:00:00.000Z');
+    expect(updated.rrule?.byDay).toEqual([{ day: 'TU' }, { day: 'FR' }]);
+    expect(updated.exDates).toEqual(['2026-03-06T08:00:00.000Z']);
+  });
+
+  it('drops the exceptions when the rule itself was edited', () => {
+    const reminder = gym();
+    const updated = updateSeries(reminder, NINTH, draft(reminder, { rrule: { freq: 'DAILY', interval: 1 } }));
+    expect(updated.rrule).toEqual({ freq: 'DAILY', interval: 1 });
+    expect(updated.exDates).toBeUndefined();
+    expect(updated.overrides).toBeUndefined();
+  });
+
+  it('keeps wall-clock times in a new zone', () => {
+    const reminder = gym();
+    const updated = updateSeries(reminder, NINTH, draft(reminder, { timeZone: 'America/New_York', date: '2026-03-09T13:00:00.000Z' }));
+    expect(updated.date).toBe('2026-03-02T14:00:00.000Z');
+    expect(updated.exDates).toEqual(['2026-03-05T14:00:00.000Z']);
+  });
+});
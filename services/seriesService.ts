@@ -0,0 +1,144 @@
+import * as d3 from 'd3';
+import { Reminder, ReminderDraft, OccurrenceOverride, RecurrenceRule } from '../types';
+import { countOccurrencesBefore } from './recurrenceService';
+import { WEEKDAYS } from './rruleService';
+import { formatReminderDate, reminderCalendar, changeTimeZone } from './timeZoneService';
+
+// Series mutations behind the "this occurrence / this and following / all" choices.
+// All functions are pure and return new Reminder objects.
+
+export type OccurrencePatch = Omit<OccurrenceOverride, 'originalDate'>;
+
+const sameInstant = (iso: string, date: Date) => new Date(iso).getTime() === date.getTime();
+
+/**
+ * The fields of an edited draft that can be changed for a single instance.
+ */
+export const occurrencePatch = (draft: ReminderDraft): OccurrencePatch => ({
+  date: draft.date,
+  title: draft.title,
+  description: draft.description,
+  category: draft.category,
+});
+
+/**
+ * Store `patch` as an override of the instance generated at `originalDate`.
+ * Values equal to the series (or to the original date) are not stored, and an
+ * override left without any values is removed.
+ */
+export const overrideOccurrence = (reminder: Reminder, originalDate: Date, patch: OccurrencePatch): Reminder => {
+  const others = (reminder.overrides || []).filter(o => !sameInstant(o.originalDate, originalDate));
+  const existing = reminder.overrides?.find(o => sameInstant(o.originalDate, originalDate));
+  const merged: OccurrencePatch = { ...existing, ...patch };
+
+  const override: OccurrenceOverride = { originalDate: formatReminderDate(reminder, originalDate) };
+  if (merged.date && !sameInstant(merged.date, originalDate)) override.date = merged.date;
+  if (merged.title !== undefined && merged.title !== reminder.title) override.title = merged.title;
+  if (merged.description !== undefined && merged.description !== reminder.description) override.description = merged.description;
+  if (merged.category !== undefined && merged.category !== reminder.category) override.category = merged.category;
+
+  const isEmpty = Object.keys(override).length === 1;
+  const overrides = isEmpty ? others : [...others, override];
+  return { ...reminder, overrides: overrides.length ? overrides : undefined };
+};
+
+/**
+ * Skip a single instance (EXDATE).
+ */
+export const skipOccurrence = (reminder: Reminder, originalDate: Date): Reminder => {
+  const overrides = reminder.overrides?.filter(o => !sameInstant(o.originalDate, originalDate));
+  return {
+    ...reminder,
+    exDates: [...(reminder.exDates || []).filter(d => !sameInstant(d, originalDate)), formatReminderDate(reminder, originalDate)],
+    overrides: overrides?.length ? overrides : undefined,
+  };
+};
+
+/**
+ * End the series right before the instance at `originalDate`, dropping the
+ * exceptions that no longer apply. Returns null when nothing would be left.
+ */
+export const truncateSeries = (reminder: Reminder, originalDate: Date): Reminder | null => {
+  if (!reminder.rrule) return null;
+  const before = countOccurrencesBefore(reminder, originalDate);
+  if (before === 0) return null;
+
+  const rrule = reminder.rrule.count
+    ? { ...reminder.rrule, count: before }
+    : { ...reminder.rrule, until: formatReminderDate(reminder, new Date(originalDate.getTime() - 1)) };
+  const exDates = reminder.exDates?.filter(d => new Date(d) < originalDate);
+  const overrides = reminder.overrides?.filter(o => new Date(o.originalDate) < originalDate);
+
+  return {
+    ...reminder,
+    rrule,
+    exDates: exDates?.length ? exDates : undefined,
+    overrides: overrides?.length ? overrides : undefined,
+  };
+};
+
+/**
+ * "This and following": the original series ends before `originalDate` and the
+ * edited draft becomes a new series starting at the edited instance. A COUNT that
+ * wasn't changed in the editor is reduced by the instances the head keeps.
+ * Exceptions are not carried over to the new series.
+ */
+export const splitSeries = (reminder: Reminder, originalDate: Date, draft: ReminderDraft): { head: Reminder | null; tail: ReminderDraft } => {
+  let rrule = draft.rrule;
+  if (rrule?.count && rrule.count === reminder.rrule?.count) {
+    rrule = { ...rrule, count: Math.max(1, rrule.count - countOccurrencesBefore(reminder, originalDate)) };
+  }
+  return {
+    head: truncateSeries(reminder, originalDate),
+    tail: { ...draft, rrule, exDates: undefined, overrides: undefined, completions: undefined },
+  };
+};
+
+const wrap = (value: number, size: number) => ((value % size) + size) % size;
+
+/**
+ * `rule` with its weekdays and month days moved `days` later (earlier when
+ * negative), so a series moved by whole days still lands on its instances.
+ */
+export const shiftRule = (rule: RecurrenceRule, days: number): RecurrenceRule => ({
+  ...rule,
+  ...(rule.byDay ? { byDay: rule.byDay.map(w => ({ ...w, day: WEEKDAYS[wrap(WEEKDAYS.indexOf(w.day) + days, 7)] })) } : {}),
+  ...(rule.byMonthDay ? { byMonthDay: rule.byMonthDay.map(d => d > 0 ? wrap(d - 1 + days, 31) + 1 : -wrap(-d - 1 - days, 31) - 1) } : {}),
+});
+
+/**
+ * "All occurrences": apply the draft to the whole series. If the edited instance
+ * was moved, the series start moves by the same number of days and takes the new
+ * time of day, both on the wall clock of the draft's zone. Unless the rule itself
+ * was edited, everything else moves along: its weekdays and month days, its end
+ * and the skipped and changed instances. Exceptions are dropped when the rule was
+ * edited; completion history is always kept.
+ */
+export const updateSeries = (reminder: Reminder, originalDate: Date, draft: ReminderDraft): Reminder => {
+  // A new zone keeps the series' wall-clock times
+  const current = changeTimeZone(reminder, draft.timeZone);
+  const calendar = reminderCalendar(current);
+  const edited = calendar.toWall(new Date(draft.date));
+  const originalDay = d3.utcDay.floor(reminderCalendar(reminder).toWall(originalDate));
+  const dayShift = d3.utcDay.count(originalDay, d3.utcDay.floor(edited));
+  const start = calendar.toWall(new Date(current.date));
+  const anchor = d3.utcDay.offset(d3.utcDay.floor(start), dayShift);
+  const timeOfDay = edited.getTime() - d3.utcDay.floor(edited).getTime();
+  const date = formatReminderDate(current, calendar.fromWall(new Date(anchor.getTime() + timeOfDay)));
+  const series = { ...current, ...draft, date, completed: reminder.completed, exDates: current.exDates, overrides: current.overrides };
+
+  if (JSON.stringify(draft.rrule) !== JSON.stringify(reminder.rrule)) {
+    return { ...series, exDates: undefined, overrides: undefined };
+  }
+
+  const shift = calendar.toWall(new Date(date)).getTime() - start.getTime();
+  if (!shift || !current.rrule) return { ...series, rrule: current.rrule };
+  const move = (stored: string) => formatReminderDate(current, calendar.fromWall(new Date(calendar.toWall(new Date(stored)).getTime() + shift)));
+  const rrule = shiftRule(current.rrule, dayShift);
+  return {
+    ...series,
+    rrule: rrule.until ? { ...rrule, until: move(rrule.until) } : rrule,
+    exDates: current.exDates?.map(move),
+    overrides: current.overrides?.map(o => ({ ...o, originalDate: move(o.originalDate) })),
+  };
+};
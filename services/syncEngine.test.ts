@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { Reminder, Category, SyncResponse } from '../types';
+import { createStillClock, reminder } from '../test/fixtures';
+import { createMemoryStore } from '../server/storage';
+import { Route } from '../server/http';
+import { createAuthService, emptyAuthState } from '../server/auth/service';
+import { createSyncService, emptySyncState } from '../server/sync/service';
+import { syncRoutes } from '../server/sync/routes';
+import { DEFAULT_CATEGORIES } from './categoryService';
+import { applyReminderChange } from './repository';
+import { SyncOfflineError, SyncQueueState, SyncTransport, createSyncEngine } from './syncEngine';
+
+const hobby: Category = { id: 'hobby', name: 'Hobby', color: 'teal', icon: 'star' };
+const chores: Category = { id: 'chores', name: 'Chores', color: 'amber', icon: 'tag' };
+
+// One account on an in-memory server, reached through its sync routes
+const setup = async (plan = 'free') => {
+  const { clock, advance } = createStillClock();
+  const auth = createAuthService({ store: createMemoryStore(emptyAuthState()), clock, sessionTtlMs: 60_000_000, defaultPlan: plan });
+  const sync = createSyncService({ store: createMemoryStore(emptySyncState()), clock });
+  const routes = syncRoutes(sync, auth);
+  const { token, account } = await auth.register('ann', 'correct horse');
+  let online = true;
+
+  const call = async (method: string, query: string, body?: unknown): Promise<SyncResponse> => {
+    if (!online) throw new SyncOfflineError();
+    const route = routes.find(r => r.method === method && r.pattern === '/api/sync') as Route;
+    const response = await route.handler({
+      method, path: '/api/sync', params: {}, query: new URLSearchParams(query), headers: { authorization: `Bearer ${token}` }, body,
+    });
+    return JSON.parse(JSON.stringify(response.body));
+  };
+  const transport: SyncTransport = {
+    push: (mutations, categories) => call('POST', '', { mutations, categories }),
+    pull: (since) => call('GET', `since=${since}`),
+  };
+
+  // A device with its own queue and reminders, recording what the server told it
+  const device = () => {
+    let state: SyncQueueState | null = null;
+    let reminders: Reminder[] = [];
+    const received: Category[][] = [];
+    const engine = createSyncEngine({
+      transport,
+      store: { load: () => state, save: (next) => { state = next; } },
+      clock,
+      onRemoteChange: change => { reminders = applyReminderChange(reminders, change); },
+      onRemoteCategories: categories => received.push(categories),
+      onStatus: () => undefined,
+    });
+    // Change the device's reminders as the app would
+    const edit = (change: (current: Reminder[]) => Reminder[]) => {
+      const next = change(reminders);
+      engine.record(reminders, next);
+      reminders = next;
+    };
+    const update = (id: string, patch: Partial<Reminder>) => edit(list => list.map(r => (r.id === id ? { ...r, ...patch } : r)));
+    return { engine, received, edit, update, reminders: () => reminders };
+  };
+
+  return {
+    device,
+    advance,
+    server: () => sync.list(account.id),
+    setOnline: (value: boolean) => { online = value; },
+  };
+};
+
+// Both devices hold `r1`, created on the first and synced to the second
+const pair = async () => {
+  const world = await setup();
+  const laptop = world.device();
+  const phone = world.device();
+  laptop.edit(() => [reminder('r1')]);
+  await laptop.engine.sync();
+  await phone.engine.sync();
+  world.advance(1_000);
+  return { ...world, laptop, phone };
+};
+
+describe('sync engine', () => {
+  it('keeps edits made offline and sends them once back online', async () => {
+    const { device, server, setOnline } = await setup();
+    const laptop = device();
+    setOnline(false);
+
+    laptop.edit(() => [reminder('r1'), reminder('r2')]);
+    laptop.update('r2', { title: 'Offline edit' });
+    await laptop.engine.sync();
+    expect(laptop.engine.getSnapshot()).toMatchObject({ status: 'offline', pending: 3 });
+
+    setOnline(true);
+    await laptop.engine.sync();
+    expect(laptop.engine.getSnapshot()).toMatchObject({ status: 'idle', pending: 0 });
+    expect(server().map(r => r.title)).toEqual(['Reminder r1', 'Offline edit']);
+  });
+
+  it('keeps edits of different fields from two devices', async () => {
+    const { laptop, phone, advance, server } = await pair();
+    laptop.update('r1', { title: 'Dentist' });
+    advance(1_000);
+    phone.update('r1', { description: 'Bring the X-rays' });
+
+    await laptop.engine.sync();
+    await phone.engine.sync();
+    await laptop.engine.sync();
+
+    const both = { title: 'Dentist', description: 'Bring the X-rays' };
+    expect(server()).toMatchObject([both]);
+    expect(laptop.reminders()).toMatchObject([both]);
+    expect(phone.reminders()).toMatchObject([both]);
+  });
+
+  it('keeps the later edit of the same field, whichever device pushes last', async () => {
+    const { laptop, phone, advance, server } = await pair();
+    phone.update('r1', { title: 'Earlier' });
+    advance(1_000);
+    laptop.update('r1', { title: 'Later' });
+
+    await laptop.engine.sync();
+    await phone.engine.sync();
+    await laptop.engine.sync();
+
+    expect(server()).toMatchObject([{ title: 'Later' }]);
+    expect(phone.reminders()).toMatchObject([{ title: 'Later' }]);
+  });
+
+  it('keeps a reminder deleted against an edit made before the delete', async () => {
+    const { laptop, phone, advance, server } = await pair();
+    phone.update('r1', { title: 'Stale' });
+    advance(1_000);
+    laptop.edit(() => []);
+
+    await laptop.engine.sync();
+    await phone.engine.sync();
+
+    expect(server()).toEqual([]);
+    expect(phone.reminders()).toEqual([]);
+  });
+
+  it("reverts a change the account's plan refuses and says why", async () => {
+    const { device, server } = await setup('guest');
+    const laptop = device();
+    laptop.edit(() => [reminder('r1'), reminder('r2')]);
+    await laptop.engine.sync();
+
+    expect(server().map(r => r.id)).toEqual(['r1']);
+    expect(laptop.reminders().map(r => r.id)).toEqual(['r1']);
+    expect(laptop.engine.getSnapshot()).toMatchObject({ status: 'error', pending: 0, error: 'The Guest plan allows 1 active reminder.' });
+  });
+});
+
+describe('sync engine categories', () => {
+  it("carries one device's categories to another", async () => {
+    const { device } = await setup();
+    const laptop = device();
+    const phone = device();
+
+    laptop.engine.recordCategories([...DEFAULT_CATEGORIES, hobby]);
+    expect(laptop.engine.getSnapshot().pending).toBe(1);
+    await laptop.engine.sync();
+    expect(laptop.engine.getSnapshot().pending).toBe(0);
+
+    await phone.engine.sync();
+    expect(phone.received.at(-1)).toEqual([...DEFAULT_CATEGORIES, hobby]);
+  });
+
+  it('keeps the latest change, whichever device pushes last', async () => {
+    const { device, advance } = await setup();
+    const laptop = device();
+    const phone = device();
+
+    laptop.engine.recordCategories([hobby]);
+    advance(1_000);
+    phone.engine.recordCategories([chores]);
+    await phone.engine.sync();
+    await laptop.engine.sync();
+
+    expect(laptop.received.at(-1)).toEqual([chores]);
+  });
+
+  it("offers a device's categories without replacing the account's", async () => {
+    const { device } = await setup();
+    const laptop = device();
+    const phone = device();
+
+    laptop.engine.recordCategories([hobby]);
+    await laptop.engine.sync();
+    phone.engine.recordCategories([chores], 0);
+    await phone.engine.sync();
+    expect(phone.received.at(-1)).toEqual([hobby]);
+
+    // An account without categories takes the offer
+    const { device: fresh } = await setup();
+    const tablet = fresh();
+    tablet.engine.recordCategories([chores], 0);
+    await tablet.engine.sync();
+    expect(tablet.received.at(-1)).toEqual([chores]);
+  });
+
+  it('keeps a change made during a sync for the next one', async () => {
+    const { device, advance } = await setup();
+    const laptop = device();
+
+    laptop.engine.recordCategories([hobby]);
+    const running = laptop.engine.sync();
+    advance(1_000);
+    laptop.engine.recordCategories([hobby, chores]);
+    await running;
+
+    expect(laptop.received).toEqual([]);
+    expect(laptop.engine.getSnapshot().pending).toBe(1);
+    await laptop.engine.sync();
+    expect(laptop.received.at(-1)).toEqual([hobby, chores]);
+  });
+});
@@ -0,0 +1,250 @@
+import { Reminder, Category, SyncMutation, SyncRecord, SyncResponse, SyncedCategories } from '../types';
+import { Clock } from './notificationScheduler';
+import { RepositoryChange, diffReminders } from './repository';
+import { SYNC_BASE_VERSION, migrateReminders } from './migrationService';
+
+// Offline-first sync with the local server. Local edits become field-level
+// mutations in a persistent queue; `sync()` replays the queue and then pulls
+// what other devices changed. The server keeps the latest write per field, so
+// two devices editing different fields of one reminder both win. The user's
+// categories go along as one more field, kept on the account.
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncSnapshot {
+  status: SyncStatus;
+  pending: number; // queued mutations, and the categories when changed
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+export interface SyncTransport {
+  push: (mutations: SyncMutation[], categories?: SyncedCategories) => Promise<SyncResponse>;
+  pull: (since: number) => Promise<SyncResponse>;
+}
+
+export interface SyncQueueState {
+  cursor: number; // last server seq seen
+  queue: SyncMutation[];
+  categories?: SyncedCategories; // changed here and not pushed yet
+  lastSyncedAt: number | null;
+}
+
+export interface SyncQueueStore {
+  load: () => SyncQueueState | null;
+  save: (state: SyncQueueState) => void;
+}
+
+export interface SyncEngine {
+  // Queue the edits that turn `previous` into `next`
+  record: (previous: Reminder[], next: Reminder[]) => void;
+  // Queue the user's categories as changed at `at`; 0 offers them without
+  // replacing any the account already has
+  recordCategories: (categories: Category[], at?: number) => void;
+  sync: () => Promise<void>;
+  getSnapshot: () => SyncSnapshot;
+}
+
+interface SyncEngineOptions {
+  transport: SyncTransport;
+  store: SyncQueueStore;
+  clock: Pick<Clock, 'now'>;
+  // Server changes to apply locally
+  onRemoteChange: (change: RepositoryChange) => void;
+  onRemoteCategories: (categories: Category[]) => void;
+  onStatus: (snapshot: SyncSnapshot) => void;
+}
+
+// Network failures (as opposed to the server refusing) leave the queue for later
+export class SyncOfflineError extends Error {
+  constructor() {
+    super('Sync server unreachable');
+    this.name = 'SyncOfflineError';
+  }
+}
+
+const generateMid = () => Math.random().toString(36).slice(2, 11);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The field-level mutations for one local change.
+ */
+export const buildMutations = (previous: Reminder[], next: Reminder[], at: number): SyncMutation[] => {
+  const before = new Map(previous.map(r => [r.id, r]));
+  const { put, deleted } = diffReminders(previous, next);
+
+  const puts = put.flatMap((reminder): SyncMutation[] => {
+    const old = before.get(reminder.id) as unknown as Record<string, unknown> | undefined;
+    const current = reminder as unknown as Record<string, unknown>;
+    const set: Record<string, unknown> = {};
+    Object.keys(current).forEach(field => {
+      if (field !== 'id' && current[field] !== undefined && (!old || !sameValue(old[field], current[field]))) set[field] = current[field];
+    });
+    const unset = old ? Object.keys(old).filter(f => old[f] !== undefined && current[f] === undefined) : [];
+    if (!Object.keys(set).length && !unset.length) return [];
+    return [{ mid: generateMid(), id: reminder.id, at, set: set as Partial<Reminder>, ...(unset.length ? { unset } : {}) }];
+  });
+
+  return [...puts, ...deleted.map(id => ({ mid: generateMid(), id, at, delete: true }))];
+};
+
+// Queued edits win over what the server sent until they have been pushed
+const overlayPending = (reminder: Reminder | null, pending: SyncMutation[]): Reminder | null => {
+  if (!pending.length) return reminder;
+  return pending.reduce<Reminder | null>((current, m) => {
+    if (m.delete) return null;
+    const merged = { ...(current || {}), ...m.set, id: m.id } as Record<string, unknown>;
+    (m.unset || []).forEach(f => delete merged[f]);
+    return merged as unknown as Reminder;
+  }, reminder);
+};
+
+export const createSyncEngine = ({ transport, store, clock, onRemoteChange, onRemoteCategories, onStatus }: SyncEngineOptions): SyncEngine => {
+  let status: SyncStatus = 'idle';
+  let error: string | undefined;
+  let running: Promise<void> | null = null;
+  let again = false;
+
+  // Always read through the store: other tabs share the same queue
+  const load = (): SyncQueueState => store.load() || { cursor: 0, queue: [], lastSyncedAt: null };
+  const snapshot = (): SyncSnapshot => {
+    const state = load();
+    return { status, pending: state.queue.length + (state.categories ? 1 : 0), lastSyncedAt: state.lastSyncedAt, error };
+  };
+  const setStatus = (next: SyncStatus, message?: string) => {
+    status = next;
+    error = message;
+    onStatus(snapshot());
+  };
+
+  const applyRecords = (records: SyncRecord[]) => {
+    const queue = load().queue;
+    const put: Reminder[] = [];
+    const deleted: string[] = [];
+    records.forEach(record => {
+      const reminder = overlayPending(record.reminder, queue.filter(m => m.id === record.id));
+      if (!reminder) {
+        deleted.push(record.id);
+        return;
+      }
+      // Other devices may still write an older shape
+      const [upgraded] = migrateReminders([reminder], SYNC_BASE_VERSION).reminders;
+      if (upgraded) put.push(upgraded);
+      else console.warn(`Ignoring invalid reminder ${record.id} from the sync server`);
+    });
+    if (put.length || deleted.length) onRemoteChange({ put, deleted });
+  };
+
+  // A local change still to push wins over the server's list
+  const applyCategories = (synced?: SyncedCategories) => {
+    if (synced && !load().categories) onRemoteCategories(synced.categories);
+  };
+
+  const run = async () => {
+    setStatus('syncing');
+    try {
+      // Edits the server refused stay reverted; the reason is shown until the next run
+      let refusal: string | undefined;
+      const { queue: pushed, categories } = load();
+      if (pushed.length || categories) {
+        const response = await transport.push(pushed, categories);
+        const sent = new Set(pushed.map(m => m.mid));
+        const state = load();
+        const changedSince = state.categories && state.categories.at !== categories?.at;
+        store.save({ ...state, queue: state.queue.filter(m => !sent.has(m.mid)), categories: changedSince ? state.categories : undefined });
+        applyRecords(response.records);
+        applyCategories(response.categories);
+        refusal = response.refused?.[0]?.reason;
+      }
+
+      const { cursor } = load();
+      const response = await transport.pull(cursor);
+      applyRecords(response.records);
+      applyCategories(response.categories);
+      store.save({ ...load(), cursor: response.seq, lastSyncedAt: clock.now() });
+      if (refusal) setStatus('error', refusal);
+      else setStatus('idle');
+    } catch (e) {
+      if (e instanceof SyncOfflineError) setStatus('offline');
+      else setStatus('error', (e as Error).message);
+    }
+  };
+
+  const sync = (): Promise<void> => {
+    if (running) {
+      // Changes made during a run go out in one more pass
+      again = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        again = false;
+        await run();
+      } while (again && status === 'idle');
+      running = null;
+    })();
+    return running;
+  };
+
+  return {
+    record: (previous, next) => {
+      const mutations = buildMutations(previous, next, clock.now());
+      if (!mutations.length) return;
+      const state = load();
+      store.save({ ...state, queue: [...state.queue, ...mutations] });
+      onStatus(snapshot());
+    },
+    recordCategories: (categories, at = clock.now()) => {
+      store.save({ ...load(), categories: { categories, at } });
+      onStatus(snapshot());
+    },
+    sync,
+    getSnapshot: snapshot,
+  };
+};
+
+/**
+ * Transport to the local server's /api/sync, authenticated with a session token.
+ */
+export const createHttpTransport = (token: string, baseUrl: string = '/api/sync'): SyncTransport => {
+  const request = async (query: string, init: RequestInit = {}): Promise<SyncResponse> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${query}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      });
+    } catch {
+      throw new SyncOfflineError();
+    }
+    const body = await response.json().catch(() => null);
+    // The dev proxy answers with an empty 5xx when the server isn't running
+    if (!body && response.status >= 500) throw new SyncOfflineError();
+    if (!response.ok) throw new Error(body?.error || `Sync failed (${response.status})`);
+    return body as SyncResponse;
+  };
+
+  return {
+    push: (mutations, categories) => request('', { method: 'POST', body: JSON.stringify({ mutations, categories }) }),
+    pull: (since) => request(`?since=${since}`),
+  };
+};
+
+/**
+ * Queue and cursor in localStorage, one entry per account.
+ */
+export const localSyncQueueStore = (accountId: string): SyncQueueStore => {
+  const key = `memento_sync_${accountId}`;
+  return {
+    load: () => {
+      try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) : null;
+      } catch {
+        return null;
+      }
+    },
+    save: (state) => localStorage.setItem(key, JSON.stringify(state)),
+  };
+};
@@ -0,0 +1,175 @@
+import { Reminder } from '../types';
+
+// Wall-clock time in IANA time zones.
+//
+// A reminder with a `timeZone` follows that zone's clock: its dates are stored
+// as UTC instants, and a recurring 9:00 stays at 9:00 there across DST. A
+// reminder without one is floating: its dates are stored as local date-times
+// without an offset ("2026-03-08T09:00:00.000"), which `new Date()` reads in
+// the viewer's zone, so it rings at 9:00 wherever the user is.
+//
+// Calendar arithmetic happens on "wall" dates: Date objects whose UTC fields
+// hold the wall-clock time, so the device's own DST rules never get involved.
+
+export interface ZoneCalendar {
+  toWall: (instant: Date) => Date;
+  // Nonexistent times (in a spring-forward gap) move forward by the gap;
+  // ambiguous ones (fall-back) take the earlier instant, as RFC 5545 asks
+  fromWall: (wall: Date) => Date;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const deviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Every zone the runtime knows, for pickers
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [deviceTimeZone(), 'UTC'];
+};
+
+// Milliseconds the zone's clock is ahead of UTC at `instant`
+const offsetAt = (instant: number, timeZone: string): number => {
+  const seconds = Math.floor(instant / 1000) * 1000;
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(seconds).forEach(p => { if (p.type !== 'literal') parts[p.type] = +p.value; });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - seconds;
+};
+
+const localCalendar: ZoneCalendar = {
+  toWall: (d) => new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds())),
+  // The Date constructor already resolves gaps and overlaps the RFC 5545 way
+  fromWall: (w) => new Date(w.getUTCFullYear(), w.getUTCMonth(), w.getUTCDate(), w.getUTCHours(), w.getUTCMinutes(), w.getUTCSeconds(), w.getUTCMilliseconds()),
+};
+
+const calendars = new Map<string, ZoneCalendar>();
+
+/**
+ * Conversions between instants and wall-clock time in `timeZone`, or in the
+ * viewer's zone when it is undefined.
+ */
+export const zoneCalendar = (timeZone?: string): ZoneCalendar => {
+  if (!timeZone) return localCalendar;
+  let calendar = calendars.get(timeZone);
+  if (calendar) return calendar;
+
+  calendar = {
+    toWall: (d) => new Date(d.getTime() + offsetAt(d.getTime(), timeZone)),
+    fromWall: (w) => {
+      const wall = w.getTime();
+      // The offsets in force half a day either side; transitions are further apart
+      const before = offsetAt(wall - 12 * HOUR, timeZone);
+      const after = offsetAt(wall + 12 * HOUR, timeZone);
+      const candidates = [wall - before, wall - after].filter(t => t + offsetAt(t, timeZone) === wall);
+      // No candidate: the time falls in a gap and is read with the offset before it
+      return new Date(candidates.length ? Math.min(...candidates) : wall - before);
+    },
+  };
+  calendars.set(timeZone, calendar);
+  return calendar;
+};
+
+export const reminderCalendar = (reminder: Pick<Reminder, 'timeZone'>): ZoneCalendar => zoneCalendar(reminder.timeZone);
+
+const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+
+// "YYYY-MM-DDTHH:mm:ss.sss" of a wall date
+const formatWall = (w: Date) =>
+  `${pad(w.getUTCFullYear(), 4)}-${pad(w.getUTCMonth() + 1)}-${pad(w.getUTCDate())}` +
+  `T${pad(w.getUTCHours())}:${pad(w.getUTCMinutes())}:${pad(w.getUTCSeconds())}.${pad(w.getUTCMilliseconds(), 3)}`;
+
+/**
+ * How a date of `reminder` is stored: an ISO instant for zoned reminders, a
+ * local date-time without offset for floating ones.
+ */
+export const formatReminderDate = (reminder: Pick<Reminder, 'timeZone'>, date: Date): string =>
+  reminder.timeZone ? date.toISOString() : formatWall(localCalendar.toWall(date));
+
+/**
+ * Restate every stored date of a reminder for a new zone (or floating), keeping
+ * their wall-clock times: 9:00 in New York becomes 9:00 in Berlin.
+ */
+export const changeTimeZone = <T extends Pick<Reminder, 'timeZone' | 'date' | 'exDates' | 'overrides' | 'completions' | 'rrule'>>(
+  reminder: T, timeZone: string | undefined
+): T => {
+  if (reminder.timeZone === timeZone) return reminder;
+  const from = reminderCalendar(reminder);
+  const to = zoneCalendar(timeZone);
+  const target = { timeZone };
+  const convert = (stored: string) => formatReminderDate(target, to.fromWall(from.toWall(new Date(stored))));
+
+  return {
+    ...reminder,
+    timeZone,
+    date: convert(reminder.date),
+    rrule: reminder.rrule?.until ? { ...reminder.rrule, until: convert(reminder.rrule.until) } : reminder.rrule,
+    exDates: reminder.exDates?.map(convert),
+    overrides: reminder.overrides?.map(o => ({ ...o, originalDate: convert(o.originalDate), ...(o.date ? { date: convert(o.date) } : {}) })),
+    completions: reminder.completions?.map(c => ({ ...c, occurrenceDate: convert(c.occurrenceDate) })),
+  };
+};
+
+/**
+ * The "YYYY-MM-DD" and "HH:mm" a date shows on the clock of `timeZone` (the
+ * viewer's when undefined), for date and time inputs.
+ */
+export const toWallInputs = (date: Date, timeZone?: string): { date: string; time: string } => {
+  const wall = formatWall(zoneCalendar(timeZone).toWall(date));
+  return { date: wall.slice(0, 10), time: wall.slice(11, 16) };
+};
+
+/**
+ * The instant of a wall-clock date and time ("HH:mm" or "HH:mm:ss.sss") in `timeZone`.
+ */
+export const fromWallInputs = (date: string, time: string, timeZone?: string): Date => {
+  const [y, mo, d] = date.split('-').map(Number);
+  const [h, mi, s = '0'] = time.split(':');
+  const wall = new Date(Date.UTC(y, mo - 1, d, +h, +mi, 0, Math.round(parseFloat(s) * 1000)));
+  return zoneCalendar(timeZone).fromWall(wall);
+};
+
+/**
+ * Short name of the zone at `date`, e.g. "EST" or "GMT+2".
+ */
+export const timeZoneAbbreviation = (timeZone: string, date: Date = new Date()): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date).find(p => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+};
+
+/**
+ * Whether `timeZone`'s clock reads differently from the viewer's at `date`,
+ * i.e. whether its own time is worth showing next to the local one.
+ */
+export const differsFromViewer = (timeZone: string | undefined, date: Date): boolean =>
+  !!timeZone && offsetAt(date.getTime(), timeZone) !== -date.getTimezoneOffset() * MINUTE;
+
+/**
+ * "09:00 EST": the time of `date` on the clock of `timeZone`.
+ */
+export const formatZonedTime = (date: Date, timeZone: string): string =>
+  `${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })} ${timeZoneAbbreviation(timeZone, date)}`;
@@ -0,0 +1,39 @@
+import { Reminder, CommunicationMethod } from '../types';
+import { Clock } from '../server/clock';
+
+// Fixtures shared by the test files. Tests change what they care about
+// through `patch` and leave the rest alone.
+
+// Monday March 2nd 2026, 10:00 in Berlin
+export const NOW = Date.parse('2026-03-02T09:00:00Z');
+
+// A one-off reminder an hour after NOW, with one notification when due
+export const reminder = (id = 'r1', patch: Partial<Reminder> = {}): Reminder => ({
+  id,
+  userId: 'ann',
+  title: `Reminder ${id}`,
+  description: '',
+  date: '2026-03-02T10:00:00.000Z',
+  timeZone: 'Europe/Berlin',
+  category: 'personal',
+  alerts: [{ id: 'a0', offsetMinutes: 0, method: CommunicationMethod.Notification }],
+  completed: false,
+  createdAt: 1,
+  ...patch,
+});
+
+// Mondays and Thursdays at 09:00 in Berlin, from Monday March 2nd 2026
+export const series = (patch: Partial<Reminder> = {}): Reminder => reminder('gym', {
+  title: 'Gym',
+  date: '2026-03-02T08:00:00.000Z',
+  rrule: { freq: 'WEEKLY', interval: 1, byDay: [{ day: 'MO' }, { day: 'TH' }] },
+  category: 'health',
+  ...patch,
+});
+
+// A server clock that only moves when advanced; its timers never fire
+export const createStillClock = (start = NOW) => {
+  let now = start;
+  const clock: Clock = { now: () => now, setTimeout: () => null, clearTimeout: () => undefined };
+  return { clock, advance: (ms: number) => { now += ms; } };
+};
@@ -1,11 +1,3 @@
-export enum ReminderType {
-  Standard = 'Standard',
-  Urgent = 'Urgent',
-  Meeting = 'Meeting',
-  Health = 'Health',
-  Idea = 'Idea'
-}
-
 export enum RecurrenceType {
   None = 'None',
   Daily = 'Daily',
@@ -21,38 +13,228 @@ export enum CommunicationMethod {
   Call = 'Phone Call'
 }
 
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// BYDAY entry, optionally with an ordinal: { day: 'FR', n: -1 } is "last Friday"
+export interface WeekdayNum {
+  day: Weekday;
+  n?: number;
+}
+
+// Subset of an RFC 5545 RRULE; DTSTART is the reminder's `date`
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[]; // 1..31 or -1..-31 (from month end)
+  bySetPos?: number[];   // 1-based, negative counts from the end of the period
+  until?: string;        // ISO String, inclusive
+  count?: number;
+}
+
+// Replacement values for one instance of a series (RECURRENCE-ID style)
+export interface OccurrenceOverride {
+  originalDate: string; // ISO String of the instance as generated by the rule
+  date?: string;        // rescheduled start
+  title?: string;
+  description?: string;
+  category?: string;
+}
+
+// Colors and icons a category can take; see services/categoryService for how they look
+export type CategoryColor =
+  | 'graphite' | 'slate' | 'ash' | 'mist' | 'cloud' | 'red' | 'amber' | 'green' | 'teal' | 'blue' | 'violet' | 'pink';
+
+export type CategoryIcon =
+  | 'tag' | 'alert' | 'users' | 'heart' | 'lightbulb' | 'briefcase' | 'home' | 'cart' | 'book' | 'star' | 'plane' | 'dumbbell';
+
+// A user-defined kind of reminder
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+}
+
+// A heads-up before (or at) a reminder's time, through one channel
+export interface ReminderAlert {
+  id: string;            // unique within the reminder; part of delivery keys
+  offsetMinutes: number; // how long before the reminder's time; 0 is at the time
+  method: CommunicationMethod;
+  contactInfo?: string;  // email address or phone number for Email, SMS and Phone Call
+}
+
+// One ticked-off instance of a recurring reminder
+export interface CompletionRecord {
+  occurrenceDate: string; // ISO String, the instance's originalDate
+  completedAt: number;
+}
+
 export interface Reminder {
   id: string;
   userId: string;
   title: string;
   description: string;
-  date: string; // ISO String
-  type: ReminderType;
-  recurrence: RecurrenceType;
-  method: CommunicationMethod;
-  completed: boolean;
+  date: string; // ISO String; a local date-time without offset when floating
+  timeZone?: string; // IANA zone the wall-clock time belongs to; absent for floating reminders
+  category: string; // id of one of the user's categories
+  tags?: string[];  // lowercase, without the leading #
+  rrule?: RecurrenceRule; // absent for one-off reminders
+  exDates?: string[];     // ISO Strings of skipped instances
+  overrides?: OccurrenceOverride[];
+  alerts: ReminderAlert[]; // empty for a reminder that only shows in the app
+  completed: boolean; // one-off done, or the whole series closed
+  completions?: CompletionRecord[]; // per-instance history of recurring reminders
   createdAt: number;
-  
-  // New features
+  icalUid?: string; // UID of the iCalendar component it was imported from
+}
+
+// Reminder fields the editor produces; identity and ownership are assigned by App
+export type ReminderDraft = Omit<Reminder, 'id' | 'createdAt' | 'userId'>;
+
+// Which part of a series an edit, delete or completion applies to
+export type OccurrenceScope = 'this' | 'following' | 'all';
+
+// The single delivery method alerts replaced, only read when migrating stored data
+export interface LegacyDeliveryFields {
+  method?: CommunicationMethod;
+  contactInfo?: string;
+}
+
+// The fixed reminder type categories replaced, only read when migrating stored data
+export interface LegacyTypeFields {
+  type?: string; // 'Standard' | 'Urgent' | 'Meeting' | 'Health' | 'Idea'
+}
+
+// Pre-RRULE recurrence fields, only read when migrating stored data
+export interface LegacyRecurrenceFields {
+  recurrence?: RecurrenceType;
   recurrenceEndMode?: 'never' | 'date' | 'count';
   recurrenceEndValue?: string | number;
-  contactInfo?: string;
 }
 
+export type PlanId = 'guest' | 'free' | 'plus';
+
 export interface User {
   id: string;
   isTemp: boolean;
   name: string;
+  plan?: PlanId; // accounts only; see services/planService
+  timeZone?: string; // default for new reminders; the device's zone when absent
+  categories?: Category[]; // the default categories when absent
+}
+
+// A function the assistant model asked the app to run
+export interface AssistantToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  signature?: string; // opaque model state to send back with the call (Gemini's thought signature)
+}
+
+export interface AssistantToolResult {
+  callId: string;
+  name: string;
+  result: Record<string, unknown>; // `error` set when the call failed or was declined
 }
 
+// Why an AI request failed, as far as the app needs to tell users
+export type AiErrorKind = 'auth' | 'quota' | 'network' | 'safety' | 'invalid';
+
+// Body of POST /api/ai/generate: one model request, sent on with the server's key
+export interface AiProxyRequest {
+  instructions?: string;
+  messages: ChatMessage[];
+  tools?: { name: string; description: string; parameters: Record<string, unknown> }[];
+  json?: boolean;
+}
+
+// One line of the proxy's NDJSON answer: pieces of text, then the reply or an error
+export type AiProxyEvent =
+  | { text: string }
+  | { reply: { text: string; toolCalls: AssistantToolCall[] } }
+  | { error: { kind: AiErrorKind; message?: string } };
+
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'model';
+  role: 'user' | 'model' | 'tool';
   text: string;
   timestamp: number;
+  toolCalls?: AssistantToolCall[];     // model turns that ask for tools
+  toolResults?: AssistantToolResult[]; // tool turns answering them
 }
 
+// One occurrence placed on the swimlane timeline; `date` is the occurrence's own
 export interface D3Node extends Reminder {
   x?: number;
   y?: number;
-}
\ No newline at end of file
+  originalDate?: Date; // identifies the instance within its series
+}
+
+// A concrete instance of a (possibly recurring) reminder
+export interface Occurrence {
+  reminder: Reminder; // overridden fields already merged in
+  date: Date;
+  originalDate: Date; // identifies the instance within its series
+}
+
+// Email / SMS / Phone Call delivery of one alert of an occurrence, handled by the local server
+export interface DeliveryRequest {
+  key: string; // alert key, unique per alert of each instance
+  reminderId: string;
+  method: CommunicationMethod;
+  to: string;
+  title: string;
+  body: string;
+  sendAt: number;
+  dueAt?: number; // when the occurrence itself is; sendAt when absent
+}
+
+export interface DeliveryLogEntry {
+  key: string;
+  reminderId: string;
+  method: CommunicationMethod;
+  to: string;
+  channel: string;
+  attempt: number;
+  at: number;
+  status: 'sent' | 'retrying' | 'failed';
+  detail?: string;
+}
+
+// --- Sync ---
+
+// One local edit, replayed to the sync server. Each field it sets or unsets is
+// stamped with `at`; the server keeps the latest write per field.
+export interface SyncMutation {
+  mid: string; // identifies the queued mutation
+  id: string;  // reminder id
+  at: number;
+  set?: Partial<Reminder>;
+  unset?: string[];
+  delete?: boolean;
+}
+
+// The user's categories, synced as one field of the account: the latest list wins
+export interface SyncedCategories {
+  categories: Category[];
+  at: number;
+}
+
+// Server state of one reminder; `reminder` is null once it has been deleted
+export interface SyncRecord {
+  id: string;
+  reminder: Reminder | null;
+  seq: number;
+}
+
+export interface SyncResponse {
+  records: SyncRecord[];
+  seq: number; // cursor for the next pull
+  // Mutations the server did not apply, e.g. over the plan's limits; their
+  // records come back as the server has them so the client can revert
+  refused?: { id: string; reason: string }[];
+  categories?: SyncedCategories; // the account's, once any device has sent them
+}
@@ -8,12 +8,13 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Local backend (npm run server)
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
+      // GEMINI_API_KEY is read by the server only; the app goes through /api/ai
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),